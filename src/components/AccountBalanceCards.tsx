@@ -2,6 +2,7 @@ import { Building2, CreditCard, Wallet } from 'lucide-react';
 import { BankAccount } from '@/hooks/useBankAccounts';
 import { Transaction } from '@/lib/types';
 import { formatCurrency } from '@/lib/formatters';
+import { getSignedAmount } from '@/lib/transfers';
 import { useMemo } from 'react';
 import { ContextualHint, HINTS } from '@/components/ContextualHint';
 
@@ -27,9 +28,8 @@ export function AccountBalanceCards({
         t => t.bank_account_id === account.id
       );
       
-      const transactionBalance = accountTransactions.reduce((sum, t) => {
-        return t.type === 'income' ? sum + t.amount : sum - t.amount;
-      }, 0);
+      // Transfers move money between accounts, so they count here too
+      const transactionBalance = accountTransactions.reduce((sum, t) => sum + getSignedAmount(t), 0);
       
       const totalBalance = (account.opening_balance || 0) + transactionBalance;
       
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { BellRing, Check, ChevronDown, LogOut, Medal, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { System } from '@/lib/types';
+import { getTodayKey, parseDateKey } from '@/lib/taskDates';
+import { isHabitDoneOn, isHabitExcusedOn, isHabitScheduledOn } from '@/lib/habitSchedule';
+import { AccountabilityGroup, PartnerInvite, getActiveHabits, getLeaderboard } from '@/lib/accountability';
+import { useAuth } from '@/hooks/useAuth';
+import { useAccountability } from '@/hooks/useAccountability';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+
+interface AccountabilityPanelProps {
+  accountability: ReturnType<typeof useAccountability>;
+  // The user's own active goals
+  systems: System[];
+  weekDates: string[];
+  // Joining can copy a goal into the user's account, which then needs reloading
+  onJoined: () => void;
+}
+
+// Invites waiting on the user, and a weekly leaderboard for each group they're in
+export function AccountabilityPanel({ accountability, systems, weekDates, onJoined }: AccountabilityPanelProps) {
+  const { groups, invites, sharedSystems, acceptInvite, declineInvite, leaveGroup, sendNudge } = accountability;
+  if (groups.length === 0 && invites.length === 0) return null;
+
+  const allSystems = [...systems, ...sharedSystems];
+
+  return (
+    <div className="bg-card rounded-xl shadow-soft p-3 md:p-4 space-y-3">
+      <h4 className="font-bold text-card-foreground text-sm md:text-base flex items-center gap-2">
+        <Users size={16} className="text-primary" />
+        Accountability
+      </h4>
+
+      {invites.map(invite => (
+        <InviteRow
+          key={invite.id}
+          invite={invite}
+          systems={systems}
+          onAccept={async (systemId) => {
+            if (await acceptInvite(invite.id, systemId)) onJoined();
+          }}
+          onDecline={() => declineInvite(invite.id)}
+        />
+      ))}
+
+      {groups.map(group => (
+        <GroupCard
+          key={group.id}
+          group={group}
+          systems={allSystems}
+          weekDates={weekDates}
+          onLeave={() => leaveGroup(group.id)}
+          onNudge={(userId, name) => sendNudge(group.id, userId, name)}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface InviteRowProps {
+  invite: PartnerInvite;
+  systems: System[];
+  onAccept: (systemId: string | null) => Promise<void>;
+  onDecline: () => void;
+}
+
+const COPY_GOAL = 'copy';
+
+function InviteRow({ invite, systems, onAccept, onDecline }: InviteRowProps) {
+  // Which of the user's goals to join with, or a copy of the owner's
+  const [choice, setChoice] = useState(COPY_GOAL);
+  const [joining, setJoining] = useState(false);
+
+  const handleAccept = async () => {
+    setJoining(true);
+    await onAccept(choice === COPY_GOAL ? null : choice);
+    setJoining(false);
+  };
+
+  return (
+    <div className="bg-primary/5 border border-primary/20 rounded-lg p-2.5 md:p-3 space-y-2">
+      <p className="text-xs md:text-sm text-card-foreground">
+        <span className="font-medium">{invite.ownerName}</span> invited you to be accountability partners on{' '}
+        <span className="font-medium">"{invite.goal}"</span>
+      </p>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={choice} onValueChange={setChoice}>
+          <SelectTrigger className="h-8 text-xs sm:flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={COPY_GOAL}>Join with a copy of this goal</SelectItem>
+            {systems.map(system => (
+              <SelectItem key={system.id} value={String(system.id)}>Join with "{system.goal}"</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Button size="sm" className="h-8 flex-1" onClick={handleAccept} disabled={joining}>Accept</Button>
+          <Button size="sm" variant="outline" className="h-8 flex-1" onClick={onDecline} disabled={joining}>Decline</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface GroupCardProps {
+  group: AccountabilityGroup;
+  systems: System[];
+  weekDates: string[];
+  onLeave: () => void;
+  onNudge: (userId: string, name: string) => void;
+}
+
+function GroupCard({ group, systems, weekDates, onLeave, onNudge }: GroupCardProps) {
+  const { user } = useAuth();
+  const [showCheckIns, setShowCheckIns] = useState(false);
+  const leaderboard = getLeaderboard(group, systems, weekDates);
+  const isOwner = group.members.some(m => m.isOwner && m.userId === user?.id);
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-2.5 md:p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-card-foreground truncate">{group.goal}</p>
+        {!isOwner && (
+          <button
+            onClick={onLeave}
+            className="text-muted-foreground hover:text-destructive p-1 rounded flex-shrink-0"
+            title="Leave group"
+          >
+            <LogOut size={14} />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        {leaderboard.map((entry, index) => {
+          const isMe = entry.member.userId === user?.id;
+          return (
+            <div key={entry.member.userId} className="flex items-center gap-2">
+              <span className="w-5 flex justify-center flex-shrink-0">
+                {index === 0 && entry.completed > 0
+                  ? <Medal size={14} className="text-warning" />
+                  : <span className="text-xs font-bold text-muted-foreground">{index + 1}</span>}
+              </span>
+              <span className={`w-24 md:w-32 text-xs truncate ${isMe ? 'font-bold text-primary' : 'text-card-foreground'}`}>
+                {isMe ? 'You' : entry.member.displayName}
+              </span>
+              <Progress value={entry.rate} className="h-1.5 flex-1" />
+              <span className="w-16 text-right text-[10px] md:text-xs text-muted-foreground flex-shrink-0">
+                {entry.completed}/{entry.total} · {entry.rate}%
+              </span>
+              {isMe ? (
+                <span className="w-6 flex-shrink-0" />
+              ) : (
+                <button
+                  onClick={() => onNudge(entry.member.userId, entry.member.displayName)}
+                  className="text-muted-foreground hover:text-primary p-1 rounded flex-shrink-0"
+                  title={`Nudge ${entry.member.displayName}`}
+                >
+                  <BellRing size={12} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Collapsible open={showCheckIns} onOpenChange={setShowCheckIns}>
+        <CollapsibleTrigger asChild>
+          <button className="text-[10px] md:text-xs text-muted-foreground hover:text-primary flex items-center gap-1">
+            <ChevronDown size={12} className={`transition-transform ${showCheckIns ? 'rotate-180' : ''}`} />
+            {showCheckIns ? 'Hide' : 'Show'} check-ins
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2 space-y-3">
+          {leaderboard.map(entry => (
+            <div key={entry.member.userId} className="space-y-1">
+              <p className="text-[10px] md:text-xs font-bold text-muted-foreground uppercase">
+                {entry.member.userId === user?.id ? 'You' : entry.member.displayName}
+              </p>
+              {getActiveHabits(entry.system).length === 0 ? (
+                <p className="text-[10px] text-muted-foreground">No habits yet</p>
+              ) : (
+                <CheckInGrid system={entry.system as System} weekDates={weekDates} />
+              )}
+            </div>
+          ))}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
+
+// Read-only week of check-ins for one member's habits
+function CheckInGrid({ system, weekDates }: { system: System; weekDates: string[] }) {
+  const today = getTodayKey();
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-[10px] md:text-xs">
+        <thead>
+          <tr>
+            <th />
+            {weekDates.map(date => (
+              <th key={date} className={`w-6 md:w-8 font-medium ${date === today ? 'text-primary' : 'text-muted-foreground'}`}>
+                {format(parseDateKey(date), 'EEEEE')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {getActiveHabits(system).map(habit => (
+            <tr key={habit.id}>
+              <td className="pr-2 py-0.5 text-card-foreground truncate max-w-[8rem]">{habit.name}</td>
+              {weekDates.map(date => {
+                const done = isHabitDoneOn(habit, date);
+                const excused = !done && isHabitExcusedOn(habit, date);
+                const due = isHabitScheduledOn(habit, date);
+                return (
+                  <td key={date} className="py-0.5">
+                    <span
+                      className={`mx-auto w-4 h-4 md:w-5 md:h-5 rounded flex items-center justify-center ${
+                        done
+                          ? 'bg-success text-success-foreground'
+                          : excused
+                            ? 'bg-muted-foreground/20'
+                            : due && date <= today
+                              ? 'border border-border'
+                              : ''
+                      }`}
+                    >
+                      {done && <Check size={10} />}
+                    </span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore, ChevronDown, Target, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { System } from '@/lib/types';
+import { getArchivedHabits, getArchivedSystems } from '@/lib/archive';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+
+interface ArchivedItemsProps {
+  systems: System[];
+  onRestoreSystem: (systemId: string | number) => void;
+  onRestoreHabit: (systemId: string | number, habitId: string | number) => void;
+  onDeleteSystem: (systemId: string | number) => void;
+  onDeleteHabit: (systemId: string | number, habitId: string | number) => void;
+}
+
+const archivedOn = (archivedAt?: string | null) =>
+  archivedAt ? `Archived ${format(new Date(archivedAt), 'MMM d, yyyy')}` : '';
+
+// Archived goals and habits keep their full history and can be brought back
+export function ArchivedItems({ systems, onRestoreSystem, onRestoreHabit, onDeleteSystem, onDeleteHabit }: ArchivedItemsProps) {
+  const [open, setOpen] = useState(false);
+  const archivedSystems = getArchivedSystems(systems);
+  const archivedHabits = getArchivedHabits(systems);
+  const count = archivedSystems.length + archivedHabits.length;
+
+  if (count === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="bg-card rounded-xl shadow-soft overflow-hidden">
+        <CollapsibleTrigger asChild>
+          <button className="w-full flex items-center gap-2 p-3 md:p-4 text-left hover:bg-muted/50 transition-colors">
+            <ChevronDown size={18} className={`text-muted-foreground transition-transform duration-200 ${open ? 'rotate-180' : ''}`} />
+            <Archive size={16} className="text-muted-foreground" />
+            <span className="font-bold text-card-foreground text-sm md:text-base">Archived</span>
+            <span className="text-xs text-muted-foreground">({count})</span>
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="border-t border-border/50 p-3 md:p-4 space-y-4">
+            {archivedSystems.length > 0 && (
+              <div className="space-y-1.5">
+                <h5 className="text-[10px] md:text-xs text-muted-foreground font-bold uppercase">Goals</h5>
+                {archivedSystems.map(system => (
+                  <ArchivedRow
+                    key={system.id}
+                    title={system.goal}
+                    detail={`${system.habits.length} habit${system.habits.length === 1 ? '' : 's'} · ${archivedOn(system.archivedAt)}`}
+                    icon={<Target size={14} className="text-primary flex-shrink-0" />}
+                    onRestore={() => onRestoreSystem(system.id)}
+                    onDelete={() => onDeleteSystem(system.id)}
+                  />
+                ))}
+              </div>
+            )}
+            {archivedHabits.length > 0 && (
+              <div className="space-y-1.5">
+                <h5 className="text-[10px] md:text-xs text-muted-foreground font-bold uppercase">Habits</h5>
+                {archivedHabits.map(({ habit, system }) => (
+                  <ArchivedRow
+                    key={habit.id}
+                    title={habit.name}
+                    detail={`${system.goal} · ${archivedOn(habit.archivedAt)}`}
+                    onRestore={() => onRestoreHabit(system.id, habit.id)}
+                    onDelete={() => onDeleteHabit(system.id, habit.id)}
+                  />
+                ))}
+              </div>
+            )}
+            <p className="text-[10px] md:text-xs text-muted-foreground">
+              Restoring brings back the full history. The archived days don't count as missed.
+            </p>
+          </div>
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
+
+interface ArchivedRowProps {
+  title: string;
+  detail: string;
+  icon?: React.ReactNode;
+  onRestore: () => void;
+  onDelete: () => void;
+}
+
+function ArchivedRow({ title, detail, icon, onRestore, onDelete }: ArchivedRowProps) {
+  return (
+    <div className="flex items-center gap-2 bg-muted/50 rounded-lg p-2 md:p-2.5">
+      {icon}
+      <div className="flex-1 min-w-0">
+        <p className="text-xs md:text-sm text-card-foreground truncate">{title}</p>
+        <p className="text-[10px] text-muted-foreground truncate">{detail}</p>
+      </div>
+      <button
+        onClick={onRestore}
+        className="text-primary hover:bg-primary/10 px-2 py-1 rounded text-xs font-bold border border-primary/20 flex items-center gap-1 flex-shrink-0"
+      >
+        <ArchiveRestore size={12} /> Restore
+      </button>
+      <button
+        onClick={onDelete}
+        className="text-destructive/60 hover:bg-destructive/10 p-1.5 rounded flex-shrink-0"
+        title="Delete for good"
+      >
+        <Trash2 size={12} />
+      </button>
+    </div>
+  );
+}
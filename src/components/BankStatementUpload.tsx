@@ -1,42 +1,83 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { Modal } from '@/components/Modal';
 import { Button } from '@/components/ui/button';
 import { 
   Upload, FileText, Loader2, Check, AlertTriangle, 
   ChevronDown, ChevronUp, Building2
 } from 'lucide-react';
+import { StatementColumnMapping } from '@/components/StatementColumnMapping';
 import { BankAccount } from '@/hooks/useBankAccounts';
+import { useEntitlements } from '@/hooks/useEntitlements';
 import { formatCurrency } from '@/lib/formatters';
+import { Transaction } from '@/lib/types';
+import {
+  StatementFormat,
+  StatementMapping,
+  StatementParseResult,
+  StatementRowError,
+  StatementTransaction,
+  detectStatementFormat,
+  guessQifMapping,
+  guessStatementMapping,
+  isMappingUsable,
+  loadStatementMapping,
+  markDuplicates,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+  saveStatementMapping,
+} from '@/lib/statementImport';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 
-interface ParsedTransaction {
-  date: string;
-  amount: number;
-  type: 'income' | 'expense';
-  description: string;
-  category?: string;
-  isDuplicate?: boolean;
-}
-
 interface BankStatementUploadProps {
   isOpen: boolean;
   onClose: () => void;
   accounts: BankAccount[];
+  // Existing records, to spot rows that were already imported
+  transactions: Transaction[];
   currency: string;
-  onImport: (transactions: ParsedTransaction[], accountId: string) => Promise<void>;
+  onImport: (transactions: StatementTransaction[], accountId: string) => Promise<void>;
+}
+
+// A CSV, OFX or QIF file read on the device
+interface LocalStatement {
+  format: StatementFormat;
+  text: string;
+  rows: { cells: string[]; line: number }[];
+}
+
+const LOCAL_EXTENSIONS = ['csv', 'txt', 'ofx', 'qfx', 'qif'];
+const AI_EXTENSIONS = ['xls', 'xlsx', 'pdf'];
+const SHOWN_ERRORS = 20;
+
+function parseLocalStatement(statement: LocalStatement, mapping: StatementMapping): StatementParseResult {
+  switch (statement.format) {
+    case 'ofx':
+      return parseOfxStatement(statement.text);
+    case 'qif':
+      return parseQifStatement(statement.text, mapping);
+    default:
+      return parseCsvStatement(statement.rows, mapping);
+  }
 }
 
 export function BankStatementUpload({
   isOpen,
   onClose,
   accounts,
+  transactions,
   currency,
   onImport,
 }: BankStatementUploadProps) {
-  const [step, setStep] = useState<'select' | 'upload' | 'review' | 'importing'>('select');
+  const { canImportBankStatement } = useEntitlements();
+  const [step, setStep] = useState<'select' | 'upload' | 'mapping' | 'review' | 'importing'>('select');
   const [selectedAccountId, setSelectedAccountId] = useState<string>('');
-  const [parsedTransactions, setParsedTransactions] = useState<ParsedTransaction[]>([]);
+  const [parsedTransactions, setParsedTransactions] = useState<StatementTransaction[]>([]);
+  const [rowErrors, setRowErrors] = useState<StatementRowError[]>([]);
+  const [statement, setStatement] = useState<LocalStatement | null>(null);
+  const [mapping, setMapping] = useState<StatementMapping | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [showAll, setShowAll] = useState(false);
   const [duplicateCount, setDuplicateCount] = useState(0);
@@ -44,6 +85,63 @@ export function BankStatementUpload({
 
   const selectedAccount = accounts.find(a => a.id === selectedAccountId);
 
+  // Re-read as the mapping changes, so the wizard shows how many rows it can read
+  const mappingResult = useMemo(
+    () => (statement && mapping ? parseLocalStatement(statement, mapping) : null),
+    [statement, mapping]
+  );
+
+  const showReview = (result: StatementParseResult) => {
+    const marked = markDuplicates(result.transactions, transactions, selectedAccountId);
+    setParsedTransactions(marked);
+    setRowErrors(result.errors);
+    setDuplicateCount(marked.filter(t => t.isDuplicate).length);
+    setShowAll(false);
+    setStep('review');
+  };
+
+  const handleLocalFile = async (file: File) => {
+    const text = await file.text();
+    const format = detectStatementFormat(file.name, text);
+    if (!format) {
+      toast.error('Could not tell what kind of statement this is. Please upload a CSV, OFX or QIF file.');
+      return;
+    }
+
+    const rows = format === 'csv' ? parseCsv(text) : [];
+    const local = { format, text, rows };
+    const saved = selectedAccount ? loadStatementMapping(selectedAccount.bank_name, format) : null;
+    const columnCount = Math.max(0, ...rows.map(r => r.cells.length));
+    const initialMapping = saved && (format !== 'csv' || isMappingUsable(saved, columnCount))
+      ? saved
+      : format === 'qif' ? guessQifMapping(text) : guessStatementMapping(rows.map(r => r.cells));
+
+    setStatement(local);
+    setMapping(initialMapping);
+
+    // OFX files carry dates and amounts in a fixed format, so there is nothing to map
+    if (format === 'ofx') {
+      const result = parseLocalStatement(local, initialMapping);
+      if (result.transactions.length === 0) {
+        toast.error(result.errors.length > 0 ? `None of the ${result.errors.length} transactions could be read` : 'No transactions found in the statement');
+        return;
+      }
+      showReview(result);
+    } else {
+      setStep('mapping');
+    }
+  };
+
+  const handleMappingContinue = () => {
+    if (!statement || !mapping || !mappingResult) return;
+    if (mappingResult.transactions.length === 0) {
+      toast.error('No rows could be read. Check the columns and formats.');
+      return;
+    }
+    if (selectedAccount) saveStatementMapping(selectedAccount.bank_name, statement.format, mapping);
+    showReview(mappingResult);
+  };
+
   const handleAccountSelect = (accountId: string) => {
     setSelectedAccountId(accountId);
     setStep('upload');
@@ -53,24 +151,37 @@ export function BankStatementUpload({
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const allowedTypes = [
-      'text/csv',
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/pdf',
-    ];
-
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    const isAllowed = allowedTypes.includes(file.type) || 
-      ['csv', 'xls', 'xlsx', 'pdf'].includes(extension || '');
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const isLocal = LOCAL_EXTENSIONS.includes(extension) || file.type === 'text/csv';
 
-    if (!isAllowed) {
-      toast.error('Please upload a CSV, Excel, or PDF file');
+    if (!isLocal && !AI_EXTENSIONS.includes(extension)) {
+      toast.error('Please upload a CSV, OFX, QIF, Excel, or PDF file');
+      return;
+    }
+    // Excel and PDF statements go through the AI parser, which is a Pro feature
+    if (!isLocal && !canImportBankStatement) {
+      toast.error('Excel and PDF statements need Pro. Export your statement as CSV, OFX or QIF to import it for free.');
+      if (fileInputRef.current) fileInputRef.current.value = '';
       return;
     }
 
     setIsUploading(true);
 
+    if (isLocal) {
+      try {
+        await handleLocalFile(file);
+      } catch (error) {
+        console.error('Error reading statement:', error);
+        toast.error('Failed to read the statement file');
+      } finally {
+        setIsUploading(false);
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+        }
+      }
+      return;
+    }
+
     try {
       // Convert file to base64
       const base64 = await new Promise<string>((resolve, reject) => {
@@ -96,7 +207,9 @@ export function BankStatementUpload({
       if (error) throw error;
 
       if (data.transactions && data.transactions.length > 0) {
+        setStatement(null);
         setParsedTransactions(data.transactions);
+        setRowErrors(data.errors || []);
         setDuplicateCount(data.duplicateCount || 0);
         setStep('review');
       } else {
@@ -113,13 +226,16 @@ export function BankStatementUpload({
     }
   };
 
+  // Rows the account already has are left out, so importing a file twice adds nothing
+  const newTransactions = parsedTransactions.filter(t => !t.isDuplicate);
+
   const handleImport = async () => {
     setStep('importing');
     try {
-      await onImport(parsedTransactions, selectedAccountId);
+      await onImport(newTransactions, selectedAccountId);
       toast.success(
-        `Imported ${parsedTransactions.length} transactions` + 
-        (duplicateCount > 0 ? `. ${duplicateCount} duplicates updated.` : '')
+        `Imported ${newTransactions.length} transactions` + 
+        (duplicateCount > 0 ? `. ${duplicateCount} already imported were skipped.` : '')
       );
       handleClose();
     } catch (error) {
@@ -133,6 +249,9 @@ export function BankStatementUpload({
     setStep('select');
     setSelectedAccountId('');
     setParsedTransactions([]);
+    setRowErrors([]);
+    setStatement(null);
+    setMapping(null);
     setDuplicateCount(0);
     setShowAll(false);
     onClose();
@@ -142,11 +261,11 @@ export function BankStatementUpload({
     ? parsedTransactions 
     : parsedTransactions.slice(0, 10);
 
-  const totalIncome = parsedTransactions
+  const totalIncome = newTransactions
     .filter(t => t.type === 'income')
     .reduce((sum, t) => sum + t.amount, 0);
   
-  const totalExpense = parsedTransactions
+  const totalExpense = newTransactions
     .filter(t => t.type === 'expense')
     .reduce((sum, t) => sum + t.amount, 0);
 
@@ -211,14 +330,17 @@ export function BankStatementUpload({
                   <Upload className="mx-auto text-muted-foreground" size={40} />
                   <p className="font-medium">Drop your bank statement here</p>
                   <p className="text-sm text-muted-foreground">
-                    Supports PDF, CSV, Excel (XLS, XLSX)
+                    CSV, OFX and QIF are read on your device
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    PDF and Excel (XLS, XLSX) use Smart Import{canImportBankStatement ? '' : ' (Pro)'}
                   </p>
                 </div>
               )}
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv,.xls,.xlsx,.pdf"
+                accept=".csv,.txt,.ofx,.qfx,.qif,.xls,.xlsx,.pdf"
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -230,7 +352,41 @@ export function BankStatementUpload({
           </div>
         )}
 
-        {/* Step 3: Review */}
+        {/* Step 3: Column mapping (CSV and QIF) */}
+        {step === 'mapping' && statement && mapping && statement.format !== 'ofx' && (
+          <div className="space-y-4 animate-in slide-in-from-right-5">
+            <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+              <FileText size={16} className="text-primary" />
+              <span className="text-sm font-medium">{selectedAccount?.bank_name}</span>
+              <span className="text-xs text-muted-foreground ml-auto uppercase">{statement.format}</span>
+            </div>
+
+            <StatementColumnMapping
+              format={statement.format}
+              previewRows={statement.rows.slice(0, 6).map(r => r.cells)}
+              mapping={mapping}
+              onChange={setMapping}
+            />
+
+            {mappingResult && (
+              <p className={`text-xs ${mappingResult.errors.length > 0 ? 'text-warning' : 'text-muted-foreground'}`}>
+                {mappingResult.transactions.length} rows read
+                {mappingResult.errors.length > 0 && `, ${mappingResult.errors.length} can't be read`}
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={() => setStep('upload')} className="flex-1">
+                Back
+              </Button>
+              <Button onClick={handleMappingContinue} className="flex-1" disabled={!mappingResult?.transactions.length}>
+                Continue
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 4: Review */}
         {step === 'review' && (
           <div className="space-y-4 animate-in slide-in-from-right-5">
             <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
@@ -244,7 +400,24 @@ export function BankStatementUpload({
             {duplicateCount > 0 && (
               <div className="flex items-center gap-2 p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm">
                 <AlertTriangle size={16} className="text-warning" />
-                <span>{duplicateCount} duplicate transactions will be updated</span>
+                <span>{duplicateCount} already imported and will be skipped</span>
+              </div>
+            )}
+
+            {rowErrors.length > 0 && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm space-y-1">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle size={16} className="text-destructive" />
+                  <span>{rowErrors.length} {rowErrors.length === 1 ? 'row' : 'rows'} couldn't be read and will be skipped</span>
+                </div>
+                <ul className="max-h-24 overflow-y-auto text-xs text-muted-foreground space-y-0.5 pl-6">
+                  {rowErrors.slice(0, SHOWN_ERRORS).map((error, idx) => (
+                    <li key={idx}>{error.line !== null ? `Line ${error.line}: ` : ''}{error.message}</li>
+                  ))}
+                  {rowErrors.length > SHOWN_ERRORS && (
+                    <li className="italic">+{rowErrors.length - SHOWN_ERRORS} more</li>
+                  )}
+                </ul>
               </div>
             )}
 
@@ -296,18 +469,22 @@ export function BankStatementUpload({
             )}
 
             <div className="flex gap-3">
-              <Button variant="outline" onClick={() => setStep('upload')} className="flex-1">
+              <Button
+                variant="outline"
+                onClick={() => setStep(statement && statement.format !== 'ofx' ? 'mapping' : 'upload')}
+                className="flex-1"
+              >
                 Back
               </Button>
-              <Button onClick={handleImport} className="flex-1">
+              <Button onClick={handleImport} className="flex-1" disabled={newTransactions.length === 0}>
                 <Check size={16} className="mr-1" />
-                Import All
+                Import {newTransactions.length}
               </Button>
             </div>
           </div>
         )}
 
-        {/* Step 4: Importing */}
+        {/* Step 5: Importing */}
         {step === 'importing' && (
           <div className="py-8 text-center space-y-4 animate-in fade-in">
             <Loader2 className="mx-auto animate-spin text-primary" size={48} />
@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CreditCard, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Budget, BudgetPeriod } from '@/lib/types';
+import { BUDGET_PERIODS, getMonthStartKey } from '@/lib/budgets';
+import { useBankAccounts } from '@/hooks/useBankAccounts';
+
+interface BudgetModalProps {
+  mode: 'add' | 'edit';
+  initial?: Partial<Budget> | null;
+  categories: string[];
+  onSave: (budget: Omit<Budget, 'id'>) => void;
+  onClose: () => void;
+}
+
+const ALL_ACCOUNTS = 'all';
+
+export function BudgetModal({
+  mode,
+  initial,
+  categories,
+  onSave,
+  onClose
+}: BudgetModalProps) {
+  const { accounts } = useBankAccounts();
+  const expenseCategories = categories.filter(c => c !== 'Income');
+  const defaultCategory = expenseCategories[0] || '';
+  const [category, setCategory] = useState(initial?.category || defaultCategory);
+  const [amount, setAmount] = useState(initial?.amount ? String(initial.amount) : '');
+  const [period, setPeriod] = useState<BudgetPeriod>(initial?.period || 'monthly');
+  const [startDate, setStartDate] = useState(initial?.startDate || getMonthStartKey());
+  const [endDate, setEndDate] = useState(initial?.endDate || '');
+  const [rollover, setRollover] = useState(!!initial?.rollover);
+  const [bankAccountId, setBankAccountId] = useState(initial?.bankAccountId || ALL_ACCOUNTS);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setCategory(initial?.category || defaultCategory);
+    setAmount(initial?.amount ? String(initial.amount) : '');
+    setPeriod(initial?.period || 'monthly');
+    setStartDate(initial?.startDate || getMonthStartKey());
+    setEndDate(initial?.endDate || '');
+    setRollover(!!initial?.rollover);
+    setBankAccountId(initial?.bankAccountId || ALL_ACCOUNTS);
+  }, [initial, defaultCategory]);
+
+  const handleSubmit = async () => {
+    if (!category) {
+      toast.error('Please choose a category');
+      return;
+    }
+    if (!amount || parseFloat(amount) <= 0) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+    if (!startDate) {
+      toast.error('Please choose a start date');
+      return;
+    }
+    if (period === 'custom' && (!endDate || endDate < startDate)) {
+      toast.error('The end date must be on or after the start date');
+      return;
+    }
+
+    setIsSubmitting(true);
+    onSave({
+      category,
+      amount: parseFloat(amount),
+      period,
+      startDate,
+      endDate: period === 'custom' ? endDate : null,
+      rollover: period !== 'custom' && rollover,
+      bankAccountId: bankAccountId === ALL_ACCOUNTS ? null : bankAccountId,
+    });
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+          <CreditCard className="text-primary" size={24} />
+        </div>
+        <div>
+          <h3 className="font-bold text-lg">{mode === 'add' ? 'New Budget' : 'Edit Budget'}</h3>
+          <p className="text-sm text-muted-foreground">Set a spending limit for a category</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>Category</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a category" />
+            </SelectTrigger>
+            <SelectContent>
+              {[...new Set([...expenseCategories, category].filter(Boolean))].map(cat => (
+                <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="budget-amount">Limit</Label>
+          <Input
+            id="budget-amount"
+            type="number"
+            placeholder="Enter limit amount"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            min="0"
+            step="100"
+            autoFocus
+            className="text-foreground [color-scheme:light] dark:[color-scheme:dark]"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>Period</Label>
+          <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUDGET_PERIODS.map(p => (
+                <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Account</Label>
+          <Select value={bankAccountId} onValueChange={setBankAccountId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+              {accounts.map(account => (
+                <SelectItem key={account.id} value={account.id}>{account.bank_name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="budget-start">{period === 'custom' ? 'From' : 'Starts On'}</Label>
+          <Input
+            id="budget-start"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="text-foreground [color-scheme:light] dark:[color-scheme:dark]"
+          />
+        </div>
+        {period === 'custom' && (
+          <div className="space-y-2">
+            <Label htmlFor="budget-end">Until</Label>
+            <Input
+              id="budget-end"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="text-foreground [color-scheme:light] dark:[color-scheme:dark]"
+            />
+          </div>
+        )}
+      </div>
+
+      {period !== 'custom' && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-muted/50 rounded-lg">
+          <div>
+            <Label htmlFor="budget-rollover">Roll over unspent money</Label>
+            <p className="text-xs text-muted-foreground">Add what's left to the next {period === 'weekly' ? 'week' : 'month'}</p>
+          </div>
+          <Switch id="budget-rollover" checked={rollover} onCheckedChange={setRollover} />
+        </div>
+      )}
+
+      <div className="flex gap-2 pt-4">
+        <Button variant="outline" onClick={onClose} className="flex-1" disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          className="flex-1"
+          disabled={!category || !amount || parseFloat(amount) <= 0 || isSubmitting}
+        >
+          {isSubmitting ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : null}
+          {mode === 'add' ? 'Add Budget' : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -33,8 +33,8 @@ export function DailyPlanAssistant({
             </h4>
             <p className="text-sm text-muted-foreground leading-relaxed">
               Describe your day in natural language – your work tasks, errands, meetings, 
-              and energy level. AI will create a structured schedule with time blocks 
-              optimized for your productivity.
+              and energy level. AI will create a structured schedule and fit it into the 
+              free time slots of your day.
             </p>
           </div>
         </div>
@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock, Sparkles, Timer, GripVertical } from 'lucide-react';
+import { TaskOccurrence } from '@/lib/types';
+import { FocusSession } from '@/hooks/useFocusSessions';
+import {
+  DAY_START_HOUR,
+  DAY_END_HOUR,
+  DEFAULT_BLOCK_MINUTES,
+  getTaskBlocks,
+  getFocusBlocks,
+  layoutBlocks,
+  minutesToTime,
+  snapToSlot,
+  TimeBlock,
+} from '@/lib/timeBlocks';
+import { formatEstimate } from '@/lib/taskSort';
+import { Button } from '@/components/ui/button';
+
+const HOUR_HEIGHT = 56;
+const GUTTER = '3rem';
+
+interface DayTimelineProps {
+  tasks: TaskOccurrence[];
+  focusSessions: FocusSession[];
+  isToday: boolean;
+  disabled?: boolean;
+  onScheduleTask: (task: TaskOccurrence, time: string | null) => void;
+  onToggleTask: (task: TaskOccurrence) => void;
+  onPlanDay: () => void;
+}
+
+interface DragState {
+  task: TaskOccurrence;
+  // Where inside the block it was grabbed, so it doesn't jump under the pointer
+  grabOffset: number;
+}
+
+const minutesToOffset = (minutes: number) => ((minutes - DAY_START_HOUR * 60) / 60) * HOUR_HEIGHT;
+
+export function DayTimeline({
+  tasks,
+  focusSessions,
+  isToday,
+  disabled = false,
+  onScheduleTask,
+  onToggleTask,
+  onPlanDay,
+}: DayTimelineProps) {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [dropPreview, setDropPreview] = useState<number | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!isToday) return;
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, [isToday]);
+
+  const unscheduled = tasks.filter(task => !task.time);
+  const blocks = layoutBlocks([...getFocusBlocks(focusSessions), ...getTaskBlocks(tasks)]);
+  const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, i) => DAY_START_HOUR + i);
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  const getDropMinutes = (clientY: number) => {
+    const rect = gridRef.current?.getBoundingClientRect();
+    if (!rect || !dragRef.current) return null;
+    const minutes = DAY_START_HOUR * 60 + ((clientY - rect.top) / HOUR_HEIGHT) * 60 - dragRef.current.grabOffset;
+    const duration = dragRef.current.task.estimateMinutes || DEFAULT_BLOCK_MINUTES;
+    return Math.min(Math.max(snapToSlot(minutes), DAY_START_HOUR * 60), DAY_END_HOUR * 60 - duration);
+  };
+
+  const handleDragStart = (e: React.DragEvent, task: TaskOccurrence) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    dragRef.current = {
+      task,
+      grabOffset: task.time ? ((e.clientY - rect.top) / HOUR_HEIGHT) * 60 : 0,
+    };
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', String(task.id));
+  };
+
+  const handleDragEnd = () => {
+    dragRef.current = null;
+    setDropPreview(null);
+  };
+
+  const handleGridDragOver = (e: React.DragEvent) => {
+    if (!dragRef.current || disabled) return;
+    e.preventDefault();
+    setDropPreview(getDropMinutes(e.clientY));
+  };
+
+  const handleGridDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const minutes = getDropMinutes(e.clientY);
+    if (dragRef.current && minutes !== null) {
+      onScheduleTask(dragRef.current.task, minutesToTime(minutes));
+    }
+    handleDragEnd();
+  };
+
+  const handleUnscheduleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragRef.current?.task.time) onScheduleTask(dragRef.current.task, null);
+    handleDragEnd();
+  };
+
+  const renderBlock = (block: TimeBlock & { column: number; columns: number }) => {
+    const start = Math.max(block.start, DAY_START_HOUR * 60);
+    const end = Math.min(block.end, DAY_END_HOUR * 60);
+    if (end <= start) return null;
+    const isFocus = block.kind === 'focus';
+    const task = block.task;
+
+    return (
+      <div
+        key={block.id}
+        draggable={!isFocus && !disabled}
+        onDragStart={task ? (e) => handleDragStart(e, task) : undefined}
+        onDragEnd={handleDragEnd}
+        className={`absolute rounded-md px-2 py-1 text-xs overflow-hidden border-l-4 shadow-sm ${
+          isFocus
+            ? 'bg-success/15 border-success text-success'
+            : block.done
+              ? 'bg-muted border-muted-foreground/40 text-muted-foreground'
+              : 'bg-primary/15 border-primary text-card-foreground cursor-grab active:cursor-grabbing'
+        }`}
+        style={{
+          top: minutesToOffset(start),
+          height: Math.max(((end - start) / 60) * HOUR_HEIGHT - 2, 18),
+          left: `calc(${GUTTER} + (100% - ${GUTTER}) * ${block.column / block.columns})`,
+          width: `calc((100% - ${GUTTER}) / ${block.columns} - 4px)`,
+        }}
+        title={`${block.label} · ${minutesToTime(block.start)}–${minutesToTime(block.end)}`}
+      >
+        <div className="flex items-start gap-1.5">
+          {task ? (
+            <input
+              type="checkbox"
+              checked={task.done}
+              onChange={() => onToggleTask(task)}
+              className="mt-0.5 w-3 h-3 accent-primary cursor-pointer flex-shrink-0"
+            />
+          ) : (
+            <Timer size={12} className="mt-0.5 flex-shrink-0" />
+          )}
+          <div className="min-w-0">
+            <p className={`font-medium truncate ${block.done && !isFocus ? 'line-through' : ''}`}>{block.label}</p>
+            <p className="text-[10px] opacity-80">
+              {minutesToTime(block.start)}–{minutesToTime(block.end)}
+              {isFocus && ' · focus'}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-card rounded-xl shadow-soft p-4 space-y-4">
+      {/* Unscheduled tasks; dropping a block here clears its time */}
+      <div
+        onDragOver={(e) => { if (dragRef.current?.task.time) e.preventDefault(); }}
+        onDrop={handleUnscheduleDrop}
+        className="space-y-2"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-xs font-bold text-muted-foreground uppercase">Unscheduled ({unscheduled.length})</h4>
+          <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={onPlanDay} disabled={disabled}>
+            <Sparkles size={12} />
+            Plan my day
+          </Button>
+        </div>
+        {unscheduled.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {unscheduled.map(task => (
+              <div
+                key={`${task.id}-${task.occurrenceDate}`}
+                draggable={!disabled}
+                onDragStart={(e) => handleDragStart(e, task)}
+                onDragEnd={handleDragEnd}
+                className={`flex items-center gap-1 px-2 py-1 rounded-lg bg-muted text-xs cursor-grab active:cursor-grabbing ${
+                  task.done ? 'line-through text-muted-foreground' : 'text-card-foreground'
+                }`}
+              >
+                <GripVertical size={12} className="text-muted-foreground" />
+                {task.text}
+                {task.estimateMinutes && (
+                  <span className="text-[10px] text-muted-foreground">{formatEstimate(task.estimateMinutes)}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Everything for this day has a time slot.</p>
+        )}
+      </div>
+
+      {/* Hourly grid */}
+      <div
+        ref={gridRef}
+        onDragOver={handleGridDragOver}
+        onDragLeave={() => setDropPreview(null)}
+        onDrop={handleGridDrop}
+        className="relative"
+        style={{ height: hours.length * HOUR_HEIGHT }}
+      >
+        {hours.map(hour => (
+          <div
+            key={hour}
+            className="absolute left-0 right-0 border-t border-border/50"
+            style={{ top: minutesToOffset(hour * 60) }}
+          >
+            <span className="absolute -top-2 left-0 text-[10px] text-muted-foreground bg-card pr-1">
+              {minutesToTime(hour * 60)}
+            </span>
+          </div>
+        ))}
+
+        {isToday && nowMinutes >= DAY_START_HOUR * 60 && nowMinutes < DAY_END_HOUR * 60 && (
+          <div
+            className="absolute right-0 border-t-2 border-destructive z-10 pointer-events-none"
+            style={{ top: minutesToOffset(nowMinutes), left: GUTTER }}
+          />
+        )}
+
+        {dropPreview !== null && (
+          <div
+            className="absolute right-0 rounded-md border-2 border-dashed border-primary/60 bg-primary/5 pointer-events-none flex items-start gap-1 px-2 py-1 text-[10px] text-primary"
+            style={{
+              top: minutesToOffset(dropPreview),
+              height: ((dragRef.current?.task.estimateMinutes || DEFAULT_BLOCK_MINUTES) / 60) * HOUR_HEIGHT,
+              left: GUTTER,
+            }}
+          >
+            <Clock size={10} />
+            {minutesToTime(dropPreview)}
+          </div>
+        )}
+
+        {blocks.map(renderBlock)}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { AlertCircle, Wifi, WifiOff, Lock, Server, Settings, X, Trash2, Clock, ChevronRight } from 'lucide-react';
+import { AlertCircle, Wifi, WifiOff, Lock, Server, Settings, X, Trash2, Clock, ChevronRight, GitMerge } from 'lucide-react';
 import { ErrorEntry, getRecentErrors, clearErrors, subscribeToErrorCenter } from '@/lib/errorCenter';
+import { SyncConflict, getSyncConflicts, subscribeToSyncStatus } from '@/lib/offlineSync';
+import { SyncConflictCard } from '@/components/SyncConflictCard';
 import { NetworkErrorType } from '@/lib/networkErrorHandler';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -51,6 +53,7 @@ function getRelativeTime(timestamp: string): string {
 
 export function ErrorCenterPanel({ trigger }: ErrorCenterPanelProps) {
   const [errors, setErrors] = useState<ErrorEntry[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
   const [isOpen, setIsOpen] = useState(false);
 
   useEffect(() => {
@@ -59,6 +62,23 @@ export function ErrorCenterPanel({ trigger }: ErrorCenterPanelProps) {
     return unsubscribe;
   }, []);
 
+  // Offline edits that collided with changes from another device
+  useEffect(() => {
+    let lastCount = -1;
+    const loadConflicts = () => getSyncConflicts()
+      .then(setConflicts)
+      .catch(error => console.error('Failed to load sync conflicts:', error));
+
+    loadConflicts();
+    return subscribeToSyncStatus(status => {
+      if (status.conflicts === lastCount) return;
+      lastCount = status.conflicts;
+      loadConflicts();
+    });
+  }, []);
+
+  const issueCount = errors.length + conflicts.length;
+
   const handleClearAll = () => {
     clearErrors();
     setErrors([]);
@@ -67,9 +87,9 @@ export function ErrorCenterPanel({ trigger }: ErrorCenterPanelProps) {
   const defaultTrigger = (
     <Button variant="ghost" size="sm" className="relative">
       <AlertCircle className="h-4 w-4" />
-      {errors.length > 0 && (
+      {issueCount > 0 && (
         <span className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-destructive text-[10px] font-bold text-destructive-foreground flex items-center justify-center">
-          {errors.length > 9 ? '9+' : errors.length}
+          {issueCount > 9 ? '9+' : issueCount}
         </span>
       )}
     </Button>
@@ -107,7 +127,19 @@ export function ErrorCenterPanel({ trigger }: ErrorCenterPanelProps) {
           )}
 
           <ScrollArea className="h-[calc(100vh-200px)]">
-            {errors.length === 0 ? (
+            {conflicts.length > 0 && (
+              <div className="space-y-2 mb-4">
+                <div className="flex items-center gap-2 text-xs font-medium text-foreground">
+                  <GitMerge className="h-3.5 w-3.5 text-warning" />
+                  {conflicts.length} sync conflict{conflicts.length !== 1 ? 's' : ''} to review
+                </div>
+                {conflicts.map(conflict => (
+                  <SyncConflictCard key={conflict.id} conflict={conflict} />
+                ))}
+              </div>
+            )}
+
+            {issueCount === 0 ? (
               <div className="flex flex-col items-center justify-center py-12 text-center">
                 <div className="w-12 h-12 rounded-full bg-success/10 flex items-center justify-center mb-3">
                   <Wifi className="h-6 w-6 text-success" />
@@ -6,7 +6,10 @@ import { Modal } from '@/components/Modal';
 import { FloatingFocusTimer } from '@/components/FloatingFocusTimer';
 import { LiveSupportChat } from '@/components/LiveSupportChat';
 import { useAI } from '@/hooks/useAI';
-import { DAYS } from '@/lib/constants';
+import { useFocusTimer } from '@/hooks/useFocusTimer';
+import { getTodayKey } from '@/lib/taskDates';
+import { parseRecurrenceText, describeRecurrence } from '@/lib/recurrence';
+import { RecurrenceRule } from '@/lib/types';
 import { toast } from 'sonner';
 
 interface Task {
@@ -17,7 +20,7 @@ interface Task {
 
 interface FloatingActionHubProps {
   todayTasks?: Task[];
-  onAddTask: (day: string, task: { id: number; text: string; done: boolean }) => void;
+  onAddTask: (day: string, task: { id: number; text: string; done: boolean; recurrence?: RecurrenceRule | null }) => void;
   onAddTransaction: (transaction: { id: number; type: 'income' | 'expense'; amount: number; category: string; description: string; date: string }) => void;
   onAddSavingsGoal: (goal: { id: number; name: string; target: number; current: number }) => void;
   onSessionComplete?: (duration: number, taskLabel?: string) => void;
@@ -32,6 +35,8 @@ export function FloatingActionHub({
 }: FloatingActionHubProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [activePanel, setActivePanel] = useState<'menu' | 'focus' | 'ai' | 'support' | null>(null);
+  // A session carried over from a reload reopens the timer
+  const { hasStarted: focusSessionRunning } = useFocusTimer();
   const [isAIModalOpen, setIsAIModalOpen] = useState(false);
   const [aiInput, setAIInput] = useState('');
   const [isAILoading, setIsAILoading] = useState(false);
@@ -92,13 +97,12 @@ export function FloatingActionHub({
     
     try {
       if (command.includes('add task') || command.includes('add a task')) {
-        const taskText = aiInput.replace(/add\s*(a\s*)?task\s*(to\s*)?(buy|call|do|get|send|write)?/i, '').trim();
+        const rawText = aiInput.replace(/add\s*(a\s*)?task\s*(to\s*)?(buy|call|do|get|send|write)?/i, '').trim();
+        // "add task water plants every monday" becomes a recurring task
+        const { text: taskText, recurrence } = parseRecurrenceText(rawText);
         if (taskText) {
-          const today = new Date().getDay();
-          const dayIndex = today === 0 ? 6 : today - 1;
-          const day = DAYS[dayIndex];
-          onAddTask(day, { id: Date.now(), text: taskText, done: false });
-          toast.success(`Task added: "${taskText}"`);
+          onAddTask(getTodayKey(), { id: Date.now(), text: taskText, done: false, recurrence });
+          toast.success(`Task added: "${taskText}"`, recurrence ? { description: describeRecurrence(recurrence) } : undefined);
           setAIInput('');
           setIsAIModalOpen(false);
         }
@@ -154,7 +158,7 @@ export function FloatingActionHub({
   ];
 
   // If focus timer is active, render it
-  if (activePanel === 'focus') {
+  if (activePanel === 'focus' || focusSessionRunning) {
     return (
       <FloatingFocusTimer 
         todayTasks={todayTasks} 
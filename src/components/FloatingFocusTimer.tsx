@@ -1,13 +1,18 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Play, Pause, RotateCcw, Timer, Target, Check, X, Minimize2, Maximize2 } from 'lucide-react';
-import { toast } from 'sonner';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Play, Pause, RotateCcw, Timer, Target, Check, X, Minimize2, Maximize2, Coffee, SkipForward } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { useFocusTimer } from '@/hooks/useFocusTimer';
+import { formatTime } from '@/lib/focusTimer';
+import { PHASE_LABELS, getCycleInSet } from '@/lib/pomodoro';
+import { PomodoroSettingsFields } from '@/components/PomodoroSettingsFields';
 import { FocusReflectionModal } from '@/components/FocusReflectionModal';
-import { playSuccessSound } from '@/lib/notificationSound';
 
 interface Task {
   id: string | number;
@@ -32,16 +37,15 @@ const DURATION_OPTIONS = [
 
 export function FloatingFocusTimer({ todayTasks = [], onSessionComplete, onClose }: FloatingFocusTimerProps) {
   const { user } = useAuth();
+  const { preferences, updatePreferences } = useUserSettings();
+  const pomodoro = preferences.pomodoro;
   // If onClose is provided, we're in "controlled" mode from FloatingActionHub - always show
   const [isOpen, setIsOpen] = useState(!!onClose);
   const [isMinimized, setIsMinimized] = useState(false);
   const [selectedDuration, setSelectedDuration] = useState('25');
   const [selectedTask, setSelectedTask] = useState<string>('');
   const [customTaskLabel, setCustomTaskLabel] = useState('');
-  const [timeRemaining, setTimeRemaining] = useState(25 * 60);
-  const [isRunning, setIsRunning] = useState(false);
-  const [hasStarted, setHasStarted] = useState(false);
-  const [sessionDuration, setSessionDuration] = useState(25 * 60);
+  const [useCycles, setUseCycles] = useState(false);
   const [showReflectionModal, setShowReflectionModal] = useState(false);
   const [completedSessionData, setCompletedSessionData] = useState<{ taskLabel: string; duration: number } | null>(null);
 
@@ -53,136 +57,61 @@ export function FloatingFocusTimer({ todayTasks = [], onSessionComplete, onClose
     return task?.text || 'Focus Session';
   }, [selectedTask, customTaskLabel, todayTasks]);
 
-  const getDurationSeconds = useCallback(() => {
-    return parseInt(selectedDuration) * 60;
-  }, [selectedDuration]);
-
-  useEffect(() => {
-    if (!hasStarted) {
-      const seconds = getDurationSeconds();
-      setTimeRemaining(seconds);
-      setSessionDuration(seconds);
-    }
-  }, [selectedDuration, hasStarted, getDurationSeconds]);
-
-  useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (isRunning && timeRemaining > 0) {
-      interval = setInterval(() => {
-        setTimeRemaining(prev => prev - 1);
-      }, 1000);
-    } else if (timeRemaining === 0 && hasStarted) {
-      handleSessionComplete();
-    }
-
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isRunning, timeRemaining, hasStarted]);
-
-  const handleSessionComplete = async (skipReflection = false) => {
-    setIsRunning(false);
-    const taskLabel = getTaskLabel();
-    const durationMinutes = Math.ceil(sessionDuration / 60);
-
-    // Play success sound
-    playSuccessSound();
-
-    if ('Notification' in window && Notification.permission === 'granted') {
-      new Notification('Focus Session Complete! 🎉', {
-        body: `You focused on "${taskLabel}" for ${durationMinutes} minutes`,
-        icon: '/favicon.ico',
-      });
+  // The shared timer saves each session; a single session then asks for a reflection
+  const timer = useFocusTimer(({ minutes, cycle, taskLabel }) => {
+    if (cycle) {
+      onSessionComplete?.(minutes, taskLabel);
+      return;
     }
 
-    // Show reflection modal
-    setCompletedSessionData({ taskLabel, duration: durationMinutes });
+    setCompletedSessionData({ taskLabel, duration: minutes });
     setShowReflectionModal(true);
+  });
+  const isBreak = timer.phase !== 'work';
+
+  const handleStart = () => {
+    timer.startSession({
+      taskId: selectedTask !== 'custom' && selectedTask ? selectedTask : null,
+      taskLabel: getTaskLabel(),
+      minutes: parseInt(selectedDuration),
+      cycles: useCycles,
+    });
   };
 
-  const saveSession = async (reflection?: string) => {
-    if (!completedSessionData || !user) return;
-
-    const { taskLabel, duration: durationMinutes } = completedSessionData;
-    const taskId = selectedTask !== 'custom' && selectedTask ? selectedTask : null;
-
-    try {
-      await supabase.from('focus_sessions').insert({
-        user_id: user.id,
-        task_id: taskId,
-        task_label: taskLabel,
-        duration_minutes: durationMinutes,
-        completed_at: new Date().toISOString(),
-      });
+  const handleReflectionSave = async (reflection: string) => {
+    if (!completedSessionData) return;
+    const { taskLabel, duration } = completedSessionData;
+    setCompletedSessionData(null);
 
-      // Log reflection to activity feed if provided
-      if (reflection) {
+    // Log reflection to activity feed
+    if (user) {
+      try {
         await supabase.from('activity_feed').insert({
           user_id: user.id,
           event_type: 'focus_reflection',
           event_data: {
             task_label: taskLabel,
-            duration_minutes: durationMinutes,
+            duration_minutes: duration,
             reflection: reflection,
           },
           related_table: 'focus_sessions',
         });
+      } catch (error) {
+        console.error('Failed to log focus reflection:', error);
       }
-    } catch (error) {
-      console.error('Failed to log focus session:', error);
     }
 
-    toast.success('🎉 Focus Session Complete!', {
-      description: `Great work on "${taskLabel}" for ${durationMinutes} minutes!`,
-    });
-
-    onSessionComplete?.(durationMinutes, taskLabel, reflection);
-    resetTimer();
-    setCompletedSessionData(null);
-  };
-
-  const handleReflectionSave = (reflection: string) => {
-    saveSession(reflection);
+    onSessionComplete?.(duration, taskLabel, reflection);
   };
 
   const handleReflectionSkip = () => {
-    saveSession();
-  };
-
-  const startTimer = () => {
-    if (!hasStarted) {
-      if ('Notification' in window && Notification.permission === 'default') {
-        Notification.requestPermission();
-      }
-      setHasStarted(true);
-    }
-    setIsRunning(true);
-  };
-
-  const pauseTimer = () => {
-    setIsRunning(false);
-  };
-
-  const resetTimer = () => {
-    setIsRunning(false);
-    setHasStarted(false);
-    const seconds = getDurationSeconds();
-    setTimeRemaining(seconds);
-    setSessionDuration(seconds);
-  };
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+    if (completedSessionData) onSessionComplete?.(completedSessionData.duration, completedSessionData.taskLabel);
+    setCompletedSessionData(null);
   };
 
-  const progress = ((sessionDuration - timeRemaining) / sessionDuration) * 100;
-
   const handleClose = () => {
     setIsOpen(false);
-    resetTimer();
+    timer.reset();
     onClose?.();
   };
 
@@ -210,19 +139,19 @@ export function FloatingFocusTimer({ todayTasks = [], onSessionComplete, onClose
     );
   }
 
-  if (isMinimized && hasStarted) {
+  if (isMinimized && timer.hasStarted) {
     return (
       <>
         <div className="fixed bottom-24 right-4 md:bottom-6 md:right-6 z-50 bg-card border border-border rounded-full shadow-xl p-3 flex items-center gap-3">
-          <div className={`text-lg font-bold tabular-nums ${isRunning ? 'text-primary' : 'text-muted-foreground'}`}>
-            {formatTime(timeRemaining)}
+          <div className={`text-lg font-bold tabular-nums ${!timer.isRunning ? 'text-muted-foreground' : isBreak ? 'text-success' : 'text-primary'}`}>
+            {formatTime(timer.timeRemaining)}
           </div>
-          {isRunning ? (
-            <Button size="icon" variant="ghost" onClick={pauseTimer} className="h-8 w-8">
+          {timer.isRunning ? (
+            <Button size="icon" variant="ghost" onClick={timer.pause} className="h-8 w-8">
               <Pause className="h-4 w-4" />
             </Button>
           ) : (
-            <Button size="icon" variant="ghost" onClick={startTimer} className="h-8 w-8">
+            <Button size="icon" variant="ghost" onClick={timer.resume} className="h-8 w-8">
               <Play className="h-4 w-4" />
             </Button>
           )}
@@ -253,7 +182,7 @@ export function FloatingFocusTimer({ todayTasks = [], onSessionComplete, onClose
             Focus Timer
           </div>
           <div className="flex items-center gap-1">
-            {hasStarted && (
+            {timer.hasStarted && (
               <Button size="icon" variant="ghost" onClick={() => setIsMinimized(true)} className="h-7 w-7">
                 <Minimize2 className="h-3 w-3" />
               </Button>
@@ -265,19 +194,28 @@ export function FloatingFocusTimer({ todayTasks = [], onSessionComplete, onClose
         </div>
 
         <div className="p-4 space-y-4">
-          {!hasStarted ? (
+          {!timer.hasStarted ? (
             <>
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Pomodoro cycles</Label>
+                <Switch checked={useCycles} onCheckedChange={setUseCycles} />
+              </div>
+
               {/* Duration */}
-              <Select value={selectedDuration} onValueChange={setSelectedDuration}>
-                <SelectTrigger className="h-9 text-sm">
-                  <SelectValue placeholder="Duration" />
-                </SelectTrigger>
-                <SelectContent>
-                  {DURATION_OPTIONS.map(opt => (
-                    <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              {useCycles ? (
+                <PomodoroSettingsFields settings={pomodoro} onChange={(next) => updatePreferences({ pomodoro: next })} />
+              ) : (
+                <Select value={selectedDuration} onValueChange={setSelectedDuration}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue placeholder="Duration" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map(opt => (
+                      <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
 
               {/* Task */}
               <Select value={selectedTask} onValueChange={setSelectedTask}>
@@ -303,9 +241,9 @@ export function FloatingFocusTimer({ todayTasks = [], onSessionComplete, onClose
                 />
               )}
 
-              <Button onClick={startTimer} className="w-full" size="sm">
+              <Button onClick={handleStart} className="w-full" size="sm">
                 <Play className="h-4 w-4 mr-2" />
-                Start Focus
+                {useCycles ? 'Start Pomodoro' : 'Start Focus'}
               </Button>
             </>
           ) : (
@@ -319,41 +257,46 @@ export function FloatingFocusTimer({ todayTasks = [], onSessionComplete, onClose
                       cx="48" cy="48" r="42"
                       stroke="currentColor" strokeWidth="6" fill="none"
                       strokeDasharray={`${2 * Math.PI * 42}`}
-                      strokeDashoffset={`${2 * Math.PI * 42 * (1 - progress / 100)}`}
-                      className="text-primary transition-all duration-1000"
+                      strokeDashoffset={`${2 * Math.PI * 42 * (1 - timer.progress / 100)}`}
+                      className={`${isBreak ? 'text-success' : 'text-primary'} transition-all duration-1000`}
                       strokeLinecap="round"
                     />
                   </svg>
                   <div className="absolute inset-0 flex items-center justify-center">
-                    <span className="text-xl font-bold tabular-nums">{formatTime(timeRemaining)}</span>
+                    <span className="text-xl font-bold tabular-nums">{formatTime(timer.timeRemaining)}</span>
                   </div>
                 </div>
               </div>
 
               {/* Task Badge */}
-              <div className="text-center">
+              <div className="text-center space-y-1">
                 <div className="inline-flex items-center gap-1 bg-primary/10 text-primary text-xs px-2 py-1 rounded-full">
-                  <Target className="h-3 w-3" />
-                  <span className="truncate max-w-[150px]">{getTaskLabel()}</span>
+                  {isBreak ? <Coffee className="h-3 w-3" /> : <Target className="h-3 w-3" />}
+                  <span className="truncate max-w-[150px]">{isBreak ? PHASE_LABELS[timer.phase] : timer.taskLabel}</span>
                 </div>
+                {timer.cycles && (
+                  <p className="text-[10px] text-muted-foreground">
+                    Cycle {getCycleInSet(timer.cycle, pomodoro)} of {pomodoro.longBreakEvery}
+                  </p>
+                )}
               </div>
 
               {/* Controls */}
               <div className="flex justify-center gap-2">
-                {isRunning ? (
-                  <Button onClick={pauseTimer} variant="secondary" size="sm">
+                {timer.isRunning ? (
+                  <Button onClick={timer.pause} variant="secondary" size="sm">
                     <Pause className="h-4 w-4 mr-1" /> Pause
                   </Button>
                 ) : (
-                  <Button onClick={startTimer} size="sm">
-                    <Play className="h-4 w-4 mr-1" /> Resume
+                  <Button onClick={timer.resume} size="sm">
+                    <Play className="h-4 w-4 mr-1" /> {timer.progress === 0 ? 'Start' : 'Resume'}
                   </Button>
                 )}
-                <Button onClick={resetTimer} variant="outline" size="sm">
+                <Button onClick={timer.reset} variant="outline" size="sm">
                   <RotateCcw className="h-4 w-4" />
                 </Button>
-                <Button onClick={() => handleSessionComplete()} variant="ghost" size="sm">
-                  <Check className="h-4 w-4" />
+                <Button onClick={timer.completePhase} variant="ghost" size="sm" title={isBreak ? 'Skip break' : 'Done'}>
+                  {isBreak ? <SkipForward className="h-4 w-4" /> : <Check className="h-4 w-4" />}
                 </Button>
               </div>
             </>
@@ -1,14 +1,17 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Play, Pause, RotateCcw, Timer, Target, Check } from 'lucide-react';
-import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
+import { Switch } from '@/components/ui/switch';
+import { Play, Pause, RotateCcw, Timer, Target, Check, Coffee, SkipForward } from 'lucide-react';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { useFocusTimer } from '@/hooks/useFocusTimer';
+import { formatTime } from '@/lib/focusTimer';
+import { PHASE_LABELS, getCycleInSet } from '@/lib/pomodoro';
+import { PomodoroSettingsFields } from '@/components/PomodoroSettingsFields';
 
 interface Task {
   id: string | number;
@@ -19,28 +22,29 @@ interface Task {
 interface FocusTimerProps {
   todayTasks?: Task[];
   onSessionComplete?: (duration: number, taskLabel: string) => void;
+  // Starts right away with a fixed label and length, e.g. a routine step
+  preset?: { label: string; minutes: number };
 }
 
 const DURATION_OPTIONS = [
   { value: '5', label: '5 min' },
   { value: '15', label: '15 min' },
-  { value: '25', label: '25 min (Pomodoro)' },
+  { value: '25', label: '25 min' },
   { value: '30', label: '30 min' },
   { value: '45', label: '45 min' },
   { value: '60', label: '60 min' },
   { value: 'custom', label: 'Custom' },
 ];
 
-export function FocusTimer({ todayTasks = [], onSessionComplete }: FocusTimerProps) {
-  const { user } = useAuth();
-  const [selectedDuration, setSelectedDuration] = useState('25');
-  const [customDuration, setCustomDuration] = useState('');
-  const [selectedTask, setSelectedTask] = useState<string>('');
-  const [customTaskLabel, setCustomTaskLabel] = useState('');
-  const [timeRemaining, setTimeRemaining] = useState(25 * 60);
-  const [isRunning, setIsRunning] = useState(false);
-  const [hasStarted, setHasStarted] = useState(false);
-  const [sessionDuration, setSessionDuration] = useState(25 * 60);
+export function FocusTimer({ todayTasks = [], onSessionComplete, preset }: FocusTimerProps) {
+  const { preferences, updatePreferences } = useUserSettings();
+  const pomodoro = preferences.pomodoro;
+  const [selectedDuration, setSelectedDuration] = useState(preset ? 'custom' : '25');
+  const [customDuration, setCustomDuration] = useState(preset ? String(Math.max(1, preset.minutes)) : '');
+  const [selectedTask, setSelectedTask] = useState<string>(preset ? 'custom' : '');
+  const [customTaskLabel, setCustomTaskLabel] = useState(preset?.label || '');
+  // Work/break cycles instead of one countdown; presets always run once
+  const [useCycles, setUseCycles] = useState(false);
 
   const incompleteTasks = todayTasks.filter(t => !t.done);
   
@@ -50,107 +54,46 @@ export function FocusTimer({ todayTasks = [], onSessionComplete }: FocusTimerPro
     return task?.text || 'Focus Session';
   }, [selectedTask, customTaskLabel, todayTasks]);
 
-  const getDurationSeconds = useCallback(() => {
+  const getDurationSeconds = () => {
     if (selectedDuration === 'custom') {
       return (parseInt(customDuration) || 25) * 60;
     }
     return parseInt(selectedDuration) * 60;
-  }, [selectedDuration, customDuration]);
-
-  // Update timer when duration changes (before starting)
-  useEffect(() => {
-    if (!hasStarted) {
-      const seconds = getDurationSeconds();
-      setTimeRemaining(seconds);
-      setSessionDuration(seconds);
-    }
-  }, [selectedDuration, customDuration, hasStarted, getDurationSeconds]);
-
-  // Timer countdown
-  useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (isRunning && timeRemaining > 0) {
-      interval = setInterval(() => {
-        setTimeRemaining(prev => prev - 1);
-      }, 1000);
-    } else if (timeRemaining === 0 && hasStarted) {
-      handleSessionComplete();
-    }
-
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isRunning, timeRemaining, hasStarted]);
+  };
 
-  const handleSessionComplete = async () => {
-    setIsRunning(false);
-    const taskLabel = getTaskLabel();
-    const durationMinutes = Math.ceil(sessionDuration / 60);
+  // The session is saved by the shared timer; this just reports back
+  const timer = useFocusTimer(({ minutes, taskLabel }) => {
+    onSessionComplete?.(minutes, taskLabel);
+  });
+  const { hasStarted, startSession, reset } = timer;
 
-    // Show notifications
-    toast.success('🎉 Focus Session Complete!', {
-      description: `Great work on "${taskLabel}" for ${durationMinutes} minutes!`,
+  const handleStart = () => {
+    startSession({
+      taskId: selectedTask !== 'custom' && selectedTask ? selectedTask : null,
+      taskLabel: getTaskLabel(),
+      minutes: getDurationSeconds() / 60,
+      cycles: useCycles && !preset,
     });
-
-    // Browser notification
-    if ('Notification' in window && Notification.permission === 'granted') {
-      new Notification('Focus Session Complete! 🎉', {
-        body: `You focused on "${taskLabel}" for ${durationMinutes} minutes`,
-        icon: '/favicon.ico',
-      });
-    }
-
-    // Log session to database
-    if (user) {
-      try {
-        const taskId = selectedTask !== 'custom' && selectedTask ? selectedTask : null;
-        await supabase.from('focus_sessions').insert({
-          user_id: user.id,
-          task_id: taskId,
-          task_label: taskLabel,
-          duration_minutes: durationMinutes,
-          completed_at: new Date().toISOString(),
-        });
-      } catch (error) {
-        console.error('Failed to log focus session:', error);
-      }
-    }
-
-    onSessionComplete?.(durationMinutes, taskLabel);
-    resetTimer();
   };
 
-  const startTimer = () => {
+  // A preset starts once on mount, unless a session is already running,
+  // and stops its own session when the step it belongs to goes away
+  const presetStartedRef = useRef(false);
+  const ownsSessionRef = useRef(false);
+  useEffect(() => {
+    if (!preset || presetStartedRef.current) return;
+    presetStartedRef.current = true;
     if (!hasStarted) {
-      // Request notification permission
-      if ('Notification' in window && Notification.permission === 'default') {
-        Notification.requestPermission();
-      }
-      setHasStarted(true);
+      ownsSessionRef.current = true;
+      startSession({ taskId: null, taskLabel: preset.label, minutes: Math.max(1, preset.minutes), cycles: false });
     }
-    setIsRunning(true);
-  };
+  }, [preset, hasStarted, startSession]);
 
-  const pauseTimer = () => {
-    setIsRunning(false);
-  };
+  useEffect(() => () => {
+    if (ownsSessionRef.current) reset();
+  }, [reset]);
 
-  const resetTimer = () => {
-    setIsRunning(false);
-    setHasStarted(false);
-    const seconds = getDurationSeconds();
-    setTimeRemaining(seconds);
-    setSessionDuration(seconds);
-  };
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
-  };
-
-  const progress = ((sessionDuration - timeRemaining) / sessionDuration) * 100;
+  const isBreak = timer.phase !== 'work';
 
   return (
     <Card className="overflow-hidden">
@@ -161,35 +104,46 @@ export function FocusTimer({ todayTasks = [], onSessionComplete }: FocusTimerPro
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {!hasStarted ? (
+        {!timer.hasStarted ? (
           <>
-            {/* Duration Selection */}
-            <div className="space-y-2">
-              <Label className="text-xs text-muted-foreground">Duration</Label>
-              <Select value={selectedDuration} onValueChange={setSelectedDuration}>
-                <SelectTrigger className="h-9">
-                  <SelectValue placeholder="Select duration" />
-                </SelectTrigger>
-                <SelectContent>
-                  {DURATION_OPTIONS.map(opt => (
-                    <SelectItem key={opt.value} value={opt.value}>
-                      {opt.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              {selectedDuration === 'custom' && (
-                <Input
-                  type="number"
-                  placeholder="Minutes"
-                  value={customDuration}
-                  onChange={(e) => setCustomDuration(e.target.value)}
-                  className="h-9"
-                  min="1"
-                  max="180"
-                />
-              )}
-            </div>
+            {/* Pomodoro cycles */}
+            {!preset && (
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Pomodoro cycles</Label>
+                <Switch checked={useCycles} onCheckedChange={setUseCycles} />
+              </div>
+            )}
+
+            {useCycles ? (
+              <PomodoroSettingsFields settings={pomodoro} onChange={(next) => updatePreferences({ pomodoro: next })} />
+            ) : (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Duration</Label>
+                <Select value={selectedDuration} onValueChange={setSelectedDuration}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Select duration" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map(opt => (
+                      <SelectItem key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedDuration === 'custom' && (
+                  <Input
+                    type="number"
+                    placeholder="Minutes"
+                    value={customDuration}
+                    onChange={(e) => setCustomDuration(e.target.value)}
+                    className="h-9"
+                    min="1"
+                    max="180"
+                  />
+                )}
+              </div>
+            )}
 
             {/* Task Selection */}
             <div className="space-y-2">
@@ -218,9 +172,9 @@ export function FocusTimer({ todayTasks = [], onSessionComplete }: FocusTimerPro
             </div>
 
             {/* Start Button */}
-            <Button onClick={startTimer} className="w-full" size="sm">
+            <Button onClick={handleStart} className="w-full" size="sm">
               <Play className="h-4 w-4 mr-2" />
-              Start Focus Session
+              {useCycles ? 'Start Pomodoro' : 'Start Focus Session'}
             </Button>
           </>
         ) : (
@@ -246,46 +200,58 @@ export function FocusTimer({ todayTasks = [], onSessionComplete }: FocusTimerPro
                     strokeWidth="8"
                     fill="none"
                     strokeDasharray={`${2 * Math.PI * 58}`}
-                    strokeDashoffset={`${2 * Math.PI * 58 * (1 - progress / 100)}`}
-                    className="text-primary transition-all duration-1000"
+                    strokeDashoffset={`${2 * Math.PI * 58 * (1 - timer.progress / 100)}`}
+                    className={`${isBreak ? 'text-success' : 'text-primary'} transition-all duration-1000`}
                     strokeLinecap="round"
                   />
                 </svg>
                 <div className="absolute inset-0 flex items-center justify-center">
-                  <span className="text-2xl font-bold tabular-nums">{formatTime(timeRemaining)}</span>
+                  <span className="text-2xl font-bold tabular-nums">{formatTime(timer.timeRemaining)}</span>
                 </div>
               </div>
             </div>
 
             {/* Current Task Badge */}
-            <div className="text-center">
+            <div className="text-center space-y-1">
               <Badge variant="secondary" className="text-xs px-3 py-1">
-                <Target className="h-3 w-3 mr-1" />
-                {getTaskLabel()}
+                {isBreak ? <Coffee className="h-3 w-3 mr-1" /> : <Target className="h-3 w-3 mr-1" />}
+                {isBreak ? PHASE_LABELS[timer.phase] : timer.taskLabel}
               </Badge>
+              {timer.cycles && (
+                <p className="text-[10px] text-muted-foreground">
+                  Cycle {getCycleInSet(timer.cycle, pomodoro)} of {pomodoro.longBreakEvery}
+                </p>
+              )}
             </div>
 
             {/* Controls */}
             <div className="flex justify-center gap-2">
-              {isRunning ? (
-                <Button onClick={pauseTimer} variant="secondary" size="sm">
+              {timer.isRunning ? (
+                <Button onClick={timer.pause} variant="secondary" size="sm">
                   <Pause className="h-4 w-4 mr-1" />
                   Pause
                 </Button>
               ) : (
-                <Button onClick={startTimer} size="sm">
+                <Button onClick={timer.resume} size="sm">
                   <Play className="h-4 w-4 mr-1" />
-                  Resume
+                  {timer.progress === 0 ? 'Start' : 'Resume'}
                 </Button>
               )}
-              <Button onClick={resetTimer} variant="outline" size="sm">
+              <Button onClick={timer.reset} variant="outline" size="sm">
                 <RotateCcw className="h-4 w-4 mr-1" />
                 Reset
               </Button>
-              <Button onClick={handleSessionComplete} variant="ghost" size="sm">
-                <Check className="h-4 w-4 mr-1" />
-                Done
-              </Button>
+              {isBreak ? (
+                <Button onClick={timer.completePhase} variant="ghost" size="sm">
+                  <SkipForward className="h-4 w-4 mr-1" />
+                  Skip
+                </Button>
+              ) : (
+                <Button onClick={timer.completePhase} variant="ghost" size="sm">
+                  <Check className="h-4 w-4 mr-1" />
+                  Done
+                </Button>
+              )}
             </div>
           </>
         )}
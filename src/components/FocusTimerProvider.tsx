@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { FocusInterval, FocusTimerContext, WorkCompleteListener } from '@/hooks/useFocusTimer';
+import { createId } from '@/lib/dataRepository';
+import { loadFromStorage, saveToStorage } from '@/lib/storage';
+import { PHASE_LABELS } from '@/lib/pomodoro';
+import {
+  FocusSessionStart,
+  FocusTimerState,
+  advanceFocusTimer,
+  createFocusTimerState,
+  getElapsedMinutes,
+  getRemainingSeconds,
+  pauseFocusTimer,
+  resumeFocusTimer,
+} from '@/lib/focusTimer';
+import {
+  addAppStateListener,
+  cancelFocusTimerNotification,
+  scheduleFocusTimerNotification,
+} from '@/lib/capacitorHelpers';
+import { playSuccessSound } from '@/lib/notificationSound';
+
+function notify(title: string, body: string) {
+  if ('Notification' in window && Notification.permission === 'granted') {
+    new Notification(title, { body, icon: '/favicon.ico' });
+  }
+}
+
+// Title and body for the notification shown when a phase runs out
+function getPhaseEndMessage(session: FocusTimerState) {
+  if (session.phase !== 'work') {
+    return { title: `${PHASE_LABELS[session.phase]} is over`, body: 'Time to get back to focus.' };
+  }
+  return session.cycles
+    ? { title: `🍅 Focus interval ${session.cycle} done`, body: `Time for a break from "${session.taskLabel}".` }
+    : { title: 'Focus Session Complete! 🎉', body: `You focused on "${session.taskLabel}"` };
+}
+
+// One focus session for the whole app, shared by every timer view and kept
+// in local storage so it survives reloads
+export function FocusTimerProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  // Covers auth loading too
+  const { preferences, loading: settingsLoading } = useUserSettings();
+  const settings = preferences.pomodoro;
+  const [session, setSession] = useState<FocusTimerState | null>(() => loadFromStorage<FocusTimerState | null>('focusTimer', null));
+  const [now, setNow] = useState(() => Date.now());
+  const listenersRef = useRef(new Set<WorkCompleteListener>());
+  // Phase end already handled, so a repeated effect can't log it twice
+  const handledEndRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    saveToStorage('focusTimer', session);
+  }, [session]);
+
+  // On native the OS delivers the phase end, even with the app closed
+  const endsAt = session?.endsAt ?? null;
+  const endMessage = session ? getPhaseEndMessage(session) : null;
+  const endTitle = endMessage?.title;
+  const endBody = endMessage?.body;
+  useEffect(() => {
+    if (endsAt !== null && endTitle && endBody) {
+      scheduleFocusTimerNotification(endTitle, endBody, new Date(endsAt))
+        .catch(error => console.error('Failed to schedule focus timer notification:', error));
+    } else {
+      cancelFocusTimerNotification()
+        .catch(error => console.error('Failed to cancel focus timer notification:', error));
+    }
+  }, [endsAt, endTitle, endBody]);
+
+  // Re-render once a second while running; the time itself comes from endsAt
+  useEffect(() => {
+    if (endsAt === null) return;
+
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = setInterval(tick, 1000);
+
+    // Catch up straight away when the tab or app comes back to the front
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    const appState = addAppStateListener((isActive) => {
+      if (isActive) tick();
+    });
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      Promise.resolve(appState).then(listener => listener.remove());
+    };
+  }, [endsAt]);
+
+  const logWorkInterval = useCallback(async (state: FocusTimerState, interval: FocusInterval, endedAt: number) => {
+    if (!user) return;
+
+    try {
+      await supabase.from('focus_sessions').insert({
+        user_id: user.id,
+        task_id: state.taskId,
+        task_label: interval.taskLabel,
+        duration_minutes: interval.minutes,
+        completed_at: new Date(endedAt).toISOString(),
+        pomodoro_run_id: interval.runId,
+        pomodoro_cycle: interval.cycle,
+      });
+    } catch (error) {
+      console.error('Failed to log focus session:', error);
+    }
+  }, [user]);
+
+  // Logs a finished phase and works out what follows; null once the session is over
+  const endPhase = useCallback((state: FocusTimerState, endedAt: number): FocusTimerState | null => {
+    if (state.phase === 'work') {
+      const interval: FocusInterval = {
+        minutes: getElapsedMinutes(state, endedAt),
+        runId: state.runId,
+        cycle: state.cycles ? state.cycle : null,
+        taskLabel: state.taskLabel,
+      };
+
+      // Each Pomodoro work interval is logged as its own session
+      logWorkInterval(state, interval, endedAt);
+      listenersRef.current.forEach(listener => listener(interval));
+
+      if (!state.cycles) return null;
+    }
+    return advanceFocusTimer(state, settings, endedAt);
+  }, [settings, logWorkInterval]);
+
+  // Toasts, sound and notification for one phase running out
+  const announcePhaseEnd = useCallback((state: FocusTimerState, next: FocusTimerState | null, endedAt: number) => {
+    if (state.phase === 'work') {
+      const minutes = getElapsedMinutes(state, endedAt);
+      playSuccessSound();
+      if (state.cycles) {
+        toast.success(`🍅 Focus interval ${state.cycle} done`, {
+          description: `${minutes} minutes on "${state.taskLabel}"`,
+        });
+      } else {
+        toast.success('🎉 Focus Session Complete!', {
+          description: `Great work on "${state.taskLabel}" for ${minutes} minutes!`,
+        });
+        notify('Focus Session Complete! 🎉', `You focused on "${state.taskLabel}" for ${minutes} minutes`);
+      }
+    }
+    if (!next) return;
+
+    const title = next.phase === 'work' ? 'Back to focus' : `${PHASE_LABELS[next.phase]} time`;
+    const body = `${next.phaseSeconds / 60} minutes${settings.autoStart ? '' : ' when you are ready'}.`;
+    toast.info(title, { description: body });
+    notify(title, body);
+  }, [settings]);
+
+  const finishPhase = useCallback((state: FocusTimerState, endedAt: number) => {
+    const next = endPhase(state, endedAt);
+    setSession(next);
+    announcePhaseEnd(state, next, endedAt);
+  }, [endPhase, announcePhaseEnd]);
+
+  // A phase that ended while the app was closed is only finished once the user
+  // and their settings are known, so it is logged and advanced with their lengths.
+  // With auto-start several phases may have run out meanwhile: each is logged,
+  // but only where the run stands now is announced.
+  useEffect(() => {
+    if (settingsLoading) return;
+    if (!session || session.endsAt === null || session.endsAt > now) return;
+    if (handledEndRef.current === session.endsAt) return;
+    handledEndRef.current = session.endsAt;
+
+    let ended = session;
+    let endedAt = session.endsAt;
+    let next = endPhase(ended, endedAt);
+    let phasesEnded = 1;
+    let intervalsDone = ended.phase === 'work' ? 1 : 0;
+    while (next && next.endsAt !== null && next.endsAt <= now) {
+      ended = next;
+      endedAt = next.endsAt;
+      next = endPhase(ended, endedAt);
+      phasesEnded++;
+      if (ended.phase === 'work') intervalsDone++;
+    }
+    setSession(next);
+
+    if (phasesEnded === 1 || !next) {
+      announcePhaseEnd(ended, next, endedAt);
+      return;
+    }
+    if (intervalsDone > 0) playSuccessSound();
+    const title = next.phase === 'work' ? `Focus interval ${next.cycle} under way` : `${PHASE_LABELS[next.phase]} under way`;
+    const body = `${intervalsDone} focus interval${intervalsDone === 1 ? '' : 's'} finished while you were away.`;
+    toast.info(title, { description: body });
+    notify(title, body);
+  }, [session, now, endPhase, announcePhaseEnd, settingsLoading]);
+
+  const startSession = useCallback((start: Omit<FocusSessionStart, 'runId'>) => {
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setSession(createFocusTimerState({ ...start, runId: start.cycles ? createId() : null }, settings, startedAt));
+  }, [settings]);
+
+  const resume = useCallback(() => {
+    setSession(prev => prev && resumeFocusTimer(prev));
+  }, []);
+
+  const pause = useCallback(() => {
+    setSession(prev => prev && pauseFocusTimer(prev));
+  }, []);
+
+  const reset = useCallback(() => {
+    setSession(null);
+  }, []);
+
+  const completePhase = useCallback(() => {
+    if (session) finishPhase(session, Date.now());
+  }, [session, finishPhase]);
+
+  const subscribe = useCallback((listener: WorkCompleteListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const timeRemaining = session ? getRemainingSeconds(session, now) : 0;
+  const phaseSeconds = session?.phaseSeconds ?? 0;
+
+  return (
+    <FocusTimerContext.Provider
+      value={{
+        phase: session?.phase ?? 'work',
+        cycle: session?.cycle ?? 1,
+        cycles: session?.cycles ?? false,
+        taskLabel: session?.taskLabel ?? '',
+        timeRemaining,
+        progress: phaseSeconds > 0 ? ((phaseSeconds - timeRemaining) / phaseSeconds) * 100 : 0,
+        isRunning: endsAt !== null,
+        hasStarted: !!session,
+        startSession,
+        resume,
+        pause,
+        reset,
+        completePhase,
+        subscribe,
+      }}
+    >
+      {children}
+    </FocusTimerContext.Provider>
+  );
+}
@@ -0,0 +1,362 @@
+import { useState } from 'react';
+import { CheckCircle2, ChevronDown, Flag, LineChart as LineChartIcon, Plus, Trash2, Trophy } from 'lucide-react';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { KeyResult, Milestone, System } from '@/lib/types';
+import { createId } from '@/lib/dataRepository';
+import { getTodayKey, parseDateKey } from '@/lib/taskDates';
+import {
+  areKeyResultsMet,
+  formatKeyResultValue,
+  getGoalProgress,
+  getKeyResultProgress,
+  getMilestoneStatus,
+  isKeyResultMet,
+  logKeyResultValue,
+  removeKeyResultEntry,
+  sortMilestones,
+} from '@/lib/keyResults';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface GoalOutcomesProps {
+  system: System;
+  onChange: (update: (system: System) => System) => void;
+}
+
+// Milestones and key results: what "done" means for a goal
+export function GoalOutcomes({ system, onChange }: GoalOutcomesProps) {
+  const milestones = system.milestones || [];
+  const keyResults = system.keyResults || [];
+  const progress = getGoalProgress(system);
+  const achieved = areKeyResultsMet(system);
+
+  const updateKeyResult = (id: string, update: (kr: KeyResult) => KeyResult) => {
+    const next = { ...system, keyResults: keyResults.map(kr => kr.id === id ? update(kr) : kr) };
+    if (!achieved && areKeyResultsMet(next)) toast.success(`Goal achieved: ${system.goal}`);
+    onChange(s => ({ ...s, keyResults: (s.keyResults || []).map(kr => kr.id === id ? update(kr) : kr) }));
+  };
+
+  const updateMilestone = (id: string, update: (m: Milestone) => Milestone) => {
+    onChange(s => ({ ...s, milestones: (s.milestones || []).map(m => m.id === id ? update(m) : m) }));
+  };
+
+  return (
+    <div className="border-t border-border/50 p-3 md:p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h5 className="text-[10px] md:text-xs text-muted-foreground font-bold uppercase flex items-center gap-1.5">
+          Key results
+          {progress !== null && <span className="normal-case font-medium">· {progress}%</span>}
+        </h5>
+        {achieved ? (
+          <span className="flex items-center gap-1 text-[10px] md:text-xs font-bold text-success">
+            <Trophy size={12} /> Goal achieved
+          </span>
+        ) : (
+          <AddKeyResult onAdd={kr => onChange(s => ({ ...s, keyResults: [...(s.keyResults || []), kr] }))} />
+        )}
+      </div>
+
+      {keyResults.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Define what "done" looks like, e.g. run 10k in under 55 min or weigh 75 kg.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {keyResults.map(kr => (
+            <KeyResultRow
+              key={kr.id}
+              keyResult={kr}
+              onLog={(value, date) => updateKeyResult(kr.id, k => logKeyResultValue(k, value, date))}
+              onRemoveEntry={(date) => updateKeyResult(kr.id, k => removeKeyResultEntry(k, date))}
+              onDelete={() => onChange(s => ({ ...s, keyResults: (s.keyResults || []).filter(k => k.id !== kr.id) }))}
+            />
+          ))}
+          {achieved && (
+            <AddKeyResult onAdd={kr => onChange(s => ({ ...s, keyResults: [...(s.keyResults || []), kr] }))} />
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h5 className="text-[10px] md:text-xs text-muted-foreground font-bold uppercase">
+            Milestones ({milestones.filter(m => m.doneAt).length}/{milestones.length})
+          </h5>
+          <AddMilestone onAdd={m => onChange(s => ({ ...s, milestones: [...(s.milestones || []), m] }))} />
+        </div>
+        {milestones.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Break the goal into checkpoints with target dates.</p>
+        ) : (
+          <div className="space-y-1.5">
+            {sortMilestones(milestones).map(m => (
+              <MilestoneRow
+                key={m.id}
+                milestone={m}
+                onToggle={() => updateMilestone(m.id, ms => ({ ...ms, doneAt: ms.doneAt ? null : getTodayKey() }))}
+                onDelete={() => onChange(s => ({ ...s, milestones: (s.milestones || []).filter(ms => ms.id !== m.id) }))}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface KeyResultRowProps {
+  keyResult: KeyResult;
+  onLog: (value: number, date: string) => void;
+  onRemoveEntry: (date: string) => void;
+  onDelete: () => void;
+}
+
+function KeyResultRow({ keyResult: kr, onLog, onRemoveEntry, onDelete }: KeyResultRowProps) {
+  const [value, setValue] = useState('');
+  const [date, setDate] = useState(getTodayKey);
+  const [showChart, setShowChart] = useState(false);
+  const pct = getKeyResultProgress(kr);
+  const met = isKeyResultMet(kr);
+
+  const submit = () => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || !date) return;
+    onLog(parsed, date);
+    setValue('');
+  };
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-2.5 md:p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-xs md:text-sm font-medium text-card-foreground flex items-center gap-1.5">
+            {met && <CheckCircle2 size={14} className="text-success flex-shrink-0" />}
+            <span className="break-words">{kr.title}</span>
+          </p>
+          <p className="text-[10px] md:text-xs text-muted-foreground">
+            {formatKeyResultValue(kr.current, kr.unit)} of {formatKeyResultValue(kr.target, kr.unit)}
+            <span className="opacity-70"> · started at {formatKeyResultValue(kr.start, kr.unit)}</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button
+            onClick={() => setShowChart(!showChart)}
+            className={`p-1 rounded transition-colors ${showChart ? 'text-primary bg-primary/10' : 'text-muted-foreground hover:text-primary'}`}
+            title="Progress chart"
+          >
+            <LineChartIcon size={14} />
+          </button>
+          <button onClick={onDelete} className="p-1 text-destructive/60 hover:bg-destructive/10 rounded" title="Delete key result">
+            <Trash2 size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex-1 h-2 bg-card rounded-full overflow-hidden border border-primary/10">
+          <div
+            className={`h-full rounded-full transition-all ${met ? 'bg-success' : 'bg-primary'}`}
+            style={{ width: `${pct}%` }}
+          />
+        </div>
+        <span className="text-[10px] md:text-xs font-bold text-card-foreground w-9 text-right">{pct}%</span>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <Input
+          type="number"
+          step="any"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder={kr.unit ? `New value (${kr.unit})` : 'New value'}
+          className="h-7 text-xs flex-1 min-w-0"
+        />
+        <input
+          type="date"
+          value={date}
+          max={getTodayKey()}
+          onChange={(e) => setDate(e.target.value)}
+          className="h-7 px-2 bg-background border border-border rounded-md text-xs text-foreground"
+        />
+        <Button size="sm" className="h-7 px-2 text-xs" onClick={submit} disabled={value.trim() === ''}>
+          Log
+        </Button>
+      </div>
+
+      {showChart && <KeyResultChart keyResult={kr} onRemoveEntry={onRemoveEntry} />}
+    </div>
+  );
+}
+
+function KeyResultChart({ keyResult: kr, onRemoveEntry }: { keyResult: KeyResult; onRemoveEntry: (date: string) => void }) {
+  if (kr.history.length === 0) {
+    return <p className="text-[10px] md:text-xs text-muted-foreground">Log a value to start the chart.</p>;
+  }
+
+  const data = kr.history.map(entry => ({ ...entry, label: format(parseDateKey(entry.date), 'MMM d') }));
+
+  return (
+    <div className="space-y-2">
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} className="stroke-border" />
+            <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} width={36} domain={['auto', 'auto']} />
+            <Tooltip
+              formatter={(v: number) => [formatKeyResultValue(v, kr.unit), kr.title]}
+              contentStyle={{ fontSize: 12 }}
+            />
+            <ReferenceLine y={kr.target} stroke="hsl(var(--success))" strokeDasharray="4 4" label={{ value: 'Target', fontSize: 10, position: 'insideTopRight' }} />
+            <Line dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <details className="text-[10px] md:text-xs text-muted-foreground">
+        <summary className="cursor-pointer flex items-center gap-1 list-none">
+          <ChevronDown size={12} /> {kr.history.length} logged value{kr.history.length === 1 ? '' : 's'}
+        </summary>
+        <div className="mt-1.5 space-y-1">
+          {[...kr.history].reverse().map(entry => (
+            <div key={entry.date} className="flex items-center justify-between gap-2">
+              <span>{format(parseDateKey(entry.date), 'MMM d, yyyy')}</span>
+              <span className="flex items-center gap-2">
+                <span className="text-card-foreground">{formatKeyResultValue(entry.value, kr.unit)}</span>
+                <button onClick={() => onRemoveEntry(entry.date)} className="text-destructive/60 hover:text-destructive" title="Remove entry">
+                  <Trash2 size={10} />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
+
+function MilestoneRow({ milestone, onToggle, onDelete }: { milestone: Milestone; onToggle: () => void; onDelete: () => void }) {
+  const status = getMilestoneStatus(milestone);
+
+  return (
+    <div className="flex items-center gap-2 text-xs md:text-sm">
+      <input
+        type="checkbox"
+        checked={status === 'done'}
+        onChange={onToggle}
+        className="w-4 h-4 accent-primary cursor-pointer flex-shrink-0"
+      />
+      <span className={`flex-1 min-w-0 break-words ${status === 'done' ? 'line-through text-muted-foreground' : 'text-card-foreground'}`}>
+        {milestone.title}
+      </span>
+      {milestone.targetDate && (
+        <span className={`text-[10px] flex-shrink-0 ${status === 'overdue' ? 'text-destructive font-bold' : 'text-muted-foreground'}`}>
+          {status === 'overdue' && 'Overdue · '}
+          {format(parseDateKey(milestone.targetDate), 'MMM d, yyyy')}
+        </span>
+      )}
+      <button onClick={onDelete} className="text-destructive/60 hover:bg-destructive/10 p-0.5 rounded flex-shrink-0" title="Delete milestone">
+        <Trash2 size={12} />
+      </button>
+    </div>
+  );
+}
+
+function AddKeyResult({ onAdd }: { onAdd: (kr: KeyResult) => void }) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [unit, setUnit] = useState('');
+  const [start, setStart] = useState('');
+  const [target, setTarget] = useState('');
+
+  const startValue = parseFloat(start);
+  const targetValue = parseFloat(target);
+  const valid = title.trim() !== '' && !isNaN(startValue) && !isNaN(targetValue) && startValue !== targetValue;
+
+  const submit = () => {
+    if (!valid) return;
+    onAdd({
+      id: createId(),
+      title: title.trim(),
+      unit: unit.trim(),
+      start: startValue,
+      target: targetValue,
+      current: startValue,
+      history: [],
+    });
+    setTitle('');
+    setUnit('');
+    setStart('');
+    setTarget('');
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className="text-primary hover:bg-primary/10 px-2 py-0.5 rounded text-[10px] md:text-xs font-bold border border-primary/20 flex items-center gap-1">
+          <Plus size={12} /> Key result
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-2" align="end">
+        <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. 10k time" className="h-8 text-sm" />
+        <div className="grid grid-cols-3 gap-2">
+          <Input type="number" step="any" value={start} onChange={(e) => setStart(e.target.value)} placeholder="Start" className="h-8 text-sm" />
+          <Input type="number" step="any" value={target} onChange={(e) => setTarget(e.target.value)} placeholder="Target" className="h-8 text-sm" />
+          <Input value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="Unit" className="h-8 text-sm" />
+        </div>
+        {valid && (
+          <p className="text-[10px] text-muted-foreground">
+            {targetValue < startValue ? 'Lower is better' : 'Higher is better'}: met at {formatKeyResultValue(targetValue, unit.trim())}
+          </p>
+        )}
+        <Button size="sm" className="w-full h-8" onClick={submit} disabled={!valid}>Add key result</Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function AddMilestone({ onAdd }: { onAdd: (milestone: Milestone) => void }) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+
+  const submit = () => {
+    if (!title.trim()) return;
+    onAdd({ id: createId(), title: title.trim(), targetDate: targetDate || null, doneAt: null });
+    setTitle('');
+    setTargetDate('');
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className="text-primary hover:bg-primary/10 px-2 py-0.5 rounded text-[10px] md:text-xs font-bold border border-primary/20 flex items-center gap-1">
+          <Flag size={12} /> Milestone
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-2" align="end">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder="e.g. Run 5k without stopping"
+          className="h-8 text-sm"
+        />
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Target date</span>
+          <input
+            type="date"
+            value={targetDate}
+            onChange={(e) => setTargetDate(e.target.value)}
+            className="flex-1 h-8 px-2 bg-background border border-border rounded-md text-sm text-foreground"
+          />
+        </div>
+        <Button size="sm" className="w-full h-8" onClick={submit} disabled={!title.trim()}>Add milestone</Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,161 @@
+import { CalendarDays, Gauge } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HabitSchedule, HabitTarget } from '@/lib/types';
+import { describeHabitSchedule, formatHabitTarget } from '@/lib/habitSchedule';
+import { getTodayKey } from '@/lib/taskDates';
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+interface HabitScheduleFieldsProps {
+  schedule: HabitSchedule;
+  onScheduleChange: (schedule: HabitSchedule) => void;
+  target: HabitTarget | null;
+  onTargetChange: (target: HabitTarget | null) => void;
+}
+
+export function HabitScheduleFields({ schedule, onScheduleChange, target, onTargetChange }: HabitScheduleFieldsProps) {
+  const handleTypeChange = (type: string) => {
+    switch (type) {
+      case 'weekdays':
+        onScheduleChange({ type, days: [0, 2, 4] });
+        break;
+      case 'timesPerWeek':
+        onScheduleChange({ type, times: 3 });
+        break;
+      case 'everyNDays':
+        onScheduleChange({ type, interval: 2, startDate: getTodayKey() });
+        break;
+      default:
+        onScheduleChange({ type: 'daily' });
+    }
+  };
+
+  const toggleWeekday = (index: number) => {
+    if (schedule.type !== 'weekdays') return;
+    const next = schedule.days.includes(index)
+      ? schedule.days.filter(d => d !== index)
+      : [...schedule.days, index];
+    // At least one day has to stay selected
+    if (next.length > 0) onScheduleChange({ ...schedule, days: next.sort() });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Schedule */}
+      <div className="space-y-3 p-3 bg-muted/50 rounded-xl">
+        <div className="flex flex-wrap items-center gap-2">
+          <CalendarDays size={14} className="text-primary" />
+          <span className="text-sm text-muted-foreground">Schedule</span>
+          <Select value={schedule.type} onValueChange={handleTypeChange}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Every day</SelectItem>
+              <SelectItem value="weekdays">Specific days</SelectItem>
+              <SelectItem value="timesPerWeek">Times per week</SelectItem>
+              <SelectItem value="everyNDays">Every few days</SelectItem>
+            </SelectContent>
+          </Select>
+          {schedule.type === 'timesPerWeek' && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                max={7}
+                value={schedule.times}
+                onChange={(e) => onScheduleChange({ ...schedule, times: Math.min(7, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className="h-8 w-16"
+              />
+              <span className="text-sm text-muted-foreground">times</span>
+            </>
+          )}
+          {schedule.type === 'everyNDays' && (
+            <>
+              <span className="text-sm text-muted-foreground">every</span>
+              <Input
+                type="number"
+                min={1}
+                value={schedule.interval}
+                onChange={(e) => onScheduleChange({ ...schedule, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="h-8 w-16"
+              />
+              <span className="text-sm text-muted-foreground">day(s)</span>
+            </>
+          )}
+        </div>
+
+        {schedule.type === 'weekdays' && (
+          <div className="flex gap-1">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => toggleWeekday(index)}
+                className={`w-8 h-8 rounded-full text-xs font-bold transition-colors ${
+                  schedule.days.includes(index)
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-background text-muted-foreground hover:bg-muted'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {schedule.type === 'everyNDays' && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Starting</span>
+            <input
+              type="date"
+              value={schedule.startDate}
+              onChange={(e) => e.target.value && onScheduleChange({ ...schedule, startDate: e.target.value })}
+              className="px-3 py-1.5 bg-background border border-border rounded-lg text-sm text-foreground"
+            />
+          </div>
+        )}
+
+        <p className="text-xs text-primary">{describeHabitSchedule(schedule)}</p>
+      </div>
+
+      {/* Quantity target */}
+      <div className="space-y-3 p-3 bg-muted/50 rounded-xl">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Gauge size={14} className={target ? "text-primary" : "text-muted-foreground"} />
+            <span className="text-sm text-muted-foreground">Track an amount</span>
+          </div>
+          <Switch
+            checked={!!target}
+            onCheckedChange={(checked) => onTargetChange(checked ? { amount: 1, unit: '' } : null)}
+          />
+        </div>
+        {target && (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Daily target</span>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={target.amount}
+                onChange={(e) => onTargetChange({ ...target, amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="h-8 w-20"
+              />
+              <Input
+                value={target.unit}
+                onChange={(e) => onTargetChange({ ...target, unit: e.target.value })}
+                placeholder="glasses, km..."
+                className="h-8 flex-1"
+              />
+            </div>
+            <p className="text-xs text-primary">Done once you log {formatHabitTarget(target)} in a day</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -16,24 +16,40 @@ import { FloatingActionHub } from '@/components/FloatingActionHub';
 import { ModuleDisabled } from '@/components/ModuleDisabled';
 import { SavingsGoalModal } from '@/components/SavingsGoalModal';
 import { SubscriptionModal } from '@/components/SubscriptionModal';
+import { BudgetModal } from '@/components/BudgetModal';
 import { ReceiptReviewModal } from '@/components/ReceiptReviewModal';
 import { TaskInputModal } from '@/components/TaskInputModal';
+import { HabitScheduleFields } from '@/components/HabitScheduleFields';
 import { DailyPlanAssistant } from '@/components/DailyPlanAssistant';
+import { SystemTemplateLibrary } from '@/components/SystemTemplateLibrary';
 import { WhatsNewModal } from '@/components/WhatsNewModal';
 import { TutorialProvider } from '@/components/tutorial/TutorialProvider';
-import { TabId, ModalConfig, ChatMessage, JournalEntry, AlertItem, SavingsGoal } from '@/lib/types';
+import { TabId, ModalConfig, ChatMessage, JournalEntry, AlertItem, SavingsGoal, RecurrenceRule, TaskDetails, Habit, HabitSchedule, HabitTarget, SystemTemplate, TransactionSplit } from '@/lib/types';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
 import { useAI } from '@/hooks/useAI';
+import { useEntitlements } from '@/hooks/useEntitlements';
 import { useProfile } from '@/hooks/useProfile';
 import { useAdminSettings } from '@/hooks/useAdminSettings';
 import { supabase } from '@/integrations/supabase/client';
 import { useUserSettings } from '@/hooks/useUserSettings';
-import { DAYS } from '@/lib/constants';
 import { formatCurrency, getCurrentDayIndex } from '@/lib/formatters';
+import { getTodayKey, getTaskDateTime, normalizeTasks } from '@/lib/taskDates';
+import { getTasksForDay, getNextOccurrence } from '@/lib/recurrence';
+import { addSubtasks } from '@/lib/subtasks';
+import { DEFAULT_HABIT_SCHEDULE, isHabitScheduledOn, setHabitValue } from '@/lib/habitSchedule';
+import { getActiveSystems } from '@/lib/archive';
+import { templateToSystem } from '@/lib/systemTemplates';
+import { getMonthlyAmount, getRemainingFixedCosts } from '@/lib/subscriptions';
+import { normalizeBudgets } from '@/lib/budgets';
+import { getTransferLegs } from '@/lib/transfers';
+import { getCategoryAmount } from '@/lib/splits';
+import { sortTasks, orderByIds, TaskSortMode } from '@/lib/taskSort';
+import { scheduleIntoFreeSlots, ScheduleItem } from '@/lib/timeBlocks';
+import { buildCalendar, parseCalendar, applyCalendarImport } from '@/lib/ical';
 import { extractEdgeFunctionError, showNetworkError } from '@/lib/networkErrorHandler';
 import { playReminderSound } from '@/lib/notificationSound';
 import { scheduleTaskReminder, cancelTaskReminder } from '@/lib/capacitorHelpers';
-import { Loader2, Sparkles } from 'lucide-react';
+import { LayoutTemplate, Loader2, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
 
 export default function LifeCommandCenter() {
@@ -45,28 +61,38 @@ export default function LifeCommandCenter() {
   const [inputWhy, setInputWhy] = useState('');
   const [taskTime, setTaskTime] = useState('');
   const [taskReminderEnabled, setTaskReminderEnabled] = useState(false);
+  const [taskRecurrence, setTaskRecurrence] = useState<RecurrenceRule | null>(null);
+  const [taskDetails, setTaskDetails] = useState<TaskDetails>({});
+  const [habitSchedule, setHabitSchedule] = useState<HabitSchedule>(DEFAULT_HABIT_SCHEDULE);
+  const [habitTarget, setHabitTarget] = useState<HabitTarget | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   // Wizard step for goal creation: 1 = goal info, 2 = add system
   const [goalWizardStep, setGoalWizardStep] = useState<1 | 2>(1);
-  const [pendingGoalId, setPendingGoalId] = useState<number | null>(null);
+  const [pendingGoalId, setPendingGoalId] = useState<string | number | null>(null);
+  // Goal wizard step 1 shows the template library in place of the form
+  const [showTemplates, setShowTemplates] = useState(false);
   
   // Supabase Data
   const {
     loading: dataLoading,
     saveStatus,
     tasks, setTasks,
-    systems, setSystems,
+    systems, setSystems, addSystem, updateSystem, deleteSystem,
+    addHabit, updateHabit, deleteHabit,
+    routines, setRoutines,
     transactions, setTransactions,
     journalEntries, setJournalEntries,
     budgets, setBudgets,
     categories, setCategories,
     subscriptions, setSubscriptions,
     savingsGoals, setSavingsGoals,
-    geminiApiKey, setGeminiApiKey
+    geminiApiKey, setGeminiApiKey,
+    refreshData
   } = useSupabaseData();
   
   // AI Hook
   const ai = useAI();
+  const { canUseAI } = useEntitlements();
   
   // Profile Hook
   const { profile } = useProfile();
@@ -75,7 +101,7 @@ export default function LifeCommandCenter() {
   const { isModuleEnabled } = useAdminSettings();
   
   // User Settings for currency conversion
-  const { preferences, formatAmount } = useUserSettings();
+  const { preferences, formatAmount, convert } = useUserSettings();
   const currency = preferences.currency;
   
   // Local UI State
@@ -86,7 +112,8 @@ export default function LifeCommandCenter() {
     amount: '',
     category: categories[0] || 'Food',
     description: '',
-    date: new Date().toISOString().split('T')[0]
+    date: new Date().toISOString().split('T')[0],
+    splits: [] as TransactionSplit[]
   });
   const [editingTransactionId, setEditingTransactionId] = useState<string | number | null>(null);
   const [financeAnalysis, setFinanceAnalysis] = useState("");
@@ -110,8 +137,6 @@ export default function LifeCommandCenter() {
   const [dailyBriefing, setDailyBriefing] = useState(welcomeMessage);
   const [lifeAudit, setLifeAudit] = useState<string | null>(null);
   const [draftText, setDraftText] = useState('');
-  const [pomodoroTime, setPomodoroTime] = useState(25 * 60);
-  const [pomodoroActive, setPomodoroActive] = useState(false);
   const [alerts, setAlerts] = useState<AlertItem[]>([]);
   const [showOnboarding, setShowOnboarding] = useState(() => {
     const hasSeenOnboarding = localStorage.getItem('lifeos_onboarding_complete');
@@ -122,16 +147,21 @@ export default function LifeCommandCenter() {
     localStorage.setItem('lifeos_onboarding_complete', 'true');
     setShowOnboarding(false);
   };
+  // Recurring occurrences share one row, so their alerts are tracked per date in memory
+  const alertedOccurrencesRef = useRef<Set<string>>(new Set());
+
   const checkTaskReminders = useCallback(async () => {
     const now = new Date();
     const currentHours = now.getHours();
     const currentMinutes = now.getMinutes();
     const currentTimeStr = `${String(currentHours).padStart(2, '0')}:${String(currentMinutes).padStart(2, '0')}`;
     
-    const todayKey = DAYS[getCurrentDayIndex()];
-    const todayTasks = tasks[todayKey] || [];
+    const todayKey = getTodayKey();
+    const todayTasks = getTasksForDay(tasks, todayKey);
     
     for (const task of todayTasks) {
+      const occurrenceKey = `${task.id}:${todayKey}`;
+      if (task.recurrence && alertedOccurrencesRef.current.has(occurrenceKey)) continue;
       if (task.time && !task.done && !task.alerted) {
         const [taskHour, taskMinute] = task.time.split(':').map(Number);
         const taskTotalMins = taskHour * 60 + taskMinute;
@@ -147,12 +177,16 @@ export default function LifeCommandCenter() {
           });
           
           // Mark as alerted
-          setTasks(prev => ({
-            ...prev,
-            [todayKey]: prev[todayKey]?.map(t => 
-              t.id === task.id ? { ...t, alerted: true } : t
-            ) || []
-          }));
+          if (task.recurrence) {
+            alertedOccurrencesRef.current.add(occurrenceKey);
+          } else {
+            setTasks(prev => ({
+              ...prev,
+              [todayKey]: prev[todayKey]?.map(t => 
+                t.id === task.id ? { ...t, alerted: true } : t
+              ) || []
+            }));
+          }
           
           // Play reminder sound
           playReminderSound();
@@ -169,7 +203,7 @@ export default function LifeCommandCenter() {
           const { data: { user } } = await supabase.auth.getUser();
           if (user?.email) {
             supabase.functions.invoke('send-task-reminder', {
-              body: { taskText: task.text, taskTime: task.time, userEmail: user.email }
+              body: { taskText: task.text, taskTime: task.time, taskDate: todayKey, recurrence: task.recurrence || null, userEmail: user.email }
             }).catch(err => console.log('Email notification skipped:', err));
           }
           
@@ -195,34 +229,23 @@ export default function LifeCommandCenter() {
     }
   }, [profile]);
 
-  // Pomodoro Timer
-  useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    if (pomodoroActive && pomodoroTime > 0) {
-      interval = setInterval(() => setPomodoroTime(prev => prev - 1), 1000);
-    } else if (pomodoroTime === 0) {
-      setPomodoroActive(false);
-      toast.success("Focus Session Complete!");
-      setPomodoroTime(25 * 60);
-    }
-    return () => { if (interval) clearInterval(interval); };
-  }, [pomodoroActive, pomodoroTime]);
-
   // Derived Data
   const currentDayIndex = getCurrentDayIndex();
   const totalIncome = transactions.filter(t => t.type === 'income').reduce((acc, curr) => acc + curr.amount, 0);
   const totalExpense = transactions.filter(t => t.type === 'expense').reduce((acc, curr) => acc + curr.amount, 0);
   const balance = totalIncome - totalExpense;
-  const totalFixedCosts = subscriptions.reduce((acc, sub) => acc + sub.amount, 0);
+  // Every billing cycle spread over a month, in the display currency
+  const totalFixedCosts = subscriptions.reduce((acc, sub) => acc + convert(getMonthlyAmount(sub), sub.currency || 'NGN', currency), 0);
   
   const today = new Date();
   const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
   const daysLeft = Math.max(1, daysInMonth - today.getDate());
   
-  const currentMonthExpenses = transactions.filter(t => {
+  const currentMonthExpenseTransactions = transactions.filter(t => {
     const d = new Date(t.date);
     return d.getMonth() === today.getMonth() && d.getFullYear() === today.getFullYear() && t.type === 'expense';
-  }).reduce((acc, t) => acc + t.amount, 0);
+  });
+  const currentMonthExpenses = currentMonthExpenseTransactions.reduce((acc, t) => acc + t.amount, 0);
 
   const currentMonthIncome = transactions.filter(t => {
     const d = new Date(t.date);
@@ -232,22 +255,53 @@ export default function LifeCommandCenter() {
   // Safe Daily Spend formula: [Current Month Balance - Fixed Expenses - Savings Goals] / Days Remaining
   const currentMonthBalance = currentMonthIncome - currentMonthExpenses;
   const totalSavingsGoals = savingsGoals.reduce((acc, g) => acc + Math.max(0, g.target - g.current), 0);
-  const remainingBudget = currentMonthBalance - totalFixedCosts - totalSavingsGoals;
+  const remainingFixedCosts = getRemainingFixedCosts(
+    subscriptions,
+    currentMonthExpenseTransactions,
+    getTodayKey(),
+    (amount, from) => convert(amount, from, currency)
+  );
+  const remainingBudget = currentMonthBalance - remainingFixedCosts - totalSavingsGoals;
   const safeDailySpend = Math.max(0, remainingBudget / daysLeft);
 
   const expenseData = categories.map(cat => ({
     name: cat,
-    value: transactions.filter(t => t.type === 'expense' && t.category === cat).reduce((acc, curr) => acc + curr.amount, 0)
+    value: transactions.filter(t => t.type === 'expense').reduce((acc, curr) => acc + getCategoryAmount(curr, cat), 0)
   })).filter(item => item.value > 0);
 
-  const totalHabits = systems.reduce((acc, sys) => acc + sys.habits.length, 0);
-  const completedHabits = systems.reduce((acc, sys) => acc + sys.habits.filter(h => h.completed[`d${currentDayIndex}`]).length, 0);
+  // Only habits whose schedule asks for a check-in today
+  const todayKey = getTodayKey();
+  const habitsDueToday = getActiveSystems(systems).flatMap(sys => sys.habits).filter(h => isHabitScheduledOn(h, todayKey));
+  const totalHabits = habitsDueToday.length;
+  const completedHabits = habitsDueToday.filter(h => h.completed[todayKey]).length;
 
   // Modal Handlers
   const openModal = (type: string, data: any = null, initialValue = '', initialWhy = '') => {
+    // Tasks added from a goal arrive as { day, systemId } and start out linked to it
+    if (type === 'addTask' && data?.systemId) {
+      setTaskDetails({ systemId: data.systemId });
+      data = data.day;
+    }
     setModalConfig({ isOpen: true, type, data });
     setInputValue(initialValue);
     setInputWhy(initialWhy);
+    if (type === 'editTask' && data) {
+      const task = tasks[data.day]?.find(t => String(t.id) === String(data.taskId));
+      setTaskDetails({
+        priority: task?.priority,
+        estimateMinutes: task?.estimateMinutes,
+        deadline: task?.deadline,
+        labels: task?.labels,
+        systemId: task?.systemId,
+      });
+    }
+    if (type === 'editHabit' && data) {
+      const habit = systems
+        .find(s => String(s.id) === String(data.systemId))?.habits
+        .find(h => String(h.id) === String(data.habitId));
+      setHabitSchedule(habit?.schedule || DEFAULT_HABIT_SCHEDULE);
+      setHabitTarget(habit?.target || null);
+    }
   };
   const closeModal = () => {
     setModalConfig({ isOpen: false, type: null, data: null });
@@ -255,26 +309,39 @@ export default function LifeCommandCenter() {
     setInputWhy('');
     setTaskTime('');
     setTaskReminderEnabled(false);
+    setTaskRecurrence(null);
+    setTaskDetails({});
+    setHabitSchedule(DEFAULT_HABIT_SCHEDULE);
+    setHabitTarget(null);
     setGoalWizardStep(1);
     setPendingGoalId(null);
+    setShowTemplates(false);
   };
 
   // AI Handlers
-  const handleSmartSort = async (day: string) => {
-    const currentTasks = tasks[day] || [];
+  const handleSmartSort = async (day: string, mode: TaskSortMode = 'ai') => {
+    // Checklist items stay with their parent, so only top-level tasks are reordered
+    const currentTasks = (tasks[day] || []).filter(t => !t.parentId);
     if (currentTasks.length < 2) return toast.error("Add at least 2 tasks to sort!");
     setSortingDay(day);
     
-    const sorted = await ai.smartSort(currentTasks);
-    if (sorted) {
-      setTasks(prev => ({ ...prev, [day]: sorted }));
-    } else {
-      // Fallback to random sort
-      setTasks(prev => ({
-        ...prev,
-        [day]: [...(prev[day] || [])].sort(() => Math.random() - 0.5)
-      }));
+    let order = sortTasks(currentTasks).map(t => t.id);
+    if (mode === 'ai' && canUseAI) {
+      const sorted = await ai.smartSort(currentTasks.map(({ id, text, done, priority, estimateMinutes, deadline, labels }) => (
+        { id, text, done, priority, estimateMinutes, deadline, labels }
+      )));
+      // The AI only returns ids and text, so fall back to the deterministic order if it is unusable
+      if (Array.isArray(sorted)) {
+        order = sorted.map((s: { id?: string | number } | string | number) => typeof s === 'object' ? s.id ?? '' : s);
+      }
     }
+    await setTasks(prev => {
+      const dayTasks = prev[day] || [];
+      return {
+        ...prev,
+        [day]: [...orderByIds(dayTasks.filter(t => !t.parentId), order), ...dayTasks.filter(t => t.parentId)]
+      };
+    });
     setSortingDay(null);
   };
 
@@ -282,19 +349,9 @@ export default function LifeCommandCenter() {
     setBreakingDownTask(taskId);
     
     const subtasks = await ai.breakdownTask(taskText);
-    if (subtasks) {
-      const newSubtasks = subtasks.map((s: any, i: number) => ({
-        id: Date.now() + i,
-        text: `↳ ${s.text || s}`,
-        done: false
-      }));
-      setTasks(prev => {
-        const currentDayTasks = prev[day] || [];
-        const taskIndex = currentDayTasks.findIndex(t => String(t.id) === String(taskId));
-        if (taskIndex === -1) return prev;
-        const newTasks = [...currentDayTasks.slice(0, taskIndex + 1), ...newSubtasks, ...currentDayTasks.slice(taskIndex + 1)];
-        return { ...prev, [day]: newTasks };
-      });
+    if (Array.isArray(subtasks)) {
+      const texts = subtasks.map((s: { text?: string } | string) => typeof s === 'string' ? s : s.text || '');
+      await setTasks(prev => addSubtasks(prev, day, taskId, texts));
     }
     setBreakingDownTask(null);
   };
@@ -325,8 +382,8 @@ export default function LifeCommandCenter() {
   };
 
   const handleDailyBriefing = async () => {
-    const todayKey = DAYS[currentDayIndex];
-    const todayTasksCount = tasks[todayKey]?.length || 0;
+    const todayKey = getTodayKey();
+    const todayTasksCount = getTasksForDay(tasks, todayKey).length;
     const briefing = await ai.dailyBriefing({
       todayTasks: todayTasksCount,
       habitsToComplete: totalHabits - completedHabits,
@@ -455,6 +512,7 @@ export default function LifeCommandCenter() {
     description: string;
     category: string;
     date: string;
+    splits: TransactionSplit[];
   }) => {
     const newTxn = {
       id: Date.now(),
@@ -476,6 +534,7 @@ export default function LifeCommandCenter() {
       category: categories[0] || 'Food',
       description: '',
       date: new Date().toISOString().split('T')[0],
+      splits: [],
     });
 
     setScannedReceiptData(null);
@@ -516,6 +575,19 @@ export default function LifeCommandCenter() {
 
   const [isModalSubmitting, setIsModalSubmitting] = useState(false);
 
+  // Installs a library template as a new goal with its systems in one go
+  const installTemplate = async (template: SystemTemplate) => {
+    if (isModalSubmitting) return;
+    setIsModalSubmitting(true);
+    const system = templateToSystem(template);
+    await addSystem(system);
+    toast.success(`"${template.goal}" added`, {
+      description: `${system.habits.length} system${system.habits.length === 1 ? '' : 's'} ready to track`,
+    });
+    setIsModalSubmitting(false);
+    closeModal();
+  };
+
   // Modal Submit Handler
   const handleModalSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -539,7 +611,10 @@ export default function LifeCommandCenter() {
           text: inputValue, 
           done: false,
           time: taskTime || undefined,
-          reminderEnabled: taskReminderEnabled
+          reminderEnabled: taskReminderEnabled,
+          recurrence: taskRecurrence,
+          occurrenceStates: {},
+          ...taskDetails
         };
         await setTasks(prev => ({
           ...prev,
@@ -547,31 +622,39 @@ export default function LifeCommandCenter() {
         }));
         // Schedule native reminder if enabled
         if (taskReminderEnabled && taskTime) {
-          const today = new Date();
-          const [hours, mins] = taskTime.split(':').map(Number);
-          const reminderDate = new Date(today.getFullYear(), today.getMonth(), today.getDate(), hours, mins);
-          scheduleTaskReminder(String(newTask.id), inputValue, reminderDate);
+          // Recurring tasks get a reminder for their next upcoming occurrence
+          const reminderDay = taskRecurrence
+            ? getNextOccurrence(taskRecurrence, modalConfig.data, getTodayKey())
+            : modalConfig.data;
+          const reminderDate = reminderDay ? getTaskDateTime(reminderDay, taskTime) : null;
+          if (reminderDate && reminderDate > new Date()) {
+            scheduleTaskReminder(String(newTask.id), inputValue, reminderDate);
+          }
         }
         break;
       case 'editTask':
         const { day, taskId } = modalConfig.data;
         await setTasks(prev => ({
           ...prev,
-          [day]: prev[day]?.map(t => t.id === taskId ? { ...t, text: inputValue } : t) || []
+          [day]: prev[day]?.map(t => t.id === taskId ? { ...t, text: inputValue, ...taskDetails } : t) || []
         }));
         break;
       case 'generateSchedule':
         setIsGenerating(true);
         const schedule = await ai.generateSchedule(inputValue || 'productive day');
-        if (schedule) {
-          const newItems = schedule.map((s: any, i: number) => ({
-            id: Date.now() + i,
-            text: s.text || s,
-            done: false
-          }));
+        if (Array.isArray(schedule)) {
+          const scheduleDay: string = modalConfig.data;
+          const items: ScheduleItem[] = schedule
+            .map((s: ScheduleItem | string) => typeof s === 'string' ? { text: s } : s)
+            .filter((s: ScheduleItem) => s.text);
+          // Today's plan starts from now; other days from the start of the day
+          const from = scheduleDay === getTodayKey() ? new Date().getHours() * 60 + new Date().getMinutes() : 0;
           await setTasks(prev => ({
             ...prev,
-            [modalConfig.data]: [...(prev[modalConfig.data] || []), ...newItems]
+            [scheduleDay]: [
+              ...(prev[scheduleDay] || []),
+              ...scheduleIntoFreeSlots(items, getTasksForDay(prev, scheduleDay), from)
+            ]
           }));
         }
         setIsGenerating(false);
@@ -580,9 +663,8 @@ export default function LifeCommandCenter() {
       case 'addSystem':
         if (goalWizardStep === 1) {
           // Step 1: Save goal info and move to step 2
-          const newSystemId = Date.now();
-          await setSystems(prev => [...prev, { id: newSystemId, goal: inputValue, why: inputWhy || "To improve my life", habits: [] }]);
-          setPendingGoalId(newSystemId);
+          const newSystem = await addSystem({ goal: inputValue, why: inputWhy || "To improve my life", habits: [] });
+          setPendingGoalId(newSystem.id);
           setInputValue('');
           setGoalWizardStep(2);
           setIsModalSubmitting(false);
@@ -590,40 +672,46 @@ export default function LifeCommandCenter() {
         } else {
           // Step 2: Add the system to the pending goal
           if (pendingGoalId && inputValue.trim()) {
-            await setSystems(prev => prev.map(s => String(s.id) === String(pendingGoalId) 
-              ? { ...s, habits: [...s.habits, { id: Date.now(), name: inputValue, completed: {} }] } 
-              : s
-            ));
+            await addHabit(pendingGoalId, { name: inputValue, completed: {} });
           }
           setGoalWizardStep(1);
           setPendingGoalId(null);
         }
         break;
       case 'editSystem':
-        await setSystems(prev => prev.map(s => String(s.id) === String(modalConfig.data) ? { ...s, goal: inputValue, why: inputWhy } : s));
+        await updateSystem(modalConfig.data, { goal: inputValue, why: inputWhy });
         break;
       case 'deleteSystem':
-        await setSystems(prev => prev.filter(s => String(s.id) !== String(modalConfig.data)));
+        await deleteSystem(modalConfig.data);
         break;
       case 'addHabitToSystem':
-        await setSystems(prev => prev.map(s => String(s.id) === String(modalConfig.data) 
-          ? { ...s, habits: [...s.habits, { id: Date.now(), name: inputValue, completed: {} }] } 
-          : s
-        ));
+        await addHabit(modalConfig.data, {
+          name: inputValue,
+          completed: {},
+          schedule: habitSchedule,
+          target: habitTarget && habitTarget.amount > 0 ? habitTarget : null,
+        });
         break;
-      case 'editHabit':
+      case 'editHabit': {
         const { systemId: editSysId, habitId: editHabId } = modalConfig.data;
-        await setSystems(prev => prev.map(s => String(s.id) === String(editSysId) 
-          ? { ...s, habits: s.habits.map(h => String(h.id) === String(editHabId) ? { ...h, name: inputValue } : h) } 
-          : s
-        ));
+        const editTarget = habitTarget && habitTarget.amount > 0 ? habitTarget : null;
+        const editedHabit = systems
+          .find(s => String(s.id) === String(editSysId))?.habits
+          .find(h => String(h.id) === String(editHabId));
+        if (editedHabit) {
+          let edited: Habit = { ...editedHabit, name: inputValue, schedule: habitSchedule, target: editTarget };
+          // Logged amounts are checked again against a changed target
+          if (editTarget) {
+            edited = Object.entries(editedHabit.values || {})
+              .reduce((habit, [date, value]) => setHabitValue(habit, date, value), edited);
+          }
+          await updateHabit(editSysId, editHabId, edited);
+        }
         break;
+      }
       case 'deleteHabit':
         const { systemId: delSysId, habitId: delHabId } = modalConfig.data;
-        await setSystems(prev => prev.map(s => String(s.id) === String(delSysId) 
-          ? { ...s, habits: s.habits.filter(h => String(h.id) !== String(delHabId)) } 
-          : s
-        ));
+        await deleteHabit(delSysId, delHabId);
         break;
       case 'generateSystems':
         setIsGenerating(true);
@@ -640,19 +728,24 @@ export default function LifeCommandCenter() {
         setIsGenerating(false);
         closeModal();
         return;
-      case 'setBudget':
-        await setBudgets(prev => ({ ...prev, [modalConfig.data]: parseFloat(inputValue) }));
+      case 'addBudget':
+      case 'editBudget':
+        // Handled by BudgetModal
         break;
       case 'addCategory':
         await setCategories(prev => [...prev, inputValue]);
         break;
-      case 'deleteTransaction':
-        await setTransactions(prev => prev.filter(tr => String(tr.id) !== String(modalConfig.data)));
+      case 'deleteTransaction': {
+        // Deleting either leg of a transfer removes the whole transfer
+        const deleted = transactions.find(tr => String(tr.id) === String(modalConfig.data));
+        const deletedIds = new Set(deleted ? getTransferLegs(deleted, transactions).map(tr => String(tr.id)) : [String(modalConfig.data)]);
+        await setTransactions(prev => prev.filter(tr => !deletedIds.has(String(tr.id))));
         if (String(editingTransactionId) === String(modalConfig.data)) {
           setEditingTransactionId(null);
-          setNewTransaction({ type: 'expense', amount: '', category: categories[0], description: '', date: new Date().toISOString().split('T')[0] });
+          setNewTransaction({ type: 'expense', amount: '', category: categories[0], description: '', date: new Date().toISOString().split('T')[0], splits: [] });
         }
         break;
+      }
       case 'addSubscription':
         const parts = inputValue.split(' ');
         const potentialAmount = parseFloat(parts[parts.length - 1]);
@@ -670,6 +763,9 @@ export default function LifeCommandCenter() {
       case 'deleteSubscription':
         await setSubscriptions(prev => prev.filter(s => String(s.id) !== String(modalConfig.data)));
         break;
+      case 'deleteBudget':
+        await setBudgets(prev => prev.filter(b => String(b.id) !== String(modalConfig.data)));
+        break;
       case 'addSavings':
         // Handled by SavingsGoalModal
         break;
@@ -729,11 +825,11 @@ export default function LifeCommandCenter() {
       try {
         const data = JSON.parse(event.target?.result as string);
         if (confirm("Overwrite current data with backup?")) {
-          if (data.tasks) await setTasks(data.tasks);
+          if (data.tasks) await setTasks(normalizeTasks(data.tasks));
           if (data.systems) await setSystems(data.systems);
           if (data.transactions) await setTransactions(data.transactions);
           if (data.journalEntries) await setJournalEntries(data.journalEntries);
-          if (data.budgets) await setBudgets(data.budgets);
+          if (data.budgets) await setBudgets(normalizeBudgets(data.budgets));
           if (data.categories) await setCategories(data.categories);
           if (data.subscriptions) await setSubscriptions(data.subscriptions);
           toast.success("Restored successfully!");
@@ -745,6 +841,34 @@ export default function LifeCommandCenter() {
     reader.readAsText(file);
   };
 
+  // Calendar (.ics) export/import
+  const handleExportCalendar = () => {
+    const blob = new Blob([buildCalendar(tasks, savingsGoals)], { type: "text/calendar" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `lifeos_calendar_${new Date().toISOString().split('T')[0]}.ics`;
+    a.click();
+  };
+
+  const handleImportCalendar = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      const items = parseCalendar(event.target?.result as string);
+      if (items.length === 0) {
+        toast.error("No events or to-dos found in this calendar.");
+        return;
+      }
+      const { added, updated } = applyCalendarImport(tasks, items);
+      await setTasks(prev => applyCalendarImport(prev, items).tasks);
+      toast.success(`Calendar imported: ${added} new, ${updated} updated.`);
+    };
+    reader.readAsText(file);
+  };
+
   // Get modal title
   const getModalTitle = () => {
     const typeMap: { [key: string]: string } = {
@@ -752,11 +876,13 @@ export default function LifeCommandCenter() {
       generateSystems: "AI Systems",
       lifeAudit: "Life Audit",
       smartDraft: "Smart Draft",
-      setBudget: "Set Budget",
+      addBudget: "New Budget",
+      editBudget: "Edit Budget",
       deleteTransaction: "Delete Record",
       deleteHabit: "Delete System",
       deleteSystem: "Delete Goal",
       deleteSubscription: "Delete Subscription",
+      deleteBudget: "Delete Budget",
       editSystem: "Edit Goal",
       editHabit: "Edit System",
       addSubscription: "Add Subscription",
@@ -804,6 +930,7 @@ export default function LifeCommandCenter() {
               <DashboardTab
                 tasks={tasks}
                 setTasks={setTasks}
+                systems={systems}
                 completedHabits={completedHabits}
                 totalHabits={totalHabits}
                 balance={balance}
@@ -824,7 +951,13 @@ export default function LifeCommandCenter() {
                 <SystemsTab
                   systems={systems}
                   setSystems={setSystems}
+                  routines={routines}
+                  setRoutines={setRoutines}
+                  tasks={tasks}
+                  setTasks={setTasks}
+                  journalEntries={journalEntries}
                   onOpenModal={openModal}
+                  onRefreshData={refreshData}
                 />
               ) : <ModuleDisabled moduleName="Systems & Goals" />
             )}
@@ -887,6 +1020,8 @@ export default function LifeCommandCenter() {
               <SettingsTab
                 onBackup={handleBackup}
                 onRestore={handleRestore}
+                onExportCalendar={handleExportCalendar}
+                onImportCalendar={handleImportCalendar}
               />
             )}
           </div>
@@ -899,7 +1034,7 @@ export default function LifeCommandCenter() {
         
         {/* Unified Floating Action Hub */}
         <FloatingActionHub 
-          todayTasks={tasks[DAYS[currentDayIndex]] || []}
+          todayTasks={getTasksForDay(tasks, getTodayKey())}
           onAddTask={(day, task) => setTasks(prev => ({
             ...prev,
             [day]: [...(prev[day] || []), task]
@@ -958,6 +1093,9 @@ export default function LifeCommandCenter() {
             modalConfig.type?.startsWith('delete') ? (
               <div className="space-y-4">
                 <p className="text-muted-foreground">Are you sure you want to delete this? This cannot be undone.</p>
+                {(modalConfig.type === 'deleteSystem' || modalConfig.type === 'deleteHabit') && (
+                  <p className="text-xs text-muted-foreground">Its check-in history is deleted too. Archive it instead to keep the history.</p>
+                )}
                 <div className="flex gap-2 justify-end">
                   <button onClick={closeModal} className="px-4 py-2 bg-muted rounded-lg">Cancel</button>
                   <button onClick={handleModalSubmit} className="px-4 py-2 bg-destructive text-destructive-foreground rounded-lg">Delete</button>
@@ -965,13 +1103,30 @@ export default function LifeCommandCenter() {
               </div>
             ) : (
               <form onSubmit={handleModalSubmit} className="space-y-4">
-                {modalConfig.type === 'addSystem' && goalWizardStep === 1 ? (
+                {modalConfig.type === 'addSystem' && goalWizardStep === 1 && showTemplates ? (
+                  <SystemTemplateLibrary
+                    onInstall={installTemplate}
+                    onBack={() => setShowTemplates(false)}
+                    installing={isModalSubmitting}
+                  />
+                ) : modalConfig.type === 'addSystem' && goalWizardStep === 1 ? (
                   <>
                     <div className="flex items-center gap-2 mb-4">
                       <div className="w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center font-bold text-sm">1</div>
                       <div className="flex-1 h-1 bg-muted rounded"></div>
                       <div className="w-8 h-8 rounded-full bg-muted text-muted-foreground flex items-center justify-center font-bold text-sm">2</div>
                     </div>
+                    <button
+                      type="button"
+                      onClick={() => setShowTemplates(true)}
+                      className="w-full p-3 bg-primary/5 border border-primary/20 rounded-xl text-left flex items-center gap-3 hover:bg-primary/10 transition-colors"
+                    >
+                      <LayoutTemplate size={18} className="text-primary flex-shrink-0" />
+                      <span className="text-sm">
+                        <span className="font-bold text-card-foreground">Start from a template</span>
+                        <span className="block text-xs text-muted-foreground">Pick a ready-made goal with its systems and schedules</span>
+                      </span>
+                    </button>
                     <div className="space-y-2">
                       <label className="text-xs font-bold text-muted-foreground uppercase">Goal Name *</label>
                       <input 
@@ -1036,18 +1191,26 @@ export default function LifeCommandCenter() {
                       <p className="text-xs text-muted-foreground">Both fields are required. Your "why" keeps you motivated.</p>
                     </div>
                   </>
-                ) : modalConfig.type === 'addHabitToSystem' ? (
+                ) : (modalConfig.type === 'addHabitToSystem' || modalConfig.type === 'editHabit') ? (
                   <div className="space-y-4">
-                    <p className="text-sm text-muted-foreground">
-                      A <strong>System</strong> is a repeatable action that moves you toward your goal. What will you do regularly?
-                    </p>
+                    {modalConfig.type === 'addHabitToSystem' && (
+                      <p className="text-sm text-muted-foreground">
+                        A <strong>System</strong> is a repeatable action that moves you toward your goal. What will you do regularly?
+                      </p>
+                    )}
                     <input 
                       autoFocus
                       className="w-full p-4 bg-muted border-0 rounded-xl focus:ring-2 focus:ring-primary/20 outline-none text-lg text-card-foreground placeholder:text-muted-foreground" 
-                      placeholder="e.g. Run 3 times per week" 
+                      placeholder={modalConfig.type === 'editHabit' ? "System name..." : "e.g. Go for a run"} 
                       value={inputValue} 
                       onChange={(e) => setInputValue(e.target.value)} 
                     />
+                    <HabitScheduleFields
+                      schedule={habitSchedule}
+                      onScheduleChange={setHabitSchedule}
+                      target={habitTarget}
+                      onTargetChange={setHabitTarget}
+                    />
                   </div>
                 ) : modalConfig.type === 'generateSchedule' ? (
                   <DailyPlanAssistant
@@ -1067,31 +1230,39 @@ export default function LifeCommandCenter() {
                     onReminderChange={setTaskReminderEnabled}
                     isGenerating={isGenerating}
                     showTimeReminder={modalConfig.type === 'addTask'}
+                    recurrence={taskRecurrence}
+                    onRecurrenceChange={modalConfig.type === 'addTask' ? setTaskRecurrence : undefined}
+                    startDate={modalConfig.type === 'addTask' ? modalConfig.data : undefined}
+                    details={taskDetails}
+                    onDetailsChange={setTaskDetails}
+                    systems={systems}
                   />
                 ) : (
                   <input 
                     autoFocus 
                     className="w-full p-4 bg-muted border-0 rounded-xl focus:ring-2 focus:ring-primary/20 outline-none text-lg text-card-foreground placeholder:text-muted-foreground" 
-                    placeholder={modalConfig.type === 'setBudget' ? "Enter limit amount" : modalConfig.type === 'editHabit' ? "System name..." : "Type here..."} 
+                    placeholder="Type here..." 
                     value={inputValue} 
                     onChange={(e) => setInputValue(e.target.value)} 
                     disabled={isGenerating} 
-                    type={modalConfig.type === 'setBudget' ? "number" : "text"} 
+                    type="text" 
                   />
                 )}
-                <div className="flex gap-3 justify-end">
-                  <button type="button" onClick={closeModal} className="px-5 py-2.5 text-muted-foreground hover:bg-muted rounded-xl font-bold transition-colors">
-                    Cancel
-                  </button>
-                  <button 
-                    type="submit" 
-                    disabled={isGenerating} 
-                    className="px-6 py-2.5 bg-secondary text-secondary-foreground rounded-xl hover:bg-secondary/80 font-bold shadow-soft flex items-center gap-2 transition-all active:scale-95"
-                  >
-                    {isGenerating && <Loader2 className="animate-spin" size={18} />}
-                    {isGenerating ? "Thinking..." : (modalConfig.type === 'addSystem' && goalWizardStep === 1) ? "Next →" : (modalConfig.type === 'addSystem' && goalWizardStep === 2) ? "Done" : "Save"}
-                  </button>
-                </div>
+                {!(modalConfig.type === 'addSystem' && showTemplates) && (
+                  <div className="flex gap-3 justify-end">
+                    <button type="button" onClick={closeModal} className="px-5 py-2.5 text-muted-foreground hover:bg-muted rounded-xl font-bold transition-colors">
+                      Cancel
+                    </button>
+                    <button 
+                      type="submit" 
+                      disabled={isGenerating} 
+                      className="px-6 py-2.5 bg-secondary text-secondary-foreground rounded-xl hover:bg-secondary/80 font-bold shadow-soft flex items-center gap-2 transition-all active:scale-95"
+                    >
+                      {isGenerating && <Loader2 className="animate-spin" size={18} />}
+                      {isGenerating ? "Thinking..." : (modalConfig.type === 'addSystem' && goalWizardStep === 1) ? "Next →" : (modalConfig.type === 'addSystem' && goalWizardStep === 2) ? "Done" : "Save"}
+                    </button>
+                  </div>
+                )}
               </form>
             )
           )}
@@ -1124,15 +1295,41 @@ export default function LifeCommandCenter() {
           >
             <SubscriptionModal
               mode={modalConfig.type === 'addSubscription' ? 'add' : 'edit'}
-              initialName={modalConfig.type === 'editSubscription' ? modalConfig.data?.name : ''}
-              initialAmount={modalConfig.type === 'editSubscription' ? modalConfig.data?.amount : 0}
+              initial={modalConfig.type === 'editSubscription' ? modalConfig.data : null}
               currency={currency}
-              onSave={async (name, amount) => {
+              categories={categories}
+              onSave={async (subscription) => {
                 if (modalConfig.type === 'addSubscription') {
-                  await setSubscriptions(prev => [...prev, { id: Date.now(), name, amount }]);
+                  await setSubscriptions(prev => [...prev, { id: Date.now(), ...subscription }]);
                 } else {
                   await setSubscriptions(prev => prev.map(s => 
-                    String(s.id) === String(modalConfig.data?.id) ? { ...s, name, amount } : s
+                    String(s.id) === String(modalConfig.data?.id) ? { ...s, ...subscription } : s
+                  ));
+                }
+                closeModal();
+              }}
+              onClose={closeModal}
+            />
+          </Modal>
+        )}
+        
+        {/* Budget Modal */}
+        {(modalConfig.type === 'addBudget' || modalConfig.type === 'editBudget') && (
+          <Modal 
+            isOpen={modalConfig.isOpen} 
+            onClose={closeModal} 
+            title={modalConfig.type === 'addBudget' ? 'New Budget' : 'Edit Budget'}
+          >
+            <BudgetModal
+              mode={modalConfig.type === 'addBudget' ? 'add' : 'edit'}
+              initial={modalConfig.data}
+              categories={categories}
+              onSave={async (budget) => {
+                if (modalConfig.type === 'addBudget') {
+                  await setBudgets(prev => [...prev, { id: Date.now(), ...budget }]);
+                } else {
+                  await setBudgets(prev => prev.map(b => 
+                    String(b.id) === String(modalConfig.data?.id) ? { ...b, ...budget } : b
                   ));
                 }
                 closeModal();
@@ -1,49 +1,73 @@
-import { useState, useEffect } from 'react';
-import { WifiOff, Wifi } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { WifiOff, Wifi, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
 
 export function OfflineIndicator() {
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const { online: isOnline, syncing, pending, conflicts, failed } = useSyncStatus();
   const [wasOffline, setWasOffline] = useState(false);
+  const seenRef = useRef({ conflicts, failed });
+
+  const pendingRef = useRef(pending);
+  pendingRef.current = pending;
 
   useEffect(() => {
-    const handleOnline = () => {
-      setIsOnline(true);
-      if (wasOffline) {
-        toast.success('Back online!', {
-          description: 'Your connection has been restored.',
-          icon: <Wifi className="h-4 w-4" />,
-          duration: 3000,
-        });
-        setWasOffline(false);
-      }
-    };
-
-    const handleOffline = () => {
-      setIsOnline(false);
+    if (isOnline && wasOffline) {
+      const queued = pendingRef.current;
+      toast.success('Back online!', {
+        description: queued > 0
+          ? `Syncing ${queued} change${queued === 1 ? '' : 's'} made while offline.`
+          : 'Your connection has been restored.',
+        icon: <Wifi className="h-4 w-4" />,
+        duration: 3000,
+      });
+      setWasOffline(false);
+    } else if (!isOnline && !wasOffline) {
       setWasOffline(true);
       toast.error('You are offline', {
-        description: 'Some features may not work until you reconnect.',
+        description: 'Changes are saved on this device and will sync when you reconnect.',
         icon: <WifiOff className="h-4 w-4" />,
         duration: 5000,
       });
-    };
+    }
+  }, [isOnline, wasOffline]);
+
+  useEffect(() => {
+    const newConflicts = conflicts - seenRef.current.conflicts;
+    const newFailures = failed - seenRef.current.failed;
+    seenRef.current = { conflicts, failed };
 
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
+    if (newConflicts > 0) {
+      toast.warning('Edits need your review', {
+        description: `${newConflicts} item${newConflicts === 1 ? ' was' : 's were'} also changed on another device. Choose which version to keep.`,
+        duration: 6000,
+      });
+    }
+    if (newFailures > 0) {
+      toast.error('Some changes could not be synced', {
+        description: 'They were rejected by the server. See the error center for details.',
+        duration: 6000,
+      });
+    }
+  }, [conflicts, failed]);
 
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, [wasOffline]);
+  if (isOnline && !(syncing && pending > 0)) return null;
 
-  if (isOnline) return null;
+  if (isOnline) {
+    return (
+      <div className="fixed top-0 left-0 right-0 z-[100] bg-muted text-muted-foreground py-2 px-4 text-center text-sm flex items-center justify-center gap-2 animate-in slide-in-from-top">
+        <RefreshCw className="h-4 w-4 animate-spin" />
+        <span>Syncing {pending} offline change{pending === 1 ? '' : 's'}...</span>
+      </div>
+    );
+  }
 
   return (
     <div className="fixed top-0 left-0 right-0 z-[100] bg-destructive text-destructive-foreground py-2 px-4 text-center text-sm flex items-center justify-center gap-2 animate-in slide-in-from-top">
       <WifiOff className="h-4 w-4" />
-      <span>You are offline. Changes will sync when you reconnect.</span>
+      <span>
+        You are offline. {pending > 0 ? `${pending} change${pending === 1 ? '' : 's'} will sync` : 'Changes will sync'} when you reconnect.
+      </span>
     </div>
   );
 }
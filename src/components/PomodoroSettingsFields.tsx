@@ -0,0 +1,41 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { PomodoroSettings, normalizePomodoroSettings } from '@/lib/pomodoro';
+
+interface PomodoroSettingsFieldsProps {
+  settings: PomodoroSettings;
+  onChange: (settings: PomodoroSettings) => void;
+}
+
+const LENGTH_FIELDS: { key: 'workMinutes' | 'shortBreakMinutes' | 'longBreakMinutes' | 'longBreakEvery'; label: string }[] = [
+  { key: 'workMinutes', label: 'Focus (min)' },
+  { key: 'shortBreakMinutes', label: 'Short break' },
+  { key: 'longBreakMinutes', label: 'Long break' },
+  { key: 'longBreakEvery', label: 'Long break every' },
+];
+
+export function PomodoroSettingsFields({ settings, onChange }: PomodoroSettingsFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {LENGTH_FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">{field.label}</Label>
+            <Input
+              type="number"
+              min={1}
+              value={settings[field.key]}
+              onChange={(e) => onChange(normalizePomodoroSettings({ ...settings, [field.key]: parseInt(e.target.value) }))}
+              className="h-8 text-sm"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground">Start the next phase automatically</Label>
+        <Switch checked={settings.autoStart} onCheckedChange={(autoStart) => onChange({ ...settings, autoStart })} />
+      </div>
+    </div>
+  );
+}
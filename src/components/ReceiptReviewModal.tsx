@@ -3,8 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Modal } from '@/components/Modal';
-import { Receipt, Check, X, AlertTriangle } from 'lucide-react';
+import { SplitEditor } from '@/components/SplitEditor';
+import { Receipt, Check, X, AlertTriangle, Split } from 'lucide-react';
 import { formatCurrency } from '@/lib/formatters';
+import { TransactionSplit } from '@/lib/types';
+import { SPLIT_CATEGORY, buildSplits, isSplitBalanced } from '@/lib/splits';
 
 interface ReceiptItem {
   description: string;
@@ -32,9 +35,25 @@ interface ReceiptReviewModalProps {
     description: string;
     category: string;
     date: string;
+    splits: TransactionSplit[];
   }) => void;
 }
 
+// The user's category for a scanned one: an exact match, one that contains it
+// ("Bills" → "Rent/Bills"), else Other
+function matchCategory(scanned: string, categories: string[]): string {
+  const name = scanned.toLowerCase();
+  return categories.find(c => c.toLowerCase() === name)
+    || categories.find(c => c.toLowerCase().includes(name))
+    || (categories.includes('Other') ? 'Other' : categories[0] || scanned);
+}
+
+// Scanned items as category lines adding up to the total
+function getReceiptSplits(receipt: ScannedReceipt, total: number, categories: string[]): TransactionSplit[] {
+  const items = (receipt.items || []).map(item => ({ category: matchCategory(item.category, categories), amount: item.amount }));
+  return buildSplits(items, total);
+}
+
 export function ReceiptReviewModal({
   isOpen,
   onClose,
@@ -49,16 +68,20 @@ export function ReceiptReviewModal({
     category: categories[0] || 'Other',
     date: new Date().toISOString().split('T')[0],
   });
+  // Empty unless the receipt is saved as a split
+  const [splits, setSplits] = useState<TransactionSplit[]>([]);
 
-  // Update when scannedData changes
+  // Update when scannedData changes; items in more than one category start out as a split
   useEffect(() => {
     if (scannedData) {
+      const lines = getReceiptSplits(scannedData, scannedData.total || 0, categories);
       setEditedData({
         amount: scannedData.total || 0,
         description: scannedData.vendor || 'Scanned Receipt',
-        category: scannedData.items?.[0]?.category || categories[0] || 'Other',
+        category: lines[0]?.category || matchCategory(scannedData.items?.[0]?.category || 'Other', categories),
         date: scannedData.date || new Date().toISOString().split('T')[0],
       });
+      setSplits(lines.length > 1 ? lines : []);
     }
   }, [scannedData, categories]);
 
@@ -67,13 +90,30 @@ export function ReceiptReviewModal({
   const confidence = scannedData.confidence || 0.8;
   const isLowConfidence = confidence < 0.7;
 
+  // A split left with one line is saved under that line's category
+  const lines = splits.filter(s => s.amount > 0);
+  const isSplitting = splits.length > 0;
+  const canConfirm = lines.length <= 1 || isSplitBalanced(lines, editedData.amount);
+
+  const toggleSplit = () => {
+    if (isSplitting) {
+      setEditedData(prev => ({ ...prev, category: splits[0].category }));
+      setSplits([]);
+    } else {
+      const receiptLines = getReceiptSplits(scannedData, editedData.amount, categories);
+      setSplits(receiptLines.length > 1 ? receiptLines : [{ category: editedData.category, amount: editedData.amount }]);
+    }
+  };
+
   const handleConfirm = () => {
+    if (!canConfirm) return;
     onConfirm({
       type: 'expense',
       amount: editedData.amount,
       description: editedData.description,
-      category: editedData.category,
+      category: lines.length > 1 ? SPLIT_CATEGORY : lines[0]?.category || editedData.category,
       date: editedData.date,
+      splits: lines.length > 1 ? lines : [],
     });
     onClose();
   };
@@ -124,19 +164,39 @@ export function ReceiptReviewModal({
             />
           </div>
 
-          {/* Category */}
+          {/* Category, or split lines */}
           <div className="space-y-1">
-            <Label htmlFor="category" className="text-xs">Category</Label>
-            <select
-              id="category"
-              value={editedData.category}
-              onChange={(e) => setEditedData(prev => ({ ...prev, category: e.target.value }))}
-              className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
-            >
-              {categories.map(cat => (
-                <option key={cat} value={cat}>{cat}</option>
-              ))}
-            </select>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="category" className="text-xs">{isSplitting ? 'Split by category' : 'Category'}</Label>
+              <button
+                type="button"
+                onClick={toggleSplit}
+                className="flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                <Split size={12} />
+                {isSplitting ? 'Use one category' : 'Split'}
+              </button>
+            </div>
+            {isSplitting ? (
+              <SplitEditor
+                splits={splits}
+                total={editedData.amount}
+                categories={categories}
+                currency={currency}
+                onChange={setSplits}
+              />
+            ) : (
+              <select
+                id="category"
+                value={editedData.category}
+                onChange={(e) => setEditedData(prev => ({ ...prev, category: e.target.value }))}
+                className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
+              >
+                {[...new Set([...categories, editedData.category])].map(cat => (
+                  <option key={cat} value={cat}>{cat}</option>
+                ))}
+              </select>
+            )}
           </div>
 
           {/* Date */}
@@ -160,6 +220,7 @@ export function ReceiptReviewModal({
                 {scannedData.items.slice(0, 5).map((item, idx) => (
                   <div key={idx} className="flex justify-between text-xs text-muted-foreground">
                     <span className="truncate flex-1">{item.description}</span>
+                    <span className="ml-2">{item.category}</span>
                     <span className="font-medium ml-2">{formatCurrency(item.amount, currency)}</span>
                   </div>
                 ))}
@@ -187,7 +248,7 @@ export function ReceiptReviewModal({
             <X size={16} className="mr-2" />
             Cancel
           </Button>
-          <Button onClick={handleConfirm} className="flex-1">
+          <Button onClick={handleConfirm} className="flex-1" disabled={!canConfirm}>
             <Check size={16} className="mr-2" />
             Confirm & Save
           </Button>
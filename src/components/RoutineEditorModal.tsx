@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Clock, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Modal } from '@/components/Modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Routine, RoutineStep, System } from '@/lib/types';
+import { DEFAULT_STEP_MINUTES, findHabit, getRoutineMinutes } from '@/lib/routines';
+import { getActiveSystems } from '@/lib/archive';
+
+interface RoutineEditorModalProps {
+  isOpen: boolean;
+  // Edit this routine, or create a new one when not set
+  routine?: Routine;
+  systems: System[];
+  onSave: (routine: Omit<Routine, 'id'>) => void;
+  onClose: () => void;
+}
+
+export function RoutineEditorModal({ isOpen, routine, systems: allSystems, onSave, onClose }: RoutineEditorModalProps) {
+  const systems = getActiveSystems(allSystems);
+  const [name, setName] = useState(routine?.name || '');
+  const [startTime, setStartTime] = useState(routine?.startTime || '');
+  const [steps, setSteps] = useState<RoutineStep[]>(
+    // Steps of archived habits stay so they come back when the habit is restored
+    () => (routine?.steps || []).filter(step => findHabit(allSystems, step.habitId))
+  );
+
+  const usedHabitIds = new Set(steps.map(step => step.habitId));
+  const availableSystems = systems
+    .map(system => ({ ...system, habits: system.habits.filter(h => !usedHabitIds.has(String(h.id))) }))
+    .filter(system => system.habits.length > 0);
+
+  const updateStep = (index: number, minutes: number) => {
+    setSteps(prev => prev.map((step, i) => i === index ? { ...step, minutes } : step));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error('Please give the routine a name');
+      return;
+    }
+    if (steps.length === 0) {
+      toast.error('Add at least one habit to the routine');
+      return;
+    }
+    onSave({ name: name.trim(), startTime: startTime || null, steps });
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={routine ? 'Edit Routine' : 'New Routine'} maxWidth="max-w-lg">
+      <div className="space-y-4">
+        <div className="grid grid-cols-[1fr_auto] gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Morning routine" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Start time (optional)</Label>
+            <input
+              type="time"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className="h-10 px-3 bg-background border border-input rounded-md text-sm text-foreground"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Steps, in order</Label>
+            {steps.length > 0 && (
+              <span className="text-xs text-muted-foreground flex items-center gap-1">
+                <Clock size={12} /> {getRoutineMinutes(steps)} min total
+              </span>
+            )}
+          </div>
+
+          {steps.length === 0 ? (
+            <p className="text-xs text-muted-foreground p-3 bg-muted/50 rounded-xl">
+              Stack habits you already track, e.g. water → stretch → journal.
+            </p>
+          ) : (
+            <div className="space-y-1.5">
+              {steps.map((step, index) => {
+                const found = findHabit(allSystems, step.habitId);
+                const goal = allSystems.find(s => found && String(s.id) === String(found.systemId))?.goal;
+                const archived = !findHabit(systems, step.habitId);
+                return (
+                  <div key={step.habitId} className="flex items-center gap-2 p-2 bg-muted/50 rounded-lg">
+                    <span className="w-5 text-xs font-bold text-primary text-center">{index + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-card-foreground truncate">{found?.habit.name}</p>
+                      {goal && <p className="text-[10px] text-muted-foreground truncate">{goal}{archived && ' · archived, skipped when run'}</p>}
+                    </div>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={step.minutes}
+                      onChange={(e) => updateStep(index, Math.max(1, parseInt(e.target.value) || 1))}
+                      className="h-8 w-16 text-sm"
+                    />
+                    <span className="text-xs text-muted-foreground">min</span>
+                    <div className="flex">
+                      <button
+                        onClick={() => moveStep(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-muted-foreground hover:text-primary disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp size={14} />
+                      </button>
+                      <button
+                        onClick={() => moveStep(index, 1)}
+                        disabled={index === steps.length - 1}
+                        className="p-1 text-muted-foreground hover:text-primary disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown size={14} />
+                      </button>
+                      <button
+                        onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                        className="p-1 text-destructive/60 hover:text-destructive"
+                        title="Remove step"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {availableSystems.length > 0 ? (
+            <Select
+              value=""
+              onValueChange={(habitId) => setSteps(prev => [...prev, { habitId, minutes: DEFAULT_STEP_MINUTES }])}
+            >
+              <SelectTrigger className="h-9">
+                <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Plus size={14} />
+                  <SelectValue placeholder="Add a habit" />
+                </span>
+              </SelectTrigger>
+              <SelectContent>
+                {availableSystems.map(system => (
+                  <SelectGroup key={system.id}>
+                    <SelectLabel>{system.goal}</SelectLabel>
+                    {system.habits.map(habit => (
+                      <SelectItem key={habit.id} value={String(habit.id)}>{habit.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : systems.every(system => system.habits.length === 0) && (
+            <p className="text-xs text-muted-foreground">Add habits to a goal first, then stack them here.</p>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <Button variant="outline" onClick={onClose} className="flex-1">Cancel</Button>
+          <Button onClick={handleSave} className="flex-1">{routine ? 'Save Routine' : 'Create Routine'}</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Check, CheckCircle2, Circle, Clock, SkipForward, Timer } from 'lucide-react';
+import { toast } from 'sonner';
+import { Modal } from '@/components/Modal';
+import { FocusTimer } from '@/components/FocusTimer';
+import { Button } from '@/components/ui/button';
+import { Routine, System } from '@/lib/types';
+import { getRoutineMinutes, getRoutineSteps } from '@/lib/routines';
+import { isHabitDoneOn } from '@/lib/habitSchedule';
+import { getTodayKey } from '@/lib/taskDates';
+
+type StepResult = 'done' | 'skipped';
+
+interface RoutineRunnerModalProps {
+  isOpen: boolean;
+  routine: Routine;
+  systems: System[];
+  // Called as each step is finished so progress is kept if the run is left halfway
+  onCompleteStep: (habitId: string | number) => void;
+  onClose: () => void;
+}
+
+// Guided run: one habit at a time, optionally timed with the focus timer
+export function RoutineRunnerModal({ isOpen, routine, systems, onCompleteStep, onClose }: RoutineRunnerModalProps) {
+  const today = getTodayKey();
+  const steps = getRoutineSteps(routine, systems);
+  // Steps already checked off today count as done from the start
+  const [results, setResults] = useState<(StepResult | undefined)[]>(() =>
+    steps.map(step => isHabitDoneOn(step.habit, today) ? 'done' : undefined)
+  );
+  const [timerOn, setTimerOn] = useState(false);
+
+  const current = results.findIndex(result => result === undefined);
+  const finished = current === -1;
+  const step = finished ? null : steps[current];
+  const doneCount = results.filter(result => result === 'done').length;
+
+  const finishStep = (result: StepResult) => {
+    if (!step) return;
+    if (result === 'done') onCompleteStep(step.habit.id);
+    const next = results.map((r, i) => i === current ? result : r);
+    setResults(next);
+    setTimerOn(false);
+    if (next.every(r => r === 'done')) toast.success(`${routine.name} complete!`);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={routine.name} maxWidth="max-w-md">
+      <div className="space-y-4">
+        {/* Overall progress */}
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{finished ? 'All steps through' : `Step ${current + 1} of ${steps.length}`}</span>
+            <span className="flex items-center gap-1"><Clock size={12} /> {getRoutineMinutes(steps)} min</span>
+          </div>
+          <div className="h-2 bg-muted rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${steps.length > 0 ? (results.filter(Boolean).length / steps.length) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+
+        {step ? (
+          <div className="space-y-3">
+            <div className="p-4 bg-primary/10 rounded-xl border border-primary/20 text-center space-y-1">
+              <p className="text-lg font-bold text-card-foreground">{step.habit.name}</p>
+              <p className="text-xs text-muted-foreground">{step.minutes} min</p>
+            </div>
+
+            {timerOn ? (
+              <FocusTimer
+                key={current}
+                preset={{ label: `${routine.name}: ${step.habit.name}`, minutes: step.minutes }}
+                onSessionComplete={() => finishStep('done')}
+              />
+            ) : (
+              <Button variant="outline" className="w-full" onClick={() => setTimerOn(true)}>
+                <Timer size={16} className="mr-2" /> Start {step.minutes}-min timer
+              </Button>
+            )}
+
+            <div className="flex gap-2">
+              <Button variant="ghost" className="flex-1" onClick={() => finishStep('skipped')}>
+                <SkipForward size={16} className="mr-2" /> Skip
+              </Button>
+              <Button className="flex-1" onClick={() => finishStep('done')}>
+                <Check size={16} className="mr-2" /> Done
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 bg-success/10 rounded-xl border border-success/20 text-center space-y-1">
+            <p className="font-bold text-card-foreground">
+              {doneCount === steps.length ? 'Routine complete' : `${doneCount} of ${steps.length} steps done`}
+            </p>
+            <p className="text-xs text-muted-foreground">Completed steps are checked off in your systems for today.</p>
+          </div>
+        )}
+
+        {/* The chain */}
+        <div className="space-y-1">
+          {steps.map((s, i) => (
+            <div
+              key={s.habit.id}
+              className={`flex items-center gap-2 text-sm px-2 py-1 rounded-md ${i === current ? 'bg-muted font-medium' : ''}`}
+            >
+              {results[i] === 'done' ? (
+                <CheckCircle2 size={14} className="text-success flex-shrink-0" />
+              ) : (
+                <Circle size={14} className={`flex-shrink-0 ${results[i] === 'skipped' ? 'text-muted-foreground/40' : 'text-muted-foreground'}`} />
+              )}
+              <span className={`flex-1 truncate ${results[i] === 'skipped' ? 'line-through text-muted-foreground' : 'text-card-foreground'}`}>
+                {s.habit.name}
+              </span>
+              <span className="text-[10px] text-muted-foreground">{s.minutes} min</span>
+            </div>
+          ))}
+        </div>
+
+        {finished && (
+          <Button className="w-full" onClick={onClose}>Close</Button>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { CheckCircle2, Clock, Edit2, ListOrdered, Play, Plus, Trash2 } from 'lucide-react';
+import { Routine, System } from '@/lib/types';
+import { completeHabit, formatRoutineChain, getRoutineMinutes, getRoutineSteps, isRoutineDoneOn } from '@/lib/routines';
+import { RoutineEditorModal } from '@/components/RoutineEditorModal';
+import { RoutineRunnerModal } from '@/components/RoutineRunnerModal';
+
+interface RoutinesPanelProps {
+  routines: Routine[];
+  setRoutines: React.Dispatch<React.SetStateAction<Routine[]>>;
+  systems: System[];
+  setSystems: React.Dispatch<React.SetStateAction<System[]>>;
+}
+
+export function RoutinesPanel({ routines, setRoutines, systems, setSystems }: RoutinesPanelProps) {
+  // null = closed, 'new' = creating
+  const [editing, setEditing] = useState<Routine | 'new' | null>(null);
+  const [running, setRunning] = useState<Routine | null>(null);
+
+  const saveRoutine = (data: Omit<Routine, 'id'>) => {
+    if (editing && editing !== 'new') {
+      setRoutines(prev => prev.map(r => String(r.id) === String(editing.id) ? { ...r, ...data } : r));
+    } else {
+      setRoutines(prev => [...prev, { id: Date.now(), ...data }]);
+    }
+  };
+
+  const deleteRoutine = (id: string | number) => {
+    setRoutines(prev => prev.filter(r => String(r.id) !== String(id)));
+  };
+
+  return (
+    <div className="bg-card rounded-xl shadow-soft p-3 md:p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-bold text-card-foreground text-sm md:text-base flex items-center gap-2">
+          <ListOrdered size={16} className="text-primary" />
+          Routines
+        </h4>
+        <button
+          onClick={() => setEditing('new')}
+          className="text-primary hover:bg-primary/10 px-2 md:px-3 py-1 rounded text-xs md:text-sm font-bold border border-primary/20 flex items-center gap-1"
+        >
+          <Plus size={12} className="md:w-[14px] md:h-[14px]" /> Routine
+        </button>
+      </div>
+
+      {routines.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Stack habits into an ordered routine, like a morning routine of water → stretch → journal, and run through it step by step.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {routines.map(routine => {
+            const steps = getRoutineSteps(routine, systems);
+            const done = isRoutineDoneOn(routine, systems);
+            return (
+              <div key={routine.id} className="bg-muted/50 rounded-lg p-2.5 md:p-3 flex items-start gap-2">
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <p className="text-sm font-medium text-card-foreground flex items-center gap-1.5">
+                    {done && <CheckCircle2 size={14} className="text-success flex-shrink-0" />}
+                    <span className="truncate">{routine.name}</span>
+                  </p>
+                  <p className="text-[10px] md:text-xs text-muted-foreground flex items-center gap-1">
+                    <Clock size={10} />
+                    {routine.startTime ? `${routine.startTime} · ` : ''}{getRoutineMinutes(steps)} min
+                  </p>
+                  <p className="text-[10px] md:text-xs text-muted-foreground truncate" title={formatRoutineChain(steps)}>
+                    {steps.length > 0 ? formatRoutineChain(steps) : 'No steps'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => setRunning(routine)}
+                    disabled={steps.length === 0}
+                    className="bg-primary text-primary-foreground hover:bg-primary/90 p-1.5 rounded-md disabled:opacity-40"
+                    title="Run routine"
+                  >
+                    <Play size={12} />
+                  </button>
+                  <button
+                    onClick={() => setEditing(routine)}
+                    className="bg-primary/10 text-primary hover:bg-primary/20 p-1.5 rounded-md"
+                    title="Edit routine"
+                  >
+                    <Edit2 size={12} />
+                  </button>
+                  <button
+                    onClick={() => deleteRoutine(routine.id)}
+                    className="text-destructive/60 hover:bg-destructive/10 p-1.5 rounded-md"
+                    title="Delete routine"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editing && (
+        <RoutineEditorModal
+          isOpen
+          routine={editing === 'new' ? undefined : editing}
+          systems={systems}
+          onSave={saveRoutine}
+          onClose={() => setEditing(null)}
+        />
+      )}
+      {running && (
+        <RoutineRunnerModal
+          isOpen
+          routine={running}
+          systems={systems}
+          onCompleteStep={(habitId) => setSystems(prev => completeHabit(prev, habitId))}
+          onClose={() => setRunning(null)}
+        />
+      )}
+    </div>
+  );
+}
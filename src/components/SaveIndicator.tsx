@@ -1,39 +1,89 @@
-import { Check, Cloud, CloudOff, Loader2 } from 'lucide-react';
+import { GitMerge, Check, CloudOff, Loader2, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { ErrorCenterPanel } from '@/components/ErrorCenterPanel';
 
-export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'queued' | 'error';
 
 interface SaveIndicatorProps {
   status: SaveStatus;
   className?: string;
 }
 
+const pluralize = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
 export const SaveIndicator = ({ status, className }: SaveIndicatorProps) => {
-  if (status === 'idle') return null;
+  const sync = useSyncStatus();
+
+  // Outside of a save, keep showing queued work and open conflicts until they are dealt with
+  const display = status !== 'idle'
+    ? status
+    : sync.conflicts > 0
+      ? 'conflict'
+      : sync.syncing && sync.pending > 0
+        ? 'syncing'
+        : sync.pending > 0
+          ? 'queued'
+          : 'idle';
+
+  if (display === 'idle') return null;
+
+  if (display === 'conflict') {
+    return (
+      <ErrorCenterPanel
+        trigger={
+          <button
+            type="button"
+            className={cn(
+              'fixed bottom-20 right-4 md:bottom-4 flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium transition-all duration-300 shadow-lg z-50',
+              'bg-amber-500/20 text-amber-600 dark:text-amber-400 hover:bg-amber-500/30',
+              className
+            )}
+          >
+            <GitMerge className="h-4 w-4" />
+            <span>{pluralize(sync.conflicts, 'sync conflict')} to review</span>
+          </button>
+        }
+      />
+    );
+  }
 
   return (
     <div
       className={cn(
         'fixed bottom-20 right-4 md:bottom-4 flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium transition-all duration-300 shadow-lg z-50',
-        status === 'saving' && 'bg-muted text-muted-foreground',
-        status === 'saved' && 'bg-green-500/20 text-green-600 dark:text-green-400',
-        status === 'error' && 'bg-destructive/20 text-destructive',
+        (display === 'saving' || display === 'syncing') && 'bg-muted text-muted-foreground',
+        display === 'saved' && 'bg-green-500/20 text-green-600 dark:text-green-400',
+        display === 'queued' && 'bg-amber-500/20 text-amber-600 dark:text-amber-400',
+        display === 'error' && 'bg-destructive/20 text-destructive',
         className
       )}
     >
-      {status === 'saving' && (
+      {display === 'saving' && (
         <>
           <Loader2 className="h-4 w-4 animate-spin" />
           <span>Saving...</span>
         </>
       )}
-      {status === 'saved' && (
+      {display === 'saved' && (
         <>
           <Check className="h-4 w-4" />
           <span>Saved</span>
         </>
       )}
-      {status === 'error' && (
+      {display === 'queued' && (
+        <>
+          <CloudOff className="h-4 w-4" />
+          <span>Saved on device · {pluralize(sync.pending, 'change')} to sync</span>
+        </>
+      )}
+      {display === 'syncing' && (
+        <>
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          <span>Syncing {pluralize(sync.pending, 'change')}...</span>
+        </>
+      )}
+      {display === 'error' && (
         <>
           <CloudOff className="h-4 w-4" />
           <span>Save failed</span>
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Mail, UserPlus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Modal } from '@/components/Modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { System } from '@/lib/types';
+import { SystemPartner, isValidEmail, normalizeEmail } from '@/lib/accountability';
+
+interface SharePartnersModalProps {
+  isOpen: boolean;
+  system: System;
+  // Partners invited to this goal
+  partners: SystemPartner[];
+  onInvite: (email: string) => Promise<boolean>;
+  onRemove: (partnerId: string) => void;
+  onClose: () => void;
+}
+
+export function SharePartnersModal({ isOpen, system, partners, onInvite, onRemove, onClose }: SharePartnersModalProps) {
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleInvite = async () => {
+    const invitedEmail = normalizeEmail(email);
+    if (!isValidEmail(invitedEmail)) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+    setSending(true);
+    if (await onInvite(invitedEmail)) setEmail('');
+    setSending(false);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Accountability Partners" maxWidth="max-w-md">
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Invite partners to work on <span className="font-medium text-card-foreground">{system.goal}</span> with you.
+          They join with their own goal, and everyone in the group sees each other's check-ins for it and nothing else.
+        </p>
+
+        <div className="flex gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+            placeholder="partner@example.com"
+          />
+          <Button onClick={handleInvite} disabled={sending || !email.trim()} className="flex-shrink-0">
+            <UserPlus size={14} className="mr-1" /> Invite
+          </Button>
+        </div>
+
+        {partners.length > 0 && (
+          <div className="space-y-1.5">
+            {partners.map(partner => (
+              <div key={partner.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded-lg">
+                <Mail size={14} className="text-muted-foreground flex-shrink-0" />
+                <span className="flex-1 min-w-0 text-sm text-card-foreground truncate">{partner.email}</span>
+                <span className={`text-[10px] px-2 py-0.5 rounded-full font-medium ${
+                  partner.status === 'accepted' ? 'bg-success/20 text-success' : 'bg-muted text-muted-foreground'
+                }`}>
+                  {partner.status === 'accepted' ? 'Joined' : 'Pending'}
+                </span>
+                <button
+                  onClick={() => onRemove(partner.id)}
+                  className="text-destructive/60 hover:bg-destructive/10 p-1 rounded flex-shrink-0"
+                  title={partner.status === 'accepted' ? 'Remove partner' : 'Cancel invite'}
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          People who don't have an account yet see the invite once they sign up with that email.
+        </p>
+      </div>
+    </Modal>
+  );
+}
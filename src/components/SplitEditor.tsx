@@ -0,0 +1,89 @@
+import { Plus, X, Check } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { TransactionSplit } from '@/lib/types';
+import { getSplitsTotal, isSplitBalanced } from '@/lib/splits';
+import { formatCurrency } from '@/lib/formatters';
+
+interface SplitEditorProps {
+  splits: TransactionSplit[];
+  // The transaction amount the lines must add up to
+  total: number;
+  categories: string[];
+  currency: string;
+  onChange: (splits: TransactionSplit[]) => void;
+}
+
+export function SplitEditor({
+  splits,
+  total,
+  categories,
+  currency,
+  onChange,
+}: SplitEditorProps) {
+  const expenseCategories = categories.filter(c => c !== 'Income');
+  const remaining = total - getSplitsTotal(splits);
+  const balanced = isSplitBalanced(splits, total);
+
+  const updateLine = (index: number, changes: Partial<TransactionSplit>) => {
+    onChange(splits.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // New lines start with whatever is still unassigned
+  const addLine = () => {
+    const unused = expenseCategories.find(c => !splits.some(s => s.category === c)) || expenseCategories[0] || 'Other';
+    onChange([...splits, { category: unused, amount: Math.max(0, Math.round(remaining * 100) / 100) }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {splits.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <select
+            value={line.category}
+            onChange={(e) => updateLine(index, { category: e.target.value })}
+            className="flex-1 min-w-0 h-10 px-3 rounded-md border border-input bg-background text-sm"
+            aria-label={`Category of line ${index + 1}`}
+          >
+            {[...new Set([...expenseCategories, line.category])].map(cat => (
+              <option key={cat} value={cat}>{cat}</option>
+            ))}
+          </select>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: parseFloat(e.target.value) || 0 })}
+            className="w-28"
+            aria-label={`Amount of line ${index + 1}`}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(splits.filter((_, i) => i !== index))}
+            className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-muted"
+            aria-label="Remove line"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between text-xs">
+        <button type="button" onClick={addLine} className="flex items-center gap-1 text-primary hover:underline">
+          <Plus size={12} /> Add line
+        </button>
+        {balanced ? (
+          <span className="flex items-center gap-1 text-success">
+            <Check size={12} /> Adds up to {formatCurrency(total, currency)}
+          </span>
+        ) : (
+          <span className="text-destructive">
+            {remaining > 0
+              ? `${formatCurrency(remaining, currency)} left to assign`
+              : `${formatCurrency(-remaining, currency)} over the total`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DATE_ORDERS,
+  DECIMAL_SEPARATORS,
+  DateOrder,
+  DecimalSeparator,
+  StatementMapping,
+} from '@/lib/statementImport';
+
+interface StatementColumnMappingProps {
+  // QIF files have fixed fields, so only their date and number formats are asked for
+  format: 'csv' | 'qif';
+  // The file's first rows, for picking columns
+  previewRows: string[][];
+  mapping: StatementMapping;
+  onChange: (mapping: StatementMapping) => void;
+}
+
+const PREVIEW_ROWS = 4;
+
+export function StatementColumnMapping({
+  format,
+  previewRows,
+  mapping,
+  onChange,
+}: StatementColumnMappingProps) {
+  const update = (changes: Partial<StatementMapping>) => onChange({ ...mapping, ...changes });
+  const columnCount = Math.max(0, ...previewRows.map(r => r.length));
+  const columns = Array.from({ length: columnCount }, (_, i) => ({
+    value: String(i),
+    label: mapping.hasHeader && previewRows[0]?.[i] ? previewRows[0][i] : `Column ${i + 1}`,
+  }));
+  const sampleRows = previewRows.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + PREVIEW_ROWS);
+
+  const columnSelect = (label: string, value: number, onSelect: (column: number) => void) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={value >= 0 ? String(value) : ''} onValueChange={(v) => onSelect(Number(v))}>
+        <SelectTrigger className="h-9">
+          <SelectValue placeholder="Choose a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map(column => (
+            <SelectItem key={column.value} value={column.value}>{column.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {format === 'csv' && (
+        <>
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-xs">
+              <thead className="bg-muted">
+                <tr>
+                  {columns.map(column => (
+                    <th key={column.value} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">{column.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sampleRows.map((row, rowIdx) => (
+                  <tr key={rowIdx} className="border-t border-border">
+                    {columns.map((_, i) => (
+                      <td key={i} className="px-2 py-1 whitespace-nowrap text-muted-foreground max-w-[10rem] truncate">{row[i]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="statement-header" className="text-sm">First row is a header</Label>
+            <Switch
+              id="statement-header"
+              checked={mapping.hasHeader}
+              onCheckedChange={(hasHeader) => update({ hasHeader })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {columnSelect('Date', mapping.dateColumn, (dateColumn) => update({ dateColumn }))}
+            {columnSelect('Description', mapping.descriptionColumn, (descriptionColumn) => update({ descriptionColumn }))}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Amounts</Label>
+            <Select
+              value={mapping.amountStyle}
+              onValueChange={(value) => update({ amountStyle: value as StatementMapping['amountStyle'] })}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="signed">One column, negative for money out</SelectItem>
+                <SelectItem value="debitCredit">Separate debit and credit columns</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mapping.amountStyle === 'signed' ? (
+            columnSelect('Amount', mapping.amountColumn, (amountColumn) => update({ amountColumn }))
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {columnSelect('Debit (money out)', mapping.debitColumn, (debitColumn) => update({ debitColumn }))}
+              {columnSelect('Credit (money in)', mapping.creditColumn, (creditColumn) => update({ creditColumn }))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Date format</Label>
+          <Select value={mapping.dateOrder} onValueChange={(value) => update({ dateOrder: value as DateOrder })}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_ORDERS.map(order => (
+                <SelectItem key={order.value} value={order.value}>{order.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Number format</Label>
+          <Select
+            value={mapping.decimalSeparator}
+            onValueChange={(value) => update({ decimalSeparator: value as DecimalSeparator })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DECIMAL_SEPARATORS.map(separator => (
+                <SelectItem key={separator.value} value={separator.value}>{separator.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
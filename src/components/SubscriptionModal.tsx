@@ -2,34 +2,64 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CreditCard, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { BillingCycle, Subscription } from '@/lib/types';
+import { BILLING_CYCLES, DEFAULT_SUBSCRIPTION_CATEGORY } from '@/lib/subscriptions';
+import { parseDateKey } from '@/lib/taskDates';
+import { currencyCodeToSymbol, currencySymbolToCode } from '@/hooks/useExchangeRates';
+import { useBankAccounts } from '@/hooks/useBankAccounts';
 
 interface SubscriptionModalProps {
   mode: 'add' | 'edit';
-  initialName?: string;
-  initialAmount?: number;
+  initial?: Subscription | null;
   currency: string;
-  onSave: (name: string, amount: number) => void;
+  categories: string[];
+  onSave: (subscription: Omit<Subscription, 'id'>) => void;
   onClose: () => void;
 }
 
+const NO_ACCOUNT = 'none';
+
 export function SubscriptionModal({ 
   mode, 
-  initialName = '', 
-  initialAmount = 0,
+  initial,
   currency,
+  categories,
   onSave, 
   onClose 
 }: SubscriptionModalProps) {
-  const [name, setName] = useState(initialName);
-  const [amount, setAmount] = useState(initialAmount > 0 ? String(initialAmount) : '');
+  const { accounts } = useBankAccounts();
+  const defaultCategory = categories.includes(DEFAULT_SUBSCRIPTION_CATEGORY) ? DEFAULT_SUBSCRIPTION_CATEGORY : categories[0] || DEFAULT_SUBSCRIPTION_CATEGORY;
+  const [name, setName] = useState(initial?.name || '');
+  const [amount, setAmount] = useState(initial && initial.amount > 0 ? String(initial.amount) : '');
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>(initial?.billingCycle || 'monthly');
+  const [nextChargeDate, setNextChargeDate] = useState(initial?.nextChargeDate || '');
+  const [subCurrency, setSubCurrency] = useState(initial?.currency || currencySymbolToCode[currency] || 'NGN');
+  const [bankAccountId, setBankAccountId] = useState(initial?.bankAccountId || NO_ACCOUNT);
+  const [category, setCategory] = useState(initial?.category || defaultCategory);
+  const [autoPost, setAutoPost] = useState(!!initial?.autoPost);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
-    setName(initialName);
-    setAmount(initialAmount > 0 ? String(initialAmount) : '');
-  }, [initialName, initialAmount]);
+    setName(initial?.name || '');
+    setAmount(initial && initial.amount > 0 ? String(initial.amount) : '');
+    setBillingCycle(initial?.billingCycle || 'monthly');
+    setNextChargeDate(initial?.nextChargeDate || '');
+    setSubCurrency(initial?.currency || currencySymbolToCode[currency] || 'NGN');
+    setBankAccountId(initial?.bankAccountId || NO_ACCOUNT);
+    setCategory(initial?.category || defaultCategory);
+    setAutoPost(!!initial?.autoPost);
+  }, [initial, currency, defaultCategory]);
+
+  const handleAccountChange = (value: string) => {
+    setBankAccountId(value);
+    // Charges land on the account, so they follow its currency
+    const account = accounts.find(a => a.id === value);
+    if (account) setSubCurrency(account.currency);
+  };
 
   const handleSubmit = async () => {
     if (!name.trim()) {
@@ -40,9 +70,34 @@ export function SubscriptionModal({
       toast.error('Please enter a valid amount');
       return;
     }
+    if (autoPost && !nextChargeDate) {
+      toast.error('Set the next charge date to auto-post charges');
+      return;
+    }
+    // Charges are posted as they are, so they must already be in the account's currency
+    const account = accounts.find(a => a.id === bankAccountId);
+    if (autoPost && account && account.currency !== subCurrency) {
+      toast.error(`${account.bank_name} is in ${account.currency}; set the subscription to ${account.currency} to auto-post charges`);
+      return;
+    }
     
     setIsSubmitting(true);
-    onSave(name.trim(), parseFloat(amount));
+    onSave({
+      name: name.trim(),
+      amount: parseFloat(amount),
+      billingCycle,
+      nextChargeDate: nextChargeDate || null,
+      // A newly picked date sets the day later charges return to
+      billingAnchorDay: !nextChargeDate
+        ? null
+        : nextChargeDate === initial?.nextChargeDate && initial.billingAnchorDay
+          ? initial.billingAnchorDay
+          : parseDateKey(nextChargeDate).getDate(),
+      currency: subCurrency,
+      bankAccountId: bankAccountId === NO_ACCOUNT ? null : bankAccountId,
+      category,
+      autoPost,
+    });
     setIsSubmitting(false);
   };
 
@@ -70,18 +125,97 @@ export function SubscriptionModal({
         />
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="sub-amount">Monthly Amount ({currency})</Label>
-        <Input
-          id="sub-amount"
-          type="number"
-          placeholder="0.00"
-          value={amount}
-          onChange={(e) => setAmount(e.target.value)}
-          min="0"
-          step="100"
-          className="text-foreground [color-scheme:light] dark:[color-scheme:dark]"
-        />
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="sub-amount">Amount</Label>
+          <Input
+            id="sub-amount"
+            type="number"
+            placeholder="0.00"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            min="0"
+            step="100"
+            className="text-foreground [color-scheme:light] dark:[color-scheme:dark]"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Currency</Label>
+          <Select value={subCurrency} onValueChange={setSubCurrency}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(currencyCodeToSymbol).map(([code, symbol]) => (
+                <SelectItem key={code} value={code}>{symbol} {code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>Billing Cycle</Label>
+          <Select value={billingCycle} onValueChange={(value) => setBillingCycle(value as BillingCycle)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BILLING_CYCLES.map(cycle => (
+                <SelectItem key={cycle.value} value={cycle.value}>{cycle.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sub-next-charge">Next Charge</Label>
+          <Input
+            id="sub-next-charge"
+            type="date"
+            value={nextChargeDate}
+            onChange={(e) => setNextChargeDate(e.target.value)}
+            className="text-foreground [color-scheme:light] dark:[color-scheme:dark]"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>Paid From</Label>
+          <Select value={bankAccountId} onValueChange={handleAccountChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+              {accounts.map(account => (
+                <SelectItem key={account.id} value={account.id}>{account.bank_name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Category</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[...new Set([...categories, category])].map(cat => (
+                <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 p-3 bg-muted/50 rounded-lg">
+        <div>
+          <Label htmlFor="sub-auto-post">Auto-post charges</Label>
+          <p className="text-xs text-muted-foreground">Add an expense on each charge date</p>
+        </div>
+        <Switch id="sub-auto-post" checked={autoPost} onCheckedChange={setAutoPost} />
       </div>
 
       <div className="flex gap-2 pt-4">
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { GitMerge, Laptop, Cloud } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import {
+  SyncConflict,
+  ConflictResolution,
+  getChangedFields,
+  resolveSyncConflict,
+} from '@/lib/offlineSync';
+
+interface SyncConflictCardProps {
+  conflict: SyncConflict;
+}
+
+const TABLE_LABELS: Record<string, string> = {
+  tasks: 'Task',
+  transactions: 'Transaction',
+  journal_entries: 'Journal entry',
+  systems: 'Goal',
+  habits: 'Habit',
+  budgets: 'Budget',
+  subscriptions: 'Subscription',
+  savings_goals: 'Savings goal',
+};
+
+function getTitle(conflict: SyncConflict): string {
+  const row = conflict.mine ?? conflict.theirs;
+  const title = row.text ?? row.description ?? row.name ?? row.goal ?? row.category ?? row.win ?? row.date;
+  return title ? String(title) : conflict.key;
+}
+
+function formatField(field: string): string {
+  const label = field.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function SyncConflictCard({ conflict }: SyncConflictCardProps) {
+  const fields = getChangedFields(conflict.mine, conflict.theirs);
+  // Per-field pick for merges; defaults to this device's value
+  const [picks, setPicks] = useState<Record<string, 'mine' | 'theirs'>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    setIsResolving(true);
+    try {
+      await resolveSyncConflict(conflict.id, resolution);
+      toast.success('Conflict resolved');
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      toast.error('Could not resolve conflict');
+      setIsResolving(false);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!conflict.mine) return;
+    const merged = { ...conflict.theirs };
+    fields.forEach(field => {
+      if ((picks[field] ?? 'mine') === 'mine') merged[field] = conflict.mine![field];
+    });
+    handleResolve({ merged });
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-warning/40 bg-card space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <Badge variant="outline" className="text-[10px] mb-1">
+            {TABLE_LABELS[conflict.table] ?? conflict.table}
+          </Badge>
+          <p className="text-sm font-medium text-foreground truncate">{getTitle(conflict)}</p>
+        </div>
+      </div>
+
+      {conflict.mine ? (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[auto_1fr_1fr] gap-x-2 text-[10px] font-medium text-muted-foreground">
+            <span />
+            <span className="flex items-center gap-1"><Laptop className="h-3 w-3" /> This device</span>
+            <span className="flex items-center gap-1"><Cloud className="h-3 w-3" /> Other device</span>
+          </div>
+          {fields.map(field => {
+            const pick = picks[field] ?? 'mine';
+            return (
+              <div key={field} className="grid grid-cols-[auto_1fr_1fr] gap-x-2 items-stretch text-xs">
+                <span className="text-muted-foreground py-1.5 w-20 truncate">{formatField(field)}</span>
+                {(['mine', 'theirs'] as const).map(side => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setPicks(prev => ({ ...prev, [field]: side }))}
+                    className={cn(
+                      'text-left px-2 py-1.5 rounded border break-words transition-colors',
+                      pick === side
+                        ? 'border-primary bg-primary/10 text-foreground'
+                        : 'border-border text-muted-foreground hover:bg-accent/50'
+                    )}
+                  >
+                    {formatValue(side === 'mine' ? conflict.mine![field] : conflict.theirs[field])}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+          <p className="text-[11px] text-muted-foreground">Tap a value to choose it for a merge.</p>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          You deleted this on this device, but it was changed on another device afterwards.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" disabled={isResolving} onClick={() => handleResolve('mine')}>
+          <Laptop className="h-3 w-3 mr-1" />
+          {conflict.mine ? 'Keep mine' : 'Delete it'}
+        </Button>
+        <Button size="sm" variant="outline" disabled={isResolving} onClick={() => handleResolve('theirs')}>
+          <Cloud className="h-3 w-3 mr-1" />
+          Keep theirs
+        </Button>
+        {conflict.mine && fields.length > 1 && (
+          <Button size="sm" disabled={isResolving} onClick={handleMerge}>
+            <GitMerge className="h-3 w-3 mr-1" />
+            Merge
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useMemo } from 'react';
+import { ArrowLeft, Flame, Smile, Target } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Habit, JournalEntry, System } from '@/lib/types';
+import { getTodayKey, parseDateKey, toDateKey } from '@/lib/taskDates';
+import { describeHabitSchedule, formatHabitTarget, getHabitSchedule } from '@/lib/habitSchedule';
+import { formatStreak, getHabitStreak } from '@/lib/streaks';
+import {
+  HeatmapCell,
+  HeatmapState,
+  getHabitHeatmap,
+  getMoodByDate,
+  getMoodCorrelation,
+  getWeekdayRates,
+  getWeeklyTrend,
+} from '@/lib/habitAnalytics';
+import { Button } from '@/components/ui/button';
+
+const HEATMAP_DAYS = 365;
+const WEEKDAY_SHORT = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const STATE_STYLES: Record<HeatmapState, string> = {
+  done: 'bg-success',
+  partial: 'bg-success/40',
+  missed: 'bg-muted-foreground/20',
+  frozen: 'bg-sky-400/60',
+  paused: 'bg-muted-foreground/10 ring-1 ring-inset ring-muted-foreground/30',
+  off: 'bg-muted/60',
+  future: 'bg-transparent',
+};
+
+const STATE_LABELS: Record<HeatmapState, string> = {
+  done: 'Done',
+  partial: 'Partly done',
+  missed: 'Missed',
+  frozen: 'Frozen',
+  paused: 'Paused',
+  off: 'Not scheduled',
+  future: '',
+};
+
+// Mood 1-5 from cool to warm
+const MOOD_STYLES = ['bg-destructive/70', 'bg-warning/60', 'bg-muted-foreground/40', 'bg-primary/50', 'bg-primary'];
+
+interface SystemAnalyticsProps {
+  system: System;
+  journalEntries: JournalEntry[];
+  onBack: () => void;
+}
+
+export function SystemAnalytics({ system, journalEntries, onBack }: SystemAnalyticsProps) {
+  const today = getTodayKey();
+
+  const stats = useMemo(() => {
+    const moodByDate = getMoodByDate(journalEntries);
+    const yearDates = Array.from({ length: HEATMAP_DAYS }, (_, i) =>
+      toDateKey(subDays(parseDateKey(today), HEATMAP_DAYS - 1 - i))
+    );
+
+    return {
+      moodByDate,
+      weekdays: getWeekdayRates(system.habits, yearDates).map((rate, i) => ({ ...rate, day: WEEKDAY_SHORT[i] })),
+      trend: getWeeklyTrend(system.habits, moodByDate, today),
+      correlation: getMoodCorrelation(system.habits, moodByDate, yearDates),
+    };
+  }, [system.habits, journalEntries, today]);
+
+  const hasMood = stats.trend.some(point => point.mood !== null);
+
+  return (
+    <div className="space-y-4 md:space-y-6 pb-20 md:pb-0">
+      <div className="flex items-center gap-3 bg-card p-3 md:p-4 rounded-xl shadow-soft">
+        <Button variant="ghost" size="sm" onClick={onBack} className="h-8 w-8 p-0 flex-shrink-0">
+          <ArrowLeft size={18} />
+        </Button>
+        <div className="min-w-0">
+          <h3 className="font-bold text-card-foreground text-base md:text-lg flex items-center gap-2">
+            <Target size={16} className="text-primary flex-shrink-0" />
+            <span className="truncate">{system.goal}</span>
+          </h3>
+          <p className="text-xs text-muted-foreground">Your last 12 months at a glance</p>
+        </div>
+      </div>
+
+      {system.habits.length === 0 ? (
+        <div className="bg-card rounded-xl shadow-soft p-8 text-center text-sm text-muted-foreground">
+          Add a system to this goal to start building history.
+        </div>
+      ) : (
+        <>
+          {/* Heatmaps */}
+          <div className="bg-card rounded-xl shadow-soft p-3 md:p-4 space-y-5">
+            {system.habits.map(habit => (
+              <HabitHeatmap key={habit.id} habit={habit} today={today} />
+            ))}
+            <MoodStrip moodByDate={stats.moodByDate} today={today} />
+            <HeatmapLegend />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
+            {/* Weekday completion */}
+            <div className="bg-card rounded-xl shadow-soft p-3 md:p-4">
+              <h4 className="text-xs font-bold text-muted-foreground uppercase mb-3">Completion by weekday</h4>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={stats.weekdays}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} className="stroke-border" />
+                    <XAxis dataKey="day" tick={{ fontSize: 10 }} />
+                    <YAxis domain={[0, 100]} tick={{ fontSize: 10 }} unit="%" width={36} />
+                    <Tooltip
+                      formatter={(value: number, _name, item) => [`${value}% (${item.payload.completed}/${item.payload.total})`, 'Done']}
+                      contentStyle={{ fontSize: 12 }}
+                    />
+                    <Bar dataKey="rate" fill="hsl(var(--success))" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* 12-week trend with mood */}
+            <div className="bg-card rounded-xl shadow-soft p-3 md:p-4">
+              <h4 className="text-xs font-bold text-muted-foreground uppercase mb-3">Last 12 weeks{hasMood && ' vs. mood'}</h4>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={stats.trend}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} className="stroke-border" />
+                    <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={1} />
+                    <YAxis yAxisId="rate" domain={[0, 100]} tick={{ fontSize: 10 }} unit="%" width={36} />
+                    {hasMood && <YAxis yAxisId="mood" orientation="right" domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tick={{ fontSize: 10 }} width={24} />}
+                    <Tooltip contentStyle={{ fontSize: 12 }} />
+                    <Bar yAxisId="rate" dataKey="rate" name="Completion %" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                    {hasMood && (
+                      <Line yAxisId="mood" dataKey="mood" name="Mood" stroke="hsl(var(--warning))" strokeWidth={2} connectNulls dot={{ r: 3 }} />
+                    )}
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <MoodInsight correlation={stats.correlation} hasMood={hasMood} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function HabitHeatmap({ habit, today }: { habit: Habit; today: string }) {
+  const weeks = useMemo(() => getHabitHeatmap(habit, today, HEATMAP_DAYS), [habit, today]);
+  const streak = useMemo(() => getHabitStreak(habit, today), [habit, today]);
+  const doneDays = weeks.flat().filter(cell => cell.state === 'done').length;
+  const schedule = getHabitSchedule(habit);
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-baseline justify-between gap-x-3 gap-y-1">
+        <div className="min-w-0">
+          <span className="text-sm font-medium text-card-foreground">{habit.name}</span>
+          <span className="text-[10px] text-muted-foreground ml-2">
+            {describeHabitSchedule(schedule)}
+            {habit.target && ` · ${formatHabitTarget(habit.target)}`}
+          </span>
+        </div>
+        <div className="flex items-center gap-3 text-[10px] text-muted-foreground">
+          <span>{doneDays} check-ins</span>
+          <span className={`flex items-center gap-0.5 ${streak.current > 0 ? 'text-warning font-medium' : ''}`}>
+            <Flame size={10} />
+            {formatStreak(streak.current, streak.unit)}
+          </span>
+          <span>best {formatStreak(streak.longest, streak.unit)}</span>
+        </div>
+      </div>
+      <HeatmapGrid
+        weeks={weeks}
+        cellClass={(cell) => STATE_STYLES[cell.state]}
+        cellTitle={(cell) => {
+          const value = cell.value !== undefined && habit.target ? ` · ${cell.value} ${habit.target.unit}` : '';
+          return `${format(parseDateKey(cell.date), 'EEE, MMM d, yyyy')}: ${STATE_LABELS[cell.state]}${value}`;
+        }}
+      />
+    </div>
+  );
+}
+
+// Journal mood on the same grid so it lines up with the habit heatmaps above
+function MoodStrip({ moodByDate, today }: { moodByDate: Map<string, number>; today: string }) {
+  const weeks = useMemo(() => getHabitHeatmap({ id: 'mood', name: 'Mood', completed: {} }, today, HEATMAP_DAYS), [today]);
+  if (moodByDate.size === 0) return null;
+
+  return (
+    <div className="space-y-1.5 pt-3 border-t border-border/50">
+      <div className="flex items-center gap-1.5 text-sm font-medium text-card-foreground">
+        <Smile size={14} className="text-warning" />
+        Mood
+        <span className="text-[10px] font-normal text-muted-foreground">from your journal</span>
+      </div>
+      <HeatmapGrid
+        weeks={weeks}
+        cellClass={(cell) => {
+          const mood = moodByDate.get(cell.date);
+          if (cell.state === 'future') return STATE_STYLES.future;
+          return mood === undefined ? 'bg-muted/60' : MOOD_STYLES[Math.min(5, Math.max(1, Math.round(mood))) - 1];
+        }}
+        cellTitle={(cell) => {
+          const mood = moodByDate.get(cell.date);
+          return `${format(parseDateKey(cell.date), 'EEE, MMM d, yyyy')}: ${mood === undefined ? 'No entry' : `mood ${mood.toFixed(1)}/5`}`;
+        }}
+      />
+    </div>
+  );
+}
+
+interface HeatmapGridProps {
+  weeks: HeatmapCell[][];
+  cellClass: (cell: HeatmapCell) => string;
+  cellTitle: (cell: HeatmapCell) => string;
+}
+
+function HeatmapGrid({ weeks, cellClass, cellTitle }: HeatmapGridProps) {
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex flex-col gap-1 min-w-max">
+        {/* Month labels above the first week of each month */}
+        <div className="flex gap-[3px] pl-7 h-3">
+          {weeks.map((week, i) => {
+            const month = format(parseDateKey(week[0].date), 'MMM');
+            const previous = i > 0 ? format(parseDateKey(weeks[i - 1][0].date), 'MMM') : null;
+            return (
+              <div key={week[0].date} className="w-2.5 text-[9px] text-muted-foreground overflow-visible whitespace-nowrap">
+                {month !== previous ? month : ''}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-[3px]">
+          <div className="flex flex-col gap-[3px] w-6 text-[9px] text-muted-foreground">
+            {WEEKDAY_SHORT.map((day, i) => (
+              <div key={day} className="h-2.5 leading-[10px]">{i % 2 === 0 ? day : ''}</div>
+            ))}
+          </div>
+          {weeks.map(week => (
+            <div key={week[0].date} className="flex flex-col gap-[3px]">
+              {week.map(cell => (
+                <div
+                  key={cell.date}
+                  className={`w-2.5 h-2.5 rounded-sm ${cellClass(cell)}`}
+                  title={cell.state === 'future' ? undefined : cellTitle(cell)}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function HeatmapLegend() {
+  const states: HeatmapState[] = ['done', 'partial', 'frozen', 'paused', 'missed', 'off'];
+  return (
+    <div className="flex flex-wrap gap-3 text-[10px] text-muted-foreground">
+      {states.map(state => (
+        <span key={state} className="flex items-center gap-1">
+          <span className={`w-2.5 h-2.5 rounded-sm ${STATE_STYLES[state]}`} />
+          {STATE_LABELS[state]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function MoodInsight({ correlation, hasMood }: { correlation: { r: number; days: number } | null; hasMood: boolean }) {
+  if (!hasMood) {
+    return <p className="text-xs text-muted-foreground mt-2">Journal your mood to see how it lines up with your habits.</p>;
+  }
+  if (!correlation) {
+    return <p className="text-xs text-muted-foreground mt-2">Keep journaling — a few more days are needed to compare mood and habits.</p>;
+  }
+
+  const { r, days } = correlation;
+  const strength = Math.abs(r) >= 0.5 ? 'strongly' : Math.abs(r) >= 0.3 ? 'moderately' : null;
+  const message = !strength
+    ? 'Your mood and habit completion don\'t move together much.'
+    : r > 0
+      ? `Your mood ${strength} tracks with your habits: better days come with more check-ins.`
+      : `Your mood ${strength} moves against your habits: you check in more on lower-mood days.`;
+
+  return (
+    <p className="text-xs text-muted-foreground mt-2">
+      {message} <span className="opacity-70">(r = {r.toFixed(2)} over {days} journaled days)</span>
+    </p>
+  );
+}
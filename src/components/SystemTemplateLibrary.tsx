@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { ArrowLeft, Loader2, Search } from 'lucide-react';
+import { SystemTemplate } from '@/lib/types';
+import { describeHabitSchedule, formatHabitTarget, DEFAULT_HABIT_SCHEDULE } from '@/lib/habitSchedule';
+import { useSystemTemplates } from '@/hooks/useSystemTemplates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface SystemTemplateLibraryProps {
+  onInstall: (template: SystemTemplate) => void;
+  onBack: () => void;
+  installing?: boolean;
+}
+
+// Browse the curated goal templates and install one as a new goal
+export function SystemTemplateLibrary({ onInstall, onBack, installing }: SystemTemplateLibraryProps) {
+  const { templates, loading } = useSystemTemplates();
+  const [category, setCategory] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  const categories = [...new Set(templates.map(t => t.category))];
+  const search = query.trim().toLowerCase();
+  const visible = templates.filter(t =>
+    (!category || t.category === category) &&
+    (!search || t.goal.toLowerCase().includes(search) || t.habits.some(h => h.name.toLowerCase().includes(search)))
+  );
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={onBack}
+        className="text-xs text-muted-foreground hover:text-primary flex items-center gap-1"
+      >
+        <ArrowLeft size={12} /> Start from scratch instead
+      </button>
+
+      <div className="relative">
+        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search templates" className="pl-8" />
+      </div>
+
+      {categories.length > 1 && (
+        <div className="flex flex-wrap gap-1.5">
+          {[null, ...categories].map(cat => (
+            <button
+              key={cat ?? 'all'}
+              type="button"
+              onClick={() => setCategory(cat)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium capitalize transition-colors ${
+                category === cat ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:bg-muted/80'
+              }`}
+            >
+              {cat ?? 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          {templates.length === 0 ? 'No templates available yet.' : 'No templates match your search.'}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {visible.map(template => (
+            <div key={template.id} className="bg-muted/50 rounded-xl p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-bold text-card-foreground text-sm">{template.goal}</p>
+                  {template.why && <p className="text-xs text-muted-foreground">{template.why}</p>}
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="h-7 text-xs flex-shrink-0"
+                  disabled={installing}
+                  onClick={() => onInstall(template)}
+                >
+                  Use template
+                </Button>
+              </div>
+              <ul className="space-y-0.5">
+                {template.habits.map((habit, i) => (
+                  <li key={i} className="text-xs text-card-foreground flex flex-wrap gap-x-1.5">
+                    <span>• {habit.name}</span>
+                    <span className="text-muted-foreground">
+                      {describeHabitSchedule(habit.schedule || DEFAULT_HABIT_SCHEDULE)}
+                      {habit.target && ` · ${formatHabitTarget(habit.target)}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
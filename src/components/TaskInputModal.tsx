@@ -1,8 +1,25 @@
 import { useState } from 'react';
-import { Clock, Bell, Loader2, Info } from 'lucide-react';
+import { Clock, Bell, Loader2, Info, Repeat, Flag, Timer, CalendarClock, Tag, X, Target } from 'lucide-react';
+import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { RecurrenceRule, System, TaskDetails, TaskPriority } from '@/lib/types';
+import { describeRecurrence } from '@/lib/recurrence';
+import { PRIORITY_LABELS, PRIORITY_STYLES } from '@/lib/taskSort';
+import { isDateKey, parseDateKey } from '@/lib/taskDates';
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const PRIORITIES: TaskPriority[] = [1, 2, 3, 4];
+
+const INTERVAL_UNITS: Record<RecurrenceRule['freq'], string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
 
 interface TaskInputModalProps {
   value: string;
@@ -14,6 +31,12 @@ interface TaskInputModalProps {
   isGenerating?: boolean;
   placeholder?: string;
   showTimeReminder?: boolean;
+  recurrence?: RecurrenceRule | null;
+  onRecurrenceChange?: (rule: RecurrenceRule | null) => void;
+  startDate?: string;
+  details?: TaskDetails;
+  onDetailsChange?: (details: TaskDetails) => void;
+  systems?: System[];
 }
 
 export function TaskInputModal({
@@ -26,8 +49,77 @@ export function TaskInputModal({
   isGenerating = false,
   placeholder = "What needs to be done?",
   showTimeReminder = true,
+  recurrence = null,
+  onRecurrenceChange,
+  startDate,
+  details = {},
+  onDetailsChange,
+  systems = [],
 }: TaskInputModalProps) {
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [labelInput, setLabelInput] = useState('');
+
+  const start = startDate && isDateKey(startDate) ? parseDateKey(startDate) : new Date();
+  const endMode = recurrence?.until ? 'until' : recurrence?.count ? 'count' : 'never';
+
+  const handleFrequencyChange = (freq: string) => {
+    if (!onRecurrenceChange) return;
+    if (freq === 'none') {
+      onRecurrenceChange(null);
+      return;
+    }
+    const base = { interval: 1, until: recurrence?.until, count: recurrence?.count };
+    if (freq === 'weekly') {
+      onRecurrenceChange({ ...base, freq, byWeekday: [(start.getDay() + 6) % 7] });
+    } else if (freq === 'monthly') {
+      onRecurrenceChange({ ...base, freq, byMonthDay: start.getDate() });
+    } else {
+      onRecurrenceChange({ ...base, freq: 'daily' });
+    }
+  };
+
+  const updateDetails = (changes: Partial<TaskDetails>) => {
+    onDetailsChange?.({ ...details, ...changes });
+  };
+
+  const labels = details.labels || [];
+
+  const addLabel = () => {
+    const label = labelInput.trim().replace(/^#/, '');
+    if (label && !labels.includes(label)) updateDetails({ labels: [...labels, label] });
+    setLabelInput('');
+  };
+
+  const handleLabelKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Enter and comma add the label instead of submitting the task
+    if ((e.key === 'Enter' || e.key === ',') && labelInput.trim()) {
+      e.preventDefault();
+      addLabel();
+    } else if (e.key === 'Backspace' && !labelInput && labels.length > 0) {
+      updateDetails({ labels: labels.slice(0, -1) });
+    }
+  };
+
+  const updateRecurrence = (changes: Partial<RecurrenceRule>) => {
+    if (recurrence && onRecurrenceChange) onRecurrenceChange({ ...recurrence, ...changes });
+  };
+
+  const toggleWeekday = (index: number) => {
+    const current = recurrence?.byWeekday || [];
+    const next = current.includes(index) ? current.filter(d => d !== index) : [...current, index];
+    // Keep at least one weekday selected
+    if (next.length > 0) updateRecurrence({ byWeekday: next.sort() });
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    if (mode === 'until') {
+      updateRecurrence({ until: startDate, count: undefined });
+    } else if (mode === 'count') {
+      updateRecurrence({ until: undefined, count: 10 });
+    } else {
+      updateRecurrence({ until: undefined, count: undefined });
+    }
+  };
 
   return (
     <div className="space-y-4">
@@ -92,6 +184,215 @@ export function TaskInputModal({
           </div>
         </div>
       )}
+
+      {/* Priority, estimate, deadline & labels */}
+      {onDetailsChange && (
+        <div className="space-y-3 p-3 bg-muted/50 rounded-xl">
+          <div className="flex flex-wrap items-center gap-2">
+            <Flag size={14} className={details.priority ? "text-primary" : "text-muted-foreground"} />
+            <span className="text-sm text-muted-foreground">Priority</span>
+            <div className="flex gap-1">
+              {PRIORITIES.map(priority => (
+                <button
+                  key={priority}
+                  type="button"
+                  onClick={() => updateDetails({ priority: details.priority === priority ? null : priority })}
+                  className={`px-2.5 h-8 rounded-lg text-xs font-bold transition-colors ${
+                    details.priority === priority
+                      ? PRIORITY_STYLES[priority]
+                      : 'bg-background text-muted-foreground hover:bg-muted'
+                  }`}
+                >
+                  {PRIORITY_LABELS[priority]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="flex items-center gap-2">
+              <Timer size={14} className={details.estimateMinutes ? "text-primary" : "text-muted-foreground"} />
+              <span className="text-sm text-muted-foreground">Estimate</span>
+              <Input
+                type="number"
+                min={1}
+                placeholder="—"
+                value={details.estimateMinutes ?? ''}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value);
+                  updateDetails({ estimateMinutes: minutes > 0 ? minutes : null });
+                }}
+                className="h-8 w-20"
+              />
+              <span className="text-sm text-muted-foreground">min</span>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <CalendarClock size={14} className={details.deadline ? "text-primary" : "text-muted-foreground"} />
+              <span className="text-sm text-muted-foreground">Due</span>
+              <input
+                type="datetime-local"
+                value={details.deadline ? format(new Date(details.deadline), "yyyy-MM-dd'T'HH:mm") : ''}
+                onChange={(e) => updateDetails({ deadline: e.target.value ? new Date(e.target.value).toISOString() : null })}
+                className="px-3 py-1.5 bg-background border border-border rounded-lg text-sm text-foreground"
+              />
+            </div>
+          </div>
+
+          {systems.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Target size={14} className={details.systemId ? "text-primary" : "text-muted-foreground"} />
+              <span className="text-sm text-muted-foreground">Goal</span>
+              <Select
+                value={details.systemId ? String(details.systemId) : 'none'}
+                onValueChange={(value) => updateDetails({ systemId: value === 'none' ? null : value })}
+              >
+                <SelectTrigger className="h-8 flex-1 min-w-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No goal</SelectItem>
+                  {systems.map(system => (
+                    <SelectItem key={system.id} value={String(system.id)}>{system.goal}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Tag size={14} className={labels.length > 0 ? "text-primary" : "text-muted-foreground"} />
+            {labels.map(label => (
+              <span key={label} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs">
+                #{label}
+                <button
+                  type="button"
+                  onClick={() => updateDetails({ labels: labels.filter(l => l !== label) })}
+                  className="hover:text-destructive"
+                >
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+            <input
+              value={labelInput}
+              onChange={(e) => setLabelInput(e.target.value)}
+              onKeyDown={handleLabelKeyDown}
+              onBlur={addLabel}
+              placeholder={labels.length > 0 ? "Add label" : "Add labels (e.g. work, errands)"}
+              className="flex-1 min-w-[8rem] bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Recurrence section */}
+      {onRecurrenceChange && (
+        <div className="space-y-3 p-3 bg-muted/50 rounded-xl">
+          <div className="flex flex-wrap items-center gap-2">
+            <Repeat size={14} className={recurrence ? "text-primary" : "text-muted-foreground"} />
+            <span className="text-sm text-muted-foreground">Repeat</span>
+            <Select value={recurrence?.freq || 'none'} onValueChange={handleFrequencyChange}>
+              <SelectTrigger className="h-8 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Never</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+            {recurrence && (
+              <>
+                <span className="text-sm text-muted-foreground">every</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={recurrence.interval}
+                  onChange={(e) => updateRecurrence({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="h-8 w-16"
+                />
+                <span className="text-sm text-muted-foreground">{INTERVAL_UNITS[recurrence.freq]}</span>
+              </>
+            )}
+          </div>
+
+          {recurrence?.freq === 'weekly' && (
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => toggleWeekday(index)}
+                  className={`w-8 h-8 rounded-full text-xs font-bold transition-colors ${
+                    recurrence.byWeekday?.includes(index)
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-background text-muted-foreground hover:bg-muted'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {recurrence?.freq === 'monthly' && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">On day</span>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={recurrence.byMonthDay || start.getDate()}
+                onChange={(e) => updateRecurrence({ byMonthDay: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className="h-8 w-16"
+              />
+            </div>
+          )}
+
+          {recurrence && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Ends</span>
+              <Select value={endMode} onValueChange={handleEndModeChange}>
+                <SelectTrigger className="h-8 w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="until">On date</SelectItem>
+                  <SelectItem value="count">After</SelectItem>
+                </SelectContent>
+              </Select>
+              {endMode === 'until' && (
+                <input
+                  type="date"
+                  value={recurrence.until || ''}
+                  min={startDate}
+                  onChange={(e) => updateRecurrence({ until: e.target.value || undefined })}
+                  className="px-3 py-1.5 bg-background border border-border rounded-lg text-sm text-foreground"
+                />
+              )}
+              {endMode === 'count' && (
+                <>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={recurrence.count || 1}
+                    onChange={(e) => updateRecurrence({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="h-8 w-16"
+                  />
+                  <span className="text-sm text-muted-foreground">times</span>
+                </>
+              )}
+            </div>
+          )}
+
+          {recurrence && (
+            <p className="text-xs text-primary">{describeRecurrence(recurrence)}</p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,7 @@
-import { FileUp, Receipt, PenLine } from 'lucide-react';
+import { FileUp, Receipt, PenLine, Repeat } from 'lucide-react';
 
 interface TransactionSourceBadgeProps {
-  source?: 'manual' | 'receipt' | 'bank_import' | null;
+  source?: 'manual' | 'receipt' | 'bank_import' | 'subscription' | null;
   size?: 'sm' | 'md';
 }
 
@@ -21,6 +21,11 @@ const sourceConfig = {
     label: 'Import',
     className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
   },
+  subscription: {
+    icon: Repeat,
+    label: 'Subscription',
+    className: 'bg-primary/10 text-primary',
+  },
 };
 
 export function TransactionSourceBadge({ source, size = 'sm' }: TransactionSourceBadgeProps) {
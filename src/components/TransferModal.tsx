@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { Modal } from '@/components/Modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeftRight, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { BankAccount } from '@/hooks/useBankAccounts';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { currencyCodeToSymbol } from '@/hooks/useExchangeRates';
+import { getTodayKey } from '@/lib/taskDates';
+import { TransferInput } from '@/lib/transfers';
+
+interface TransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  accounts: BankAccount[];
+  // Preselected sending account
+  fromAccountId?: string;
+  onSave: (transfer: TransferInput) => Promise<void>;
+}
+
+export function TransferModal({
+  isOpen,
+  onClose,
+  accounts,
+  fromAccountId,
+  onSave,
+}: TransferModalProps) {
+  const { convert } = useUserSettings();
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [fxRate, setFxRate] = useState('1');
+  const [date, setDate] = useState(getTodayKey());
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fromAccount = accounts.find(a => a.id === fromId);
+  const toAccount = accounts.find(a => a.id === toId);
+  const crossCurrency = !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const from = accounts.find(a => a.id === fromAccountId) || accounts.find(a => a.is_primary) || accounts[0];
+    setFromId(from?.id || '');
+    setToId(accounts.find(a => a.id !== from?.id)?.id || '');
+    setAmount('');
+    setDate(getTodayKey());
+    setDescription('');
+  }, [isOpen, accounts, fromAccountId]);
+
+  // Suggest today's rate whenever the pair of currencies changes
+  const fromCurrency = fromAccount?.currency;
+  const toCurrency = toAccount?.currency;
+  useEffect(() => {
+    if (!fromCurrency || !toCurrency) return;
+    const rate = convert(1, fromCurrency, toCurrency);
+    setFxRate(String(Number(rate.toPrecision(6))));
+  }, [fromCurrency, toCurrency, convert]);
+
+  const parsedAmount = parseFloat(amount) || 0;
+  const parsedRate = crossCurrency ? parseFloat(fxRate) || 0 : 1;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fromAccount || !toAccount || fromAccount.id === toAccount.id) {
+      toast.error('Choose two different accounts');
+      return;
+    }
+    if (parsedAmount <= 0) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+    if (parsedRate <= 0) {
+      toast.error('Please enter a valid exchange rate');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        fromAccountId: fromAccount.id,
+        toAccountId: toAccount.id,
+        amount: parsedAmount,
+        fxRate: parsedRate,
+        date,
+        description: description.trim() || `Transfer to ${toAccount.bank_name}`,
+      });
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Transfer Between Accounts" maxWidth="max-w-md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-2">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Select value={fromId} onValueChange={setFromId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id} disabled={account.id === toId}>
+                    {account.bank_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <button
+            type="button"
+            onClick={() => { setFromId(toId); setToId(fromId); }}
+            className="p-2 mb-0.5 rounded-lg text-muted-foreground hover:text-primary hover:bg-muted"
+            aria-label="Swap accounts"
+          >
+            <ArrowLeftRight size={16} />
+          </button>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Select value={toId} onValueChange={setToId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id} disabled={account.id === fromId}>
+                    {account.bank_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="transfer-amount">Amount{fromAccount ? ` (${fromAccount.currency})` : ''}</Label>
+            <Input
+              id="transfer-amount"
+              type="number"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              min="0"
+              step="any"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-date">Date</Label>
+            <Input
+              id="transfer-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="text-foreground [color-scheme:light] dark:[color-scheme:dark]"
+            />
+          </div>
+        </div>
+
+        {crossCurrency && fromAccount && toAccount && (
+          <div className="space-y-2 p-3 bg-muted/50 rounded-lg">
+            <Label htmlFor="transfer-rate">Exchange rate</Label>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground whitespace-nowrap">1 {fromAccount.currency} =</span>
+              <Input
+                id="transfer-rate"
+                type="number"
+                value={fxRate}
+                onChange={(e) => setFxRate(e.target.value)}
+                min="0"
+                step="any"
+              />
+              <span className="text-muted-foreground">{toAccount.currency}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {toAccount.bank_name} receives {currencyCodeToSymbol[toAccount.currency] || toAccount.currency}
+              {(parsedAmount * parsedRate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="transfer-description">Note</Label>
+          <Input
+            id="transfer-description"
+            placeholder={toAccount ? `Transfer to ${toAccount.bank_name}` : 'Optional'}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="flex gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" className="flex-1" disabled={isSaving || parsedAmount <= 0 || !fromId || !toId}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Transfer
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
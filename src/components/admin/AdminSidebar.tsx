@@ -11,7 +11,8 @@ import {
   Lock,
   Bell,
   Inbox,
-  DollarSign
+  DollarSign,
+  LayoutTemplate
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAdminPermissions } from '@/hooks/useAdminPermissions';
@@ -35,6 +36,7 @@ const navItems: NavItem[] = [
   { icon: CreditCard, label: 'Billing', path: '/admin/billing', permission: 'canAccessBilling' },
   { icon: Mail, label: 'Email', path: '/admin/email', permission: 'canManageEmail' },
   { icon: HelpCircle, label: 'Help Content', path: '/admin/help', permission: 'canManageHelpContent' },
+  { icon: LayoutTemplate, label: 'Goal Templates', path: '/admin/templates', permission: 'canManageHelpContent' },
   { icon: Bell, label: 'Notifications', path: '/admin/notifications', permission: 'canManageSettings' },
   { icon: Inbox, label: 'Support Inbox', path: '/admin/support', permission: 'canManageUsers' },
   { icon: DollarSign, label: 'Currency Cache', path: '/admin/currency', permission: 'canManageSettings' },
@@ -1,18 +1,32 @@
 import { useState } from 'react';
-import { Plus, Sparkles, ListOrdered, Loader2, Trash2, Edit2, PenTool, RefreshCw, ChevronLeft, ChevronRight, Download, Calendar, Clock } from 'lucide-react';
+import { Plus, Sparkles, ListOrdered, Loader2, Trash2, Edit2, PenTool, RefreshCw, ChevronLeft, ChevronRight, ChevronDown, Download, Calendar, Clock, Repeat, SkipForward, ListTree, X, Flag, Timer, CalendarClock, Target, CalendarDays, CalendarRange } from 'lucide-react';
 import { DAYS } from '@/lib/constants';
-import { Tasks, Task } from '@/lib/types';
+import { Tasks, TaskOccurrence, System } from '@/lib/types';
 import { formatCurrency } from '@/lib/formatters';
+import { toDateKey, IDEA_DUMP_KEY } from '@/lib/taskDates';
+import { getTasksForDay, setOccurrenceState, describeRecurrence } from '@/lib/recurrence';
+import { getSubtasks, getSubtaskProgress, setTaskDone, setSubtaskDone, addSubtasks, removeTask } from '@/lib/subtasks';
+import { TaskSortMode, PRIORITY_LABELS, PRIORITY_STYLES, formatEstimate } from '@/lib/taskSort';
+import { useEntitlements } from '@/hooks/useEntitlements';
+import { useFocusSessions } from '@/hooks/useFocusSessions';
+import { DayTimeline } from '@/components/DayTimeline';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { IdeaDump } from '@/components/IdeaDump';
 import { toast } from 'sonner';
-import { format, startOfWeek, addDays, subWeeks, addWeeks, isSameDay } from 'date-fns';
+import { format, startOfWeek, addDays, subDays, subWeeks, addWeeks, isSameDay } from 'date-fns';
 
 interface DashboardTabProps {
   tasks: Tasks;
   setTasks: React.Dispatch<React.SetStateAction<Tasks>>;
+  systems: System[];
   completedHabits: number;
   totalHabits: number;
   balance: number;
@@ -20,7 +34,7 @@ interface DashboardTabProps {
   dailyBriefing: string;
   sortingDay: string | null;
   breakingDownTask: string | number | null;
-  onSmartSort: (day: string) => void;
+  onSmartSort: (day: string, mode: TaskSortMode) => void;
   onBreakdownTask: (day: string, taskId: string | number, taskText: string) => void;
   onSmartDraft: (taskText: string) => void;
   onDailyBriefing: () => void;
@@ -63,6 +77,7 @@ function getExactWeekLabel(baseDate: Date): string {
 export function DashboardTab({
   tasks,
   setTasks,
+  systems,
   completedHabits,
   totalHabits,
   balance,
@@ -78,44 +93,49 @@ export function DashboardTab({
 }: DashboardTabProps) {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [calendarOpen, setCalendarOpen] = useState(false);
+  const [view, setView] = useState<'week' | 'day'>('week');
+  const { canUseAI } = useEntitlements();
+  const selectedDayKey = toDateKey(selectedDate);
+  const isSelectedToday = isSameDay(selectedDate, new Date());
+  const { sessions: focusSessions } = useFocusSessions(selectedDayKey);
   
   const weekDates = getWeekDates(selectedDate);
   const isCurrentWeek = isSameDay(startOfWeek(new Date(), { weekStartsOn: 1 }), startOfWeek(selectedDate, { weekStartsOn: 1 }));
   const isPastWeek = startOfWeek(selectedDate, { weekStartsOn: 1 }) < startOfWeek(new Date(), { weekStartsOn: 1 });
 
-  const toggleTaskDone = (day: string, taskId: string | number) => {
-    setTasks(prev => ({
-      ...prev,
-      [day]: prev[day]?.map(t => String(t.id) === String(taskId) ? { ...t, done: !t.done } : t) || []
-    }));
+  // Recurring occurrences keep their own state so the rest of the series is untouched
+  const toggleTaskDone = (task: TaskOccurrence) => {
+    setTasks(prev => setTaskDone(prev, task, !task.done));
+  };
+
+  const toggleSubtaskDone = (parent: TaskOccurrence, subtask: TaskOccurrence) => {
+    setTasks(prev => setSubtaskDone(prev, parent, subtask.id, !subtask.done));
+  };
+
+  const addSubtask = (parent: TaskOccurrence, text: string) => {
+    setTasks(prev => addSubtasks(prev, parent.seriesDay, parent.id, [text]));
   };
 
-  const deleteTask = (day: string, taskId: string | number) => {
+  // Time slots belong to the series, so moving a recurring block moves every occurrence
+  const scheduleTask = (task: TaskOccurrence, time: string | null) => {
     setTasks(prev => ({
       ...prev,
-      [day]: prev[day]?.filter(t => String(t.id) !== String(taskId)) || []
+      [task.seriesDay]: prev[task.seriesDay]?.map(t => String(t.id) === String(task.id) ? { ...t, time: time || undefined } : t) || []
     }));
   };
 
-  const getTasksForDate = (date: Date) => {
-    const dateKey = format(date, 'yyyy-MM-dd');
-    // Check if we have tasks stored by date
-    if (tasks[dateKey]) return tasks[dateKey];
-    // Fallback to day name for current week
-    if (isCurrentWeek) {
-      const dayName = DAYS[date.getDay() === 0 ? 6 : date.getDay() - 1];
-      return tasks[dayName] || [];
-    }
-    return tasks[dateKey] || [];
+  const skipOccurrence = (task: TaskOccurrence) => {
+    setTasks(prev => setOccurrenceState(prev, task.seriesDay, task.id, task.occurrenceDate, 'skipped'));
   };
 
-  const getTaskKey = (date: Date) => {
-    if (isCurrentWeek) {
-      return DAYS[date.getDay() === 0 ? 6 : date.getDay() - 1];
-    }
-    return format(date, 'yyyy-MM-dd');
+  const deleteTask = (task: TaskOccurrence) => {
+    setTasks(prev => removeTask(prev, task.seriesDay, task.id));
   };
 
+  const getTasksForDate = (date: Date) => getTasksForDay(tasks, toDateKey(date));
+
+  const getTaskKey = (date: Date) => toDateKey(date);
+
   const calculateWeeklyStats = () => {
     let completed = 0;
     let total = 0;
@@ -254,21 +274,21 @@ export function DashboardTab({
   const handleAddIdea = (text: string) => {
     setTasks(prev => ({
       ...prev,
-      'IdeaDump': [...(prev['IdeaDump'] || []), { id: Date.now(), text, done: false }]
+      [IDEA_DUMP_KEY]: [...(prev[IDEA_DUMP_KEY] || []), { id: Date.now(), text, done: false }]
     }));
   };
 
   const handleDeleteIdea = (id: string | number) => {
     setTasks(prev => ({
       ...prev,
-      'IdeaDump': prev['IdeaDump']?.filter(x => String(x.id) !== String(id)) || []
+      [IDEA_DUMP_KEY]: prev[IDEA_DUMP_KEY]?.filter(x => String(x.id) !== String(id)) || []
     }));
   };
 
   const handleEditIdea = (id: string | number, newText: string) => {
     setTasks(prev => ({
       ...prev,
-      'IdeaDump': prev['IdeaDump']?.map(x => String(x.id) === String(id) ? { ...x, text: newText } : x) || []
+      [IDEA_DUMP_KEY]: prev[IDEA_DUMP_KEY]?.map(x => String(x.id) === String(id) ? { ...x, text: newText } : x) || []
     }));
   };
 
@@ -303,19 +323,18 @@ export function DashboardTab({
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setSelectedDate(prev => subWeeks(prev, 1))}
+            onClick={() => setSelectedDate(prev => view === 'day' ? subDays(prev, 1) : subWeeks(prev, 1))}
             className="h-8 w-8 p-0"
           >
             <ChevronLeft size={18} />
           </Button>
           <span className="text-sm font-medium text-card-foreground min-w-[120px] text-center">
-            {getWeekLabel(selectedDate)}
+            {view === 'day' ? (isSelectedToday ? 'Today' : format(selectedDate, 'EEE, MMM d')) : getWeekLabel(selectedDate)}
           </span>
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setSelectedDate(prev => addWeeks(prev, 1))}
-            disabled={!isPastWeek && isCurrentWeek}
+            onClick={() => setSelectedDate(prev => view === 'day' ? addDays(prev, 1) : addWeeks(prev, 1))}
             className="h-8 w-8 p-0"
           >
             <ChevronRight size={18} />
@@ -323,6 +342,25 @@ export function DashboardTab({
         </div>
         
         <div className="flex items-center gap-2">
+          <div className="flex bg-muted rounded-lg p-0.5">
+            <button
+              onClick={() => setView('week')}
+              className={`flex items-center gap-1 px-2 h-7 rounded-md text-xs transition-colors ${view === 'week' ? 'bg-card text-card-foreground shadow-sm' : 'text-muted-foreground'}`}
+              title="Week view"
+            >
+              <CalendarRange size={14} />
+              <span className="hidden sm:inline">Week</span>
+            </button>
+            <button
+              onClick={() => setView('day')}
+              className={`flex items-center gap-1 px-2 h-7 rounded-md text-xs transition-colors ${view === 'day' ? 'bg-card text-card-foreground shadow-sm' : 'text-muted-foreground'}`}
+              title="Day view"
+            >
+              <CalendarDays size={14} />
+              <span className="hidden sm:inline">Day</span>
+            </button>
+          </div>
+
           <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
             <PopoverTrigger asChild>
               <Button variant="outline" size="sm" className="h-8 gap-1">
@@ -345,7 +383,7 @@ export function DashboardTab({
             </PopoverContent>
           </Popover>
           
-          {!isCurrentWeek && (
+          {(view === 'day' ? !isSelectedToday : !isCurrentWeek) && (
             <Button
               variant="outline"
               size="sm"
@@ -369,130 +407,300 @@ export function DashboardTab({
         </div>
       </div>
 
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 pb-20 md:pb-0">
-        {weekDates.map((date, idx) => {
-          const dayName = DAYS[idx];
-          const taskKey = getTaskKey(date);
-          const dayTasks = getTasksForDate(date);
-          const isToday = isSameDay(date, new Date());
-          
-          return (
-            <div 
-              key={dayName} 
-              className={`bg-card p-4 rounded-xl shadow-soft flex flex-col h-64 hover:shadow-card transition-shadow ${isToday ? 'ring-2 ring-primary/30' : ''}`}
-            >
-              <div className="flex justify-between items-center mb-3">
-                <div>
-                  <h3 className="font-bold text-card-foreground">{dayName}</h3>
-                  <span className="text-[10px] text-muted-foreground">{format(date, 'MMM d')}</span>
+      {view === 'day' ? (
+        <div className="pb-20 md:pb-0">
+          <DayTimeline
+            tasks={getTasksForDate(selectedDate)}
+            focusSessions={focusSessions}
+            isToday={isSelectedToday}
+            onScheduleTask={scheduleTask}
+            onToggleTask={toggleTaskDone}
+            onPlanDay={() => onOpenModal('generateSchedule', selectedDayKey)}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 pb-20 md:pb-0">
+          {weekDates.map((date, idx) => {
+            const dayName = DAYS[idx];
+            const taskKey = getTaskKey(date);
+            const dayTasks = getTasksForDate(date);
+            const isToday = isSameDay(date, new Date());
+            
+            return (
+              <div 
+                key={dayName} 
+                className={`bg-card p-4 rounded-xl shadow-soft flex flex-col h-64 hover:shadow-card transition-shadow ${isToday ? 'ring-2 ring-primary/30' : ''}`}
+              >
+                <div className="flex justify-between items-center mb-3">
+                  <div>
+                    <h3 className="font-bold text-card-foreground">{dayName}</h3>
+                    <span className="text-[10px] text-muted-foreground">{format(date, 'MMM d')}</span>
+                  </div>
+                  <div className="flex gap-1">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <button 
+                          className="bg-success/10 text-success hover:bg-success/20 p-2 rounded-full transition-colors" 
+                          title="Sort Tasks"
+                          disabled={isPastWeek || sortingDay === taskKey}
+                        >
+                          {sortingDay === taskKey ? <Loader2 className="animate-spin" size={16} /> : <ListOrdered size={16} />}
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-52">
+                        <DropdownMenuItem onClick={() => onSmartSort(taskKey, 'deadline')}>
+                          <CalendarClock size={14} className="mr-2" />
+                          By deadline & priority
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onSmartSort(taskKey, 'ai')} disabled={!canUseAI}>
+                          <Sparkles size={14} className="mr-2" />
+                          Smart Sort (AI)
+                          {!canUseAI && <span className="ml-auto text-[10px] font-bold text-primary">PRO</span>}
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <button 
+                      onClick={() => onOpenModal('generateSchedule', taskKey)} 
+                      className="bg-primary/10 text-primary hover:bg-primary/20 p-2 rounded-full transition-colors"
+                      disabled={isPastWeek}
+                      title="Daily Plan Assistant"
+                    >
+                      <Sparkles size={16} />
+                    </button>
+                    <button 
+                      onClick={() => onOpenModal('addTask', taskKey)} 
+                      className="bg-primary/10 text-primary hover:bg-primary/20 p-2 rounded-full transition-colors"
+                      title="Add Task"
+                      data-tutorial="add-task"
+                    >
+                      <Plus size={16} />
+                    </button>
+                  </div>
                 </div>
-                <div className="flex gap-1">
-                  <button 
-                    onClick={() => onSmartSort(taskKey)} 
-                    className="bg-success/10 text-success hover:bg-success/20 p-2 rounded-full transition-colors" 
-                    title="Smart Sort"
-                    disabled={isPastWeek && !isCurrentWeek}
-                  >
-                    {sortingDay === taskKey ? <Loader2 className="animate-spin" size={16} /> : <ListOrdered size={16} />}
-                  </button>
-                  <button 
-                    onClick={() => onOpenModal('generateSchedule', taskKey)} 
-                    className="bg-primary/10 text-primary hover:bg-primary/20 p-2 rounded-full transition-colors"
-                    disabled={isPastWeek && !isCurrentWeek}
-                    title="Daily Plan Assistant"
-                  >
-                    <Sparkles size={16} />
-                  </button>
-                  <button 
-                    onClick={() => onOpenModal('addTask', taskKey)} 
-                    className="bg-primary/10 text-primary hover:bg-primary/20 p-2 rounded-full transition-colors"
-                    title="Add Task"
-                    data-tutorial="add-task"
-                  >
-                    <Plus size={16} />
-                  </button>
+                <div className="overflow-y-auto flex-1 space-y-2 pr-1">
+                  {dayTasks.map((task, taskIdx) => (
+                    <TaskItem 
+                      key={`${task.id}-${taskIdx}`} 
+                      task={task} 
+                      subtasks={getSubtasks(tasks, task)}
+                      goal={systems.find(s => task.systemId != null && String(s.id) === String(task.systemId))?.goal}
+                      isBreakingDown={breakingDownTask !== null && String(breakingDownTask) === String(task.id)}
+                      onToggle={() => toggleTaskDone(task)}
+                      onSkip={() => skipOccurrence(task)}
+                      onDelete={() => deleteTask(task)}
+                      onEdit={() => onOpenModal('editTask', { day: task.seriesDay, taskId: task.id }, task.text)}
+                      onSmartDraft={() => onSmartDraft(task.text)}
+                      onBreakdown={() => onBreakdownTask(task.seriesDay, task.id, task.text)}
+                      onToggleSubtask={subtask => toggleSubtaskDone(task, subtask)}
+                      onAddSubtask={text => addSubtask(task, text)}
+                      onDeleteSubtask={subtask => setTasks(prev => removeTask(prev, task.seriesDay, subtask.id))}
+                    />
+                  ))}
                 </div>
               </div>
-              <div className="overflow-y-auto flex-1 space-y-2 pr-1">
-                {dayTasks.map((task, taskIdx) => (
-                  <TaskItem 
-                    key={`${task.id}-${taskIdx}`} 
-                    task={task} 
-                    day={taskKey}
-                    onToggle={() => toggleTaskDone(taskKey, task.id)}
-                    onDelete={() => deleteTask(taskKey, task.id)}
-                    onEdit={() => onOpenModal('editTask', { day: taskKey, taskId: task.id }, task.text)}
-                    onSmartDraft={() => onSmartDraft(task.text)}
-                  />
-                ))}
-              </div>
-            </div>
-          );
-        })}
-        
-        {/* Idea Dump (formerly Brain Dump) */}
-        <div data-tutorial="idea-dump">
-          <IdeaDump 
-            ideas={tasks['IdeaDump'] || tasks['BrainDump'] || []}
-            onAddIdea={handleAddIdea}
-            onEditIdea={handleEditIdea}
-            onDeleteIdea={handleDeleteIdea}
-          />
+            );
+          })}
+          
+          {/* Idea Dump (formerly Brain Dump) */}
+          <div data-tutorial="idea-dump">
+            <IdeaDump 
+              ideas={tasks[IDEA_DUMP_KEY] || tasks['BrainDump'] || []}
+              onAddIdea={handleAddIdea}
+              onEditIdea={handleEditIdea}
+              onDeleteIdea={handleDeleteIdea}
+            />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
 
 interface TaskItemProps {
-  task: Task;
-  day: string;
+  task: TaskOccurrence;
+  subtasks: TaskOccurrence[];
+  goal?: string;
+  isBreakingDown: boolean;
   onToggle: () => void;
+  onSkip: () => void;
   onDelete: () => void;
   onEdit: () => void;
   onSmartDraft: () => void;
+  onBreakdown: () => void;
+  onToggleSubtask: (subtask: TaskOccurrence) => void;
+  onAddSubtask: (text: string) => void;
+  onDeleteSubtask: (subtask: TaskOccurrence) => void;
 }
 
-function TaskItem({ task, day, onToggle, onDelete, onEdit, onSmartDraft }: TaskItemProps) {
+function TaskItem({
+  task,
+  subtasks,
+  goal,
+  isBreakingDown,
+  onToggle,
+  onSkip,
+  onDelete,
+  onEdit,
+  onSmartDraft,
+  onBreakdown,
+  onToggleSubtask,
+  onAddSubtask,
+  onDeleteSubtask,
+}: TaskItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [newSubtask, setNewSubtask] = useState('');
   const taskText = task.text || '';
   const isSubtask = taskText.startsWith('↳');
   const showDraftButton = ['email', 'message', 'write', 'contact'].some(keyword => 
     taskText.toLowerCase().includes(keyword)
   );
+  const progress = getSubtaskProgress(subtasks);
+
+  const handleBreakdown = () => {
+    setExpanded(true);
+    onBreakdown();
+  };
+
+  const handleAddSubtask = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSubtask.trim()) return;
+    onAddSubtask(newSubtask);
+    setNewSubtask('');
+  };
 
   return (
-    <div className="flex items-start group bg-muted p-2 rounded-lg relative">
-      <input 
-        type="checkbox" 
-        checked={task.done} 
-        onChange={onToggle} 
-        className="mt-1 mr-2 cursor-pointer w-4 h-4 accent-primary"
-      />
-      <div className="flex-1 min-w-0">
-        <span className={`text-sm break-words ${task.done ? 'line-through text-muted-foreground' : 'text-card-foreground'}`}>
-          {taskText}
-        </span>
-        {task.time && (
-          <div className="flex items-center gap-1 mt-0.5 text-xs text-muted-foreground">
-            <Clock size={10} />
-            <span>{task.time}</span>
-          </div>
-        )}
-      </div>
-      
-      <div className="flex opacity-0 group-hover:opacity-100 transition-opacity absolute right-2 top-2 bg-muted pl-2 items-center bg-opacity-90 rounded-lg backdrop-blur-sm">
-        {!isSubtask && showDraftButton && (
-          <button onClick={onSmartDraft} className="text-primary hover:text-primary/80 mr-1 p-1" title="Smart Draft">
-            <PenTool size={12} />
+    <div className="bg-muted p-2 rounded-lg">
+      <div className="flex items-start group relative">
+        <input 
+          type="checkbox" 
+          checked={task.done} 
+          onChange={onToggle} 
+          className="mt-1 mr-2 cursor-pointer w-4 h-4 accent-primary"
+        />
+        <div className="flex-1 min-w-0">
+          <span className={`text-sm break-words ${task.done ? 'line-through text-muted-foreground' : 'text-card-foreground'}`}>
+            {taskText}
+          </span>
+          {task.time && (
+            <div className="flex items-center gap-1 mt-0.5 text-xs text-muted-foreground">
+              <Clock size={10} />
+              <span>{task.time}</span>
+            </div>
+          )}
+          {task.recurrence && (
+            <div className="flex items-center gap-1 mt-0.5 text-xs text-primary">
+              <Repeat size={10} />
+              <span>{describeRecurrence(task.recurrence)}</span>
+            </div>
+          )}
+          {(task.priority || task.estimateMinutes || task.deadline || goal || (task.labels?.length ?? 0) > 0) && (
+            <div className="flex flex-wrap items-center gap-1 mt-1 text-[10px]">
+              {goal && (
+                <span className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-secondary text-secondary-foreground max-w-full truncate">
+                  <Target size={8} className="flex-shrink-0" />
+                  <span className="truncate">{goal}</span>
+                </span>
+              )}
+              {task.priority && (
+                <span className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded font-bold ${PRIORITY_STYLES[task.priority]}`}>
+                  <Flag size={8} />
+                  {PRIORITY_LABELS[task.priority]}
+                </span>
+              )}
+              {task.estimateMinutes && (
+                <span className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-background text-muted-foreground">
+                  <Timer size={8} />
+                  {formatEstimate(task.estimateMinutes)}
+                </span>
+              )}
+              {task.deadline && (
+                <span className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded ${
+                  !task.done && new Date(task.deadline) < new Date() ? 'bg-destructive/10 text-destructive' : 'bg-background text-muted-foreground'
+                }`}>
+                  <CalendarClock size={8} />
+                  {format(new Date(task.deadline), 'MMM d, HH:mm')}
+                </span>
+              )}
+              {task.labels?.map(label => (
+                <span key={label} className="px-1.5 py-0.5 rounded bg-primary/10 text-primary">#{label}</span>
+              ))}
+            </div>
+          )}
+          {progress.total > 0 && (
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="flex items-center gap-1.5 mt-1 w-full text-xs text-muted-foreground hover:text-foreground"
+              title={expanded ? 'Hide checklist' : 'Show checklist'}
+            >
+              <ChevronDown size={10} className={`transition-transform ${expanded ? '' : '-rotate-90'}`} />
+              <div className="flex-1 h-1 bg-background rounded-full overflow-hidden">
+                <div className="h-full bg-primary transition-all" style={{ width: `${progress.percentage}%` }} />
+              </div>
+              <span>{progress.done}/{progress.total}</span>
+            </button>
+          )}
+        </div>
+        
+        <div className="flex opacity-0 group-hover:opacity-100 transition-opacity absolute right-0 top-0 bg-muted pl-2 items-center bg-opacity-90 rounded-lg backdrop-blur-sm">
+          {!isSubtask && showDraftButton && (
+            <button onClick={onSmartDraft} className="text-primary hover:text-primary/80 mr-1 p-1" title="Smart Draft">
+              <PenTool size={12} />
+            </button>
+          )}
+          {!isSubtask && (
+            <button onClick={handleBreakdown} disabled={isBreakingDown} className="text-primary hover:text-primary/80 mr-1 p-1" title="Break down with AI">
+              {isBreakingDown ? <Loader2 size={12} className="animate-spin" /> : <ListTree size={12} />}
+            </button>
+          )}
+          <button onClick={() => setExpanded(!expanded)} className="text-muted-foreground hover:text-primary mr-1 p-1" title="Checklist">
+            <Plus size={12} />
+          </button>
+          <button onClick={onEdit} className="text-muted-foreground hover:text-primary mr-1 p-1" title="Edit">
+            <Edit2 size={12} />
           </button>
-        )}
-        <button onClick={onEdit} className="text-muted-foreground hover:text-primary mr-1 p-1" title="Edit">
-          <Edit2 size={12} />
-        </button>
-        <button onClick={onDelete} className="text-muted-foreground hover:text-destructive p-1" title="Delete">
-          <Trash2 size={12} />
-        </button>
+          {task.recurrence && (
+            <button onClick={onSkip} className="text-muted-foreground hover:text-primary mr-1 p-1" title="Skip this occurrence">
+              <SkipForward size={12} />
+            </button>
+          )}
+          <button onClick={onDelete} className="text-muted-foreground hover:text-destructive p-1" title={task.recurrence ? "Delete series" : "Delete"}>
+            <Trash2 size={12} />
+          </button>
+        </div>
       </div>
+
+      {expanded && (
+        <div className="mt-2 ml-6 space-y-1">
+          {subtasks.map(subtask => (
+            <div key={subtask.id} className="flex items-start group/subtask">
+              <input
+                type="checkbox"
+                checked={subtask.done}
+                onChange={() => onToggleSubtask(subtask)}
+                className="mt-0.5 mr-2 cursor-pointer w-3.5 h-3.5 accent-primary"
+              />
+              <span className={`flex-1 min-w-0 text-xs break-words ${subtask.done ? 'line-through text-muted-foreground' : 'text-card-foreground'}`}>
+                {subtask.text}
+              </span>
+              <button
+                onClick={() => onDeleteSubtask(subtask)}
+                className="opacity-0 group-hover/subtask:opacity-100 text-muted-foreground hover:text-destructive p-0.5"
+                title="Remove step"
+              >
+                <X size={10} />
+              </button>
+            </div>
+          ))}
+          <form onSubmit={handleAddSubtask}>
+            <input
+              value={newSubtask}
+              onChange={e => setNewSubtask(e.target.value)}
+              placeholder="Add a step..."
+              className="w-full bg-transparent text-xs border-b border-border focus:border-primary outline-none py-0.5 placeholder:text-muted-foreground"
+            />
+          </form>
+        </div>
+      )}
     </div>
   );
 }
@@ -2,16 +2,24 @@ import { useState, useMemo } from 'react';
 import { 
   TrendingUp, DollarSign, Wallet, Plus, Edit2, Trash2, X, 
   Sparkles, Loader2, MessageCircle, Wand2, CreditCard, PiggyBank, Receipt,
-  History, MoreVertical, Filter, ChevronDown, Calculator, FileUp, Building2
+  History, MoreVertical, Filter, ChevronDown, Calculator, FileUp, Building2, ArrowLeftRight, Split
 } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { Transaction, Subscription, Budget, ChatMessage, SavingsGoal } from '@/lib/types';
+import { endOfMonth, format } from 'date-fns';
+import { Transaction, TransactionSplit, Subscription, Budget, ChatMessage, SavingsGoal } from '@/lib/types';
 import { formatCurrency } from '@/lib/formatters';
 import { CHART_COLORS } from '@/lib/constants';
+import { getTodayKey, parseDateKey, toDateKey } from '@/lib/taskDates';
+import { TransferInput, createTransferLegs, getSignedAmount } from '@/lib/transfers';
+import { SPLIT_CATEGORY, getCategoryAmount, getCategoryAmounts, hasCategory, isSplit, isSplitBalanced } from '@/lib/splits';
+import { StatementTransaction } from '@/lib/statementImport';
+import { BudgetPeriodRange, BudgetPeriodUsage, getBudgetHistory, getBudgetLevel, getBudgetPeriodLabel, getMonthStartKey } from '@/lib/budgets';
+import { getBillingCycle, getBillingCycleLabel, getUpcomingChargeDate, getRemainingFixedCosts, isRenewingSoon } from '@/lib/subscriptions';
 import { Modal } from '@/components/Modal';
 import { ChatInterface } from '@/components/ChatInterface';
 import { SavingsEntriesHistory } from '@/components/SavingsEntriesHistory';
 import { useEntitlements } from '@/hooks/useEntitlements';
+import { useUserSettings } from '@/hooks/useUserSettings';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import {
@@ -28,6 +36,8 @@ import {
 import { AccountSelector } from '@/components/AccountSelector';
 import { BankAccountModal } from '@/components/BankAccountModal';
 import { BankStatementUpload } from '@/components/BankStatementUpload';
+import { TransferModal } from '@/components/TransferModal';
+import { SplitEditor } from '@/components/SplitEditor';
 import { FreelancerPricingTool } from '@/components/FreelancerPricingTool';
 import { TransactionSourceBadge } from '@/components/TransactionSourceBadge';
 import { AccountBalanceCards } from '@/components/AccountBalanceCards';
@@ -43,8 +53,8 @@ interface FinanceTabProps {
   setSubscriptions: React.Dispatch<React.SetStateAction<Subscription[]>>;
   savingsGoals: SavingsGoal[];
   setSavingsGoals: React.Dispatch<React.SetStateAction<SavingsGoal[]>>;
-  budgets: Budget;
-  setBudgets: React.Dispatch<React.SetStateAction<Budget>>;
+  budgets: Budget[];
+  setBudgets: React.Dispatch<React.SetStateAction<Budget[]>>;
   categories: string[];
   currency: string;
   // Removed: totalIncome, totalExpense, balance, safeDailySpend, expenseData - now calculated locally with account filtering
@@ -66,6 +76,7 @@ interface FinanceTabProps {
     description: string;
     date: string;
     bank_account_id?: string | null;
+    splits?: TransactionSplit[];
   };
   setNewTransaction: React.Dispatch<React.SetStateAction<{
     type: 'income' | 'expense';
@@ -74,6 +85,7 @@ interface FinanceTabProps {
     description: string;
     date: string;
     bank_account_id?: string | null;
+    splits?: TransactionSplit[];
   }>>;
   editingTransactionId: string | number | null;
   setEditingTransactionId: (id: string | number | null) => void;
@@ -122,6 +134,8 @@ export function FinanceTab({
   const [financeMonthFilter, setFinanceMonthFilter] = useState(new Date().toISOString().slice(0, 7));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { canScanReceipts, canAutoCategorize } = useEntitlements();
+  const { convert } = useUserSettings();
+  const todayKey = getTodayKey();
 
   // Bank accounts state
   const { 
@@ -137,10 +151,11 @@ export function FinanceTab({
   const [editingAccount, setEditingAccount] = useState<BankAccount | null>(null);
   const [isBankUploadOpen, setIsBankUploadOpen] = useState(false);
   const [isFreelancerToolOpen, setIsFreelancerToolOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
 
   // Filter states
   const [showFilters, setShowFilters] = useState(false);
-  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
+  const [filterType, setFilterType] = useState<'all' | Transaction['type']>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
   const [filterAmountMin, setFilterAmountMin] = useState<string>('');
   const [filterAmountMax, setFilterAmountMax] = useState<string>('');
@@ -174,9 +189,16 @@ export function FinanceTab({
       .reduce((sum, t) => sum + t.amount, 0);
   }, [currentMonthTransactions]);
 
+  // Transfers aren't income or spending, but they still move the selected account's balance
+  const netTransfers = useMemo(() => {
+    return currentMonthTransactions
+      .filter(t => t.type === 'transfer')
+      .reduce((sum, t) => sum + getSignedAmount(t), 0);
+  }, [currentMonthTransactions]);
+
   // Calculate balance including opening balance
   const balance = useMemo(() => {
-    const transactionBalance = totalIncome - totalExpense;
+    const transactionBalance = totalIncome - totalExpense + netTransfers;
     if (selectedAccountId !== 'all') {
       const account = accounts.find(a => a.id === selectedAccountId);
       return (account?.opening_balance || 0) + transactionBalance;
@@ -184,7 +206,7 @@ export function FinanceTab({
     // For all accounts, sum opening balances + transaction balances
     const totalOpening = accounts.reduce((sum, a) => sum + (a.opening_balance || 0), 0);
     return totalOpening + transactionBalance;
-  }, [selectedAccountId, accounts, totalIncome, totalExpense]);
+  }, [selectedAccountId, accounts, totalIncome, totalExpense, netTransfers]);
 
   // Safe Daily Spend - account filtered
   const safeDailySpend = useMemo(() => {
@@ -192,17 +214,24 @@ export function FinanceTab({
     const daysLeft = Math.max(1, daysInMonth - today.getDate());
     
     const totalSavingsGoals = savingsGoals.reduce((acc, g) => acc + Math.max(0, g.target - g.current), 0);
-    const remainingBudget = (totalIncome - totalExpense) - totalFixedCosts - totalSavingsGoals;
+    // Charges are matched on every account, whichever one is selected
+    const remainingFixedCosts = getRemainingFixedCosts(
+      subscriptions,
+      transactions.filter(t => t.date.startsWith(currentMonthStr)),
+      todayKey,
+      (amount, from) => convert(amount, from, currency)
+    );
+    const remainingBudget = (totalIncome - totalExpense) - remainingFixedCosts - totalSavingsGoals;
     return Math.max(0, remainingBudget / daysLeft);
-  }, [totalIncome, totalExpense, totalFixedCosts, savingsGoals, today]);
+  }, [totalIncome, totalExpense, subscriptions, transactions, currentMonthStr, todayKey, convert, currency, savingsGoals, today]);
 
   // Expense data for charts - account filtered
   const expenseData = useMemo(() => {
     return categories.map(cat => ({
       name: cat,
       value: currentMonthTransactions
-        .filter(t => t.type === 'expense' && t.category === cat)
-        .reduce((sum, t) => sum + t.amount, 0)
+        .filter(t => t.type === 'expense')
+        .reduce((sum, t) => sum + getCategoryAmount(t, cat), 0)
     })).filter(item => item.value > 0);
   }, [currentMonthTransactions, categories]);
 
@@ -213,7 +242,7 @@ export function FinanceTab({
     return transactions
       .filter(t => t.date.startsWith(financeMonthFilter))
       .filter(t => filterType === 'all' || t.type === filterType)
-      .filter(t => filterCategory === 'all' || t.category === filterCategory)
+      .filter(t => filterCategory === 'all' || hasCategory(t, filterCategory))
       .filter(t => {
         const min = parseFloat(filterAmountMin) || 0;
         const max = parseFloat(filterAmountMax) || Infinity;
@@ -242,7 +271,7 @@ export function FinanceTab({
 
   // Get unique categories from transactions
   const uniqueCategories = useMemo(() => {
-    const cats = new Set(transactions.map(t => t.category));
+    const cats = new Set(transactions.flatMap(t => getCategoryAmounts(t).map(s => s.category)));
     return Array.from(cats).filter(Boolean);
   }, [transactions]);
 
@@ -262,15 +291,39 @@ export function FinanceTab({
     setFilterAmountMax('');
   };
 
-  const getBudgetProgress = (cat: string) => {
-    const limit = budgets[cat] || 0;
-    if (limit === 0) return null;
-    const spent = transactions
-      .filter(t => t.type === 'expense' && t.category === cat && t.date.startsWith(financeMonthFilter))
-      .reduce((acc, curr) => acc + curr.amount, 0);
-    return { spent, limit, pct: Math.min((spent / limit) * 100, 100) };
+  // Budgets are shown for the period running on the selected month's last day, or today
+  const budgetDateKey = financeMonthFilter === todayKey.slice(0, 7)
+    ? todayKey
+    : toDateKey(endOfMonth(parseDateKey(`${financeMonthFilter}-01`)));
+
+  const budgetHistories = useMemo(() => {
+    const histories: Record<string, BudgetPeriodUsage[]> = {};
+    budgets.forEach(b => { histories[String(b.id)] = getBudgetHistory(b, transactions, budgetDateKey); });
+    return histories;
+  }, [budgets, transactions, budgetDateKey]);
+
+  // "To Savings" / "From Main (1 USD = 1,500 NGN)" for a transfer leg
+  const getTransferLabel = (t: Transaction) => {
+    const counterpart = transactions.find(other => other.transfer_id === t.transfer_id && other.id !== t.id);
+    const otherAccount = accounts.find(a => a.id === counterpart?.bank_account_id);
+    const label = `${t.transfer_direction === 'out' ? 'To' : 'From'} ${otherAccount?.bank_name || 'another account'}`;
+    if (!t.fx_rate) return label;
+    const [sent, received] = t.transfer_direction === 'out' ? [t, counterpart] : [counterpart, t];
+    const sentCurrency = accounts.find(a => a.id === sent?.bank_account_id)?.currency;
+    const receivedCurrency = accounts.find(a => a.id === received?.bank_account_id)?.currency;
+    return sentCurrency && receivedCurrency
+      ? `${label} (1 ${sentCurrency} = ${t.fx_rate.toLocaleString()} ${receivedCurrency})`
+      : label;
   };
 
+  const handleTransfer = async (transfer: TransferInput) => {
+    setTransactions(prev => [...createTransferLegs(transfer), ...prev]);
+    toast.success('Transfer recorded');
+  };
+
+  const formatBudgetRange = (range: BudgetPeriodRange) =>
+    `${format(parseDateKey(range.start), 'MMM d')} – ${format(parseDateKey(range.end), 'MMM d')}`;
+
   const calculateSmartBudgets = () => {
     const income = totalIncome > 0 ? totalIncome : 0;
     if (income === 0) return toast.error("Log some income first!");
@@ -280,25 +333,50 @@ export function FinanceTab({
     const wants = income * 0.30;
     const savings = income * 0.20;
 
-    const newBudgets = { ...budgets };
-    
-    newBudgets['Rent/Bills'] = needs * 0.6;
-    newBudgets['Food'] = needs * 0.25;
-    newBudgets['Transport'] = needs * 0.15;
-    newBudgets['Entertainment'] = wants * 0.5;
-    newBudgets['Shopping'] = wants * 0.5;
-    newBudgets['Health'] = savings * 0.3;
-    newBudgets['Education'] = savings * 0.3;
-    newBudgets['Savings'] = savings * 0.4;
+    const allocations: Record<string, number> = {
+      'Rent/Bills': needs * 0.6,
+      'Food': needs * 0.25,
+      'Transport': needs * 0.15,
+      'Entertainment': wants * 0.5,
+      'Shopping': wants * 0.5,
+      'Health': savings * 0.3,
+      'Education': savings * 0.3,
+      'Savings': savings * 0.4,
+    };
 
-    setBudgets(newBudgets);
+    // Updates the monthly all-account budget of each category, adding any that are missing
+    setBudgets(prev => {
+      const next = [...prev];
+      Object.entries(allocations).forEach(([category, amount], index) => {
+        const existing = next.findIndex(b => b.category === category && b.period === 'monthly' && !b.bankAccountId);
+        if (existing >= 0) {
+          next[existing] = { ...next[existing], amount };
+        } else {
+          next.push({ id: Date.now() + index, category, amount, period: 'monthly', startDate: getMonthStartKey() });
+        }
+      });
+      return next;
+    });
     toast.success("Budgets allocated (50/30/20)!");
   };
 
   const handleTransactionSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTransaction.amount || !newTransaction.description || !newTransaction.date || isSubmitting) return;
-    
+
+    const amount = parseFloat(newTransaction.amount);
+    // Empty lines are dropped, and a split left with a single line is just that category
+    const splits = newTransaction.type === 'expense'
+      ? (newTransaction.splits || []).filter(s => s.amount > 0)
+      : [];
+    if (splits.length > 0 && !isSplitBalanced(splits, amount)) {
+      toast.error('Split lines must add up to the amount');
+      return;
+    }
+    const category = newTransaction.type === 'income'
+      ? 'Income'
+      : splits.length === 1 ? splits[0].category : splits.length > 1 ? SPLIT_CATEGORY : newTransaction.category;
+
     setIsSubmitting(true);
     
     // Get the default bank account for new transactions
@@ -309,13 +387,14 @@ export function FinanceTab({
     const tData: Transaction = {
       id: editingTransactionId || Date.now(),
       type: newTransaction.type,
-      amount: parseFloat(newTransaction.amount),
-      category: newTransaction.type === 'income' ? 'Income' : newTransaction.category,
+      amount,
+      category,
       description: newTransaction.description,
       date: newTransaction.date,
       bank_account_id: bankAccountId,
       source: 'manual' as const,
-      external_reference: null
+      external_reference: null,
+      splits: splits.length > 1 ? splits : [],
     };
 
     if (editingTransactionId) {
@@ -336,11 +415,25 @@ export function FinanceTab({
       category: categories[0],
       description: '',
       date: new Date().toISOString().split('T')[0],
-      bank_account_id: null
+      bank_account_id: null,
+      splits: [],
     });
     setIsSubmitting(false);
   };
 
+  // Splitting starts from the chosen category holding the whole amount; going
+  // back to one category keeps the first line's
+  const isSplitting = newTransaction.type === 'expense' && (newTransaction.splits?.length ?? 0) > 0;
+
+  const toggleSplit = () => {
+    if (isSplitting) {
+      setNewTransaction({ ...newTransaction, category: newTransaction.splits![0].category, splits: [] });
+    } else {
+      const splits = [{ category: newTransaction.category, amount: parseFloat(newTransaction.amount) || 0 }];
+      setNewTransaction({ ...newTransaction, splits });
+    }
+  };
+
   // Bank account handlers
   const handleSaveAccount = async (data: Omit<BankAccount, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
     if (editingAccount) {
@@ -357,7 +450,7 @@ export function FinanceTab({
   };
 
   const handleBankStatementImport = async (
-    parsedTransactions: Array<{ date: string; amount: number; type: string; description: string; category?: string }>,
+    parsedTransactions: StatementTransaction[],
     accountId: string
   ) => {
     if (!user) return;
@@ -372,6 +465,7 @@ export function FinanceTab({
         description: t.description,
         category: t.category || (t.type === 'income' ? 'Income' : 'Other'),
         source: 'bank_import' as const,
+        external_reference: t.external_reference || null,
       }));
 
       const { error } = await supabase
@@ -457,6 +551,10 @@ export function FinanceTab({
                     Smart Import
                   </DropdownMenuItem>
                 </ContextualHint>
+                <DropdownMenuItem onClick={() => setIsTransferOpen(true)} disabled={accounts.length < 2}>
+                  <ArrowLeftRight size={14} className="mr-2" />
+                  Transfer
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setIsFreelancerToolOpen(true)}>
                   <Calculator size={14} className="mr-2" />
                   Rate Calculator
@@ -589,13 +687,19 @@ export function FinanceTab({
                   {newTransaction.type === 'expense' ? (
                     <>
                       <div className="col-span-2 md:col-span-5 flex gap-2">
-                        <select 
-                          value={newTransaction.category} 
-                          onChange={e => setNewTransaction({ ...newTransaction, category: e.target.value })}
-                          className="w-full p-2.5 md:p-3 text-sm border border-border rounded-lg bg-muted focus:ring-2 focus:ring-primary/20 outline-none"
-                        >
-                          {categories.map(c => <option key={c} value={c}>{c}</option>)}
-                        </select>
+                        {isSplitting ? (
+                          <div className="w-full p-2.5 md:p-3 text-sm border border-border rounded-lg bg-muted text-muted-foreground truncate">
+                            Split across {newTransaction.splits!.length} {newTransaction.splits!.length === 1 ? 'category' : 'categories'}
+                          </div>
+                        ) : (
+                          <select 
+                            value={newTransaction.category} 
+                            onChange={e => setNewTransaction({ ...newTransaction, category: e.target.value })}
+                            className="w-full p-2.5 md:p-3 text-sm border border-border rounded-lg bg-muted focus:ring-2 focus:ring-primary/20 outline-none"
+                          >
+                            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                          </select>
+                        )}
                         <button 
                           type="button" 
                           onClick={() => onOpenModal('addCategory')} 
@@ -603,6 +707,14 @@ export function FinanceTab({
                         >
                           <Plus size={18} />
                         </button>
+                        <button
+                          type="button"
+                          onClick={toggleSplit}
+                          className={`p-2.5 md:p-3 rounded-lg shrink-0 ${isSplitting ? 'bg-primary/10 text-primary' : 'bg-muted hover:bg-accent'}`}
+                          title={isSplitting ? 'Use one category' : 'Split across categories'}
+                        >
+                          <Split size={18} />
+                        </button>
                       </div>
                       <div className="col-span-2 md:col-span-7 relative">
                         <input 
@@ -624,6 +736,17 @@ export function FinanceTab({
                           </button>
                         )}
                       </div>
+                      {isSplitting && (
+                        <div className="col-span-2 md:col-span-12">
+                          <SplitEditor
+                            splits={newTransaction.splits!}
+                            total={parseFloat(newTransaction.amount) || 0}
+                            categories={categories}
+                            currency={currency}
+                            onChange={(splits) => setNewTransaction({ ...newTransaction, splits })}
+                          />
+                        </div>
+                      )}
                     </>
                   ) : (
                     <div className="col-span-2 md:col-span-12">
@@ -686,12 +809,13 @@ export function FinanceTab({
                           <label className="text-xs text-muted-foreground mb-1 block">Type</label>
                           <select
                             value={filterType}
-                            onChange={(e) => setFilterType(e.target.value as 'all' | 'income' | 'expense')}
+                            onChange={(e) => setFilterType(e.target.value as 'all' | Transaction['type'])}
                             className="w-full p-2 text-xs border border-border rounded-lg bg-background"
                           >
                             <option value="all">All</option>
                             <option value="income">Income</option>
                             <option value="expense">Expense</option>
+                            <option value="transfer">Transfer</option>
                           </select>
                         </div>
 
@@ -775,28 +899,47 @@ export function FinanceTab({
                                   <TransactionSourceBadge source={t.source} />
                                 </div>
                                 <div className="text-xs text-muted-foreground">
-                                  {t.category || 'Income'}
+                                  {t.type === 'transfer' ? getTransferLabel(t) : t.category || 'Income'}
                                 </div>
+                                {isSplit(t) && (
+                                  <div className="flex flex-wrap gap-1 mt-1">
+                                    {t.splits!.map((line, lineIdx) => (
+                                      <span key={lineIdx} className="text-[10px] bg-background border border-border/50 rounded px-1.5 py-0.5 text-muted-foreground">
+                                        {line.category} {formatCurrency(line.amount, currency)}
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
                               </div>
                               <div className="flex items-center gap-2 md:gap-3 shrink-0">
-                                <span className={`font-bold text-xs md:text-sm ${t.type === 'income' ? 'text-success' : 'text-destructive'}`}>
-                                  {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount, currency)}
-                                </span>
-                                <button 
-                                  onClick={() => {
-                                    setNewTransaction({
-                                      type: t.type,
-                                      amount: String(t.amount),
-                                      category: t.category,
-                                      description: t.description,
-                                      date: t.date
-                                    });
-                                    setEditingTransactionId(t.id);
-                                  }} 
-                                  className="text-muted-foreground/50 hover:text-primary p-1"
-                                >
-                                  <Edit2 size={14} />
-                                </button>
+                                {t.type === 'transfer' ? (
+                                  <span className="font-bold text-xs md:text-sm text-primary flex items-center gap-1">
+                                    <ArrowLeftRight size={12} />
+                                    {getSignedAmount(t) > 0 ? '+' : '-'}{formatCurrency(t.amount, currency)}
+                                  </span>
+                                ) : (
+                                  <span className={`font-bold text-xs md:text-sm ${t.type === 'income' ? 'text-success' : 'text-destructive'}`}>
+                                    {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount, currency)}
+                                  </span>
+                                )}
+                                {t.type !== 'transfer' && (
+                                  <button 
+                                    onClick={() => {
+                                      setNewTransaction({
+                                        type: t.type === 'income' ? 'income' : 'expense',
+                                        amount: String(t.amount),
+                                        category: t.category,
+                                        description: t.description,
+                                        date: t.date,
+                                        splits: t.splits || [],
+                                      });
+                                      setEditingTransactionId(t.id);
+                                    }} 
+                                    className="text-muted-foreground/50 hover:text-primary p-1"
+                                  >
+                                    <Edit2 size={14} />
+                                  </button>
+                                )}
                                 <button 
                                   onClick={() => onOpenModal('deleteTransaction', t.id)} 
                                   className="text-muted-foreground/50 hover:text-destructive p-1"
@@ -828,32 +971,43 @@ export function FinanceTab({
                   </button>
                 </div>
                 <div className="space-y-2 md:space-y-3 max-h-48 overflow-y-auto">
-                  {subscriptions.map(sub => (
-                    <div key={sub.id} className="flex justify-between items-center text-xs md:text-sm p-2 bg-muted rounded border border-border/50 group">
-                      <span className="font-medium text-card-foreground truncate">{sub.name}</span>
-                      <div className="flex items-center gap-2 shrink-0">
-                        <span className="text-muted-foreground">{formatCurrency(sub.amount, currency)}</span>
-                        <button 
-                          onClick={() => onOpenModal('editSubscription', { id: sub.id, name: sub.name, amount: sub.amount })} 
-                          className="text-muted-foreground/50 hover:text-primary p-1 md:opacity-0 md:group-hover:opacity-100"
-                        >
-                          <Edit2 size={12} />
-                        </button>
-                        <button 
-                          onClick={() => onOpenModal('deleteSubscription', sub.id)} 
-                          className="text-muted-foreground/50 hover:text-destructive"
-                        >
-                          <X size={14} />
-                        </button>
+                  {subscriptions.map(sub => {
+                    const nextCharge = getUpcomingChargeDate(sub, todayKey);
+                    const renewingSoon = isRenewingSoon(sub, todayKey);
+                    return (
+                      <div key={sub.id} className="flex justify-between items-center text-xs md:text-sm p-2 bg-muted rounded border border-border/50 group">
+                        <div className="min-w-0">
+                          <span className="font-medium text-card-foreground truncate block">{sub.name}</span>
+                          <span className={`text-[10px] md:text-xs ${renewingSoon ? 'text-warning font-medium' : 'text-muted-foreground'}`}>
+                            {getBillingCycleLabel(getBillingCycle(sub))}
+                            {nextCharge && ` · next ${format(parseDateKey(nextCharge), 'MMM d')}`}
+                            {sub.autoPost && ' · auto-posts'}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className="text-muted-foreground">{formatCurrency(convert(sub.amount, sub.currency || 'NGN', currency), currency)}</span>
+                          <button 
+                            onClick={() => onOpenModal('editSubscription', sub)} 
+                            className="text-muted-foreground/50 hover:text-primary p-1 md:opacity-0 md:group-hover:opacity-100"
+                          >
+                            <Edit2 size={12} />
+                          </button>
+                          <button 
+                            onClick={() => onOpenModal('deleteSubscription', sub.id)} 
+                            className="text-muted-foreground/50 hover:text-destructive"
+                          >
+                            <X size={14} />
+                          </button>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                   {subscriptions.length === 0 && (
                     <p className="text-xs text-muted-foreground italic text-center">No subscriptions added.</p>
                   )}
                 </div>
                 <div className="mt-3 pt-3 border-t border-border flex justify-between text-xs md:text-sm font-bold text-card-foreground">
-                  <span>Total Subscriptions:</span>
+                  <span>Monthly Total:</span>
                   <span>{formatCurrency(totalFixedCosts, currency)}</span>
                 </div>
               </div>
@@ -916,56 +1070,105 @@ export function FinanceTab({
             <div className="flex justify-between items-center mb-6 border-b border-border pb-4 gap-2">
               <div>
                 <h3 className="font-bold text-card-foreground text-lg md:text-xl flex items-center gap-2">
-                  <CreditCard className="text-primary" size={20}/> Monthly Budgets
+                  <CreditCard className="text-primary" size={20}/> Budgets
                 </h3>
-                <p className="text-muted-foreground text-xs md:text-sm mt-1">Set spending limits for each category.</p>
+                <p className="text-muted-foreground text-xs md:text-sm mt-1">Set weekly, monthly or one-off spending limits for each category.</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button 
+                  onClick={calculateSmartBudgets} 
+                  className="bg-primary/10 text-primary border border-primary/20 px-3 py-2 rounded-lg text-xs md:text-sm font-bold hover:bg-primary/20 shadow-sm flex items-center gap-1 whitespace-nowrap transition-transform active:scale-95"
+                >
+                  <Sparkles size={16} /> Auto-Allocate
+                </button>
+                <button 
+                  onClick={() => onOpenModal('addBudget')} 
+                  className="bg-primary text-primary-foreground px-3 py-2 rounded-lg text-xs md:text-sm font-bold hover:bg-primary/90 shadow-lg shadow-primary/20 flex items-center gap-1 whitespace-nowrap transition-transform active:scale-95"
+                >
+                  <Plus size={16}/> New
+                </button>
               </div>
-              <button 
-                onClick={calculateSmartBudgets} 
-                className="bg-primary/10 text-primary border border-primary/20 px-3 py-2 rounded-lg text-xs md:text-sm font-bold hover:bg-primary/20 shadow-sm flex items-center gap-1 whitespace-nowrap transition-transform active:scale-95 shrink-0"
-              >
-                <Sparkles size={16} /> Auto-Allocate
-              </button>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
-              {categories.filter(c => c !== 'Income').map(cat => {
-                const progress = getBudgetProgress(cat);
-                if (!progress && !budgets[cat]) return (
-                  <button 
-                    key={cat} 
-                    onClick={() => onOpenModal('setBudget', cat)} 
-                    className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-border rounded-xl hover:bg-muted hover:border-primary/30 transition-all text-muted-foreground font-medium group"
-                  >
-                    <Plus size={16} className="group-hover:text-primary"/> Set Budget for {cat}
-                  </button>
-                );
-                if (!progress) return null;
+              {budgets.map(budget => {
+                const history = budgetHistories[String(budget.id)] || [];
+                const usage = history[history.length - 1];
+                const account = budget.bankAccountId ? accounts.find(a => a.id === budget.bankAccountId) : null;
+                const level = usage ? getBudgetLevel(usage.percent) : 'ok';
                 return (
-                  <div key={cat} className="group bg-muted p-4 rounded-xl border border-border">
-                    <div className="flex justify-between items-center mb-2">
-                      <span className="font-bold text-card-foreground flex items-center gap-2 text-base md:text-lg">
-                        {cat} 
-                        <button onClick={() => onOpenModal('setBudget', cat)} className="text-muted-foreground hover:text-primary">
-                          <Edit2 size={14}/>
-                        </button>
-                      </span>
-                      <span className={`text-xs md:text-sm font-bold ${progress.spent > progress.limit ? 'text-destructive' : 'text-muted-foreground'}`}>
-                        {formatCurrency(progress.spent, currency)} 
-                        <span className="text-muted-foreground font-normal"> / {formatCurrency(progress.limit, currency)}</span>
-                      </span>
-                    </div>
-                    <div className="h-3 bg-card rounded-full overflow-hidden border border-border">
-                      <div 
-                        className={`h-full rounded-full transition-all duration-500 ${
-                          progress.pct >= 100 ? 'bg-destructive' : progress.pct >= 80 ? 'bg-warning' : 'bg-success'
-                        }`} 
-                        style={{ width: `${progress.pct}%` }}
-                      ></div>
+                  <div key={budget.id} className="group bg-muted p-4 rounded-xl border border-border">
+                    <div className="flex justify-between items-start mb-2 gap-2">
+                      <div className="min-w-0">
+                        <span className="font-bold text-card-foreground flex items-center gap-2 text-base md:text-lg">
+                          {budget.category} 
+                          <button onClick={() => onOpenModal('editBudget', budget)} className="text-muted-foreground hover:text-primary">
+                            <Edit2 size={14}/>
+                          </button>
+                          <button onClick={() => onOpenModal('deleteBudget', budget.id)} className="text-muted-foreground hover:text-destructive">
+                            <Trash2 size={14}/>
+                          </button>
+                        </span>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {getBudgetPeriodLabel(budget.period)}
+                          {usage && ` · ${formatBudgetRange(usage)}`}
+                          {account && ` · ${account.bank_name}`}
+                          {budget.rollover && ' · Rolls over'}
+                        </p>
+                      </div>
+                      {usage && (
+                        <span className={`text-xs md:text-sm font-bold whitespace-nowrap ${level === 'over' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {formatCurrency(usage.spent, currency)} 
+                          <span className="text-muted-foreground font-normal"> / {formatCurrency(usage.limit, currency)}</span>
+                        </span>
+                      )}
                     </div>
-                    <p className="text-xs text-muted-foreground mt-2 text-right">{progress.pct.toFixed(0)}% used</p>
+                    {usage ? (
+                      <>
+                        <div className="h-3 bg-card rounded-full overflow-hidden border border-border">
+                          <div 
+                            className={`h-full rounded-full transition-all duration-500 ${
+                              level === 'over' ? 'bg-destructive' : level === 'warning' ? 'bg-warning' : 'bg-success'
+                            }`} 
+                            style={{ width: `${Math.min(usage.percent, 100)}%` }}
+                          ></div>
+                        </div>
+                        <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                          <span>{usage.carriedOver > 0 ? `+${formatCurrency(usage.carriedOver, currency)} rolled over` : ''}</span>
+                          <span>{usage.percent.toFixed(0)}% used</span>
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">Starts {format(parseDateKey(budget.startDate), 'MMM d, yyyy')}</p>
+                    )}
+                    {history.length > 1 && (
+                      <Collapsible>
+                        <CollapsibleTrigger className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-primary mt-3">
+                          <History size={12}/> History <ChevronDown size={12}/>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent className="mt-2 space-y-1">
+                          {history.slice(0, -1).reverse().map(period => (
+                            <div key={period.start} className="flex justify-between text-xs bg-card rounded-lg px-2 py-1.5 border border-border">
+                              <span className="text-muted-foreground">{formatBudgetRange(period)}</span>
+                              <span className={getBudgetLevel(period.percent) === 'over' ? 'text-destructive font-bold' : 'text-card-foreground'}>
+                                {formatCurrency(period.spent, currency)} / {formatCurrency(period.limit, currency)}
+                              </span>
+                            </div>
+                          ))}
+                        </CollapsibleContent>
+                      </Collapsible>
+                    )}
                   </div>
                 );
               })}
+              {categories.filter(c => c !== 'Income' && !budgets.some(b => b.category === c)).map(cat => (
+                <button 
+                  key={cat} 
+                  onClick={() => onOpenModal('addBudget', { category: cat })} 
+                  className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-border rounded-xl hover:bg-muted hover:border-primary/30 transition-all text-muted-foreground font-medium group"
+                >
+                  <Plus size={16} className="group-hover:text-primary"/> Set Budget for {cat}
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -1100,11 +1303,21 @@ export function FinanceTab({
         onDelete={handleDeleteAccount}
       />
 
+      {/* Transfer Modal */}
+      <TransferModal
+        isOpen={isTransferOpen}
+        onClose={() => setIsTransferOpen(false)}
+        accounts={accounts}
+        fromAccountId={selectedAccountId !== 'all' ? selectedAccountId : undefined}
+        onSave={handleTransfer}
+      />
+
       {/* Bank Statement Upload Modal */}
       <BankStatementUpload
         isOpen={isBankUploadOpen}
         onClose={() => setIsBankUploadOpen(false)}
         accounts={accounts}
+        transactions={transactions}
         currency={currency}
         onImport={handleBankStatementImport}
       />
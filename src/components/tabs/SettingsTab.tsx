@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { 
   Settings, Download, Upload, Check, User, Bell, 
-  Palette, Globe, Trash2, AlertTriangle, Loader2, Camera, Mail, Crown, Clock, LogOut, History
+  Palette, Globe, Trash2, AlertTriangle, Loader2, Camera, Mail, Crown, Clock, LogOut, History,
+  CalendarArrowDown, CalendarArrowUp
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -37,10 +38,12 @@ import { ChangelogHistoryModal } from '@/components/ChangelogHistoryModal';
 interface SettingsTabProps {
   onBackup: () => void;
   onRestore: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onExportCalendar: () => void;
+  onImportCalendar: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
-export function SettingsTab({ onBackup, onRestore }: SettingsTabProps) {
-  const { user } = useAuth();
+export function SettingsTab({ onBackup, onRestore, onExportCalendar, onImportCalendar }: SettingsTabProps) {
+  const { user, signOut } = useAuth();
   const { profile, loading: profileLoading } = useProfile();
   const { 
     preferences, 
@@ -336,7 +339,7 @@ export function SettingsTab({ onBackup, onRestore }: SettingsTabProps) {
                 <Button 
                   variant="outline" 
                   onClick={async () => {
-                    await supabase.auth.signOut();
+                    await signOut();
                     window.location.href = '/auth';
                   }}
                   className="w-full"
@@ -571,7 +574,7 @@ export function SettingsTab({ onBackup, onRestore }: SettingsTabProps) {
                 <Settings size={18} />
                 Data Vault
               </CardTitle>
-              <CardDescription>Export or import your data</CardDescription>
+              <CardDescription>Export or import your data and calendar</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-2 gap-4">
@@ -590,6 +593,22 @@ export function SettingsTab({ onBackup, onRestore }: SettingsTabProps) {
                   <span className="text-xs text-muted-foreground">Upload JSON</span>
                   <input type="file" accept=".json" onChange={onRestore} className="hidden" />
                 </label>
+
+                <button 
+                  onClick={onExportCalendar} 
+                  className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-border rounded-xl hover:border-primary hover:bg-primary/5 transition-all group"
+                >
+                  <CalendarArrowDown size={24} className="text-primary mb-2 group-hover:scale-110 transition-transform" />
+                  <span className="font-medium text-sm">Export calendar</span>
+                  <span className="text-xs text-muted-foreground">Download .ics</span>
+                </button>
+
+                <label className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-border rounded-xl hover:border-green-500 hover:bg-green-500/5 transition-all group cursor-pointer">
+                  <CalendarArrowUp size={24} className="text-green-500 mb-2 group-hover:scale-110 transition-transform" />
+                  <span className="font-medium text-sm">Import calendar</span>
+                  <span className="text-xs text-muted-foreground">Upload .ics</span>
+                  <input type="file" accept=".ics,text/calendar" onChange={onImportCalendar} className="hidden" />
+                </label>
               </div>
             </CardContent>
           </Card>
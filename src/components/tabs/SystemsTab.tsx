@@ -1,9 +1,36 @@
-import { useState } from 'react';
-import { Plus, Target, Sparkles, Trash2, Edit2, ChevronLeft, ChevronRight, Download, Info, ChevronDown } from 'lucide-react';
-import { System } from '@/lib/types';
+import { useMemo, useState } from 'react';
+import { Plus, Target, Sparkles, Trash2, Edit2, ChevronLeft, ChevronRight, Download, Info, ChevronDown, ListChecks, Flame, Snowflake, BarChart3, Trophy, Archive, PauseCircle, PlayCircle, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { Habit, JournalEntry, Routine, System, Tasks, TaskOccurrence } from '@/lib/types';
 import { DAYS } from '@/lib/constants';
 import { getCurrentDayIndex } from '@/lib/formatters';
+import { getTodayKey, isDateKey, parseDateKey } from '@/lib/taskDates';
+import { setTaskDone } from '@/lib/subtasks';
+import { getAllLinkedTasks, getLinkedTaskCompletion } from '@/lib/systemTasks';
+import {
+  describeHabitSchedule,
+  formatHabitTarget,
+  getHabitPause,
+  getHabitSchedule,
+  getHabitWeekProgress,
+  isDayComplete,
+  isHabitFrozenOn,
+  isHabitPausedOn,
+  isHabitScheduledOn,
+  pauseHabit,
+  resumeHabit,
+  setHabitFrozen,
+  setHabitValue,
+  toggleHabitDone,
+} from '@/lib/habitSchedule';
+import { formatStreak, getHabitStreak } from '@/lib/streaks';
+import { areKeyResultsMet, getGoalProgress } from '@/lib/keyResults';
+import { archiveHabit, archiveSystem, getActiveSystems, restoreHabit, restoreSystem } from '@/lib/archive';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { useAccountability } from '@/hooks/useAccountability';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
   Collapsible,
   CollapsibleContent,
@@ -16,11 +43,24 @@ import {
 } from '@/components/ui/tooltip';
 import { toast } from 'sonner';
 import { ContextualHint, HINTS } from '@/components/ContextualHint';
+import { SystemAnalytics } from '@/components/SystemAnalytics';
+import { GoalOutcomes } from '@/components/GoalOutcomes';
+import { RoutinesPanel } from '@/components/RoutinesPanel';
+import { ArchivedItems } from '@/components/ArchivedItems';
+import { AccountabilityPanel } from '@/components/AccountabilityPanel';
+import { SharePartnersModal } from '@/components/SharePartnersModal';
 
 interface SystemsTabProps {
   systems: System[];
   setSystems: React.Dispatch<React.SetStateAction<System[]>>;
+  routines: Routine[];
+  setRoutines: React.Dispatch<React.SetStateAction<Routine[]>>;
+  tasks: Tasks;
+  setTasks: React.Dispatch<React.SetStateAction<Tasks>>;
+  journalEntries: JournalEntry[];
   onOpenModal: (type: string, data?: any, initialValue?: string, initialWhy?: string) => void;
+  // Reloads the user's data after changes made on the server, like joining a partner's goal
+  onRefreshData: () => void;
 }
 
 // Get week dates for a given offset (0 = current week, -1 = last week, etc.)
@@ -50,46 +90,130 @@ function getWeekLabel(weekOffset: number): string {
   return `${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${end.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
 }
 
-export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps) {
+export function SystemsTab({ systems, setSystems, routines, setRoutines, tasks, setTasks, journalEntries, onOpenModal, onRefreshData }: SystemsTabProps) {
   const currentDayIndex = getCurrentDayIndex();
+  const { preferences, updatePreferences } = useUserSettings();
+  const includeTasks = preferences.goal_progress_includes_tasks;
   const [weekOffset, setWeekOffset] = useState(0);
+  // While on, tapping a day freezes it instead of checking it off
+  const [freezeMode, setFreezeMode] = useState(false);
   const [openSystemId, setOpenSystemId] = useState<string | number | null>(
     systems.length > 0 ? systems[0].id : null
   );
+  // Goal whose year-long history is open in place of the weekly view
+  const [analyticsSystemId, setAnalyticsSystemId] = useState<string | number | null>(null);
 
   const weekDates = getWeekDates(weekOffset);
   const weekKey = weekDates[0]; // Use monday's date as week key
+  // Archived goals and habits only show up in the Archived section
+  const activeSystems = useMemo(() => getActiveSystems(systems), [systems]);
+  const accountability = useAccountability(weekDates);
+  // Goal whose accountability partners are being managed
+  const [shareSystemId, setShareSystemId] = useState<string | number | null>(null);
+  const shareSystem = activeSystems.find(s => String(s.id) === String(shareSystemId));
+  const getSystemPartners = (systemId: string | number) =>
+    accountability.partners.filter(p => p.systemId === String(systemId));
 
-  const toggleHabit = (systemId: string | number, habitId: string | number, dayIndex: number) => {
-    const dateKey = weekDates[dayIndex];
+  const updateSystem = (systemId: string | number, update: (system: System) => System) => {
+    setSystems(prev => prev.map(s => String(s.id) === String(systemId) ? update(s) : s));
+  };
+
+  const updateHabit = (systemId: string | number, habitId: string | number, update: (habit: Habit) => Habit) => {
     setSystems(prev => prev.map(s => 
       String(s.id) === String(systemId) 
         ? {
             ...s,
-            habits: s.habits.map(h => 
-              String(h.id) === String(habitId) 
-                ? { ...h, completed: { ...h.completed, [dateKey]: !h.completed[dateKey] } }
-                : h
-            )
+            habits: s.habits.map(h => String(h.id) === String(habitId) ? update(h) : h)
           }
         : s
     ));
   };
 
+  const toggleHabit = (systemId: string | number, habitId: string | number, dayIndex: number) => {
+    const dateKey = weekDates[dayIndex];
+    updateHabit(systemId, habitId, h => toggleHabitDone(h, dateKey));
+  };
+
+  const toggleFrozen = (systemId: string | number, habitId: string | number, dayIndex: number) => {
+    const dateKey = weekDates[dayIndex];
+    updateHabit(systemId, habitId, h => setHabitFrozen(h, dateKey, !h.frozen?.[dateKey]));
+  };
+
+  // Vacation: freeze (or unfreeze) one day for every habit of a goal
+  const toggleDayFrozen = (system: System, dayIndex: number) => {
+    const dateKey = weekDates[dayIndex];
+    const freeze = !system.habits.every(h => h.frozen?.[dateKey]);
+    setSystems(prev => prev.map(s =>
+      String(s.id) === String(system.id)
+        ? { ...s, habits: s.habits.map(h => setHabitFrozen(h, dateKey, freeze)) }
+        : s
+    ));
+  };
+
+  const setHabitPaused = (systemId: string | number, habitId: string | number, paused: boolean, until: string | null = null) => {
+    const today = getTodayKey();
+    updateHabit(systemId, habitId, h => paused ? pauseHabit(h, today, until) : resumeHabit(h, today));
+  };
+
+  // Pausing a goal pauses each of its active habits that isn't paused already
+  const setSystemPaused = (system: System, paused: boolean, until: string | null = null) => {
+    const today = getTodayKey();
+    const habitIds = new Set(system.habits.filter(h => isHabitPausedOn(h, today) !== paused).map(h => String(h.id)));
+    updateSystem(system.id, s => ({
+      ...s,
+      habits: s.habits.map(h => !habitIds.has(String(h.id)) ? h : paused ? pauseHabit(h, today, until) : resumeHabit(h, today)),
+    }));
+  };
+
+  const isSystemPaused = (system: System) =>
+    system.habits.length > 0 && system.habits.every(h => isHabitPausedOn(h, getTodayKey()));
+
+  const handleArchiveSystem = (system: System) => {
+    updateSystem(system.id, archiveSystem);
+    toast.success('Goal archived', { description: 'Find it under Archived to restore it.' });
+  };
+
+  const handleArchiveHabit = (systemId: string | number, habitId: string | number) => {
+    updateHabit(systemId, habitId, archiveHabit);
+    toast.success('System archived', { description: 'Find it under Archived to restore it.' });
+  };
+
+  // The habit of a goal with the longest running streak, for the header and streak card
+  const getTopStreak = (system: System) => system.habits
+    .map(habit => ({ habit, streak: getHabitStreak(habit) }))
+    .sort((a, b) => b.streak.current - a.streak.current || b.streak.longest - a.streak.longest)[0];
+
+  const logHabitAmount = (systemId: string | number, habitId: string | number, dayIndex: number, value: number | null) => {
+    const dateKey = weekDates[dayIndex];
+    updateHabit(systemId, habitId, h => setHabitValue(h, dateKey, value));
+  };
+
+  // Each habit contributes the check-ins its schedule asks for this week
+  const getHabitsProgress = (habits: Habit[]) => habits.reduce(
+    (acc, habit) => {
+      const progress = getHabitWeekProgress(habit, weekDates);
+      return { completed: acc.completed + progress.completed, total: acc.total + progress.total };
+    },
+    { completed: 0, total: 0 }
+  );
+
   const calculateStreakPercentage = (system: System) => {
-    let completed = 0;
-    let total = 0;
-    
-    system.habits.forEach(habit => {
-      weekDates.forEach(date => {
-        total++;
-        if (habit.completed[date]) completed++;
-      });
-    });
+    let { completed, total } = getHabitsProgress(system.habits);
+
+    // Each linked task due this week counts like one habit check-in
+    if (includeTasks) {
+      const linked = getLinkedTaskCompletion(tasks, system.id, weekDates);
+      completed += linked.completed;
+      total += linked.total;
+    }
     
     return total > 0 ? Math.round((completed / total) * 100) : 0;
   };
 
+  const toggleLinkedTask = (task: TaskOccurrence) => {
+    setTasks(prev => setTaskDone(prev, task, !task.done));
+  };
+
   const downloadStreakCard = async (system: System) => {
     const percentage = calculateStreakPercentage(system);
     
@@ -129,6 +253,18 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
     ctx.font = '16px system-ui, -apple-system, sans-serif';
     ctx.fillText(getWeekLabel(weekOffset), 300, 90);
 
+    // Streak line
+    const top = getTopStreak(system);
+    if (top && top.streak.longest > 0) {
+      ctx.fillStyle = top.streak.current > 0 ? '#F59E0B' : '#9CA3AF';
+      ctx.font = 'bold 15px system-ui, -apple-system, sans-serif';
+      ctx.fillText(
+        `🔥 ${formatStreak(top.streak.current, top.streak.unit)} streak · best ${formatStreak(top.streak.longest, top.streak.unit)}`,
+        300,
+        116
+      );
+    }
+
     // Percentage circle
     const centerX = 300;
     const centerY = 200;
@@ -172,9 +308,7 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
       const y = 340;
       
       // Count completions for this day across all habits
-      const dayDate = weekDates[i];
-      const completedCount = system.habits.filter(h => h.completed[dayDate]).length;
-      const allCompleted = completedCount === system.habits.length && system.habits.length > 0;
+      const allCompleted = isDayComplete(system.habits, weekDates[i]);
       
       ctx.fillStyle = allCompleted ? '#22C55E' : '#374151';
       ctx.beginPath();
@@ -203,7 +337,7 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
 
   // Download all systems summary
   const downloadAllSystemsSummary = async () => {
-    if (systems.length === 0) {
+    if (activeSystems.length === 0) {
       toast.error('No systems to export');
       return;
     }
@@ -257,16 +391,7 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
     );
 
     // Overall stats
-    let totalCompleted = 0;
-    let totalPossible = 0;
-    systems.forEach(system => {
-      system.habits.forEach(habit => {
-        weekDates.forEach(date => {
-          totalPossible++;
-          if (habit.completed[date]) totalCompleted++;
-        });
-      });
-    });
+    const { completed: totalCompleted, total: totalPossible } = getHabitsProgress(activeSystems.flatMap(system => system.habits));
     const overallPercentage = totalPossible > 0 ? Math.round((totalCompleted / totalPossible) * 100) : 0;
 
     ctx.fillStyle = '#FFFFFF';
@@ -330,6 +455,17 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
     toast.success('Systems summary downloaded!');
   };
 
+  const analyticsSystem = activeSystems.find(s => String(s.id) === String(analyticsSystemId));
+  if (analyticsSystem) {
+    return (
+      <SystemAnalytics
+        system={analyticsSystem}
+        journalEntries={journalEntries}
+        onBack={() => setAnalyticsSystemId(null)}
+      />
+    );
+  }
+
   return (
     <div className="space-y-4 md:space-y-6 pb-20 md:pb-0">
       {/* Header with Week Navigation */}
@@ -355,7 +491,14 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
             <p className="text-xs text-muted-foreground">Identity-based systems for lasting change.</p>
           </div>
         </div>
-        <div className="flex gap-2 w-full sm:w-auto">
+        <div className="flex gap-2 w-full sm:w-auto items-center">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground mr-1 cursor-pointer" title="Count linked task completion in goal progress">
+            <Switch
+              checked={includeTasks}
+              onCheckedChange={(checked) => updatePreferences({ goal_progress_includes_tasks: checked })}
+            />
+            <span className="whitespace-nowrap">Count tasks</span>
+          </label>
           <Button
             variant="outline"
             size="sm"
@@ -407,10 +550,34 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
             Today
           </Button>
         )}
+        <Button
+          variant={freezeMode ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setFreezeMode(prev => !prev)}
+          className="text-xs ml-2 gap-1"
+          title="Freeze days you're away so they don't break your streaks"
+        >
+          <Snowflake size={14} />
+          {freezeMode ? 'Done freezing' : 'Freeze days'}
+        </Button>
       </div>
+      {freezeMode && (
+        <p className="text-xs text-muted-foreground text-center -mt-2">
+          Tap a day to freeze it for one habit, or a day heading to freeze it for the whole goal.
+        </p>
+      )}
+
+      <RoutinesPanel routines={routines} setRoutines={setRoutines} systems={systems} setSystems={setSystems} />
+
+      <AccountabilityPanel
+        accountability={accountability}
+        systems={activeSystems}
+        weekDates={weekDates}
+        onJoined={onRefreshData}
+      />
 
       {/* Systems Accordion */}
-      {systems.map((system, sysIdx) => (
+      {activeSystems.map((system, sysIdx) => (
         <Collapsible
           key={`${system.id}-${sysIdx}`}
           open={openSystemId === system.id}
@@ -447,6 +614,34 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                             {calculateStreakPercentage(system)}%
                           </span>
                         </ContextualHint>
+                        {(() => {
+                          const top = getTopStreak(system);
+                          return top && top.streak.current > 0 ? (
+                            <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-warning/20 text-warning flex items-center gap-1">
+                              <Flame size={12} />
+                              {formatStreak(top.streak.current, top.streak.unit)}
+                            </span>
+                          ) : null;
+                        })()}
+                        {getSystemPartners(system.id).some(p => p.status === 'accepted') && (
+                          <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-primary/10 text-primary flex items-center gap-1">
+                            <Users size={12} /> {getSystemPartners(system.id).filter(p => p.status === 'accepted').length}
+                          </span>
+                        )}
+                        {isSystemPaused(system) && (
+                          <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-muted text-muted-foreground flex items-center gap-1">
+                            <PauseCircle size={12} /> Paused
+                          </span>
+                        )}
+                        {areKeyResultsMet(system) ? (
+                          <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-success/20 text-success flex items-center gap-1">
+                            <Trophy size={12} /> Achieved
+                          </span>
+                        ) : getGoalProgress(system) !== null && (
+                          <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-muted text-muted-foreground" title="Progress toward key results">
+                            {getGoalProgress(system)}% to goal
+                          </span>
+                        )}
                       </div>
                       <p className="text-xs text-muted-foreground italic mt-1 line-clamp-2">{system.why}</p>
                     </div>
@@ -459,6 +654,13 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                     >
                       <Download size={12} className="md:w-[14px] md:h-[14px]" />
                     </button>
+                    <button 
+                      onClick={() => setAnalyticsSystemId(system.id)} 
+                      className="text-muted-foreground hover:bg-primary/10 hover:text-primary px-2 md:px-3 py-1 rounded text-xs md:text-sm font-bold border border-border flex items-center gap-1 flex-1 sm:flex-initial justify-center"
+                      title="View Analytics"
+                    >
+                      <BarChart3 size={12} className="md:w-[14px] md:h-[14px]" />
+                    </button>
                     <button 
                       onClick={() => onOpenModal('editSystem', system.id, system.goal, system.why)} 
                       className="bg-primary/10 text-primary hover:bg-primary/20 p-1 md:p-1.5 rounded-md transition-colors flex-shrink-0" 
@@ -472,6 +674,13 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                     >
                       <Sparkles size={12} className="md:w-[14px] md:h-[14px]" /> AI
                     </button>
+                    <button 
+                      onClick={() => onOpenModal('addTask', { day: getTodayKey(), systemId: system.id })} 
+                      className="text-primary hover:bg-primary/10 px-2 md:px-3 py-1 rounded text-xs md:text-sm font-bold border border-primary/20 flex items-center gap-1 flex-1 sm:flex-initial justify-center"
+                      title="Add a task for this goal to today's plan"
+                    >
+                      <ListChecks size={12} className="md:w-[14px] md:h-[14px]" /> Task
+                    </button>
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <button 
@@ -485,6 +694,28 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                         <p>Add a repeatable action to this goal</p>
                       </TooltipContent>
                     </Tooltip>
+                    <button 
+                      onClick={() => setShareSystemId(system.id)} 
+                      className="text-muted-foreground hover:bg-primary/10 hover:text-primary px-2 py-1 rounded border border-border"
+                      title="Accountability Partners"
+                    >
+                      <Users size={14} className="md:w-4 md:h-4" />
+                    </button>
+                    <PauseControl
+                      paused={isSystemPaused(system)}
+                      label="this goal"
+                      onPause={(until) => setSystemPaused(system, true, until)}
+                      onResume={() => setSystemPaused(system, false)}
+                      disabled={system.habits.length === 0}
+                      className="text-muted-foreground hover:bg-primary/10 hover:text-primary px-2 py-1 rounded border border-border"
+                    />
+                    <button 
+                      onClick={() => handleArchiveSystem(system)} 
+                      className="text-muted-foreground hover:bg-primary/10 hover:text-primary px-2 py-1 rounded border border-border"
+                      title="Archive Goal"
+                    >
+                      <Archive size={14} className="md:w-4 md:h-4" />
+                    </button>
                     <button 
                       onClick={() => onOpenModal('deleteSystem', system.id)} 
                       className="text-destructive/60 hover:bg-destructive/10 px-2 py-1 rounded"
@@ -513,7 +744,10 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                   system.habits.map((h, hIdx) => (
                     <div key={`${h.id}-${hIdx}`} className="bg-muted/50 rounded-lg p-3 space-y-2">
                       <div className="flex items-start justify-between gap-2">
-                        <span className="text-sm font-medium text-card-foreground flex-1">{h.name}</span>
+                        <div className="flex-1 min-w-0">
+                          <span className="text-sm font-medium text-card-foreground">{h.name}</span>
+                          <HabitMeta habit={h} />
+                        </div>
                         <div className="flex gap-1 flex-shrink-0">
                           <button 
                             onClick={() => onOpenModal('editHabit', { systemId: system.id, habitId: h.id }, h.name)} 
@@ -521,6 +755,21 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                           >
                             <Edit2 size={12} />
                           </button>
+                          <PauseControl
+                            paused={isHabitPausedOn(h, getTodayKey())}
+                            label="this system"
+                            onPause={(until) => setHabitPaused(system.id, h.id, true, until)}
+                            onResume={() => setHabitPaused(system.id, h.id, false)}
+                            className="text-muted-foreground hover:text-primary p-1 hover:bg-muted rounded"
+                            iconSize={12}
+                          />
+                          <button 
+                            onClick={() => handleArchiveHabit(system.id, h.id)} 
+                            className="text-muted-foreground hover:text-primary p-1 hover:bg-muted rounded"
+                            title="Archive"
+                          >
+                            <Archive size={12} />
+                          </button>
                           <button 
                             onClick={() => onOpenModal('deleteHabit', { systemId: system.id, habitId: h.id })} 
                             className="text-destructive/60 p-1"
@@ -538,19 +787,37 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                               <span className={`text-[10px] font-medium mb-1 ${isToday ? 'text-primary' : 'text-muted-foreground'}`}>
                                 {d.slice(0, 2)}
                               </span>
-                              <label className="cursor-pointer">
-                                <input 
-                                  type="checkbox"
-                                  checked={h.completed[dateKey] || false}
-                                  onChange={() => toggleHabit(system.id, h.id, i)}
+                              {freezeMode || isHabitFrozenOn(h, dateKey) ? (
+                                <FreezeToggle
+                                  frozen={isHabitFrozenOn(h, dateKey)}
+                                  onToggle={() => freezeMode ? toggleFrozen(system.id, h.id, i) : toggleHabit(system.id, h.id, i)}
+                                  disabled={weekOffset > 0 || (freezeMode && !!h.completed[dateKey])}
+                                  className={`w-6 h-6 ${isToday ? 'ring-2 ring-primary/30' : ''}`}
+                                />
+                              ) : h.target ? (
+                                <HabitAmountInput
+                                  habit={h}
+                                  dateKey={dateKey}
+                                  onChange={(value) => logHabitAmount(system.id, h.id, i, value)}
                                   disabled={weekOffset > 0}
-                                  className={`w-6 h-6 rounded border-2 cursor-pointer appearance-none transition-colors
-                                    ${h.completed[dateKey] ? 'bg-success border-success' : 'bg-card border-border'}
-                                    ${isToday ? 'ring-2 ring-primary/30' : ''}
-                                    ${weekOffset > 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
-                                  style={{ WebkitAppearance: 'none' }}
+                                  className={`w-full h-6 ${isToday ? 'ring-2 ring-primary/30' : ''}`}
                                 />
-                              </label>
+                              ) : (
+                                <label className="cursor-pointer">
+                                  <input 
+                                    type="checkbox"
+                                    checked={h.completed[dateKey] || false}
+                                    onChange={() => toggleHabit(system.id, h.id, i)}
+                                    disabled={weekOffset > 0}
+                                    className={`w-6 h-6 rounded border-2 cursor-pointer appearance-none transition-colors
+                                      ${h.completed[dateKey] ? 'bg-success border-success' : 'bg-card border-border'}
+                                      ${isToday ? 'ring-2 ring-primary/30' : ''}
+                                      ${!isHabitScheduledOn(h, dateKey) && !h.completed[dateKey] ? 'opacity-40' : ''}
+                                      ${weekOffset > 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                    style={{ WebkitAppearance: 'none' }}
+                                  />
+                                </label>
+                              )}
                             </div>
                           );
                         })}
@@ -585,7 +852,16 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                               className={`p-2 md:p-3 text-center ${isToday ? 'bg-primary/10 text-primary' : ''}`}
                               style={{ width: `${60 / 8}%` }}
                             >
-                              {d.slice(0, 3)}
+                              {freezeMode && weekOffset <= 0 ? (
+                                <button
+                                  onClick={() => toggleDayFrozen(system, i)}
+                                  className="inline-flex items-center gap-0.5 uppercase hover:text-sky-500"
+                                  title="Freeze this day for every habit"
+                                >
+                                  <Snowflake size={10} />
+                                  {d.slice(0, 3)}
+                                </button>
+                              ) : d.slice(0, 3)}
                             </th>
                           );
                         })}
@@ -597,13 +873,31 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                         <tr key={`${h.id}-${hIdx}`}>
                           <td className="p-2 md:p-3 text-xs md:text-sm">
                             <div className="flex items-center gap-2">
-                              <span className="break-words line-clamp-2">{h.name}</span>
+                              <div className="min-w-0">
+                                <span className="break-words line-clamp-2">{h.name}</span>
+                                <HabitMeta habit={h} />
+                              </div>
                               <button 
                                 onClick={() => onOpenModal('editHabit', { systemId: system.id, habitId: h.id }, h.name)} 
                                 className="text-muted-foreground/50 hover:text-primary p-1 hover:bg-muted rounded flex-shrink-0"
                               >
                                 <Edit2 size={12} />
                               </button>
+                              <PauseControl
+                                paused={isHabitPausedOn(h, getTodayKey())}
+                                label="this system"
+                                onPause={(until) => setHabitPaused(system.id, h.id, true, until)}
+                                onResume={() => setHabitPaused(system.id, h.id, false)}
+                                className="text-muted-foreground/50 hover:text-primary p-1 hover:bg-muted rounded flex-shrink-0"
+                                iconSize={12}
+                              />
+                              <button 
+                                onClick={() => handleArchiveHabit(system.id, h.id)} 
+                                className="text-muted-foreground/50 hover:text-primary p-1 hover:bg-muted rounded flex-shrink-0"
+                                title="Archive"
+                              >
+                                <Archive size={12} />
+                              </button>
                             </div>
                           </td>
                           {DAYS.map((_, i) => {
@@ -611,15 +905,35 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                             const dateKey = weekDates[i];
                             return (
                               <td key={i} className={`p-2 md:p-3 text-center ${isToday ? 'bg-primary/5' : ''}`}>
-                                <label className="inline-flex items-center justify-center cursor-pointer">
-                                  <input 
-                                    type="checkbox"
-                                    checked={h.completed[dateKey] || false}
-                                    onChange={() => toggleHabit(system.id, h.id, i)}
+                                {freezeMode || isHabitFrozenOn(h, dateKey) ? (
+                                  <FreezeToggle
+                                    frozen={isHabitFrozenOn(h, dateKey)}
+                                    onToggle={() => freezeMode ? toggleFrozen(system.id, h.id, i) : toggleHabit(system.id, h.id, i)}
+                                    disabled={weekOffset > 0 || (freezeMode && !!h.completed[dateKey])}
+                                    className="w-5 h-5 md:w-6 md:h-6 mx-auto"
+                                  />
+                                ) : h.target ? (
+                                  <HabitAmountInput
+                                    habit={h}
+                                    dateKey={dateKey}
+                                    onChange={(value) => logHabitAmount(system.id, h.id, i, value)}
                                     disabled={weekOffset > 0}
-                                    className={`w-5 h-5 md:w-6 md:h-6 rounded border-2 border-border bg-card checked:bg-success checked:border-success cursor-pointer accent-success ${weekOffset > 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                    className="w-12 h-7 mx-auto"
                                   />
-                                </label>
+                                ) : (
+                                  <label className="inline-flex items-center justify-center cursor-pointer">
+                                    <input 
+                                      type="checkbox"
+                                      checked={h.completed[dateKey] || false}
+                                      onChange={() => toggleHabit(system.id, h.id, i)}
+                                      disabled={weekOffset > 0}
+                                      className={`w-5 h-5 md:w-6 md:h-6 rounded border-2 border-border bg-card checked:bg-success checked:border-success cursor-pointer accent-success ${
+                                        !isHabitScheduledOn(h, dateKey) && !h.completed[dateKey] ? 'opacity-30' : ''
+                                      } ${weekOffset > 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+                                      title={isHabitScheduledOn(h, dateKey) ? undefined : 'Not scheduled'}
+                                    />
+                                  </label>
+                                )}
                               </td>
                             );
                           })}
@@ -637,10 +951,248 @@ export function SystemsTab({ systems, setSystems, onOpenModal }: SystemsTabProps
                   </table>
                 )}
               </div>
+
+              <LinkedTasks
+                tasks={getAllLinkedTasks(tasks, system.id, getTodayKey())}
+                onToggle={toggleLinkedTask}
+              />
+
+              <GoalOutcomes system={system} onChange={(update) => updateSystem(system.id, update)} />
             </CollapsibleContent>
           </div>
         </Collapsible>
       ))}
+
+      {shareSystem && (
+        <SharePartnersModal
+          isOpen
+          system={shareSystem}
+          partners={getSystemPartners(shareSystem.id)}
+          onInvite={(email) => accountability.invitePartner(shareSystem.id, email)}
+          onRemove={accountability.removePartner}
+          onClose={() => setShareSystemId(null)}
+        />
+      )}
+
+      <ArchivedItems
+        systems={systems}
+        onRestoreSystem={(systemId) => updateSystem(systemId, s => restoreSystem(s))}
+        onRestoreHabit={(systemId, habitId) => updateHabit(systemId, habitId, h => restoreHabit(h))}
+        onDeleteSystem={(systemId) => onOpenModal('deleteSystem', systemId)}
+        onDeleteHabit={(systemId, habitId) => onOpenModal('deleteHabit', { systemId, habitId })}
+      />
     </div>
   );
 }
+
+interface LinkedTasksProps {
+  tasks: TaskOccurrence[];
+  onToggle: (task: TaskOccurrence) => void;
+}
+
+// All of a goal's tasks, not only this week's; recurring ones show their next open occurrence
+function LinkedTasks({ tasks, onToggle }: LinkedTasksProps) {
+  if (tasks.length === 0) return null;
+
+  const open = tasks.filter(task => !task.done);
+  const completed = tasks.filter(task => task.done);
+
+  const renderTask = (task: TaskOccurrence) => (
+    <label key={`${task.id}-${task.occurrenceDate}`} className="flex items-center gap-2 text-xs md:text-sm cursor-pointer">
+      <input
+        type="checkbox"
+        checked={task.done}
+        onChange={() => onToggle(task)}
+        className="w-4 h-4 accent-primary cursor-pointer"
+      />
+      <span className={`flex-1 min-w-0 break-words ${task.done ? 'line-through text-muted-foreground' : 'text-card-foreground'}`}>
+        {task.text}
+      </span>
+      <span className="text-[10px] text-muted-foreground flex-shrink-0">
+        {isDateKey(task.occurrenceDate) ? format(parseDateKey(task.occurrenceDate), 'EEE, MMM d') : 'No date'}
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="border-t border-border/50 p-3 md:p-4 space-y-3">
+      <div>
+        <h5 className="text-[10px] md:text-xs text-muted-foreground font-bold uppercase mb-2">
+          Open tasks ({open.length})
+        </h5>
+        {open.length > 0 ? (
+          <div className="space-y-1.5">{open.map(renderTask)}</div>
+        ) : (
+          <p className="text-xs text-muted-foreground">All caught up.</p>
+        )}
+      </div>
+      {completed.length > 0 && (
+        <div>
+          <h5 className="text-[10px] md:text-xs text-muted-foreground font-bold uppercase mb-2">
+            Completed ({completed.length})
+          </h5>
+          <div className="space-y-1.5">{completed.map(renderTask)}</div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Schedule, target and streak under a habit's name
+function HabitMeta({ habit }: { habit: Habit }) {
+  const schedule = getHabitSchedule(habit);
+  const streak = getHabitStreak(habit);
+  const pause = getHabitPause(habit, getTodayKey());
+  const showSchedule = schedule.type !== 'daily' || !!habit.target;
+  if (!showSchedule && streak.longest === 0 && !pause) return null;
+
+  return (
+    <span className="flex flex-wrap items-center gap-x-1.5 text-[10px] text-muted-foreground">
+      {pause && (
+        <span className="inline-flex items-center gap-0.5 font-medium">
+          <PauseCircle size={10} />
+          {pause.until ? `Paused until ${format(parseDateKey(pause.until), 'MMM d')}` : 'Paused'}
+        </span>
+      )}
+      {showSchedule && (
+        <span>
+          {describeHabitSchedule(schedule)}
+          {habit.target && ` · ${formatHabitTarget(habit.target)}`}
+        </span>
+      )}
+      {streak.longest > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className={`inline-flex items-center gap-0.5 font-medium ${streak.current > 0 ? 'text-warning' : ''}`}>
+              <Flame size={10} />
+              {formatStreak(streak.current, streak.unit)}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="text-xs">
+              Longest: {formatStreak(streak.longest, streak.unit)}
+              {streak.lastBreak && ` · last broken ${format(parseDateKey(streak.lastBreak), 'MMM d')}`}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </span>
+  );
+}
+
+interface PauseControlProps {
+  paused: boolean;
+  // What is being paused, for the tooltip
+  label: string;
+  onPause: (until: string | null) => void;
+  onResume: () => void;
+  disabled?: boolean;
+  className?: string;
+  iconSize?: number;
+}
+
+// Resumes straight away when paused, otherwise asks how long to pause for
+function PauseControl({ paused, label, onPause, onResume, disabled, className, iconSize = 14 }: PauseControlProps) {
+  const [open, setOpen] = useState(false);
+  const [until, setUntil] = useState('');
+
+  if (paused) {
+    return (
+      <button onClick={onResume} className={className} title={`Resume ${label}`}>
+        <PlayCircle size={iconSize} />
+      </button>
+    );
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className={className} disabled={disabled} title={`Pause ${label}`}>
+          <PauseCircle size={iconSize} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end" onClick={e => e.stopPropagation()}>
+        <p className="text-xs text-muted-foreground">
+          Paused days don't count against progress or streaks, and no reminders are sent.
+        </p>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Until</span>
+          <input
+            type="date"
+            value={until}
+            min={getTodayKey()}
+            onChange={(e) => setUntil(e.target.value)}
+            className="flex-1 h-8 px-2 bg-background border border-border rounded-md text-sm text-foreground"
+          />
+        </div>
+        <Button
+          size="sm"
+          className="w-full h-8"
+          onClick={() => {
+            onPause(until || null);
+            setUntil('');
+            setOpen(false);
+          }}
+        >
+          {until ? 'Pause' : 'Pause until I resume'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface FreezeToggleProps {
+  frozen: boolean;
+  onToggle: () => void;
+  disabled: boolean;
+  className?: string;
+}
+
+// A frozen (vacation) day; tapping it outside freeze mode checks the habit off instead
+function FreezeToggle({ frozen, onToggle, disabled, className = '' }: FreezeToggleProps) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      disabled={disabled}
+      title={frozen ? 'Frozen: does not break your streak' : 'Freeze this day'}
+      className={`inline-flex items-center justify-center rounded border-2 transition-colors ${
+        frozen ? 'bg-sky-500/15 border-sky-500 text-sky-500' : 'bg-card border-dashed border-border text-muted-foreground/50 hover:border-sky-500'
+      } ${disabled ? 'opacity-50 cursor-not-allowed' : ''} ${className}`}
+    >
+      <Snowflake size={12} />
+    </button>
+  );
+}
+
+interface HabitAmountInputProps {
+  habit: Habit;
+  dateKey: string;
+  onChange: (value: number | null) => void;
+  disabled: boolean;
+  className?: string;
+}
+
+// Logged amount for one day; turns green once the target is reached
+function HabitAmountInput({ habit, dateKey, onChange, disabled, className = '' }: HabitAmountInputProps) {
+  const value = habit.values?.[dateKey];
+  const done = !!habit.completed[dateKey];
+  const scheduled = isHabitScheduledOn(habit, dateKey);
+
+  return (
+    <input
+      type="number"
+      inputMode="decimal"
+      min={0}
+      step="any"
+      value={value ?? ''}
+      placeholder={scheduled ? '0' : '–'}
+      onChange={(e) => onChange(e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0))}
+      disabled={disabled}
+      title={habit.target ? `Target: ${formatHabitTarget(habit.target)}` : undefined}
+      className={`rounded border-2 text-center text-[10px] md:text-xs px-0.5 outline-none focus:border-primary ${
+        done ? 'bg-success/20 border-success text-success font-bold' : 'bg-card border-border text-card-foreground'
+      } ${!scheduled && value === undefined ? 'opacity-40' : ''} ${disabled ? 'opacity-50 cursor-not-allowed' : ''} ${className}`}
+    />
+  );
+}
@@ -70,7 +70,7 @@ export const financeTutorialSteps: Step[] = [
   },
   {
     target: '[data-tutorial="import-statement"]',
-    content: 'Import bank statements from PDF, CSV, or Excel files. Transactions are automatically parsed and categorized.',
+    content: 'Import bank statements from CSV, OFX or QIF files, mapping the columns once per bank. Pro also reads PDF and Excel statements.',
     title: 'Import Statements',
     placement: 'left',
   },
@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { Task } from '@/lib/types';
 
 interface AIRequestOptions {
   type: string;
@@ -34,7 +35,7 @@ export function useAI() {
     }
   };
 
-  const smartSort = async (tasks: Array<{ id: string | number; text: string; done: boolean }>) => {
+  const smartSort = async (tasks: Array<Pick<Task, 'id' | 'text' | 'done' | 'priority' | 'estimateMinutes' | 'deadline' | 'labels'>>) => {
     const result = await callAI({
       type: 'smart-sort',
       context: { tasks }
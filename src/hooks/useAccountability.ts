@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from 'sonner';
+import { System } from '@/lib/types';
+import { rowsToSystems } from '@/lib/dataRepository';
+import {
+  AccountabilityGroup,
+  PartnerInvite,
+  SystemPartner,
+  normalizeEmail,
+  rowsToGroups,
+} from '@/lib/accountability';
+
+// Accountability partners are online only: groups, invites and partners'
+// check-ins are read straight from the server rather than the offline store
+export function useAccountability(weekDates: string[]) {
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<AccountabilityGroup[]>([]);
+  const [invites, setInvites] = useState<PartnerInvite[]>([]);
+  const [partners, setPartners] = useState<SystemPartner[]>([]);
+  // Other members' goals with their check-ins for the week
+  const [sharedSystems, setSharedSystems] = useState<System[]>([]);
+  const [loading, setLoading] = useState(true);
+  const weekStart = weekDates[0];
+  const weekEnd = weekDates[weekDates.length - 1];
+
+  const fetchSharedSystems = useCallback(async (nextGroups: AccountabilityGroup[]) => {
+    if (!user) return;
+    const systemIds = [...new Set(nextGroups.flatMap(group =>
+      group.members.filter(m => m.userId !== user.id && m.systemId).map(m => m.systemId as string)
+    ))];
+    if (systemIds.length === 0) {
+      setSharedSystems([]);
+      return;
+    }
+
+    const [systemsRes, habitsRes] = await Promise.all([
+      supabase.from('systems').select('*').in('id', systemIds),
+      supabase.from('habits').select('*').in('system_id', systemIds),
+    ]);
+    if (systemsRes.error) throw systemsRes.error;
+    if (habitsRes.error) throw habitsRes.error;
+
+    const habitIds = (habitsRes.data || []).map(h => h.id);
+    const completionsRes = habitIds.length > 0
+      ? await supabase
+          .from('habit_completions')
+          .select('*')
+          .in('habit_id', habitIds)
+          .gte('date', weekStart)
+          .lte('date', weekEnd)
+      : { data: [], error: null };
+    if (completionsRes.error) throw completionsRes.error;
+
+    setSharedSystems(rowsToSystems(systemsRes.data || [], habitsRes.data || [], completionsRes.data || []));
+  }, [user, weekStart, weekEnd]);
+
+  const fetchAccountability = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [groupsRes, invitesRes, partnersRes] = await Promise.all([
+        supabase.rpc('get_accountability_groups'),
+        supabase.rpc('get_system_invites'),
+        supabase
+          .from('system_partners')
+          .select('*')
+          .eq('owner_id', user.id)
+          .order('created_at', { ascending: true }),
+      ]);
+      if (groupsRes.error) throw groupsRes.error;
+      if (invitesRes.error) throw invitesRes.error;
+      if (partnersRes.error) throw partnersRes.error;
+
+      const nextGroups = rowsToGroups(groupsRes.data || []);
+      setGroups(nextGroups);
+      setInvites((invitesRes.data || []).map(row => ({
+        id: row.id,
+        systemId: row.system_id,
+        goal: row.goal,
+        ownerName: row.owner_name,
+        createdAt: row.created_at,
+      })));
+      setPartners((partnersRes.data || []).map(row => ({
+        id: row.id,
+        systemId: row.system_id,
+        email: row.invited_email,
+        status: row.status as SystemPartner['status'],
+      })));
+
+      await fetchSharedSystems(nextGroups);
+    } catch (error) {
+      console.error('Error fetching accountability partners:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, fetchSharedSystems]);
+
+  useEffect(() => {
+    fetchAccountability();
+  }, [fetchAccountability]);
+
+  const invitePartner = async (systemId: string | number, email: string) => {
+    if (!user) return false;
+    const invitedEmail = normalizeEmail(email);
+    if (invitedEmail === normalizeEmail(user.email || '')) {
+      toast.error("You can't invite yourself");
+      return false;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('system_partners')
+        .insert({ system_id: String(systemId), owner_id: user.id, invited_email: invitedEmail })
+        .select()
+        .single();
+
+      if (error) {
+        // Unique (system_id, invited_email)
+        if (error.code === '23505') {
+          toast.error(`${invitedEmail} is already invited`);
+          return false;
+        }
+        throw error;
+      }
+
+      setPartners(prev => [...prev, { id: data.id, systemId: data.system_id, email: data.invited_email, status: 'pending' }]);
+      toast.success(`Invite sent to ${invitedEmail}`);
+      return true;
+    } catch (error) {
+      console.error('Error inviting partner:', error);
+      toast.error('Failed to send invite');
+      return false;
+    }
+  };
+
+  const removePartner = async (partnerId: string) => {
+    try {
+      const { error } = await supabase.from('system_partners').delete().eq('id', partnerId);
+      if (error) throw error;
+
+      setPartners(prev => prev.filter(p => p.id !== partnerId));
+      await fetchAccountability();
+      return true;
+    } catch (error) {
+      console.error('Error removing partner:', error);
+      toast.error('Failed to remove partner');
+      return false;
+    }
+  };
+
+  // Joins with one of the user's goals, or a copy of the owner's when systemId is null.
+  // Returns the linked goal's id so the caller can reload the user's own data.
+  const acceptInvite = async (inviteId: string, systemId: string | null) => {
+    try {
+      const { data, error } = await supabase.rpc('accept_system_invite', {
+        _invite_id: inviteId,
+        ...(systemId ? { _system_id: systemId } : {}),
+      });
+      if (error) throw error;
+
+      toast.success('You joined as an accountability partner');
+      await fetchAccountability();
+      return data;
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      toast.error('Failed to accept invite');
+      return null;
+    }
+  };
+
+  const declineInvite = async (inviteId: string) => {
+    try {
+      const { error } = await supabase.from('system_partners').delete().eq('id', inviteId);
+      if (error) throw error;
+
+      setInvites(prev => prev.filter(i => i.id !== inviteId));
+      return true;
+    } catch (error) {
+      console.error('Error declining invite:', error);
+      toast.error('Failed to decline invite');
+      return false;
+    }
+  };
+
+  const leaveGroup = async (groupId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('system_partners')
+        .delete()
+        .eq('system_id', groupId)
+        .eq('partner_id', user.id);
+      if (error) throw error;
+
+      await fetchAccountability();
+      return true;
+    } catch (error) {
+      console.error('Error leaving group:', error);
+      toast.error('Failed to leave group');
+      return false;
+    }
+  };
+
+  const sendNudge = async (groupId: string, toUserId: string, name: string) => {
+    try {
+      const { error } = await supabase.rpc('send_partner_nudge', { _group_id: groupId, _to_user_id: toUserId });
+      if (error) {
+        if (error.message.includes('Already nudged')) {
+          toast.info(`You already nudged ${name} recently`);
+          return false;
+        }
+        throw error;
+      }
+
+      toast.success(`Nudge sent to ${name}`);
+      return true;
+    } catch (error) {
+      console.error('Error sending nudge:', error);
+      toast.error('Failed to send nudge');
+      return false;
+    }
+  };
+
+  return {
+    groups,
+    invites,
+    partners,
+    sharedSystems,
+    loading,
+    invitePartner,
+    removePartner,
+    acceptInvite,
+    declineInvite,
+    leaveGroup,
+    sendNudge,
+    refetch: fetchAccountability,
+  };
+}
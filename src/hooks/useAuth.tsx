@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useState, ReactNode, useRef } from 'react';
 import { User, Session } from '@supabase/supabase-js';
+import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { clearLocalDataOnSignOut, processSyncQueue, setSyncUser } from '@/lib/offlineSync';
 
 interface AuthContextType {
   user: User | null;
@@ -24,10 +26,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
+      setSyncUser(session?.user.id ?? null);
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
 
+      // Don't leave the previous user's offline copy on a shared device. Also fired when the
+      // session can't be refreshed, so unsynced edits are kept for the next sign-in.
+      if (event === 'SIGNED_OUT') {
+        clearLocalDataOnSignOut()
+          .then(kept => {
+            if (kept > 0) {
+              toast.warning(`${kept} unsynced change${kept === 1 ? '' : 's'} kept on this device`, {
+                description: 'They will sync when you sign in again.',
+                duration: 8000,
+              });
+            }
+          })
+          .catch(error => console.error('Failed to clear offline data:', error));
+      }
+
       // Send welcome email for new signups
       if (event === 'SIGNED_IN' && session?.user) {
         const userId = session.user.id;
@@ -55,6 +73,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
 
     supabase.auth.getSession().then(({ data: { session } }) => {
+      setSyncUser(session?.user.id ?? null);
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
@@ -63,7 +82,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Give queued offline edits a chance to reach the server while the session still works
   const signOut = async () => {
+    await processSyncQueue().catch(error => console.error('Failed to sync before signing out:', error));
     await supabase.auth.signOut();
   };
 
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { parseDateKey } from '@/lib/taskDates';
+
+export interface FocusSession {
+  id: string;
+  task_id: string | null;
+  task_label: string | null;
+  duration_minutes: number;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// Focus sessions finished on one calendar day (yyyy-MM-dd, local time)
+export function useFocusSessions(dateKey: string) {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<FocusSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSessions = useCallback(async () => {
+    if (!user) return;
+
+    const start = parseDateKey(dateKey);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+
+    try {
+      const { data, error } = await supabase
+        .from('focus_sessions')
+        .select('id, task_id, task_label, duration_minutes, completed_at, created_at')
+        .eq('user_id', user.id)
+        .gte('completed_at', start.toISOString())
+        .lt('completed_at', end.toISOString())
+        .order('completed_at', { ascending: true });
+
+      if (error) throw error;
+      setSessions((data || []) as FocusSession[]);
+    } catch (err) {
+      console.error('Error fetching focus sessions:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, dateKey]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  return { sessions, loading, refetch: fetchSessions };
+}
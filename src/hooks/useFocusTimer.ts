@@ -0,0 +1,52 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import { FocusPhase } from '@/lib/pomodoro';
+import { FocusSessionStart } from '@/lib/focusTimer';
+
+// A finished work interval; runId and cycle are null outside Pomodoro cycles
+export interface FocusInterval {
+  minutes: number;
+  runId: string | null;
+  cycle: number | null;
+  taskLabel: string;
+}
+
+export type WorkCompleteListener = (interval: FocusInterval) => void;
+
+export interface FocusTimerContextType {
+  phase: FocusPhase;
+  cycle: number;
+  cycles: boolean;
+  taskLabel: string;
+  timeRemaining: number;
+  progress: number;
+  isRunning: boolean;
+  hasStarted: boolean;
+  startSession: (start: Omit<FocusSessionStart, 'runId'>) => void;
+  resume: () => void;
+  pause: () => void;
+  reset: () => void;
+  // Ends the current phase, early or on time, and moves the run along
+  completePhase: () => void;
+  subscribe: (listener: WorkCompleteListener) => () => void;
+}
+
+// Provided by FocusTimerProvider
+export const FocusTimerContext = createContext<FocusTimerContextType | null>(null);
+
+// Shared timer; onWorkComplete is called for each finished work interval
+// while the caller is mounted
+export function useFocusTimer(onWorkComplete?: WorkCompleteListener) {
+  const context = useContext(FocusTimerContext);
+  if (!context) {
+    throw new Error('useFocusTimer must be used within a FocusTimerProvider');
+  }
+
+  // Latest callback without resubscribing when the caller re-renders
+  const onWorkCompleteRef = useRef(onWorkComplete);
+  onWorkCompleteRef.current = onWorkComplete;
+
+  const { subscribe } = context;
+  useEffect(() => subscribe(interval => onWorkCompleteRef.current?.(interval)), [subscribe]);
+
+  return context;
+}
@@ -1,31 +1,92 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
-import { Tasks, System, Transaction, JournalEntry, Budget, Subscription, SavingsGoal } from '@/lib/types';
+import { Task, Tasks, System, Habit, Routine, Transaction, JournalEntry, Budget, Subscription, SavingsGoal } from '@/lib/types';
 import { DEFAULT_CATEGORIES } from '@/lib/constants';
+import { normalizeTaskDay } from '@/lib/taskDates';
+import { removeTask } from '@/lib/subtasks';
+import {
+  createId,
+  ensureId,
+  diffRows,
+  toTaskRows,
+  toSystemRows,
+  toTransactionRow,
+  toJournalRow,
+  toBudgetRow,
+  toRoutineRow,
+  toSubscriptionRow,
+  toSavingsGoalRow,
+  readLocalRows,
+  readLocalSnapshot,
+  syncWithServer,
+  DataSnapshot,
+} from '@/lib/dataRepository';
+import {
+  queueUpserts,
+  queueDeletes,
+  processSyncQueue,
+  isNetworkOnline,
+  getSyncStatus,
+  subscribeToSyncStatus,
+} from '@/lib/offlineSync';
 import { toast } from 'sonner';
 import { SaveStatus } from '@/components/SaveIndicator';
 import { showNetworkError, parseNetworkError } from '@/lib/networkErrorHandler';
 
+type Updater<S> = S | ((prev: S) => S);
+
 // Helper to compare IDs regardless of type
 const isSameId = (id1: string | number, id2: string | number): boolean => {
   return String(id1) === String(id2);
 };
 
+const resolve = <S,>(updater: Updater<S>, current: S): S =>
+  typeof updater === 'function' ? (updater as (prev: S) => S)(current) : updater;
+
+// New entities get a real UUID before they are persisted, so state never holds temp ids
+const withTaskIds = (tasks: Tasks): Tasks => {
+  // Subtasks may point at a parent added in the same change, so remap their links too
+  const newIds = new Map<string, string | number>();
+  Object.values(tasks).flat().forEach(task => {
+    const withId = ensureId(task);
+    if (withId !== task) newIds.set(String(task.id), withId.id);
+  });
+  const remap = (id: string | number) => newIds.get(String(id)) ?? id;
+
+  const result: Tasks = {};
+  Object.entries(tasks).forEach(([day, dayTasks]) => {
+    const key = normalizeTaskDay(day);
+    result[key] = [
+      ...(result[key] || []),
+      ...dayTasks.map(task => newIds.size === 0 ? task : {
+        ...task,
+        id: remap(task.id),
+        parentId: task.parentId != null ? remap(task.parentId) : task.parentId,
+      }),
+    ];
+  });
+  return result;
+};
+
+const withSystemIds = (systems: System[]): System[] =>
+  systems.map(system => ({ ...ensureId(system), habits: system.habits.map(ensureId) }));
+
 export function useSupabaseData() {
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  
+
   // Helper to manage save status
   const withSaveStatus = async <T,>(operation: () => Promise<T>): Promise<T | undefined> => {
     setSaveStatus('saving');
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
-    
+
     try {
       const result = await operation();
-      setSaveStatus('saved');
+      // Edits that could not reach the server yet are safe on the device
+      setSaveStatus(getSyncStatus().pending > 0 ? 'queued' : 'saved');
       saveTimeoutRef.current = setTimeout(() => setSaveStatus('idle'), 2000);
       return result;
     } catch (error) {
@@ -34,18 +95,55 @@ export function useSupabaseData() {
       throw error;
     }
   };
-  
+
   // Data states
   const [tasks, setTasksState] = useState<Tasks>({});
   const [systems, setSystemsState] = useState<System[]>([]);
+  const [routines, setRoutinesState] = useState<Routine[]>([]);
   const [transactions, setTransactionsState] = useState<Transaction[]>([]);
   const [journalEntries, setJournalEntriesState] = useState<JournalEntry[]>([]);
-  const [budgets, setBudgetsState] = useState<Budget>({});
+  const [budgets, setBudgetsState] = useState<Budget[]>([]);
   const [categories, setCategoriesState] = useState<string[]>(DEFAULT_CATEGORIES);
   const [subscriptions, setSubscriptionsState] = useState<Subscription[]>([]);
   const [savingsGoals, setSavingsGoalsState] = useState<SavingsGoal[]>([]);
   const [geminiApiKey, setGeminiApiKeyState] = useState<string>('');
 
+  // Refs mirror the latest state so back-to-back updates diff against
+  // what was last applied rather than a stale render closure
+  const tasksRef = useRef<Tasks>({});
+  const systemsRef = useRef<System[]>([]);
+  const routinesRef = useRef<Routine[]>([]);
+  const transactionsRef = useRef<Transaction[]>([]);
+  const journalEntriesRef = useRef<JournalEntry[]>([]);
+  const budgetsRef = useRef<Budget[]>([]);
+  const categoriesRef = useRef<string[]>(DEFAULT_CATEGORIES);
+  const subscriptionsRef = useRef<Subscription[]>([]);
+  const savingsGoalsRef = useRef<SavingsGoal[]>([]);
+
+  const applySnapshot = useCallback((snapshot: DataSnapshot) => {
+    tasksRef.current = snapshot.tasks;
+    setTasksState(snapshot.tasks);
+    systemsRef.current = snapshot.systems;
+    setSystemsState(snapshot.systems);
+    routinesRef.current = snapshot.routines;
+    setRoutinesState(snapshot.routines);
+    transactionsRef.current = snapshot.transactions;
+    setTransactionsState(snapshot.transactions);
+    journalEntriesRef.current = snapshot.journalEntries;
+    setJournalEntriesState(snapshot.journalEntries);
+    budgetsRef.current = snapshot.budgets;
+    setBudgetsState(snapshot.budgets);
+    subscriptionsRef.current = snapshot.subscriptions;
+    setSubscriptionsState(snapshot.subscriptions);
+    savingsGoalsRef.current = snapshot.savingsGoals;
+    setSavingsGoalsState(snapshot.savingsGoals);
+
+    if (snapshot.categories.length > 0) {
+      categoriesRef.current = snapshot.categories;
+      setCategoriesState(snapshot.categories);
+    }
+  }, []);
+
   // Load all data
   const loadData = useCallback(async () => {
     if (!user) {
@@ -56,144 +154,19 @@ export function useSupabaseData() {
     try {
       setLoading(true);
 
-      // Load tasks
-      const { data: tasksData } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', user.id);
-      
-      if (tasksData) {
-        const tasksByDay: Tasks = {};
-        tasksData.forEach(t => {
-          if (!tasksByDay[t.day]) tasksByDay[t.day] = [];
-          tasksByDay[t.day].push({ id: t.id, text: t.text, done: t.done });
-        });
-        setTasksState(tasksByDay);
-      }
-
-      // Load systems with habits
-      const { data: systemsData } = await supabase
-        .from('systems')
-        .select('*')
-        .eq('user_id', user.id);
-
-      const { data: habitsData } = await supabase
-        .from('habits')
-        .select('*')
-        .eq('user_id', user.id);
+      // Show what is on the device first so the app opens offline
+      const local = await readLocalSnapshot(user.id);
+      applySnapshot(local);
+      if (!local.isEmpty) setLoading(false);
 
-      const { data: completionsData } = await supabase
-        .from('habit_completions')
-        .select('*')
-        .eq('user_id', user.id);
-
-      if (systemsData) {
-        const systemsWithHabits: System[] = systemsData.map(s => {
-          const systemHabits = habitsData?.filter(h => h.system_id === s.id) || [];
-          return {
-            id: s.id,
-            goal: s.goal,
-            why: s.why || '',
-            habits: systemHabits.map(h => {
-              const habitCompletions = completionsData?.filter(c => c.habit_id === h.id) || [];
-              const completed: { [key: string]: boolean } = {};
-              habitCompletions.forEach(c => { completed[c.date] = c.completed; });
-              return { id: h.id, name: h.name, completed };
-            })
-          };
+      if (isNetworkOnline()) {
+        await syncWithServer(user.id);
+        applySnapshot(await readLocalSnapshot(user.id));
+      } else if (local.isEmpty) {
+        toast.error('You appear to be offline', {
+          description: 'Data will sync when you reconnect.',
+          duration: 5000,
         });
-        setSystemsState(systemsWithHabits);
-      }
-
-      // Load transactions
-      const { data: transData } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('date', { ascending: false });
-      
-      if (transData) {
-        setTransactionsState(transData.map(t => ({
-          id: t.id,
-          type: t.type as 'income' | 'expense',
-          amount: Number(t.amount),
-          category: t.category,
-          description: t.description || '',
-          date: t.date,
-          bank_account_id: t.bank_account_id || null,
-          source: (t.source || 'manual') as 'manual' | 'receipt' | 'bank_import',
-          external_reference: t.external_reference || null
-        })));
-      }
-
-      // Load journal entries
-      const { data: journalData } = await supabase
-        .from('journal_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-      
-      if (journalData) {
-        setJournalEntriesState(journalData.map(j => ({
-          id: j.id,
-          date: j.date,
-          mood: j.mood,
-          win: j.win || '',
-          improve: j.improve || '',
-          thoughts: j.thoughts || '',
-          tags: j.tags || undefined
-        })));
-      }
-
-      // Load budgets
-      const { data: budgetsData } = await supabase
-        .from('budgets')
-        .select('*')
-        .eq('user_id', user.id);
-      
-      if (budgetsData) {
-        const budgetMap: Budget = {};
-        budgetsData.forEach(b => { budgetMap[b.category] = Number(b.amount); });
-        setBudgetsState(budgetMap);
-      }
-
-      // Load categories
-      const { data: categoriesData } = await supabase
-        .from('categories')
-        .select('*')
-        .eq('user_id', user.id);
-      
-      if (categoriesData && categoriesData.length > 0) {
-        setCategoriesState(categoriesData.map(c => c.name));
-      }
-
-      // Load subscriptions
-      const { data: subsData } = await supabase
-        .from('subscriptions')
-        .select('*')
-        .eq('user_id', user.id);
-      
-      if (subsData) {
-        setSubscriptionsState(subsData.map(s => ({
-          id: s.id,
-          name: s.name,
-          amount: Number(s.amount)
-        })));
-      }
-
-      // Load savings goals
-      const { data: savingsData } = await supabase
-        .from('savings_goals')
-        .select('*')
-        .eq('user_id', user.id);
-      
-      if (savingsData) {
-        setSavingsGoalsState(savingsData.map(s => ({
-          id: s.id,
-          name: s.name,
-          target: Number(s.target),
-          current: Number(s.current)
-        })));
       }
 
       // Load user settings (Gemini API key)
@@ -202,7 +175,7 @@ export function useSupabaseData() {
         .select('*')
         .eq('user_id', user.id)
         .maybeSingle();
-      
+
       if (settingsData?.gemini_api_key) {
         setGeminiApiKeyState(settingsData.gemini_api_key);
       }
@@ -210,7 +183,7 @@ export function useSupabaseData() {
     } catch (error) {
       console.error('Error loading data:', error);
       const errorInfo = parseNetworkError(error);
-      
+
       if (errorInfo.type === 'offline') {
         toast.error('You appear to be offline', {
           description: 'Data will sync when you reconnect.',
@@ -222,377 +195,312 @@ export function useSupabaseData() {
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, applySnapshot]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
-  // Helper to check if ID is a UUID from database
-  const isUUID = (id: string | number): boolean => {
-    const str = String(id);
-    return str.includes('-') && str.length === 36;
-  };
-
-  // Task operations - upsert based approach
-  const setTasks = async (updater: Tasks | ((prev: Tasks) => Tasks)) => {
+  // Pull server changes after reconnecting or when the queue gives up on an edit,
+  // and pick up the chosen version once a conflict is resolved
+  useEffect(() => {
     if (!user) return;
-    const newTasks = typeof updater === 'function' ? updater(tasks) : updater;
-    setTasksState(newTasks);
-    
-    await withSaveStatus(async () => {
-      // Get existing task IDs
-      const { data: existing } = await supabase
-        .from('tasks')
-        .select('id')
-        .eq('user_id', user.id);
-      const existingIds = new Set(existing?.map(t => t.id) || []);
-      
-      // Flatten new tasks
-      const allNewTasks: { day: string; id: string | number; text: string; done: boolean }[] = [];
-      Object.entries(newTasks).forEach(([day, dayTasks]) => {
-        dayTasks.forEach(t => allNewTasks.push({ day, ...t }));
+    let previous = getSyncStatus();
+
+    return subscribeToSyncStatus(status => {
+      const reconnected = status.online && !previous.online;
+      const rejected = status.failed > previous.failed;
+      const resolved = status.conflicts < previous.conflicts;
+      previous = status;
+
+      if (reconnected || rejected) {
+        syncWithServer(user.id)
+          .then(() => readLocalSnapshot(user.id))
+          .then(applySnapshot)
+          .catch(error => console.error('Error refreshing after sync:', error));
+      } else if (resolved) {
+        readLocalSnapshot(user.id)
+          .then(applySnapshot)
+          .catch(error => console.error('Error reloading after conflict resolution:', error));
+      }
+    });
+  }, [user, applySnapshot]);
+
+  // Apply a change optimistically, queue only what changed, and roll back if the device store fails
+  const commit = async <S,>(
+    ref: React.MutableRefObject<S>,
+    setState: React.Dispatch<React.SetStateAction<S>>,
+    next: S,
+    persist: (prev: S, next: S) => Promise<void>,
+    reload: () => Promise<S>
+  ): Promise<boolean> => {
+    const prev = ref.current;
+    ref.current = next;
+    setState(next);
+
+    try {
+      await withSaveStatus(async () => {
+        await persist(prev, next);
+        await processSyncQueue();
       });
-      
-      // Separate inserts and updates
-      for (const task of allNewTasks) {
-        const taskIdStr = String(task.id);
-        if (isUUID(task.id) && existingIds.has(taskIdStr)) {
-          // Update existing
-          await supabase.from('tasks')
-            .update({ text: task.text, done: task.done, day: task.day })
-            .eq('id', taskIdStr);
-        } else if (!isUUID(task.id)) {
-          // Insert new
-          await supabase.from('tasks').insert({
-            user_id: user.id,
-            day: task.day,
-            text: task.text,
-            done: task.done
-          });
+      return true;
+    } catch (error) {
+      console.error('Error saving changes:', error);
+      if (ref.current === next) {
+        ref.current = prev;
+        setState(prev);
+      } else {
+        // Newer edits were stacked on top of the failed one; reread the device store instead
+        try {
+          const fresh = await reload();
+          ref.current = fresh;
+          setState(fresh);
+        } catch (reloadError) {
+          console.error('Error reloading after failed save:', reloadError);
         }
       }
-      
-      // Delete removed tasks
-      const newTaskIds = allNewTasks.filter(t => isUUID(t.id)).map(t => String(t.id));
-      const toDelete = existing?.filter(t => !newTaskIds.includes(t.id)) || [];
-      for (const task of toDelete) {
-        await supabase.from('tasks').delete().eq('id', task.id);
-      }
-    });
+      showNetworkError(error, 'Saving changes');
+      return false;
+    }
   };
 
-  // System operations
-  const setSystems = async (updater: System[] | ((prev: System[]) => System[])) => {
+  // Task operations
+  const setTasks = async (updater: Updater<Tasks>) => {
     if (!user) return;
-    const newSystems = typeof updater === 'function' ? updater(systems) : updater;
-    setSystemsState(newSystems);
-    
-    await withSaveStatus(async () => {
-      // Get existing data
-      const { data: existingDbSystems } = await supabase
-        .from('systems')
-        .select('id')
-        .eq('user_id', user.id);
-      const existingSystemIds = new Set(existingDbSystems?.map(s => s.id) || []);
-      
-      const { data: existingDbHabits } = await supabase
-        .from('habits')
-        .select('id, system_id')
-        .eq('user_id', user.id);
-      const existingHabitIds = new Set(existingDbHabits?.map(h => h.id) || []);
-
-      // Track ID mappings
-      const systemIdMap: Record<string, string> = {};
-      const habitIdMap: Record<string, string> = {};
-
-      // Process each system
-      for (const system of newSystems) {
-        const systemIdStr = String(system.id);
-        const isExisting = isUUID(system.id) && existingSystemIds.has(systemIdStr);
-
-        let actualSystemId: string;
-        
-        if (isExisting) {
-          await supabase.from('systems')
-            .update({ goal: system.goal, why: system.why })
-            .eq('id', systemIdStr);
-          actualSystemId = systemIdStr;
-        } else {
-          const { data: inserted, error } = await supabase.from('systems')
-            .insert({ user_id: user.id, goal: system.goal, why: system.why })
-            .select('id')
-            .single();
-          
-          if (error || !inserted) {
-            console.error('Failed to insert system:', error);
-            continue;
-          }
-          actualSystemId = inserted.id;
-        }
-        
-        systemIdMap[systemIdStr] = actualSystemId;
-
-        // Process habits
-        for (const habit of system.habits) {
-          const habitIdStr = String(habit.id);
-          const isHabitExisting = isUUID(habit.id) && existingHabitIds.has(habitIdStr);
-
-          let actualHabitId: string;
-
-          if (isHabitExisting) {
-            await supabase.from('habits')
-              .update({ name: habit.name, system_id: actualSystemId })
-              .eq('id', habitIdStr);
-            actualHabitId = habitIdStr;
-          } else {
-            const { data: inserted, error } = await supabase.from('habits')
-              .insert({ user_id: user.id, system_id: actualSystemId, name: habit.name })
-              .select('id')
-              .single();
-            
-            if (error || !inserted) {
-              console.error('Failed to insert habit:', error);
-              continue;
-            }
-            actualHabitId = inserted.id;
-          }
-          
-          habitIdMap[habitIdStr] = actualHabitId;
-
-          // Sync completions
-          for (const [date, completed] of Object.entries(habit.completed)) {
-            const { data: existingCompletion } = await supabase.from('habit_completions')
-              .select('id')
-              .eq('habit_id', actualHabitId)
-              .eq('date', date)
-              .maybeSingle();
-            
-            if (existingCompletion) {
-              await supabase.from('habit_completions')
-                .update({ completed })
-                .eq('id', existingCompletion.id);
-            } else {
-              await supabase.from('habit_completions')
-                .insert({ habit_id: actualHabitId, user_id: user.id, date, completed });
-            }
-          }
-        }
-      }
+    const next = withTaskIds(resolve(updater, tasksRef.current));
 
-      // Delete removed systems and their habits
-      const newSystemIds = newSystems.map(s => systemIdMap[String(s.id)] || String(s.id));
-      const removedSystems = existingDbSystems?.filter(s => !newSystemIds.includes(s.id)) || [];
-      for (const removed of removedSystems) {
-        await supabase.from('habit_completions').delete().match({ user_id: user.id });
-        await supabase.from('habits').delete().eq('system_id', removed.id);
-        await supabase.from('systems').delete().eq('id', removed.id);
-      }
-      
-      // Delete removed habits
-      const allNewHabitIds = newSystems.flatMap(s => 
-        s.habits.map(h => habitIdMap[String(h.id)] || String(h.id))
+    await commit(tasksRef, setTasksState, next, async (prev, nextTasks) => {
+      const { upserts, deletes } = diffRows(
+        toTaskRows(prev, user.id),
+        toTaskRows(nextTasks, user.id),
+        row => row.id!
       );
-      const removedHabits = existingDbHabits?.filter(h => !allNewHabitIds.includes(h.id)) || [];
-      for (const removed of removedHabits) {
-        await supabase.from('habit_completions').delete().eq('habit_id', removed.id);
-        await supabase.from('habits').delete().eq('id', removed.id);
-      }
-    });
+      await queueUpserts('tasks', upserts);
+      await queueDeletes('tasks', deletes, user.id);
+    }, async () => (await readLocalSnapshot(user.id)).tasks);
+  };
+
+  const addTask = async (day: string, task: Omit<Task, 'id'>) => {
+    const newTask: Task = { ...task, id: createId() };
+    await setTasks(prev => ({ ...prev, [day]: [...(prev[day] || []), newTask] }));
+    return newTask;
+  };
+
+  const updateTask = (day: string, taskId: string | number, changes: Partial<Omit<Task, 'id'>>) =>
+    setTasks(prev => ({
+      ...prev,
+      [day]: (prev[day] || []).map(t => isSameId(t.id, taskId) ? { ...t, ...changes } : t)
+    }));
+
+  const deleteTask = (day: string, taskId: string | number) =>
+    setTasks(prev => removeTask(prev, day, taskId));
+
+  // System operations
+  const setSystems = async (updater: Updater<System[]>) => {
+    if (!user) return;
+    const next = withSystemIds(resolve(updater, systemsRef.current));
+
+    await commit(systemsRef, setSystemsState, next, async (prev, nextSystems) => {
+      const before = toSystemRows(prev, user.id);
+      const after = toSystemRows(nextSystems, user.id);
+
+      const systemsDiff = diffRows(before.systemRows, after.systemRows, row => row.id!);
+      const habitsDiff = diffRows(before.habitRows, after.habitRows, row => row.id!);
+      const completionsDiff = diffRows(
+        before.completionRows,
+        after.completionRows,
+        row => `${row.habit_id}:${row.date}`
+      );
+
+      // Parents first so foreign keys resolve when the queue replays
+      await queueUpserts('systems', systemsDiff.upserts);
+      await queueUpserts('habits', habitsDiff.upserts);
+      await queueUpserts('habit_completions', completionsDiff.upserts);
+
+      // A completion key dropped from a surviving habit means "not done"
+      const removedHabitIds = new Set(habitsDiff.deletes);
+      const clearedCompletions = before.completionRows
+        .filter(c => completionsDiff.deletes.includes(`${c.habit_id}:${c.date}`) && !removedHabitIds.has(c.habit_id))
+        .map(c => ({ ...c, completed: false, value: null, frozen: false }));
+      await queueUpserts('habit_completions', clearedCompletions);
+
+      // Habits cascade from systems and completions cascade from habits,
+      // so only rows whose parent survives need an explicit delete
+      const removedSystemIds = new Set(systemsDiff.deletes);
+      const orphanedHabitIds = before.habitRows
+        .filter(h => removedHabitIds.has(h.id!) && !removedSystemIds.has(h.system_id))
+        .map(h => h.id!);
+      await queueDeletes('habits', orphanedHabitIds, user.id);
+      await queueDeletes('systems', systemsDiff.deletes, user.id);
+    }, async () => (await readLocalSnapshot(user.id)).systems);
   };
 
-  // Transaction operations - individual upserts
-  const setTransactions = async (updater: Transaction[] | ((prev: Transaction[]) => Transaction[])) => {
+  const addSystem = async (system: Omit<System, 'id'>) => {
+    const newSystem: System = { ...system, id: createId(), habits: system.habits.map(ensureId) };
+    await setSystems(prev => [...prev, newSystem]);
+    return newSystem;
+  };
+
+  const updateSystem = (systemId: string | number, changes: Partial<Omit<System, 'id'>>) =>
+    setSystems(prev => prev.map(s => isSameId(s.id, systemId) ? { ...s, ...changes } : s));
+
+  const deleteSystem = async (systemId: string | number) => {
+    await setSystems(prev => prev.filter(s => !isSameId(s.id, systemId)));
+    // The server unlinks the goal's tasks; mirror that so later task edits don't point at it
+    await setTasks(prev => Object.fromEntries(Object.entries(prev).map(([day, dayTasks]) => [
+      day,
+      dayTasks.map(t => t.systemId && isSameId(t.systemId, systemId) ? { ...t, systemId: null } : t)
+    ])));
+  };
+
+  const updateHabits = (systemId: string | number, update: (habits: Habit[]) => Habit[]) =>
+    setSystems(prev => prev.map(s => isSameId(s.id, systemId) ? { ...s, habits: update(s.habits) } : s));
+
+  const addHabit = async (systemId: string | number, habit: Omit<Habit, 'id'>) => {
+    const newHabit: Habit = { ...habit, id: createId() };
+    await updateHabits(systemId, habits => [...habits, newHabit]);
+    return newHabit;
+  };
+
+  const updateHabit = (systemId: string | number, habitId: string | number, changes: Partial<Omit<Habit, 'id'>>) =>
+    updateHabits(systemId, habits => habits.map(h => isSameId(h.id, habitId) ? { ...h, ...changes } : h));
+
+  const deleteHabit = (systemId: string | number, habitId: string | number) =>
+    updateHabits(systemId, habits => habits.filter(h => !isSameId(h.id, habitId)));
+
+  const setHabitCompletion = (systemId: string | number, habitId: string | number, date: string, completed: boolean) =>
+    updateHabits(systemId, habits => habits.map(h =>
+      isSameId(h.id, habitId) ? { ...h, completed: { ...h.completed, [date]: completed } } : h
+    ));
+
+  // Transaction operations
+  const setTransactions = async (updater: Updater<Transaction[]>) => {
     if (!user) return;
-    const newTransactions = typeof updater === 'function' ? updater(transactions) : updater;
-    setTransactionsState(newTransactions);
-    
-    await withSaveStatus(async () => {
-      const { data: existing } = await supabase
-        .from('transactions')
-        .select('id')
-        .eq('user_id', user.id);
-      const existingIds = new Set(existing?.map(t => t.id) || []);
-      
-      for (const t of newTransactions) {
-        const idStr = String(t.id);
-        if (isUUID(t.id) && existingIds.has(idStr)) {
-          await supabase.from('transactions')
-            .update({ 
-              type: t.type, 
-              amount: t.amount, 
-              category: t.category, 
-              description: t.description, 
-              date: t.date,
-              bank_account_id: t.bank_account_id || null,
-              source: t.source || 'manual',
-              external_reference: t.external_reference || null
-            })
-            .eq('id', idStr);
-        } else if (!isUUID(t.id)) {
-          await supabase.from('transactions').insert({
-            user_id: user.id,
-            type: t.type,
-            amount: t.amount,
-            category: t.category,
-            description: t.description,
-            date: t.date,
-            bank_account_id: t.bank_account_id || null,
-            source: t.source || 'manual',
-            external_reference: t.external_reference || null
-          });
-        }
-      }
-      
-      // Delete removed
-      const newIds = newTransactions.filter(t => isUUID(t.id)).map(t => String(t.id));
-      const toDelete = existing?.filter(t => !newIds.includes(t.id)) || [];
-      for (const t of toDelete) {
-        await supabase.from('transactions').delete().eq('id', t.id);
-      }
-    });
+    const next = resolve(updater, transactionsRef.current).map(ensureId);
+
+    await commit(transactionsRef, setTransactionsState, next, async (prev, nextTransactions) => {
+      const { upserts, deletes } = diffRows(
+        prev.map(t => toTransactionRow(t, user.id)),
+        nextTransactions.map(t => toTransactionRow(t, user.id)),
+        row => row.id!
+      );
+      await queueUpserts('transactions', upserts);
+      await queueDeletes('transactions', deletes, user.id);
+    }, async () => (await readLocalSnapshot(user.id)).transactions);
+  };
+
+  const addTransaction = async (transaction: Omit<Transaction, 'id'>) => {
+    const newTransaction: Transaction = { ...transaction, id: createId() };
+    await setTransactions(prev => [newTransaction, ...prev]);
+    return newTransaction;
   };
 
+  const updateTransaction = (id: string | number, changes: Partial<Omit<Transaction, 'id'>>) =>
+    setTransactions(prev => prev.map(t => isSameId(t.id, id) ? { ...t, ...changes } : t));
+
+  const deleteTransaction = (id: string | number) =>
+    setTransactions(prev => prev.filter(t => !isSameId(t.id, id)));
+
   // Journal operations
-  const setJournalEntries = async (updater: JournalEntry[] | ((prev: JournalEntry[]) => JournalEntry[])) => {
+  const setJournalEntries = async (updater: Updater<JournalEntry[]>) => {
     if (!user) return;
-    const newEntries = typeof updater === 'function' ? updater(journalEntries) : updater;
-    setJournalEntriesState(newEntries);
-    
-    await withSaveStatus(async () => {
-      const { data: existing } = await supabase
-        .from('journal_entries')
-        .select('id')
-        .eq('user_id', user.id);
-      const existingIds = new Set(existing?.map(j => j.id) || []);
-      
-      for (const j of newEntries) {
-        const idStr = String(j.id);
-        if (isUUID(j.id) && existingIds.has(idStr)) {
-          await supabase.from('journal_entries')
-            .update({ date: j.date, mood: j.mood, win: j.win, improve: j.improve, thoughts: j.thoughts, tags: j.tags })
-            .eq('id', idStr);
-        } else if (!isUUID(j.id)) {
-          await supabase.from('journal_entries').insert({
-            user_id: user.id,
-            date: j.date,
-            mood: j.mood,
-            win: j.win,
-            improve: j.improve,
-            thoughts: j.thoughts,
-            tags: j.tags
-          });
-        }
-      }
-      
-      const newIds = newEntries.filter(j => isUUID(j.id)).map(j => String(j.id));
-      const toDelete = existing?.filter(j => !newIds.includes(j.id)) || [];
-      for (const j of toDelete) {
-        await supabase.from('journal_entries').delete().eq('id', j.id);
-      }
-    });
+    const next = resolve(updater, journalEntriesRef.current).map(ensureId);
+
+    await commit(journalEntriesRef, setJournalEntriesState, next, async (prev, nextEntries) => {
+      const { upserts, deletes } = diffRows(
+        prev.map(j => toJournalRow(j, user.id)),
+        nextEntries.map(j => toJournalRow(j, user.id)),
+        row => row.id!
+      );
+      await queueUpserts('journal_entries', upserts);
+      await queueDeletes('journal_entries', deletes, user.id);
+    }, async () => (await readLocalSnapshot(user.id)).journalEntries);
   };
 
+  const addJournalEntry = async (entry: Omit<JournalEntry, 'id'>) => {
+    const newEntry: JournalEntry = { ...entry, id: createId() };
+    await setJournalEntries(prev => [newEntry, ...prev]);
+    return newEntry;
+  };
+
+  const updateJournalEntry = (id: string | number, changes: Partial<Omit<JournalEntry, 'id'>>) =>
+    setJournalEntries(prev => prev.map(j => isSameId(j.id, id) ? { ...j, ...changes } : j));
+
+  const deleteJournalEntry = (id: string | number) =>
+    setJournalEntries(prev => prev.filter(j => !isSameId(j.id, id)));
+
   // Budget operations
-  const setBudgets = async (updater: Budget | ((prev: Budget) => Budget)) => {
+  const setBudgets = async (updater: Updater<Budget[]>) => {
     if (!user) return;
-    const newBudgets = typeof updater === 'function' ? updater(budgets) : updater;
-    setBudgetsState(newBudgets);
-    
-    await withSaveStatus(async () => {
-      // Upsert each budget category
-      for (const [category, amount] of Object.entries(newBudgets)) {
-        const { data: existing } = await supabase
-          .from('budgets')
-          .select('id')
-          .eq('user_id', user.id)
-          .eq('category', category)
-          .maybeSingle();
-        
-        if (existing) {
-          await supabase.from('budgets')
-            .update({ amount })
-            .eq('id', existing.id);
-        } else {
-          await supabase.from('budgets').insert({
-            user_id: user.id,
-            category,
-            amount
-          });
-        }
-      }
-    });
+    const next = resolve(updater, budgetsRef.current).map(ensureId);
+
+    await commit(budgetsRef, setBudgetsState, next, async (prev, nextBudgets) => {
+      const { upserts, deletes } = diffRows(
+        prev.map(b => toBudgetRow(b, user.id)),
+        nextBudgets.map(b => toBudgetRow(b, user.id)),
+        row => row.id!
+      );
+      await queueUpserts('budgets', upserts);
+      await queueDeletes('budgets', deletes, user.id);
+    }, async () => (await readLocalSnapshot(user.id)).budgets);
   };
 
   // Category operations
-  const setCategories = async (updater: string[] | ((prev: string[]) => string[])) => {
+  const setCategories = async (updater: Updater<string[]>) => {
     if (!user) return;
-    const newCategories = typeof updater === 'function' ? updater(categories) : updater;
-    setCategoriesState(newCategories);
-    
-    await withSaveStatus(async () => {
-      const { data: existing } = await supabase
-        .from('categories')
-        .select('id, name')
-        .eq('user_id', user.id);
-      const existingNames = new Set(existing?.map(c => c.name) || []);
-      
-      // Add new categories
-      for (const name of newCategories) {
-        if (!existingNames.has(name)) {
-          await supabase.from('categories').insert({ user_id: user.id, name });
-        }
-      }
-      
-      // Delete removed categories
-      const toDelete = existing?.filter(c => !newCategories.includes(c.name)) || [];
-      for (const c of toDelete) {
-        await supabase.from('categories').delete().eq('id', c.id);
-      }
+    const next = resolve(updater, categoriesRef.current);
+
+    await commit(categoriesRef, setCategoriesState, next, async (_prev, nextCategories) => {
+      // Defaults live only in memory until first edited, so diff against the stored names
+      const storedNames = new Set((await readLocalRows('categories', user.id)).map(c => c.name));
+      const toInsert = nextCategories.filter(name => !storedNames.has(name));
+      const toDelete = [...storedNames].filter(name => !nextCategories.includes(name));
+
+      await queueUpserts('categories', toInsert.map(name => ({ user_id: user.id, name })));
+      await queueDeletes('categories', toDelete, user.id);
+    }, async () => {
+      const { categories: stored } = await readLocalSnapshot(user.id);
+      return stored.length > 0 ? stored : DEFAULT_CATEGORIES;
     });
   };
 
+  // Routine operations
+  const setRoutines = async (updater: Updater<Routine[]>) => {
+    if (!user) return;
+    const next = resolve(updater, routinesRef.current).map(ensureId);
+
+    await commit(routinesRef, setRoutinesState, next, async (prev, nextRoutines) => {
+      const { upserts, deletes } = diffRows(
+        prev.map(r => toRoutineRow(r, user.id)),
+        nextRoutines.map(r => toRoutineRow(r, user.id)),
+        row => row.id!
+      );
+      await queueUpserts('routines', upserts);
+      await queueDeletes('routines', deletes, user.id);
+    }, async () => (await readLocalSnapshot(user.id)).routines);
+  };
+
   // Subscription operations
-  const setSubscriptions = async (updater: Subscription[] | ((prev: Subscription[]) => Subscription[])) => {
+  const setSubscriptions = async (updater: Updater<Subscription[]>) => {
     if (!user) return;
-    const newSubs = typeof updater === 'function' ? updater(subscriptions) : updater;
-    setSubscriptionsState(newSubs);
-    
-    await withSaveStatus(async () => {
-      const { data: existing } = await supabase
-        .from('subscriptions')
-        .select('id')
-        .eq('user_id', user.id);
-      const existingIds = new Set(existing?.map(s => s.id) || []);
-      
-      for (const s of newSubs) {
-        const idStr = String(s.id);
-        if (isUUID(s.id) && existingIds.has(idStr)) {
-          await supabase.from('subscriptions')
-            .update({ name: s.name, amount: s.amount })
-            .eq('id', idStr);
-        } else if (!isUUID(s.id)) {
-          await supabase.from('subscriptions').insert({
-            user_id: user.id,
-            name: s.name,
-            amount: s.amount
-          });
-        }
-      }
-      
-      const newIds = newSubs.filter(s => isUUID(s.id)).map(s => String(s.id));
-      const toDelete = existing?.filter(s => !newIds.includes(s.id)) || [];
-      for (const s of toDelete) {
-        await supabase.from('subscriptions').delete().eq('id', s.id);
-      }
-    });
+    const next = resolve(updater, subscriptionsRef.current).map(ensureId);
+
+    await commit(subscriptionsRef, setSubscriptionsState, next, async (prev, nextSubs) => {
+      const { upserts, deletes } = diffRows(
+        prev.map(s => toSubscriptionRow(s, user.id)),
+        nextSubs.map(s => toSubscriptionRow(s, user.id)),
+        row => row.id!
+      );
+      await queueUpserts('subscriptions', upserts);
+      await queueDeletes('subscriptions', deletes, user.id);
+    }, async () => (await readLocalSnapshot(user.id)).subscriptions);
   };
 
   // Gemini API key operations
   const setGeminiApiKey = async (apiKey: string) => {
     if (!user) return;
     setGeminiApiKeyState(apiKey);
-    
+
     await withSaveStatus(async () => {
       await supabase.from('user_settings').upsert({
         user_id: user.id,
@@ -601,68 +509,31 @@ export function useSupabaseData() {
     });
   };
 
-  // Savings goals operations - returns updated goals with DB UUIDs
-  const setSavingsGoals = async (updater: SavingsGoal[] | ((prev: SavingsGoal[]) => SavingsGoal[])) => {
+  // Savings goals operations
+  const setSavingsGoals = async (updater: Updater<SavingsGoal[]>) => {
     if (!user) return;
-    const newGoals = typeof updater === 'function' ? updater(savingsGoals) : updater;
-    setSavingsGoalsState(newGoals);
-    
-    await withSaveStatus(async () => {
-      const { data: existing } = await supabase
-        .from('savings_goals')
-        .select('id')
-        .eq('user_id', user.id);
-      const existingIds = new Set(existing?.map(s => s.id) || []);
-      
-      const updatedGoals: SavingsGoal[] = [];
-      
-      for (const s of newGoals) {
-        const idStr = String(s.id);
-        if (isUUID(s.id) && existingIds.has(idStr)) {
-          await supabase.from('savings_goals')
-            .update({ name: s.name, target: s.target, current: s.current })
-            .eq('id', idStr);
-          updatedGoals.push(s);
-        } else if (!isUUID(s.id)) {
-          // Insert and get the real UUID back
-          const { data: inserted, error } = await supabase.from('savings_goals')
-            .insert({
-              user_id: user.id,
-              name: s.name,
-              target: s.target,
-              current: s.current
-            })
-            .select('id')
-            .single();
-          
-          if (!error && inserted) {
-            // Replace temp ID with real UUID
-            updatedGoals.push({ ...s, id: inserted.id });
-          } else {
-            console.error('Failed to insert savings goal:', error);
-            updatedGoals.push(s);
-          }
-        }
-      }
-      
-      // Update state with real UUIDs
-      setSavingsGoalsState(updatedGoals);
-      
-      const newIds = updatedGoals.filter(s => isUUID(s.id)).map(s => String(s.id));
-      const toDelete = existing?.filter(s => !newIds.includes(s.id)) || [];
-      for (const s of toDelete) {
-        await supabase.from('savings_goals').delete().eq('id', s.id);
-      }
-    });
+    const next = resolve(updater, savingsGoalsRef.current).map(ensureId);
+
+    await commit(savingsGoalsRef, setSavingsGoalsState, next, async (prev, nextGoals) => {
+      const { upserts, deletes } = diffRows(
+        prev.map(s => toSavingsGoalRow(s, user.id)),
+        nextGoals.map(s => toSavingsGoalRow(s, user.id)),
+        row => row.id!
+      );
+      await queueUpserts('savings_goals', upserts);
+      await queueDeletes('savings_goals', deletes, user.id);
+    }, async () => (await readLocalSnapshot(user.id)).savingsGoals);
   };
 
   return {
     saveStatus,
     loading,
-    tasks, setTasks,
-    systems, setSystems,
-    transactions, setTransactions,
-    journalEntries, setJournalEntries,
+    tasks, setTasks, addTask, updateTask, deleteTask,
+    systems, setSystems, addSystem, updateSystem, deleteSystem,
+    addHabit, updateHabit, deleteHabit, setHabitCompletion,
+    routines, setRoutines,
+    transactions, setTransactions, addTransaction, updateTransaction, deleteTransaction,
+    journalEntries, setJournalEntries, addJournalEntry, updateJournalEntry, deleteJournalEntry,
     budgets, setBudgets,
     categories, setCategories,
     subscriptions, setSubscriptions,
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { getSyncStatus, initOfflineDB, subscribeToSyncStatus, SyncStatus } from '@/lib/offlineSync';
+
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSyncStatus(setStatus);
+    initOfflineDB()
+      .then(() => setStatus(getSyncStatus()))
+      .catch(error => console.error('Failed to open offline store:', error));
+    return unsubscribe;
+  }, []);
+
+  return status;
+}
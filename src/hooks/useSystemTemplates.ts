@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SystemTemplate } from '@/lib/types';
+import { rowToSystemTemplate } from '@/lib/systemTemplates';
+
+// The published template library; only loaded when enabled so the goal wizard
+// doesn't fetch it until the user browses templates
+export function useSystemTemplates(enabled = true) {
+  const [templates, setTemplates] = useState<SystemTemplate[]>([]);
+  const [loading, setLoading] = useState(enabled);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!enabled) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('system_templates')
+        .select('*')
+        .eq('is_published', true)
+        .order('order_index');
+
+      if (error) throw error;
+      setTemplates((data || []).map(rowToSystemTemplate));
+    } catch (err) {
+      console.error('Error fetching system templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  return { templates, loading, refetch: fetchTemplates };
+}
@@ -2,11 +2,16 @@ import { createContext, useContext, useState, useEffect, useCallback, ReactNode
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useExchangeRates, currencySymbolToCode, currencyCodeToSymbol } from './useExchangeRates';
+import { DEFAULT_POMODORO_SETTINGS, PomodoroSettings, normalizePomodoroSettings } from '@/lib/pomodoro';
 
 export interface UserPreferences {
   theme: 'light' | 'dark' | 'system';
   currency: string;
   week_start: 'sunday' | 'monday';
+  // Count linked task completion in goal progress alongside habit check-ins
+  goal_progress_includes_tasks: boolean;
+  // Focus timer work/break lengths when running Pomodoro cycles
+  pomodoro: PomodoroSettings;
 }
 
 export interface UserNotifications {
@@ -36,6 +41,8 @@ const defaultPreferences: UserPreferences = {
   theme: 'system',
   currency: '₦',
   week_start: 'monday',
+  goal_progress_includes_tasks: false,
+  pomodoro: DEFAULT_POMODORO_SETTINGS,
 };
 
 const defaultNotifications: UserNotifications = {
@@ -105,7 +112,7 @@ export function UserSettingsProvider({ children }: { children: ReactNode }) {
         const notifs = data.notifications as unknown as UserNotifications | null;
         
         if (prefs) {
-          const mergedPrefs = { ...defaultPreferences, ...prefs };
+          const mergedPrefs = { ...defaultPreferences, ...prefs, pomodoro: normalizePomodoroSettings(prefs.pomodoro) };
           setPreferences(mergedPrefs);
           applyTheme(mergedPrefs.theme);
         }
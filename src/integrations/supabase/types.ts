@@ -167,23 +167,49 @@ export type Database = {
       budgets: {
         Row: {
           amount: number
+          bank_account_id: string | null
           category: string
+          end_date: string | null
           id: string
+          period: string
+          rollover: boolean
+          start_date: string
+          updated_at: string
           user_id: string
         }
         Insert: {
           amount: number
+          bank_account_id?: string | null
           category: string
+          end_date?: string | null
           id?: string
+          period?: string
+          rollover?: boolean
+          start_date?: string
+          updated_at?: string
           user_id: string
         }
         Update: {
           amount?: number
+          bank_account_id?: string | null
           category?: string
+          end_date?: string | null
           id?: string
+          period?: string
+          rollover?: boolean
+          start_date?: string
+          updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "budgets_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       categories: {
         Row: {
@@ -283,6 +309,8 @@ export type Database = {
           created_at: string
           duration_minutes: number
           id: string
+          pomodoro_cycle: number | null
+          pomodoro_run_id: string | null
           task_id: string | null
           task_label: string | null
           user_id: string
@@ -292,6 +320,8 @@ export type Database = {
           created_at?: string
           duration_minutes: number
           id?: string
+          pomodoro_cycle?: number | null
+          pomodoro_run_id?: string | null
           task_id?: string | null
           task_label?: string | null
           user_id: string
@@ -301,6 +331,8 @@ export type Database = {
           created_at?: string
           duration_minutes?: number
           id?: string
+          pomodoro_cycle?: number | null
+          pomodoro_run_id?: string | null
           task_id?: string | null
           task_label?: string | null
           user_id?: string
@@ -319,23 +351,32 @@ export type Database = {
         Row: {
           completed: boolean
           date: string
+          frozen: boolean
           habit_id: string
           id: string
+          updated_at: string
           user_id: string
+          value: number | null
         }
         Insert: {
           completed?: boolean
           date: string
+          frozen?: boolean
           habit_id: string
           id?: string
+          updated_at?: string
           user_id: string
+          value: number | null
         }
         Update: {
           completed?: boolean
           date?: string
+          frozen?: boolean
           habit_id?: string
           id?: string
+          updated_at?: string
           user_id?: string
+          value?: number | null
         }
         Relationships: [
           {
@@ -349,24 +390,42 @@ export type Database = {
       }
       habits: {
         Row: {
+          archived_at: string | null
           created_at: string
           id: string
           name: string
+          pauses: Json
+          schedule: Json
           system_id: string | null
+          target_amount: number | null
+          target_unit: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           id?: string
           name: string
+          pauses?: Json
+          schedule?: Json
           system_id?: string | null
+          target_amount?: number | null
+          target_unit?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           id?: string
           name?: string
+          pauses?: Json
+          schedule?: Json
           system_id?: string | null
+          target_amount?: number | null
+          target_unit?: string | null
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
@@ -562,6 +621,36 @@ export type Database = {
         }
         Relationships: []
       }
+      routines: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          start_time: string | null
+          steps: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          start_time?: string | null
+          steps?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          start_time?: string | null
+          steps?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       savings_entries: {
         Row: {
           amount: number
@@ -639,26 +728,58 @@ export type Database = {
       subscriptions: {
         Row: {
           amount: number
+          auto_post: boolean
+          bank_account_id: string | null
+          billing_anchor_day: number | null
+          billing_cycle: string
+          category: string
           created_at: string
+          currency: string
           id: string
           name: string
+          next_charge_date: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
           amount: number
+          auto_post?: boolean
+          bank_account_id?: string | null
+          billing_anchor_day?: number | null
+          billing_cycle?: string
+          category?: string
           created_at?: string
+          currency?: string
           id?: string
           name: string
+          next_charge_date?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
           amount?: number
+          auto_post?: boolean
+          bank_account_id?: string | null
+          billing_anchor_day?: number | null
+          billing_cycle?: string
+          category?: string
           created_at?: string
+          currency?: string
           id?: string
           name?: string
+          next_charge_date?: string | null
+          updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       support_tickets: {
         Row: {
@@ -693,27 +814,123 @@ export type Database = {
         }
         Relationships: []
       }
+      system_partners: {
+        Row: {
+          created_at: string
+          id: string
+          invited_email: string
+          owner_id: string
+          partner_id: string | null
+          partner_system_id: string | null
+          status: string
+          system_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invited_email: string
+          owner_id: string
+          partner_id?: string | null
+          partner_system_id?: string | null
+          status?: string
+          system_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invited_email?: string
+          owner_id?: string
+          partner_id?: string | null
+          partner_system_id?: string | null
+          status?: string
+          system_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "system_partners_partner_system_id_fkey"
+            columns: ["partner_system_id"]
+            isOneToOne: false
+            referencedRelation: "systems"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "system_partners_system_id_fkey"
+            columns: ["system_id"]
+            isOneToOne: false
+            referencedRelation: "systems"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      system_templates: {
+        Row: {
+          category: string
+          created_at: string
+          goal: string
+          habits: Json
+          id: string
+          is_published: boolean
+          order_index: number
+          updated_at: string
+          why: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          goal: string
+          habits?: Json
+          id?: string
+          is_published?: boolean
+          order_index?: number
+          updated_at?: string
+          why?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          goal?: string
+          habits?: Json
+          id?: string
+          is_published?: boolean
+          order_index?: number
+          updated_at?: string
+          why?: string
+        }
+        Relationships: []
+      }
       systems: {
         Row: {
+          archived_at: string | null
           created_at: string
           goal: string
           id: string
+          key_results: Json
+          milestones: Json
           updated_at: string
           user_id: string
           why: string | null
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           goal: string
           id?: string
+          key_results?: Json
+          milestones?: Json
           updated_at?: string
           user_id: string
           why?: string | null
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           goal?: string
           id?: string
+          key_results?: Json
+          milestones?: Json
           updated_at?: string
           user_id?: string
           why?: string | null
@@ -725,8 +942,16 @@ export type Database = {
           alerted: boolean | null
           created_at: string
           day: string
+          deadline: string | null
           done: boolean
+          estimate_minutes: number | null
+          external_uid: string | null
           id: string
+          labels: string[]
+          occurrence_states: Json
+          parent_id: string | null
+          priority: number | null
+          recurrence: Json | null
           system_id: string | null
           text: string
           time: string | null
@@ -737,8 +962,16 @@ export type Database = {
           alerted?: boolean | null
           created_at?: string
           day: string
+          deadline?: string | null
           done?: boolean
+          estimate_minutes?: number | null
+          external_uid?: string | null
           id?: string
+          labels?: string[]
+          occurrence_states?: Json
+          parent_id?: string | null
+          priority?: number | null
+          recurrence?: Json | null
           system_id?: string | null
           text: string
           time?: string | null
@@ -749,8 +982,16 @@ export type Database = {
           alerted?: boolean | null
           created_at?: string
           day?: string
+          deadline?: string | null
           done?: boolean
+          estimate_minutes?: number | null
+          external_uid?: string | null
           id?: string
+          labels?: string[]
+          occurrence_states?: Json
+          parent_id?: string | null
+          priority?: number | null
+          recurrence?: Json | null
           system_id?: string | null
           text?: string
           time?: string | null
@@ -758,6 +999,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "tasks_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_system_id_fkey"
             columns: ["system_id"]
@@ -776,9 +1024,15 @@ export type Database = {
           date: string
           description: string | null
           external_reference: string | null
+          fx_rate: number | null
           id: string
           source: string
+          splits: Json
+          subscription_id: string | null
+          transfer_direction: string | null
+          transfer_id: string | null
           type: string
+          updated_at: string
           user_id: string
         }
         Insert: {
@@ -789,9 +1043,15 @@ export type Database = {
           date: string
           description?: string | null
           external_reference?: string | null
+          fx_rate?: number | null
           id?: string
           source?: string
+          splits?: Json
+          subscription_id?: string | null
+          transfer_direction?: string | null
+          transfer_id?: string | null
           type: string
+          updated_at?: string
           user_id: string
         }
         Update: {
@@ -802,9 +1062,15 @@ export type Database = {
           date?: string
           description?: string | null
           external_reference?: string | null
+          fx_rate?: number | null
           id?: string
           source?: string
+          splits?: Json
+          subscription_id?: string | null
+          transfer_direction?: string | null
+          transfer_id?: string | null
           type?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
@@ -815,6 +1081,13 @@ export type Database = {
             referencedRelation: "bank_accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_hint_dismissals: {
@@ -1017,7 +1290,36 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_system_invite: {
+        Args: { _invite_id: string; _system_id?: string }
+        Returns: string
+      }
+      can_view_shared_system: { Args: { _system_id: string }; Returns: boolean }
+      get_accountability_groups: {
+        Args: never
+        Returns: {
+          display_name: string
+          goal: string
+          group_id: string
+          is_owner: boolean
+          system_id: string | null
+          user_id: string
+        }[]
+      }
+      get_habit_streaks: { Args: { uid: string }; Returns: Json }
+      get_system_invites: {
+        Args: never
+        Returns: {
+          created_at: string
+          goal: string
+          id: string
+          owner_name: string
+          system_id: string
+        }[]
+      }
       get_user_context: { Args: { uid: string }; Returns: Json }
+      habit_is_due: { Args: { d: string; schedule: Json }; Returns: boolean }
+      habit_is_paused: { Args: { d: string; pauses: Json }; Returns: boolean }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1025,6 +1327,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      send_partner_nudge: {
+        Args: { _group_id: string; _to_user_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
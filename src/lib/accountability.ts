@@ -0,0 +1,97 @@
+import { Habit, System } from './types';
+import { getHabitWeekProgress } from './habitSchedule';
+import { isArchived } from './archive';
+
+export interface AccountabilityMember {
+  userId: string;
+  displayName: string;
+  // The goal the member checks in on; null once they delete it
+  systemId: string | null;
+  isOwner: boolean;
+}
+
+// Partners working on the same goal. The group is identified by the owner's goal.
+export interface AccountabilityGroup {
+  id: string;
+  goal: string;
+  members: AccountabilityMember[];
+}
+
+// An invite waiting on the current user
+export interface PartnerInvite {
+  id: string;
+  systemId: string;
+  goal: string;
+  ownerName: string;
+  createdAt: string;
+}
+
+// An invite the current user sent for one of their goals
+export interface SystemPartner {
+  id: string;
+  systemId: string;
+  email: string;
+  status: 'pending' | 'accepted';
+}
+
+export interface LeaderboardEntry {
+  member: AccountabilityMember;
+  system: System | null;
+  completed: number;
+  total: number;
+  // 0-100, share of the week's asked-for check-ins done
+  rate: number;
+}
+
+export interface AccountabilityGroupRow {
+  group_id: string;
+  goal: string;
+  user_id: string;
+  display_name: string;
+  system_id: string | null;
+  is_owner: boolean;
+}
+
+export function rowsToGroups(rows: AccountabilityGroupRow[]): AccountabilityGroup[] {
+  const groups = new Map<string, AccountabilityGroup>();
+  rows.forEach(row => {
+    const group = groups.get(row.group_id) || { id: row.group_id, goal: row.goal, members: [] };
+    group.members.push({
+      userId: row.user_id,
+      displayName: row.display_name,
+      systemId: row.system_id,
+      isOwner: row.is_owner,
+    });
+    groups.set(row.group_id, group);
+  });
+  return [...groups.values()];
+}
+
+export function getActiveHabits(system: System | null): Habit[] {
+  return system ? system.habits.filter(habit => !isArchived(habit)) : [];
+}
+
+// Members ranked by how much of the week's check-ins they've done, then by count
+export function getLeaderboard(group: AccountabilityGroup, systems: System[], weekDates: string[]): LeaderboardEntry[] {
+  return group.members
+    .map(member => {
+      const system = systems.find(s => String(s.id) === member.systemId) || null;
+      const { completed, total } = getActiveHabits(system).reduce(
+        (acc, habit) => {
+          const progress = getHabitWeekProgress(habit, weekDates);
+          return { completed: acc.completed + progress.completed, total: acc.total + progress.total };
+        },
+        { completed: 0, total: 0 }
+      );
+      return { member, system, completed, total, rate: total > 0 ? Math.round((completed / total) * 100) : 0 };
+    })
+    .sort((a, b) => b.rate - a.rate || b.completed - a.completed);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
@@ -0,0 +1,60 @@
+import { subDays } from 'date-fns';
+import { Habit, System } from './types';
+import { getTodayKey, parseDateKey, toDateKey } from './taskDates';
+import { pauseHabit } from './habitSchedule';
+
+export interface ArchivedHabit {
+  habit: Habit;
+  system: System;
+}
+
+export const isArchived = (item: { archivedAt?: string | null }) => !!item.archivedAt;
+
+// Systems still in play, with their archived habits left out
+export function getActiveSystems(systems: System[]): System[] {
+  return systems
+    .filter(system => !isArchived(system))
+    .map(system => ({ ...system, habits: system.habits.filter(habit => !isArchived(habit)) }));
+}
+
+export function getArchivedSystems(systems: System[]): System[] {
+  return systems.filter(isArchived);
+}
+
+// Archived habits of goals that are themselves still active
+export function getArchivedHabits(systems: System[]): ArchivedHabit[] {
+  return systems
+    .filter(system => !isArchived(system))
+    .flatMap(system => system.habits.filter(isArchived).map(habit => ({ habit, system })));
+}
+
+// The days a habit spent archived are excused like a pause, so restoring it
+// doesn't show them as missed
+function excuseArchivedDays(habit: Habit, archivedAt: string, today: string): Habit {
+  const from = toDateKey(new Date(archivedAt));
+  const until = toDateKey(subDays(parseDateKey(today), 1));
+  return from <= until ? pauseHabit(habit, from, until) : habit;
+}
+
+export function archiveHabit(habit: Habit): Habit {
+  return { ...habit, archivedAt: new Date().toISOString() };
+}
+
+export function restoreHabit(habit: Habit, today: string = getTodayKey()): Habit {
+  if (!habit.archivedAt) return habit;
+  return { ...excuseArchivedDays(habit, habit.archivedAt, today), archivedAt: null };
+}
+
+export function archiveSystem(system: System): System {
+  return { ...system, archivedAt: new Date().toISOString() };
+}
+
+export function restoreSystem(system: System, today: string = getTodayKey()): System {
+  const { archivedAt } = system;
+  if (!archivedAt) return system;
+  return {
+    ...system,
+    archivedAt: null,
+    habits: system.habits.map(habit => isArchived(habit) ? habit : excuseArchivedDays(habit, archivedAt, today)),
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { getBudgetHistory, getBudgetLevel, getBudgetUsage, normalizeBudgets } from './budgets';
+import { Budget, Transaction } from './types';
+
+const budget = (overrides: Partial<Budget> = {}): Budget => ({
+  id: 'b-1',
+  category: 'Food',
+  amount: 100,
+  period: 'monthly',
+  startDate: '2024-01-01',
+  ...overrides,
+});
+
+const expense = (date: string, amount: number, overrides: Partial<Transaction> = {}): Transaction => ({
+  id: `t-${date}-${amount}`,
+  type: 'expense',
+  amount,
+  category: 'Food',
+  description: '',
+  date,
+  ...overrides,
+});
+
+describe('budget periods', () => {
+  it('follows calendar months from the first of the month', () => {
+    expect(getBudgetUsage(budget(), [], '2024-02-29')).toMatchObject({ start: '2024-02-01', end: '2024-02-29' });
+  });
+
+  it('keeps a month-end start day, falling back in shorter months', () => {
+    const history = getBudgetHistory(budget({ startDate: '2024-01-31' }), [], '2024-03-31');
+    expect(history.map(p => [p.start, p.end])).toEqual([
+      ['2024-01-31', '2024-02-28'],
+      ['2024-02-29', '2024-03-30'],
+      ['2024-03-31', '2024-04-29'],
+    ]);
+    expect(getBudgetUsage(budget({ startDate: '2024-01-31' }), [], '2024-03-30')).toMatchObject({ start: '2024-02-29' });
+  });
+
+  it('repeats weekly periods from the start day', () => {
+    expect(getBudgetUsage(budget({ period: 'weekly', startDate: '2024-01-03' }), [], '2024-01-16'))
+      .toMatchObject({ start: '2024-01-10', end: '2024-01-16' });
+  });
+
+  it('reports a custom range\'s one period, even after it ends', () => {
+    const custom = budget({ period: 'custom', startDate: '2024-03-10', endDate: '2024-03-20' });
+    expect(getBudgetHistory(custom, [], '2024-06-01')).toHaveLength(1);
+    expect(getBudgetUsage(custom, [], '2024-06-01')).toMatchObject({ start: '2024-03-10', end: '2024-03-20' });
+  });
+
+  it('has no usage before the budget starts', () => {
+    expect(getBudgetUsage(budget({ startDate: '2024-02-01' }), [], '2024-01-31')).toBeNull();
+  });
+});
+
+describe('budget spending', () => {
+  it('counts expenses in the category, period and account', () => {
+    const transactions = [
+      expense('2024-01-05', 30),
+      expense('2024-01-06', 20, { bank_account_id: 'acc-1' }),
+      expense('2024-01-07', 40, { category: 'Transport' }),
+      expense('2024-01-08', 50, { type: 'income' }),
+      expense('2024-02-01', 60),
+    ];
+    expect(getBudgetUsage(budget(), transactions, '2024-01-31')).toMatchObject({ spent: 50, percent: 50 });
+    expect(getBudgetUsage(budget({ bankAccountId: 'acc-1' }), transactions, '2024-01-31')).toMatchObject({ spent: 20 });
+  });
+
+  it('counts only the matching lines of a split expense', () => {
+    const split = expense('2024-01-05', 90, {
+      category: 'Split',
+      splits: [{ category: 'Food', amount: 60 }, { category: 'Household', amount: 30 }],
+    });
+    expect(getBudgetUsage(budget(), [split], '2024-01-31')).toMatchObject({ spent: 60 });
+  });
+
+  it('carries unspent money forward but not overspending', () => {
+    const transactions = [expense('2024-01-10', 70), expense('2024-02-10', 150), expense('2024-03-10', 40)];
+    const history = getBudgetHistory(budget({ rollover: true }), transactions, '2024-03-15');
+    expect(history.map(p => [p.carriedOver, p.limit, p.spent])).toEqual([
+      [0, 100, 70],
+      [30, 130, 150],
+      [0, 100, 40],
+    ]);
+    expect(getBudgetUsage(budget(), transactions, '2024-02-15')).toMatchObject({ carriedOver: 0, limit: 100, percent: 150 });
+  });
+});
+
+describe('getBudgetLevel', () => {
+  it('warns from 80% and is over from 100%', () => {
+    expect(getBudgetLevel(79.9)).toBe('ok');
+    expect(getBudgetLevel(80)).toBe('warning');
+    expect(getBudgetLevel(100)).toBe('over');
+  });
+});
+
+describe('normalizeBudgets', () => {
+  it('turns old category limits into monthly budgets', () => {
+    const budgets = normalizeBudgets({ Food: 100, Transport: 50 });
+    expect(budgets.map(b => [b.category, b.amount, b.period])).toEqual([['Food', 100, 'monthly'], ['Transport', 50, 'monthly']]);
+    expect(budgets[0].startDate).toMatch(/^\d{4}-\d{2}-01$/);
+    expect(normalizeBudgets([budget()])).toEqual([budget()]);
+  });
+});
@@ -0,0 +1,131 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, differenceInCalendarMonths, startOfMonth } from 'date-fns';
+import { Budget, BudgetPeriod, Transaction } from './types';
+import { parseDateKey, toDateKey } from './taskDates';
+import { getCategoryAmount, hasCategory } from './splits';
+
+export const BUDGET_PERIODS: { value: BudgetPeriod; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+// Share of a budget spent, in percent, that counts as a warning and as over budget.
+// notification-cron warns at the same thresholds.
+export const BUDGET_WARNING_PERCENT = 80;
+export const BUDGET_LIMIT_PERCENT = 100;
+
+export type BudgetLevel = 'ok' | 'warning' | 'over';
+
+// Inclusive yyyy-MM-dd bounds of one budget period
+export interface BudgetPeriodRange {
+  start: string;
+  end: string;
+}
+
+export interface BudgetPeriodUsage extends BudgetPeriodRange {
+  // Unspent money brought forward from the previous period
+  carriedOver: number;
+  // The budget amount plus carriedOver
+  limit: number;
+  spent: number;
+  // Share of the limit spent; goes past 100 when over budget
+  percent: number;
+}
+
+// Default start for new budgets, so monthly ones follow calendar months
+export function getMonthStartKey(date = new Date()): string {
+  return toDateKey(startOfMonth(date));
+}
+
+export function getBudgetPeriodLabel(period: BudgetPeriod): string {
+  return BUDGET_PERIODS.find(p => p.value === period)?.label || 'Monthly';
+}
+
+// Start of the index-th period; monthly periods keep the start day, falling
+// back to the last day of shorter months
+function getPeriodStart(budget: Budget, index: number): string {
+  const start = parseDateKey(budget.startDate);
+  return toDateKey(budget.period === 'weekly' ? addWeeks(start, index) : addMonths(start, index));
+}
+
+function getPeriodRange(budget: Budget, index: number): BudgetPeriodRange {
+  if (budget.period === 'custom') {
+    return { start: budget.startDate, end: budget.endDate || budget.startDate };
+  }
+  const nextStart = parseDateKey(getPeriodStart(budget, index + 1));
+  return { start: getPeriodStart(budget, index), end: toDateKey(addDays(nextStart, -1)) };
+}
+
+// Index of the period containing dateKey, or -1 before the budget starts
+function getPeriodIndex(budget: Budget, dateKey: string): number {
+  if (dateKey < budget.startDate) return -1;
+  if (budget.period === 'custom') return 0;
+
+  const date = parseDateKey(dateKey);
+  const start = parseDateKey(budget.startDate);
+  if (budget.period === 'weekly') {
+    return Math.floor(differenceInCalendarDays(date, start) / 7);
+  }
+  const index = differenceInCalendarMonths(date, start);
+  return getPeriodStart(budget, index) > dateKey ? index - 1 : index;
+}
+
+// Expenses the budget covers: its category (or a split line in it), and its
+// account when it has one
+function getBudgetExpenses(budget: Budget, transactions: Transaction[]): Transaction[] {
+  return transactions.filter(t =>
+    t.type === 'expense' &&
+    hasCategory(t, budget.category) &&
+    (!budget.bankAccountId || t.bank_account_id === budget.bankAccountId)
+  );
+}
+
+// Every period from the budget's start up to the one containing dateKey, oldest
+// first. A custom range that has already ended still reports its one period.
+export function getBudgetHistory(budget: Budget, transactions: Transaction[], dateKey: string): BudgetPeriodUsage[] {
+  const lastIndex = getPeriodIndex(budget, dateKey);
+  if (lastIndex < 0) return [];
+
+  const expenses = getBudgetExpenses(budget, transactions);
+  const history: BudgetPeriodUsage[] = [];
+  let carriedOver = 0;
+
+  for (let index = 0; index <= lastIndex; index++) {
+    const range = getPeriodRange(budget, index);
+    const spent = expenses
+      .filter(t => t.date >= range.start && t.date <= range.end)
+      .reduce((sum, t) => sum + getCategoryAmount(t, budget.category), 0);
+    const limit = budget.amount + carriedOver;
+    history.push({ ...range, carriedOver, limit, spent, percent: limit > 0 ? (spent / limit) * 100 : 0 });
+
+    // Overspending isn't carried forward, only money left over
+    carriedOver = budget.rollover ? Math.max(0, limit - spent) : 0;
+  }
+
+  return history;
+}
+
+// Usage for the period containing dateKey (or a custom range's final figures)
+export function getBudgetUsage(budget: Budget, transactions: Transaction[], dateKey: string): BudgetPeriodUsage | null {
+  const history = getBudgetHistory(budget, transactions, dateKey);
+  return history.length > 0 ? history[history.length - 1] : null;
+}
+
+// Backups made before budgets had periods map each category to a monthly limit
+export function normalizeBudgets(budgets: Budget[] | Record<string, number>): Budget[] {
+  if (Array.isArray(budgets)) return budgets;
+  const monthStart = getMonthStartKey();
+  return Object.entries(budgets).map(([category, amount], index) => ({
+    id: Date.now() + index,
+    category,
+    amount: Number(amount),
+    period: 'monthly',
+    startDate: monthStart,
+  }));
+}
+
+export function getBudgetLevel(percent: number): BudgetLevel {
+  if (percent >= BUDGET_LIMIT_PERCENT) return 'over';
+  if (percent >= BUDGET_WARNING_PERCENT) return 'warning';
+  return 'ok';
+}
@@ -130,6 +130,51 @@ export const cancelTaskReminder = async (taskId: string) => {
   }
 };
 
+// Focus timer phase end; one fixed id since only one session runs at a time
+const FOCUS_TIMER_NOTIFICATION_ID = 7001;
+
+export const scheduleFocusTimerNotification = async (
+  title: string,
+  body: string,
+  endsAt: Date
+) => {
+  if (isNative()) {
+    const permission = await LocalNotifications.checkPermissions();
+    if (permission.display !== 'granted') {
+      const request = await LocalNotifications.requestPermissions();
+      if (request.display !== 'granted') {
+        return false;
+      }
+    }
+
+    await LocalNotifications.cancel({
+      notifications: [{ id: FOCUS_TIMER_NOTIFICATION_ID }]
+    });
+    await LocalNotifications.schedule({
+      notifications: [
+        {
+          id: FOCUS_TIMER_NOTIFICATION_ID,
+          title,
+          body,
+          schedule: { at: endsAt, allowWhileIdle: true },
+          sound: 'beep.wav',
+          actionTypeId: 'FOCUS_TIMER'
+        }
+      ]
+    });
+    return true;
+  }
+  return false;
+};
+
+export const cancelFocusTimerNotification = async () => {
+  if (isNative()) {
+    await LocalNotifications.cancel({
+      notifications: [{ id: FOCUS_TIMER_NOTIFICATION_ID }]
+    });
+  }
+};
+
 // Preferences (local settings storage)
 export const setPreference = async (key: string, value: string) => {
   if (isNative()) {
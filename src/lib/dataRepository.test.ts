@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Serves `total` rows for the range each request asks for, like PostgREST
+const server = vi.hoisted(() => ({
+  total: 0,
+  failOnPage: -1,
+  requests: [] as [number, number][],
+}));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: () => query,
+    range: async (from: number, to: number) => {
+      server.requests.push([from, to]);
+      if (server.requests.length - 1 === server.failOnPage) return { data: null, error: new Error('timeout') };
+      const rows = [];
+      for (let i = from; i <= Math.min(to, server.total - 1); i++) rows.push({ id: `row-${i}`, user_id: 'user' });
+      return { data: rows, error: null };
+    },
+  };
+  return { supabase: { from: () => query } };
+});
+
+import { fetchRows } from './dataRepository';
+
+describe('fetchRows', () => {
+  beforeEach(() => {
+    server.total = 0;
+    server.failOnPage = -1;
+    server.requests = [];
+  });
+
+  it('reads every page until a short one comes back', async () => {
+    server.total = 2500;
+    const rows = await fetchRows('tasks', 'user');
+    expect(rows).toHaveLength(2500);
+    expect(new Set(rows.map(r => r.id)).size).toBe(2500);
+    expect(server.requests).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it('asks once more after a full last page', async () => {
+    server.total = 1000;
+    expect(await fetchRows('tasks', 'user')).toHaveLength(1000);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('throws instead of returning part of the table', async () => {
+    server.total = 2500;
+    server.failOnPage = 1;
+    await expect(fetchRows('tasks', 'user')).rejects.toThrow('timeout');
+  });
+});
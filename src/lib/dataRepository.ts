@@ -0,0 +1,460 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import {
+  Tasks, System, Transaction, JournalEntry, Budget, Subscription, SavingsGoal, RecurrenceRule, OccurrenceState, TaskPriority,
+  HabitSchedule, Milestone, KeyResult, Routine, RoutineStep, PausePeriod, BillingCycle,
+  BudgetPeriod, TransferDirection, TransactionSplit
+} from './types';
+import { normalizeTaskDay } from './taskDates';
+import { DEFAULT_HABIT_SCHEDULE } from './habitSchedule';
+import { getMonthStartKey } from './budgets';
+import { StoreName, getAllFromLocal, refreshFromServer } from './offlineSync';
+
+type TableName = keyof Database['public']['Tables'];
+type TableRow<T extends TableName> = Database['public']['Tables'][T]['Row'];
+type TableInsert<T extends TableName> = Database['public']['Tables'][T]['Insert'];
+
+// The generic table name defeats supabase-js' per-table typing, so the shared
+// fetch helper goes through an untyped view of the client and returns typed rows
+const db = supabase as unknown as SupabaseClient;
+
+export function isUUID(id: string | number): boolean {
+  const str = String(id);
+  return str.includes('-') && str.length === 36;
+}
+
+// Entities get their database id on the client so offline inserts can be queued as upserts
+export function createId(): string {
+  return crypto.randomUUID();
+}
+
+export function ensureId<T extends { id: string | number }>(entity: T): T {
+  return isUUID(entity.id) ? entity : { ...entity, id: createId() };
+}
+
+export interface RowDiff<R> {
+  upserts: R[];
+  deletes: string[];
+}
+
+// Compare two row sets by key and return only what changed
+export function diffRows<R>(prev: R[], next: R[], getKey: (row: R) => string): RowDiff<R> {
+  const prevByKey = new Map(prev.map(row => [getKey(row), JSON.stringify(row)]));
+  const nextKeys = new Set<string>();
+  const upserts: R[] = [];
+
+  next.forEach(row => {
+    const key = getKey(row);
+    nextKeys.add(key);
+    if (prevByKey.get(key) !== JSON.stringify(row)) upserts.push(row);
+  });
+
+  const deletes = [...prevByKey.keys()].filter(key => !nextKeys.has(key));
+  return { upserts, deletes };
+}
+
+// ---- Row mappers ----
+
+export function toTaskRows(tasks: Tasks, userId: string): TableInsert<'tasks'>[] {
+  const rows = Object.entries(tasks).flatMap(([day, dayTasks]) =>
+    dayTasks.map(task => ({
+      id: String(task.id),
+      user_id: userId,
+      day,
+      text: task.text,
+      done: task.done,
+      time: task.time || null,
+      alerted: task.alerted || false,
+      recurrence: (task.recurrence || null) as unknown as Json,
+      occurrence_states: (task.occurrenceStates || {}) as Json,
+      parent_id: task.parentId ? String(task.parentId) : null,
+      priority: task.priority || null,
+      estimate_minutes: task.estimateMinutes || null,
+      deadline: task.deadline || null,
+      labels: task.labels || [],
+      system_id: task.systemId ? String(task.systemId) : null,
+      external_uid: task.externalUid || null,
+    }))
+  );
+  // Parents first so a new subtask's foreign key resolves when the queue replays
+  return [...rows.filter(row => !row.parent_id), ...rows.filter(row => row.parent_id)];
+}
+
+export function toSystemRows(systems: System[], userId: string) {
+  const systemRows: TableInsert<'systems'>[] = [];
+  const habitRows: TableInsert<'habits'>[] = [];
+  const completionRows: TableInsert<'habit_completions'>[] = [];
+
+  systems.forEach(system => {
+    systemRows.push({
+      id: String(system.id),
+      user_id: userId,
+      goal: system.goal,
+      why: system.why,
+      milestones: (system.milestones || []) as unknown as Json,
+      key_results: (system.keyResults || []) as unknown as Json,
+      archived_at: system.archivedAt || null,
+    });
+    system.habits.forEach(habit => {
+      habitRows.push({
+        id: String(habit.id),
+        user_id: userId,
+        system_id: String(system.id),
+        name: habit.name,
+        schedule: (habit.schedule || DEFAULT_HABIT_SCHEDULE) as unknown as Json,
+        target_amount: habit.target?.amount ?? null,
+        target_unit: habit.target ? habit.target.unit : null,
+        pauses: (habit.pauses || []) as unknown as Json,
+        archived_at: habit.archivedAt || null,
+      });
+      // Frozen days get a row even when nothing was logged
+      const dates = new Set([...Object.keys(habit.completed), ...Object.keys(habit.frozen || {})]);
+      dates.forEach(date => {
+        completionRows.push({
+          habit_id: String(habit.id),
+          user_id: userId,
+          date,
+          completed: habit.completed[date] ?? false,
+          value: habit.values?.[date] ?? null,
+          frozen: habit.frozen?.[date] ?? false,
+        });
+      });
+    });
+  });
+
+  return { systemRows, habitRows, completionRows };
+}
+
+export function toRoutineRow(r: Routine, userId: string): TableInsert<'routines'> {
+  return {
+    id: String(r.id),
+    user_id: userId,
+    name: r.name,
+    start_time: r.startTime || null,
+    steps: r.steps as unknown as Json,
+  };
+}
+
+export function toTransactionRow(t: Transaction, userId: string): TableInsert<'transactions'> {
+  return {
+    id: String(t.id),
+    user_id: userId,
+    type: t.type,
+    amount: t.amount,
+    category: t.category,
+    description: t.description,
+    date: t.date,
+    bank_account_id: t.bank_account_id || null,
+    source: t.source || 'manual',
+    external_reference: t.external_reference || null,
+    transfer_id: t.transfer_id || null,
+    transfer_direction: t.transfer_direction || null,
+    fx_rate: t.fx_rate ?? null,
+    subscription_id: t.subscription_id || null,
+    splits: (t.splits || []) as unknown as Json,
+  };
+}
+
+export function toJournalRow(j: JournalEntry, userId: string): TableInsert<'journal_entries'> {
+  return {
+    id: String(j.id),
+    user_id: userId,
+    date: j.date,
+    mood: j.mood,
+    win: j.win,
+    improve: j.improve,
+    thoughts: j.thoughts,
+    tags: j.tags,
+  };
+}
+
+export function toBudgetRow(b: Budget, userId: string): TableInsert<'budgets'> {
+  return {
+    id: String(b.id),
+    user_id: userId,
+    category: b.category,
+    amount: b.amount,
+    period: b.period,
+    start_date: b.startDate,
+    end_date: b.period === 'custom' ? b.endDate || b.startDate : null,
+    rollover: b.period !== 'custom' && !!b.rollover,
+    bank_account_id: b.bankAccountId || null,
+  };
+}
+
+export function toSubscriptionRow(s: Subscription, userId: string): TableInsert<'subscriptions'> {
+  return {
+    id: String(s.id),
+    user_id: userId,
+    name: s.name,
+    amount: s.amount,
+    billing_cycle: s.billingCycle || 'monthly',
+    next_charge_date: s.nextChargeDate || null,
+    billing_anchor_day: s.billingAnchorDay ?? null,
+    currency: s.currency || 'NGN',
+    bank_account_id: s.bankAccountId || null,
+    category: s.category || 'Rent/Bills',
+    auto_post: !!s.autoPost,
+  };
+}
+
+export function toSavingsGoalRow(s: SavingsGoal, userId: string): TableInsert<'savings_goals'> {
+  return {
+    id: String(s.id),
+    user_id: userId,
+    name: s.name,
+    target: s.target,
+    current: s.current,
+    target_date: s.targetDate || null,
+  };
+}
+
+// ---- Row readers ----
+
+// Rows as kept on the device: either what this client wrote or what the server returned
+type LocalRow<T extends StoreName> = TableInsert<T>;
+
+// PostgREST returns at most this many rows per request, so larger tables are read in pages
+const FETCH_PAGE_SIZE = 1000;
+
+// Every row the user has in the table. A failed page throws rather than returning a partial
+// list, since the refresh drops local rows the server did not return.
+export async function fetchRows<T extends StoreName>(table: T, userId: string): Promise<TableRow<T>[]> {
+  const rows: TableRow<T>[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await db
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, from + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data || []) as TableRow<T>[];
+    rows.push(...page);
+    if (page.length < FETCH_PAGE_SIZE) return rows;
+  }
+}
+
+export async function readLocalRows<T extends StoreName>(table: T, userId: string): Promise<LocalRow<T>[]> {
+  const rows = await getAllFromLocal<LocalRow<T>>(table);
+  return rows.filter(row => row.user_id === userId);
+}
+
+export function rowsToTasks(rows: LocalRow<'tasks'>[]): Tasks {
+  const tasksByDay: Tasks = {};
+  rows.forEach(t => {
+    const day = normalizeTaskDay(t.day);
+    if (!tasksByDay[day]) tasksByDay[day] = [];
+    tasksByDay[day].push({
+      id: t.id!,
+      text: t.text,
+      done: t.done ?? false,
+      time: t.time || undefined,
+      alerted: t.alerted || false,
+      recurrence: (t.recurrence as unknown as RecurrenceRule) || null,
+      occurrenceStates: (t.occurrence_states as Record<string, OccurrenceState>) || {},
+      parentId: t.parent_id || null,
+      priority: (t.priority as TaskPriority) || null,
+      estimateMinutes: t.estimate_minutes || null,
+      deadline: t.deadline || null,
+      labels: t.labels || [],
+      systemId: t.system_id || null,
+      externalUid: t.external_uid || null,
+    });
+  });
+  return tasksByDay;
+}
+
+export function rowsToSystems(
+  systemRows: LocalRow<'systems'>[],
+  habitRows: LocalRow<'habits'>[],
+  completionRows: LocalRow<'habit_completions'>[]
+): System[] {
+  return systemRows.map(s => {
+    const systemHabits = habitRows.filter(h => h.system_id === s.id);
+    return {
+      id: s.id!,
+      goal: s.goal,
+      why: s.why || '',
+      milestones: (s.milestones as unknown as Milestone[] | undefined) || [],
+      keyResults: (s.key_results as unknown as KeyResult[] | undefined) || [],
+      archivedAt: s.archived_at || null,
+      habits: systemHabits.map(h => {
+        const habitCompletions = completionRows.filter(c => c.habit_id === h.id);
+        const completed: { [key: string]: boolean } = {};
+        const values: { [key: string]: number } = {};
+        const frozen: { [key: string]: boolean } = {};
+        habitCompletions.forEach(c => {
+          completed[c.date] = c.completed ?? false;
+          if (c.value != null) values[c.date] = Number(c.value);
+          if (c.frozen) frozen[c.date] = true;
+        });
+        return {
+          id: h.id!,
+          name: h.name,
+          completed,
+          schedule: (h.schedule as unknown as HabitSchedule | null) || DEFAULT_HABIT_SCHEDULE,
+          target: h.target_amount != null ? { amount: Number(h.target_amount), unit: h.target_unit || '' } : null,
+          values,
+          frozen,
+          pauses: (h.pauses as unknown as PausePeriod[] | undefined) || [],
+          archivedAt: h.archived_at || null,
+        };
+      }),
+    };
+  });
+}
+
+export function rowsToRoutines(rows: LocalRow<'routines'>[]): Routine[] {
+  return rows
+    .map(r => ({
+      id: r.id!,
+      name: r.name,
+      // The server returns HH:mm:ss
+      startTime: r.start_time ? r.start_time.slice(0, 5) : null,
+      steps: (r.steps as unknown as RoutineStep[] | undefined) || [],
+    }))
+    .sort((a, b) => (a.startTime || '99:99').localeCompare(b.startTime || '99:99') || a.name.localeCompare(b.name));
+}
+
+export function rowsToTransactions(rows: LocalRow<'transactions'>[]): Transaction[] {
+  return rows
+    .map(t => ({
+      id: t.id!,
+      type: t.type as Transaction['type'],
+      amount: Number(t.amount),
+      category: t.category,
+      description: t.description || '',
+      date: t.date,
+      bank_account_id: t.bank_account_id || null,
+      source: (t.source || 'manual') as Transaction['source'],
+      external_reference: t.external_reference || null,
+      transfer_id: t.transfer_id || null,
+      transfer_direction: (t.transfer_direction || null) as TransferDirection | null,
+      fx_rate: t.fx_rate != null ? Number(t.fx_rate) : null,
+      subscription_id: t.subscription_id || null,
+      splits: (t.splits as unknown as TransactionSplit[] | undefined) || [],
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function rowsToJournalEntries(rows: LocalRow<'journal_entries'>[]): JournalEntry[] {
+  // Entries that have not reached the server yet have no created_at and are the newest
+  const createdAt = (row: LocalRow<'journal_entries'>) => row.created_at || '9999';
+  return [...rows]
+    .sort((a, b) => createdAt(b).localeCompare(createdAt(a)))
+    .map(j => ({
+      id: j.id!,
+      date: j.date,
+      mood: j.mood,
+      win: j.win || '',
+      improve: j.improve || '',
+      thoughts: j.thoughts || '',
+      tags: j.tags || undefined,
+    }));
+}
+
+export function rowsToBudgets(rows: LocalRow<'budgets'>[]): Budget[] {
+  return rows.map(b => ({
+    id: b.id!,
+    category: b.category,
+    amount: Number(b.amount),
+    // Rows saved before budgets had periods cover calendar months
+    period: (b.period || 'monthly') as BudgetPeriod,
+    startDate: b.start_date || getMonthStartKey(),
+    endDate: b.end_date || null,
+    rollover: !!b.rollover,
+    bankAccountId: b.bank_account_id || null,
+  }));
+}
+
+export function rowsToCategories(rows: LocalRow<'categories'>[]): string[] {
+  return [...new Set(rows.map(c => c.name))];
+}
+
+export function rowsToSubscriptions(rows: LocalRow<'subscriptions'>[]): Subscription[] {
+  return rows.map(s => ({
+    id: s.id!,
+    name: s.name,
+    amount: Number(s.amount),
+    billingCycle: (s.billing_cycle || 'monthly') as BillingCycle,
+    nextChargeDate: s.next_charge_date || null,
+    billingAnchorDay: s.billing_anchor_day ?? null,
+    currency: s.currency || 'NGN',
+    bankAccountId: s.bank_account_id || null,
+    category: s.category || 'Rent/Bills',
+    autoPost: !!s.auto_post,
+  }));
+}
+
+export function rowsToSavingsGoals(rows: LocalRow<'savings_goals'>[]): SavingsGoal[] {
+  return rows.map(s => ({
+    id: s.id!,
+    name: s.name,
+    target: Number(s.target),
+    current: Number(s.current),
+    targetDate: s.target_date || undefined,
+  }));
+}
+
+export interface DataSnapshot {
+  tasks: Tasks;
+  systems: System[];
+  routines: Routine[];
+  transactions: Transaction[];
+  journalEntries: JournalEntry[];
+  budgets: Budget[];
+  categories: string[];
+  subscriptions: Subscription[];
+  savingsGoals: SavingsGoal[];
+  isEmpty: boolean;
+}
+
+// Everything the planner shows, read from the on-device store
+export async function readLocalSnapshot(userId: string): Promise<DataSnapshot> {
+  const [
+    taskRows,
+    systemRows,
+    habitRows,
+    completionRows,
+    routineRows,
+    transactionRows,
+    journalRows,
+    budgetRows,
+    categoryRows,
+    subscriptionRows,
+    savingsRows,
+  ] = await Promise.all([
+    readLocalRows('tasks', userId),
+    readLocalRows('systems', userId),
+    readLocalRows('habits', userId),
+    readLocalRows('habit_completions', userId),
+    readLocalRows('routines', userId),
+    readLocalRows('transactions', userId),
+    readLocalRows('journal_entries', userId),
+    readLocalRows('budgets', userId),
+    readLocalRows('categories', userId),
+    readLocalRows('subscriptions', userId),
+    readLocalRows('savings_goals', userId),
+  ]);
+
+  return {
+    tasks: rowsToTasks(taskRows),
+    systems: rowsToSystems(systemRows, habitRows, completionRows),
+    routines: rowsToRoutines(routineRows),
+    transactions: rowsToTransactions(transactionRows),
+    journalEntries: rowsToJournalEntries(journalRows),
+    budgets: rowsToBudgets(budgetRows),
+    categories: rowsToCategories(categoryRows),
+    subscriptions: rowsToSubscriptions(subscriptionRows),
+    savingsGoals: rowsToSavingsGoals(savingsRows),
+    isEmpty: [taskRows, systemRows, routineRows, transactionRows, journalRows, budgetRows, categoryRows, subscriptionRows, savingsRows]
+      .every(rows => rows.length === 0),
+  };
+}
+
+// Push queued edits, then refresh the device copy from the server
+export function syncWithServer(userId: string): Promise<void> {
+  return refreshFromServer(table => fetchRows(table, userId));
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FocusSessionStart,
+  advanceFocusTimer,
+  createFocusTimerState,
+  formatTime,
+  getElapsedMinutes,
+  getRemainingSeconds,
+  pauseFocusTimer,
+  resumeFocusTimer,
+} from './focusTimer';
+import { DEFAULT_POMODORO_SETTINGS } from './pomodoro';
+
+const start: FocusSessionStart = { taskId: 't-1', taskLabel: 'Write report', minutes: 10, cycles: true, runId: 'run-1' };
+const settings = { ...DEFAULT_POMODORO_SETTINGS, longBreakEvery: 2 };
+const minute = 60_000;
+
+describe('focus timer state', () => {
+  it('times a Pomodoro run by the work length and a single session by its own', () => {
+    expect(createFocusTimerState(start, settings, 0)).toMatchObject({ phase: 'work', cycle: 1, runId: 'run-1', phaseSeconds: 1500, endsAt: 25 * minute });
+    expect(createFocusTimerState({ ...start, cycles: false }, settings, 0)).toMatchObject({ runId: null, phaseSeconds: 600, endsAt: 10 * minute });
+  });
+
+  it('derives time left from the end time', () => {
+    const state = createFocusTimerState(start, settings, 0);
+    expect(getRemainingSeconds(state, 10 * minute + 500)).toBe(900);
+    expect(getRemainingSeconds(state, 30 * minute)).toBe(0);
+  });
+
+  it('keeps time left while paused and moves the end time on resume', () => {
+    const paused = pauseFocusTimer(createFocusTimerState(start, settings, 0), 5 * minute);
+    expect(paused).toMatchObject({ endsAt: null, remainingSeconds: 1200 });
+    expect(getRemainingSeconds(paused, 60 * minute)).toBe(1200);
+    expect(pauseFocusTimer(paused, 60 * minute)).toBe(paused);
+    expect(resumeFocusTimer(paused, 60 * minute).endsAt).toBe(80 * minute);
+  });
+
+  it('rounds minutes worked up, counting at least one', () => {
+    const state = createFocusTimerState(start, settings, 0);
+    expect(getElapsedMinutes(state, 1000)).toBe(1);
+    expect(getElapsedMinutes(state, 10 * minute)).toBe(10);
+    expect(getElapsedMinutes(state, 10 * minute + 1000)).toBe(11);
+  });
+});
+
+describe('advanceFocusTimer', () => {
+  it('waits for the user without auto-start', () => {
+    const next = advanceFocusTimer(createFocusTimerState(start, settings, 0), settings, 25 * minute);
+    expect(next).toMatchObject({ phase: 'shortBreak', cycle: 1, endsAt: null, remainingSeconds: 300 });
+  });
+
+  it('times the next phase from when the last one ended', () => {
+    const auto = { ...settings, autoStart: true };
+    const shortBreak = advanceFocusTimer(createFocusTimerState(start, auto, 0), auto, 25 * minute);
+    expect(shortBreak).toMatchObject({ phase: 'shortBreak', endsAt: 30 * minute });
+    const work = advanceFocusTimer(shortBreak, auto, 30 * minute);
+    expect(work).toMatchObject({ phase: 'work', cycle: 2, endsAt: 55 * minute });
+    expect(advanceFocusTimer(work, auto, 55 * minute)).toMatchObject({ phase: 'longBreak', phaseSeconds: 900, endsAt: 70 * minute });
+  });
+});
+
+describe('formatTime', () => {
+  it('pads minutes and seconds', () => {
+    expect(formatTime(65)).toBe('01:05');
+    expect(formatTime(1500)).toBe('25:00');
+  });
+});
@@ -0,0 +1,88 @@
+import { FocusPhase, PomodoroSettings, getNextPhase, getPhaseMinutes } from './pomodoro';
+
+// The running focus session. Time left is derived from endsAt rather than
+// counted down, so it stays right across throttled tabs, reloads and the
+// native app being backgrounded.
+export interface FocusTimerState {
+  phase: FocusPhase;
+  // 1-based number of the current (or last) work interval in the run
+  cycle: number;
+  // Set for Pomodoro runs so their work intervals can be grouped
+  runId: string | null;
+  cycles: boolean;
+  taskId: string | null;
+  taskLabel: string;
+  // Length of the current phase
+  phaseSeconds: number;
+  // Epoch ms the current phase ends; null while paused or waiting to start
+  endsAt: number | null;
+  // Time left while paused
+  remainingSeconds: number;
+}
+
+export interface FocusSessionStart {
+  taskId: string | null;
+  taskLabel: string;
+  // Single session length; ignored for Pomodoro cycles
+  minutes: number;
+  cycles: boolean;
+  runId: string | null;
+}
+
+export function createFocusTimerState(start: FocusSessionStart, settings: PomodoroSettings, now = Date.now()): FocusTimerState {
+  const seconds = (start.cycles ? getPhaseMinutes('work', settings) : start.minutes) * 60;
+  return {
+    phase: 'work',
+    cycle: 1,
+    runId: start.cycles ? start.runId : null,
+    cycles: start.cycles,
+    taskId: start.taskId,
+    taskLabel: start.taskLabel,
+    phaseSeconds: seconds,
+    endsAt: now + seconds * 1000,
+    remainingSeconds: seconds,
+  };
+}
+
+export function getRemainingSeconds(state: FocusTimerState, now = Date.now()): number {
+  if (state.endsAt === null) return state.remainingSeconds;
+  return Math.max(0, Math.ceil((state.endsAt - now) / 1000));
+}
+
+export function pauseFocusTimer(state: FocusTimerState, now = Date.now()): FocusTimerState {
+  if (state.endsAt === null) return state;
+  return { ...state, endsAt: null, remainingSeconds: getRemainingSeconds(state, now) };
+}
+
+export function resumeFocusTimer(state: FocusTimerState, now = Date.now()): FocusTimerState {
+  if (state.endsAt !== null) return state;
+  return { ...state, endsAt: now + state.remainingSeconds * 1000 };
+}
+
+// Moves a Pomodoro run on from a phase that ended at endedAt. With auto-start
+// the next phase is timed from endedAt, so a run that finished phases while
+// the app was closed catches up instead of restarting from now.
+export function advanceFocusTimer(state: FocusTimerState, settings: PomodoroSettings, endedAt: number): FocusTimerState {
+  const phase = getNextPhase(state.phase, state.cycle, settings);
+  const seconds = getPhaseMinutes(phase, settings) * 60;
+  return {
+    ...state,
+    phase,
+    cycle: phase === 'work' ? state.cycle + 1 : state.cycle,
+    phaseSeconds: seconds,
+    endsAt: settings.autoStart ? endedAt + seconds * 1000 : null,
+    remainingSeconds: seconds,
+  };
+}
+
+// Minutes worked in the current work phase, counting at least one
+export function getElapsedMinutes(state: FocusTimerState, now = Date.now()): number {
+  const elapsed = state.phaseSeconds - getRemainingSeconds(state, now);
+  return Math.max(1, Math.ceil(elapsed / 60));
+}
+
+export function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
@@ -0,0 +1,137 @@
+import { addDays, addWeeks, format, startOfWeek, subDays, subWeeks } from 'date-fns';
+import { Habit, JournalEntry } from './types';
+import { isDateKey, parseDateKey, toDateKey } from './taskDates';
+import { getHabitSchedule, getHabitWeekProgress, isHabitDoneOn, isHabitFrozenOn, isHabitPausedOn, isHabitScheduledOn } from './habitSchedule';
+
+export type HeatmapState = 'done' | 'partial' | 'missed' | 'frozen' | 'paused' | 'off' | 'future';
+
+export interface HeatmapCell {
+  date: string;
+  state: HeatmapState;
+  value?: number;
+}
+
+export interface WeeklyTrendPoint {
+  weekStart: string;
+  label: string;
+  // 0-100, null when nothing was due that week
+  rate: number | null;
+  // Average journal mood (1-5) that week
+  mood: number | null;
+}
+
+// Journal entries have used both yyyy-MM-dd and locale date strings
+export function toJournalDateKey(date: string): string | null {
+  if (isDateKey(date)) return date;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? null : toDateKey(parsed);
+}
+
+export function getMoodByDate(entries: JournalEntry[]): Map<string, number> {
+  const byDate = new Map<string, number[]>();
+  entries.forEach(entry => {
+    const key = toJournalDateKey(entry.date);
+    if (key && entry.mood) byDate.set(key, [...(byDate.get(key) || []), entry.mood]);
+  });
+  return new Map([...byDate].map(([key, moods]) => [key, moods.reduce((a, b) => a + b, 0) / moods.length]));
+}
+
+function getHeatmapState(habit: Habit, date: string, today: string): HeatmapState {
+  if (date > today) return 'future';
+  if (isHabitDoneOn(habit, date)) return 'done';
+  if (isHabitFrozenOn(habit, date)) return 'frozen';
+  if (isHabitPausedOn(habit, date)) return 'paused';
+  if (habit.target && (habit.values?.[date] ?? 0) > 0) return 'partial';
+  // "N times per week" habits are never missed on a single day
+  if (!isHabitScheduledOn(habit, date) || getHabitSchedule(habit).type === 'timesPerWeek') return 'off';
+  return 'missed';
+}
+
+// GitHub-style grid: one column per Monday-Sunday week, covering the last `days` days
+export function getHabitHeatmap(habit: Habit, today: string, days = 365): HeatmapCell[][] {
+  const end = parseDateKey(today);
+  const first = subDays(end, days - 1);
+  const weeks: HeatmapCell[][] = [];
+
+  for (let week = startOfWeek(first, { weekStartsOn: 1 }); week <= end; week = addWeeks(week, 1)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => {
+      const date = toDateKey(addDays(week, i));
+      return { date, state: getHeatmapState(habit, date, today), value: habit.values?.[date] };
+    }));
+  }
+  return weeks;
+}
+
+// Share of due check-ins done, per weekday (Monday = 0)
+export function getWeekdayRates(habits: Habit[], dates: string[]): Array<{ completed: number; total: number; rate: number }> {
+  const counts = Array.from({ length: 7 }, () => ({ completed: 0, total: 0 }));
+
+  dates.forEach(date => {
+    const weekday = (parseDateKey(date).getDay() + 6) % 7;
+    habits.forEach(habit => {
+      const flexible = getHabitSchedule(habit).type === 'timesPerWeek';
+      const done = isHabitDoneOn(habit, date);
+      // Flexible habits only count on the days they were actually done
+      if (flexible ? !done : !isHabitScheduledOn(habit, date) || isHabitFrozenOn(habit, date)) return;
+      counts[weekday].total++;
+      if (done) counts[weekday].completed++;
+    });
+  });
+
+  return counts.map(c => ({ ...c, rate: c.total > 0 ? Math.round((c.completed / c.total) * 100) : 0 }));
+}
+
+export function getWeeklyTrend(habits: Habit[], moodByDate: Map<string, number>, today: string, weeks = 12): WeeklyTrendPoint[] {
+  const currentWeek = startOfWeek(parseDateKey(today), { weekStartsOn: 1 });
+
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = subWeeks(currentWeek, weeks - 1 - i);
+    const dates = Array.from({ length: 7 }, (_, d) => toDateKey(addDays(weekStart, d)));
+    const progress = habits.reduce(
+      (acc, habit) => {
+        const week = getHabitWeekProgress(habit, dates);
+        return { completed: acc.completed + week.completed, total: acc.total + week.total };
+      },
+      { completed: 0, total: 0 }
+    );
+    const moods = dates.map(date => moodByDate.get(date)).filter((mood): mood is number => mood !== undefined);
+
+    return {
+      weekStart: dates[0],
+      label: format(weekStart, 'MMM d'),
+      rate: progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : null,
+      mood: moods.length > 0 ? Math.round((moods.reduce((a, b) => a + b, 0) / moods.length) * 10) / 10 : null,
+    };
+  });
+}
+
+// Pearson correlation between the day's completion rate and mood, over days that have both.
+// Null when there are too few journaled days to say anything.
+export function getMoodCorrelation(habits: Habit[], moodByDate: Map<string, number>, dates: string[], minDays = 7) {
+  const pairs: Array<[number, number]> = [];
+
+  dates.forEach(date => {
+    const mood = moodByDate.get(date);
+    if (mood === undefined) return;
+    const due = habits.filter(h => isHabitScheduledOn(h, date) && !isHabitFrozenOn(h, date));
+    if (due.length === 0) return;
+    pairs.push([due.filter(h => isHabitDoneOn(h, date)).length / due.length, mood]);
+  });
+
+  if (pairs.length < minDays) return null;
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const meanX = mean(pairs.map(([x]) => x));
+  const meanY = mean(pairs.map(([, y]) => y));
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  pairs.forEach(([x, y]) => {
+    cov += (x - meanX) * (y - meanY);
+    varX += (x - meanX) ** 2;
+    varY += (y - meanY) ** 2;
+  });
+  if (varX === 0 || varY === 0) return null;
+
+  return { r: cov / Math.sqrt(varX * varY), days: pairs.length };
+}
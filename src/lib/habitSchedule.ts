@@ -0,0 +1,139 @@
+import { differenceInCalendarDays, subDays } from 'date-fns';
+import { Habit, HabitSchedule, HabitTarget, PausePeriod } from './types';
+import { isDateKey, parseDateKey, toDateKey } from './taskDates';
+
+const SHORT_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const DEFAULT_HABIT_SCHEDULE: HabitSchedule = { type: 'daily' };
+
+// Monday = 0 to match DAYS
+const getWeekdayIndex = (date: Date) => (date.getDay() + 6) % 7;
+
+export function getHabitSchedule(habit: Habit): HabitSchedule {
+  return habit.schedule || DEFAULT_HABIT_SCHEDULE;
+}
+
+const coversDate = (pause: PausePeriod, dateKey: string) =>
+  dateKey >= pause.from && (!pause.until || dateKey <= pause.until);
+
+export function getHabitPause(habit: Habit, dateKey: string): PausePeriod | null {
+  return (habit.pauses || []).find(pause => coversDate(pause, dateKey)) || null;
+}
+
+export function isHabitPausedOn(habit: Habit, dateKey: string): boolean {
+  return getHabitPause(habit, dateKey) !== null;
+}
+
+// Puts the habit on hold from `from` through `until` (open-ended when null)
+export function pauseHabit(habit: Habit, from: string, until: string | null = null): Habit {
+  return { ...habit, pauses: [...(habit.pauses || []), { from, until }] };
+}
+
+// Ends any pause covering today. A pause that only started today is dropped,
+// an older one now ends yesterday so its days stay excused.
+export function resumeHabit(habit: Habit, today: string): Habit {
+  const yesterday = toDateKey(subDays(parseDateKey(today), 1));
+  const pauses = (habit.pauses || []).flatMap(pause => {
+    if (!coversDate(pause, today)) return [pause];
+    return pause.from >= today ? [] : [{ ...pause, until: yesterday }];
+  });
+  return { ...habit, pauses };
+}
+
+// Whether the habit asks for a check-in on this date. "N times per week" habits
+// can be done on any day, so every day is open for them. Paused days never are.
+export function isHabitScheduledOn(habit: Habit, dateKey: string): boolean {
+  if (!isDateKey(dateKey) || isHabitPausedOn(habit, dateKey)) return false;
+  const schedule = getHabitSchedule(habit);
+
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.days.includes(getWeekdayIndex(parseDateKey(dateKey)));
+    case 'everyNDays': {
+      if (!isDateKey(schedule.startDate) || dateKey < schedule.startDate) return false;
+      const days = differenceInCalendarDays(parseDateKey(dateKey), parseDateKey(schedule.startDate));
+      return days % Math.max(1, schedule.interval) === 0;
+    }
+    default:
+      return true;
+  }
+}
+
+export function isHabitDoneOn(habit: Habit, dateKey: string): boolean {
+  return !!habit.completed[dateKey];
+}
+
+// Frozen (vacation) days don't count against a habit; a check-in on one still counts
+export function isHabitFrozenOn(habit: Habit, dateKey: string): boolean {
+  return !!habit.frozen?.[dateKey] && !isHabitDoneOn(habit, dateKey);
+}
+
+export function setHabitFrozen(habit: Habit, dateKey: string, frozen: boolean): Habit {
+  return { ...habit, frozen: { ...(habit.frozen || {}), [dateKey]: frozen } };
+}
+
+// Days a "N times per week" habit gets excused: frozen, or paused without a check-in
+export function isHabitExcusedOn(habit: Habit, dateKey: string): boolean {
+  return isHabitFrozenOn(habit, dateKey) || (isHabitPausedOn(habit, dateKey) && !isHabitDoneOn(habit, dateKey));
+}
+
+// Check-ins done against check-ins asked for over one Monday-Sunday week
+export function getHabitWeekProgress(habit: Habit, weekDates: string[]) {
+  const schedule = getHabitSchedule(habit);
+
+  if (schedule.type === 'timesPerWeek') {
+    const done = weekDates.filter(date => isHabitDoneOn(habit, date)).length;
+    const frozen = weekDates.filter(date => isHabitExcusedOn(habit, date)).length;
+    const total = Math.max(0, schedule.times - frozen);
+    return { completed: Math.min(done, total), total };
+  }
+
+  const due = weekDates.filter(date => isHabitScheduledOn(habit, date) && !isHabitFrozenOn(habit, date));
+  return { completed: due.filter(date => isHabitDoneOn(habit, date)).length, total: due.length };
+}
+
+// A day is complete when every habit due that day is done. Flexible "N times per
+// week" habits don't make a day incomplete, but a day with only those needs one check-in.
+export function isDayComplete(habits: Habit[], dateKey: string): boolean {
+  const required = habits.filter(h =>
+    getHabitSchedule(h).type !== 'timesPerWeek' && isHabitScheduledOn(h, dateKey) && !isHabitFrozenOn(h, dateKey)
+  );
+  if (required.length > 0) return required.every(h => isHabitDoneOn(h, dateKey));
+  return habits.some(h => isHabitDoneOn(h, dateKey));
+}
+
+// Quantitative habits count as done once the logged amount reaches the target
+export function setHabitValue(habit: Habit, dateKey: string, value: number | null): Habit {
+  const values = { ...(habit.values || {}) };
+  if (value === null || value <= 0) delete values[dateKey];
+  else values[dateKey] = value;
+
+  const done = !!habit.target && (values[dateKey] ?? 0) >= habit.target.amount;
+  return { ...habit, values, completed: { ...habit.completed, [dateKey]: done } };
+}
+
+// A plain tick on a quantitative habit logs the full target (or clears it)
+export function toggleHabitDone(habit: Habit, dateKey: string): Habit {
+  const done = !isHabitDoneOn(habit, dateKey);
+  if (habit.target) return setHabitValue(habit, dateKey, done ? habit.target.amount : null);
+  return { ...habit, completed: { ...habit.completed, [dateKey]: done } };
+}
+
+export function describeHabitSchedule(schedule: HabitSchedule): string {
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.days.length > 0
+        ? schedule.days.slice().sort().map(d => SHORT_DAYS[d]).join(', ')
+        : 'No days picked';
+    case 'timesPerWeek':
+      return `${schedule.times}× per week`;
+    case 'everyNDays':
+      return schedule.interval === 1 ? 'Daily' : `Every ${schedule.interval} days`;
+    default:
+      return 'Daily';
+  }
+}
+
+export function formatHabitTarget(target: HabitTarget): string {
+  return `${target.amount}${target.unit ? ` ${target.unit}` : ''}`;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { RecurrenceRule, Tasks } from './types';
+import { IDEA_DUMP_KEY } from './taskDates';
+import { applyCalendarImport, buildCalendar, parseCalendar } from './ical';
+
+const NOW = new Date('2024-01-01T00:00:00Z');
+
+const calendar = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flat(), 'END:VCALENDAR', ''].join('\r\n');
+
+const event = (uid: string, ...props: string[]) => ['BEGIN:VEVENT', `UID:${uid}`, 'SUMMARY:Item', ...props, 'END:VEVENT'];
+
+const rrules = (ics: string) => ics.split('\r\n').filter(line => line.startsWith('RRULE:'));
+
+const exportRule = (day: string, recurrence: RecurrenceRule) =>
+  rrules(buildCalendar({ [day]: [{ id: 1, text: 'Rent', done: false, recurrence }] }, [], NOW))[0];
+
+describe('buildCalendar', () => {
+  it('writes timed and all-day tasks with escaped text', () => {
+    const tasks: Tasks = {
+      '2024-02-01': [
+        { id: 1, text: 'Call, then email; done', done: false, time: '09:30', estimateMinutes: 45 },
+        { id: 2, text: 'All day', done: false },
+        { id: 3, text: 'Subtask', done: false, parentId: 2 },
+      ],
+      [IDEA_DUMP_KEY]: [{ id: 4, text: 'Someday', done: false }],
+    };
+    const lines = buildCalendar(tasks, [], NOW).split('\r\n');
+    expect(lines).toContain('SUMMARY:Call\\, then email\\; done');
+    expect(lines).toContain('DTSTART:20240201T093000');
+    expect(lines).toContain('DTEND:20240201T101500');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240201');
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+  });
+
+  it('keeps plain month days as they are', () => {
+    expect(exportRule('2024-01-15', { freq: 'monthly', interval: 1, byMonthDay: 15 }))
+      .toBe('RRULE:FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=15');
+    expect(exportRule('2024-01-15', { freq: 'monthly', interval: 1 })).toBe('RRULE:FREQ=MONTHLY;INTERVAL=1');
+  });
+
+  it('writes days 29-31 so calendars fall back to the month\'s last day too', () => {
+    expect(exportRule('2024-01-31', { freq: 'monthly', interval: 1 }))
+      .toBe('RRULE:FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+    expect(exportRule('2024-01-29', { freq: 'monthly', interval: 2, byMonthDay: 29 }))
+      .toBe('RRULE:FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=28,29;BYSETPOS=-1');
+  });
+
+  it('writes skipped occurrences as EXDATEs', () => {
+    const ics = buildCalendar({
+      '2024-01-01': [{ id: 1, text: 'Gym', done: false, recurrence: { freq: 'daily', interval: 1, until: '2024-01-31' }, occurrenceStates: { '2024-01-03': 'skipped', '2024-01-04': 'done' } }],
+    }, [], NOW);
+    expect(rrules(ics)).toEqual(['RRULE:FREQ=DAILY;INTERVAL=1;UNTIL=20240131']);
+    expect(ics).toContain('EXDATE;VALUE=DATE:20240103\r\n');
+  });
+});
+
+describe('parseCalendar', () => {
+  it('reads events and to-dos', () => {
+    const [timed, todo] = parseCalendar(calendar(
+      event('a', 'DTSTART:20240301T140000', 'DTEND:20240301T153000', 'PRIORITY:1', 'CATEGORIES:work,urgent'),
+      ['BEGIN:VTODO', 'UID:b', 'SUMMARY:File taxes', 'DUE;VALUE=DATE:20240415', 'END:VTODO'],
+    ));
+    expect(timed).toMatchObject({ uid: 'a', day: '2024-03-01', time: '14:00', estimateMinutes: 90, priority: 1, labels: ['work', 'urgent'] });
+    expect(todo).toMatchObject({ uid: 'b', day: '2024-04-15', deadline: new Date(2024, 3, 15, 23, 59).toISOString() });
+  });
+
+  it('reads back the month-end form it writes', () => {
+    const [item] = parseCalendar(calendar(event('a', 'DTSTART;VALUE=DATE:20240131', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1')));
+    expect(item.recurrence).toEqual({ freq: 'monthly', interval: 1, byMonthDay: 31 });
+  });
+
+  it('reads the last day of the month', () => {
+    const [item] = parseCalendar(calendar(event('a', 'DTSTART;VALUE=DATE:20240131', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=-1')));
+    expect(item.recurrence).toEqual({ freq: 'monthly', interval: 1, byMonthDay: 31 });
+  });
+
+  it('does not repeat rules that skip months without the day', () => {
+    const items = parseCalendar(calendar(
+      event('a', 'DTSTART;VALUE=DATE:20240131', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=31'),
+      event('b', 'DTSTART;VALUE=DATE:20240130', 'RRULE:FREQ=MONTHLY'),
+      event('c', 'DTSTART;VALUE=DATE:20240115', 'RRULE:FREQ=MONTHLY;BYDAY=2MO'),
+    ));
+    expect(items.map(item => item.recurrence)).toEqual([null, null, null]);
+  });
+
+  it('round-trips a month-end task', () => {
+    const recurrence: RecurrenceRule = { freq: 'monthly', interval: 1, byMonthDay: 30 };
+    const [item] = parseCalendar(buildCalendar({ '2024-01-30': [{ id: 7, text: 'Invoice', done: false, recurrence }] }, [], NOW));
+    expect(item.recurrence).toEqual(recurrence);
+  });
+});
+
+describe('applyCalendarImport', () => {
+  it('updates tasks it imported before instead of adding them again', () => {
+    const first = applyCalendarImport({}, parseCalendar(calendar(event('ext-1', 'DTSTART;VALUE=DATE:20240301'))));
+    expect(first).toMatchObject({ added: 1, updated: 0 });
+
+    const moved = applyCalendarImport(first.tasks, parseCalendar(calendar(event('ext-1', 'DTSTART;VALUE=DATE:20240305'))));
+    expect(moved).toMatchObject({ added: 0, updated: 1 });
+    expect(moved.tasks['2024-03-01']).toEqual([]);
+    expect(moved.tasks['2024-03-05'].map(task => task.externalUid)).toEqual(['ext-1']);
+  });
+
+  it('maps exported tasks back onto the original', () => {
+    const tasks: Tasks = { '2024-02-01': [{ id: 42, text: 'Dentist', done: false }] };
+    const result = applyCalendarImport(tasks, parseCalendar(buildCalendar(tasks, [], NOW)));
+    expect(result).toMatchObject({ added: 0, updated: 1 });
+  });
+});
@@ -0,0 +1,460 @@
+import { addDays, addMinutes, differenceInMinutes, format } from 'date-fns';
+import { RecurrenceRule, SavingsGoal, Task, TaskPriority, Tasks } from './types';
+import { IDEA_DUMP_KEY, getTaskDateTime, isDateKey, parseDateKey, toDateKey } from './taskDates';
+import { DEFAULT_BLOCK_MINUTES } from './timeBlocks';
+
+// iCalendar (RFC 5545) export of the planner and import of VEVENT/VTODO items as tasks
+
+const PRODID = '-//LifeOS//Planner//EN';
+const UID_DOMAIN = 'lifeos';
+// Monday = 0 like the planner
+const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// iCalendar priorities run 1 (highest) to 9 (lowest)
+const ICAL_PRIORITY: Record<TaskPriority, number> = { 1: 1, 2: 3, 3: 5, 4: 7 };
+
+const taskUid = (id: string | number) => `task-${id}@${UID_DOMAIN}`;
+const savingsGoalUid = (id: string | number) => `savings-${id}@${UID_DOMAIN}`;
+const OWN_TASK_UID = new RegExp(`^task-(.+)@${UID_DOMAIN}$`);
+const OWN_SAVINGS_UID = new RegExp(`^savings-.+@${UID_DOMAIN}$`);
+
+// ---- Writing ----
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > 75) {
+      parts.push(current);
+      current = ' ';
+      size = 1;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+const formatDate = (date: Date) => format(date, 'yyyyMMdd');
+// Floating local time, the same wall-clock time the planner shows
+const formatLocalDateTime = (date: Date) => format(date, "yyyyMMdd'T'HHmmss");
+const formatUtcDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Days 29-31 fall back to the last day of shorter months in the planner, while
+// RFC 5545 skips months without the day. The last of days 28 up to the day
+// lands on the same dates.
+function toMonthDayParts(monthDay: number): string[] {
+  if (monthDay < 29) return [`BYMONTHDAY=${monthDay}`];
+  const days: number[] = [];
+  for (let day = 28; day <= monthDay; day++) days.push(day);
+  return [`BYMONTHDAY=${days.join(',')}`, 'BYSETPOS=-1'];
+}
+
+// startDay is the day of the month of the first occurrence
+function toRRule(rule: RecurrenceRule, timed: boolean, startDay: number): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`];
+  if (rule.freq === 'weekly' && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.freq === 'monthly') {
+    const monthDay = rule.byMonthDay || startDay;
+    if (rule.byMonthDay || monthDay >= 29) parts.push(...toMonthDayParts(monthDay));
+  }
+  // UNTIL has to match the value type of DTSTART
+  if (rule.until) parts.push(`UNTIL=${formatDate(parseDateKey(rule.until))}${timed ? 'T235959' : ''}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+function taskEvent(day: string, task: Task, stamp: string): string[] {
+  const start = getTaskDateTime(day, task.time)!;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${task.externalUid || taskUid(task.id)}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(task.text)}`,
+  ];
+
+  if (task.time) {
+    lines.push(
+      `DTSTART:${formatLocalDateTime(start)}`,
+      `DTEND:${formatLocalDateTime(addMinutes(start, task.estimateMinutes || DEFAULT_BLOCK_MINUTES))}`
+    );
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(start)}`, `DTEND;VALUE=DATE:${formatDate(addDays(start, 1))}`);
+  }
+
+  if (task.recurrence) {
+    lines.push(`RRULE:${toRRule(task.recurrence, !!task.time, start.getDate())}`);
+    const skipped = Object.entries(task.occurrenceStates || {})
+      .filter(([, state]) => state === 'skipped')
+      .map(([date]) => getTaskDateTime(date, task.time))
+      .filter((date): date is Date => !!date);
+    if (skipped.length > 0) {
+      lines.push(task.time
+        ? `EXDATE:${skipped.map(formatLocalDateTime).join(',')}`
+        : `EXDATE;VALUE=DATE:${skipped.map(formatDate).join(',')}`);
+    }
+  }
+
+  if (task.priority) lines.push(`PRIORITY:${ICAL_PRIORITY[task.priority]}`);
+  if (task.labels?.length) lines.push(`CATEGORIES:${task.labels.map(escapeText).join(',')}`);
+
+  // Timed tasks carry the same at-start reminder the app sends
+  if (task.time) {
+    lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(task.text)}`, 'TRIGGER:PT0M', 'END:VALARM');
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function savingsGoalEvent(goal: SavingsGoal, dateKey: string, stamp: string): string[] {
+  const date = parseDateKey(dateKey);
+  return [
+    'BEGIN:VEVENT',
+    `UID:${savingsGoalUid(goal.id)}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(`Savings goal: ${goal.name}`)}`,
+    `DTSTART;VALUE=DATE:${formatDate(date)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(date, 1))}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+// Dated top-level tasks (with reminders) and savings goal target dates as one calendar
+export function buildCalendar(tasks: Tasks, savingsGoals: SavingsGoal[], now: Date = new Date()): string {
+  const stamp = formatUtcDateTime(now);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'X-WR-CALNAME:LifeOS'];
+
+  Object.entries(tasks).forEach(([day, dayTasks]) => {
+    if (!isDateKey(day)) return;
+    dayTasks.filter(task => !task.parentId).forEach(task => lines.push(...taskEvent(day, task, stamp)));
+  });
+
+  savingsGoals.forEach(goal => {
+    const dateKey = goal.targetDate?.slice(0, 10);
+    if (dateKey && isDateKey(dateKey)) lines.push(...savingsGoalEvent(goal, dateKey, stamp));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ---- Reading ----
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface CalendarItem {
+  uid: string;
+  text: string;
+  // yyyy-MM-dd, or the Idea Dump for undated to-dos
+  day: string;
+  time?: string;
+  estimateMinutes: number | null;
+  deadline: string | null;
+  recurrence: RecurrenceRule | null;
+  skipped: string[];
+  done: boolean;
+  priority: TaskPriority | null;
+  labels: string[];
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1).trim() };
+}
+
+// UTC values are converted to local time; TZID and floating values are taken as local wall-clock time
+function parseDateValue(value: string): { date: Date; timed: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) return { date: new Date(+year, +month - 1, +day), timed: false };
+  const parts = [+year, +month - 1, +day, +hours, +minutes, +(seconds || 0)] as const;
+  return { date: utc ? new Date(Date.UTC(...parts)) : new Date(...parts), timed: true };
+}
+
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (+(weeks || 0) * 7 + +(days || 0)) * 1440 + +(hours || 0) * 60 + +(minutes || 0);
+  return sign === '-' ? -total : total;
+}
+
+// The planner's day of the month for a BYMONTHDAY (and BYSETPOS) pair: the form
+// toMonthDayParts writes, -1 for the last day, or a plain day up to 28. A plain
+// 29-31 skips the months without it, which the planner can't, so it gives null.
+function fromMonthDayParts(byMonthDay: string, bySetPos: string | undefined): number | null {
+  const days = byMonthDay.split(',').map(day => parseInt(day));
+  if (bySetPos === undefined) {
+    if (days.length !== 1) return null;
+    if (days[0] === -1) return 31;
+    return days[0] >= 1 && days[0] <= 28 ? days[0] : null;
+  }
+  const monthDay = days[days.length - 1];
+  if (bySetPos !== '-1' || !(monthDay >= 29 && monthDay <= 31)) return null;
+  return toMonthDayParts(monthDay)[0] === `BYMONTHDAY=${days.join(',')}` ? monthDay : null;
+}
+
+// Only the rules the planner can repeat; anything else imports as a single occurrence.
+// startDay is the day of the month of the first occurrence.
+function parseRRule(value: string, startDay: number): RecurrenceRule | null {
+  const parts = Object.fromEntries(value.split(';').map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=')];
+  }));
+
+  const freq = ({ DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' } as const)[parts.FREQ as 'DAILY' | 'WEEKLY' | 'MONTHLY'];
+  if (!freq) return null;
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, parseInt(parts.INTERVAL) || 1) };
+  if (parts.BYDAY) {
+    // Positional forms like "2MO" (second Monday) can't be represented
+    if (freq === 'monthly' || /\d/.test(parts.BYDAY)) return null;
+    if (freq === 'weekly') {
+      rule.byWeekday = parts.BYDAY.split(',')
+        .map((code: string) => WEEKDAY_CODES.indexOf(code.trim().toUpperCase()))
+        .filter((index: number) => index >= 0)
+        .sort();
+    }
+  }
+  if (parts.BYSETPOS && !parts.BYMONTHDAY) return null;
+  if (parts.BYMONTHDAY) {
+    const monthDay = fromMonthDayParts(parts.BYMONTHDAY, parts.BYSETPOS);
+    if (freq !== 'monthly' || !monthDay) return null;
+    rule.byMonthDay = monthDay;
+  } else if (freq === 'monthly' && startDay >= 29) {
+    // Repeats on the start's day, skipping months without it
+    return null;
+  }
+  if (parts.UNTIL) {
+    const until = parseDateValue(parts.UNTIL);
+    if (until) rule.until = toDateKey(until.date);
+  }
+  if (parts.COUNT) rule.count = Math.max(1, parseInt(parts.COUNT) || 1);
+  return rule;
+}
+
+function toPriority(value: string | undefined): TaskPriority | null {
+  const priority = parseInt(value || '');
+  if (!priority) return null;
+  if (priority <= 2) return 1;
+  if (priority <= 4) return 2;
+  if (priority === 5) return 3;
+  return 4;
+}
+
+function toCalendarItem(kind: 'VEVENT' | 'VTODO', props: Map<string, ContentLine[]>): CalendarItem | null {
+  const first = (name: string) => props.get(name)?.[0];
+  const all = (name: string) => props.get(name) || [];
+
+  // Single-occurrence overrides and cancelled items have no task of their own
+  if (first('RECURRENCE-ID') || first('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const text = unescapeText(first('SUMMARY')?.value || '').trim() || 'Untitled';
+  const rawStart = first('DTSTART');
+  const start = rawStart ? parseDateValue(rawStart.value) : null;
+  const due = first('DUE') ? parseDateValue(first('DUE')!.value) : null;
+  if (kind === 'VEVENT' && !start) return null;
+
+  // Items without a UID are keyed by their content so a re-import still matches
+  const uid = first('UID')?.value || `${text}|${rawStart?.value || first('DUE')?.value || ''}`;
+  if (OWN_SAVINGS_UID.test(uid)) return null;
+
+  const dayDate = start?.date ?? due?.date;
+  const timed = !!start?.timed;
+
+  let estimateMinutes: number | null = null;
+  const end = first('DTEND') ? parseDateValue(first('DTEND')!.value) : null;
+  const duration = first('DURATION') ? parseDuration(first('DURATION')!.value) : null;
+  if (timed && end) estimateMinutes = differenceInMinutes(end.date, start!.date);
+  // An all-day event's length says nothing about the effort it takes
+  else if (duration !== null && (timed || kind === 'VTODO')) estimateMinutes = duration;
+  if (!estimateMinutes || estimateMinutes <= 0) estimateMinutes = null;
+
+  // A date-only due date means "by the end of that day"
+  let deadline: string | null = null;
+  if (kind === 'VTODO' && due) {
+    const dueDate = new Date(due.date);
+    if (!due.timed) dueDate.setHours(23, 59, 0, 0);
+    deadline = dueDate.toISOString();
+  }
+
+  const skipped = all('EXDATE').flatMap(line => line.value.split(','))
+    .map(value => parseDateValue(value.trim()))
+    .filter((value): value is { date: Date; timed: boolean } => !!value)
+    .map(value => toDateKey(value.date));
+
+  return {
+    uid,
+    text,
+    day: dayDate ? toDateKey(dayDate) : IDEA_DUMP_KEY,
+    time: timed ? format(start!.date, 'HH:mm') : undefined,
+    estimateMinutes,
+    deadline,
+    recurrence: first('RRULE') && dayDate ? parseRRule(first('RRULE')!.value, dayDate.getDate()) : null,
+    skipped,
+    done: kind === 'VTODO' && (first('STATUS')?.value.toUpperCase() === 'COMPLETED' || !!first('COMPLETED')),
+    priority: toPriority(first('PRIORITY')?.value),
+    labels: all('CATEGORIES')
+      .flatMap(line => line.value.split(/(?<!\\),/))
+      .map(label => unescapeText(label).trim())
+      .filter(Boolean),
+  };
+}
+
+export function parseCalendar(text: string): CalendarItem[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim());
+  const items: CalendarItem[] = [];
+  let current: { kind: 'VEVENT' | 'VTODO'; props: Map<string, ContentLine[]> } | null = null;
+  // Depth of sub-components (e.g. VALARM) inside the current item, whose properties are ignored
+  let nested = 0;
+
+  lines.forEach(rawLine => {
+    const line = parseContentLine(rawLine);
+    if (!line) return;
+    const value = line.value.toUpperCase();
+
+    if (line.name === 'BEGIN') {
+      if (current) nested++;
+      else if (value === 'VEVENT' || value === 'VTODO') current = { kind: value, props: new Map() };
+      return;
+    }
+    if (line.name === 'END') {
+      if (current && nested > 0) nested--;
+      else if (current && value === current.kind) {
+        const item = toCalendarItem(current.kind, current.props);
+        if (item) items.push(item);
+        current = null;
+      }
+      return;
+    }
+    if (current && nested === 0) {
+      current.props.set(line.name, [...(current.props.get(line.name) || []), line]);
+    }
+  });
+
+  return items;
+}
+
+// ---- Merging ----
+
+export interface CalendarImportResult {
+  tasks: Tasks;
+  added: number;
+  updated: number;
+}
+
+// Re-running an import updates the tasks it created before (matched by UID) instead of duplicating them.
+// Items exported from LifeOS itself map straight back onto their original task.
+export function applyCalendarImport(tasks: Tasks, items: CalendarItem[]): CalendarImportResult {
+  const next: Tasks = Object.fromEntries(Object.entries(tasks).map(([day, dayTasks]) => [day, [...dayTasks]]));
+  let added = 0;
+  let updated = 0;
+  const now = Date.now();
+
+  const findTask = (uid: string): { day: string; task: Task } | null => {
+    const ownId = uid.match(OWN_TASK_UID)?.[1];
+    for (const [day, dayTasks] of Object.entries(next)) {
+      const task = dayTasks.find(t => t.externalUid === uid || (!!ownId && String(t.id) === ownId));
+      if (task) return { day, task };
+    }
+    return null;
+  };
+
+  const toOccurrenceStates = (base: Task['occurrenceStates'], skipped: string[]) => {
+    const states = { ...(base || {}) };
+    skipped.forEach(date => { states[date] = 'skipped'; });
+    return states;
+  };
+
+  items.forEach((item, i) => {
+    const existing = findTask(item.uid);
+
+    if (!existing) {
+      next[item.day] = [...(next[item.day] || []), {
+        id: now + i,
+        text: item.text,
+        done: item.done,
+        time: item.time,
+        recurrence: item.recurrence,
+        occurrenceStates: toOccurrenceStates({}, item.skipped),
+        priority: item.priority,
+        estimateMinutes: item.estimateMinutes,
+        deadline: item.deadline,
+        labels: item.labels,
+        externalUid: item.uid,
+      }];
+      added++;
+      return;
+    }
+
+    // The calendar owns scheduling fields; planner-only details are kept unless the item sets them
+    const { day: oldDay, task } = existing;
+    const updatedTask: Task = {
+      ...task,
+      text: item.text,
+      done: task.done || item.done,
+      time: item.time,
+      recurrence: item.recurrence,
+      occurrenceStates: toOccurrenceStates(task.occurrenceStates, item.skipped),
+      priority: item.priority ?? task.priority,
+      estimateMinutes: item.estimateMinutes ?? task.estimateMinutes,
+      deadline: item.deadline ?? task.deadline,
+      labels: item.labels.length > 0 ? item.labels : task.labels,
+    };
+
+    if (oldDay === item.day) {
+      next[oldDay] = next[oldDay].map(t => t === task ? updatedTask : t);
+    } else {
+      // Moving a task takes its checklist along, since subtasks share the parent's day
+      const moving = (t: Task) => t === task || (t.parentId != null && String(t.parentId) === String(task.id));
+      const children = next[oldDay].filter(t => t !== task && moving(t));
+      next[oldDay] = next[oldDay].filter(t => !moving(t));
+      next[item.day] = [...(next[item.day] || []), updatedTask, ...children];
+    }
+    updated++;
+  });
+
+  return { tasks: next, added, updated };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  areKeyResultsMet,
+  formatKeyResultValue,
+  getGoalProgress,
+  getKeyResultProgress,
+  getMilestoneStatus,
+  isKeyResultMet,
+  logKeyResultValue,
+  removeKeyResultEntry,
+  sortMilestones,
+} from './keyResults';
+import { KeyResult, Milestone, System } from './types';
+
+const keyResult = (overrides: Partial<KeyResult> = {}): KeyResult => ({
+  id: 'kr-1',
+  title: 'Run distance',
+  unit: 'km',
+  start: 0,
+  target: 10,
+  current: 0,
+  history: [],
+  ...overrides,
+});
+
+const system = (keyResults?: KeyResult[]): System => ({ id: 's-1', goal: 'Get fit', why: '', habits: [], keyResults });
+
+const milestone = (title: string, targetDate: string | null, doneAt: string | null = null): Milestone => ({
+  id: title,
+  title,
+  targetDate,
+  doneAt,
+});
+
+describe('key result progress', () => {
+  it('measures the way from start to target', () => {
+    expect(getKeyResultProgress(keyResult({ current: 4 }))).toBe(40);
+    expect(getKeyResultProgress(keyResult({ current: 12 }))).toBe(100);
+    expect(getKeyResultProgress(keyResult({ current: -2 }))).toBe(0);
+  });
+
+  it('works for targets below the start', () => {
+    const weight = keyResult({ start: 90, target: 80, current: 85 });
+    expect(getKeyResultProgress(weight)).toBe(50);
+    expect(isKeyResultMet(weight)).toBe(false);
+    expect(isKeyResultMet({ ...weight, current: 79 })).toBe(true);
+  });
+
+  it('is all or nothing when the start is the target', () => {
+    expect(getKeyResultProgress(keyResult({ start: 5, target: 5, current: 5 }))).toBe(100);
+  });
+
+  it('averages a goal\'s key results and needs all of them met', () => {
+    const goal = system([keyResult({ current: 10 }), keyResult({ current: 5 })]);
+    expect(getGoalProgress(goal)).toBe(75);
+    expect(areKeyResultsMet(goal)).toBe(false);
+    expect(areKeyResultsMet(system([keyResult({ current: 10 })]))).toBe(true);
+    expect(areKeyResultsMet(system([]))).toBe(false);
+    expect(getGoalProgress(system())).toBeNull();
+  });
+});
+
+describe('key result history', () => {
+  it('keeps one value per date and takes the latest as current', () => {
+    let kr = logKeyResultValue(keyResult(), 3, '2024-01-05');
+    kr = logKeyResultValue(kr, 1, '2024-01-02');
+    kr = logKeyResultValue(kr, 4, '2024-01-05');
+    expect(kr.history).toEqual([{ date: '2024-01-02', value: 1 }, { date: '2024-01-05', value: 4 }]);
+    expect(kr.current).toBe(4);
+  });
+
+  it('falls back to the previous value, then the start, when entries are removed', () => {
+    const kr = keyResult({ start: 2, current: 4, history: [{ date: '2024-01-02', value: 1 }, { date: '2024-01-05', value: 4 }] });
+    const once = removeKeyResultEntry(kr, '2024-01-05');
+    expect(once.current).toBe(1);
+    expect(removeKeyResultEntry(once, '2024-01-02').current).toBe(2);
+  });
+
+  it('formats values with their unit', () => {
+    expect(formatKeyResultValue(2.5, 'km')).toBe('2.5 km');
+    expect(formatKeyResultValue(1 / 3, '')).toBe('0.33');
+  });
+});
+
+describe('milestones', () => {
+  it('is overdue only after its date', () => {
+    expect(getMilestoneStatus(milestone('a', '2024-01-10'), '2024-01-10')).toBe('upcoming');
+    expect(getMilestoneStatus(milestone('a', '2024-01-10'), '2024-01-11')).toBe('overdue');
+    expect(getMilestoneStatus(milestone('a', null), '2024-01-11')).toBe('open');
+    expect(getMilestoneStatus(milestone('a', '2024-01-10', '2024-01-09'), '2024-01-11')).toBe('done');
+  });
+
+  it('sorts open milestones by date, undated after, done last', () => {
+    const sorted = sortMilestones([
+      milestone('done', '2024-01-01', '2024-01-01'),
+      milestone('undated', null),
+      milestone('later', '2024-03-01'),
+      milestone('sooner', '2024-02-01'),
+    ]);
+    expect(sorted.map(m => m.title)).toEqual(['sooner', 'later', 'undated', 'done']);
+  });
+});
@@ -0,0 +1,62 @@
+import { KeyResult, Milestone, System } from './types';
+import { getTodayKey } from './taskDates';
+
+// notification-cron mirrors isKeyResultMet/areKeyResultsMet for goal_achieved
+
+export type MilestoneStatus = 'done' | 'overdue' | 'upcoming' | 'open';
+
+const isDecreasing = (kr: KeyResult) => kr.target < kr.start;
+
+export function isKeyResultMet(kr: KeyResult): boolean {
+  return isDecreasing(kr) ? kr.current <= kr.target : kr.current >= kr.target;
+}
+
+// Share of the way from start to target, 0-100
+export function getKeyResultProgress(kr: KeyResult): number {
+  const span = kr.target - kr.start;
+  if (span === 0) return isKeyResultMet(kr) ? 100 : 0;
+  const progress = ((kr.current - kr.start) / span) * 100;
+  return Math.round(Math.min(100, Math.max(0, progress)));
+}
+
+// A goal is achieved once it has key results and all of them are met
+export function areKeyResultsMet(system: System): boolean {
+  const keyResults = system.keyResults || [];
+  return keyResults.length > 0 && keyResults.every(isKeyResultMet);
+}
+
+export function getGoalProgress(system: System): number | null {
+  const keyResults = system.keyResults || [];
+  if (keyResults.length === 0) return null;
+  return Math.round(keyResults.reduce((sum, kr) => sum + getKeyResultProgress(kr), 0) / keyResults.length);
+}
+
+// Logging again on the same date replaces that day's value
+export function logKeyResultValue(kr: KeyResult, value: number, date: string = getTodayKey()): KeyResult {
+  const history = [...kr.history.filter(entry => entry.date !== date), { date, value }]
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { ...kr, history, current: history[history.length - 1].value };
+}
+
+export function removeKeyResultEntry(kr: KeyResult, date: string): KeyResult {
+  const history = kr.history.filter(entry => entry.date !== date);
+  return { ...kr, history, current: history.length > 0 ? history[history.length - 1].value : kr.start };
+}
+
+export function getMilestoneStatus(milestone: Milestone, today: string = getTodayKey()): MilestoneStatus {
+  if (milestone.doneAt) return 'done';
+  if (!milestone.targetDate) return 'open';
+  return milestone.targetDate < today ? 'overdue' : 'upcoming';
+}
+
+// Open milestones by date, undated ones after, done ones last
+export function sortMilestones(milestones: Milestone[]): Milestone[] {
+  const rank = (m: Milestone) => (m.doneAt ? 2 : m.targetDate ? 0 : 1);
+  return [...milestones].sort((a, b) =>
+    rank(a) - rank(b) || (a.targetDate || '').localeCompare(b.targetDate || '') || a.title.localeCompare(b.title)
+  );
+}
+
+export function formatKeyResultValue(value: number, unit: string): string {
+  return `${Number(value.toFixed(2))}${unit ? ` ${unit}` : ''}`;
+}
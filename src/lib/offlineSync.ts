@@ -1,5 +1,7 @@
 import { openDB, IDBPDatabase } from 'idb';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { addNetworkListener, getNetworkStatus } from './capacitorHelpers';
+import { logError } from './errorCenter';
 
 // Define the record type for all stores
 interface SyncRecord {
@@ -8,28 +10,162 @@ interface SyncRecord {
   updated_at: string;
   synced: boolean;
   pending_delete?: boolean;
+  // Server updated_at the unsynced local edit was made on top of
+  base_updated_at?: string;
 }
 
 interface SyncQueueItem {
   id: string;
   table: string;
-  operation: 'insert' | 'update' | 'delete';
+  operation: 'insert' | 'update' | 'upsert' | 'delete';
   data: any;
+  // Local store key of the row; older items fall back to data.id
+  key?: string;
+  onConflict?: string;
+  // Replay order, kept when a pending write is replaced by a newer edit
+  seq?: number;
+  // When the edit was made on this device
   created_at: string;
+  // Server version the edit was based on; a newer server version means a conflict
+  base_updated_at?: string;
+  // Who made the edit; it is only replayed while they are signed in
+  user_id?: string;
   retries: number;
 }
 
-type StoreName = 'tasks' | 'systems' | 'habits' | 'transactions' | 'journal_entries' | 'savings_goals';
+// A local edit that collided with a newer server version, waiting for the user to pick a side
+export interface SyncConflict {
+  id: string;
+  table: StoreName;
+  key: string;
+  // null when the row was deleted on this device
+  mine: SyncRow | null;
+  theirs: SyncRow;
+  detected_at: string;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | { merged: SyncRow };
+
+export type StoreName =
+  | 'tasks'
+  | 'systems'
+  | 'habits'
+  | 'habit_completions'
+  | 'routines'
+  | 'transactions'
+  | 'journal_entries'
+  | 'budgets'
+  | 'categories'
+  | 'subscriptions'
+  | 'savings_goals';
+
+// Parents come before children so a full refresh never sees orphans
+export const STORE_NAMES: StoreName[] = [
+  'tasks', 'systems', 'habits', 'habit_completions', 'routines', 'transactions',
+  'journal_entries', 'budgets', 'categories', 'subscriptions', 'savings_goals'
+];
+
+// A table row as sent to or received from the server
+export type SyncRow = { updated_at?: string } & Record<string, unknown>;
+
+interface TableConfig {
+  // Column that identifies a row for the current user
+  keyColumn: string;
+  key: (row: SyncRow) => string;
+  match: (key: string, userId: string) => Record<string, string>;
+  onConflict?: string;
+  // Has an updated_at column maintained by a trigger
+  versioned: boolean;
+}
+
+const byId: TableConfig = {
+  keyColumn: 'id',
+  key: row => String(row.id),
+  match: key => ({ id: key }),
+  onConflict: 'id',
+  versioned: true,
+};
+
+const TABLES: Record<StoreName, TableConfig> = {
+  tasks: byId,
+  systems: byId,
+  habits: byId,
+  routines: byId,
+  transactions: byId,
+  journal_entries: byId,
+  subscriptions: byId,
+  savings_goals: byId,
+  budgets: byId,
+  // Completions are plain toggles, so the latest toggle always wins
+  habit_completions: {
+    keyColumn: 'habit_id',
+    key: row => `${row.habit_id}:${row.date}`,
+    match: key => {
+      const [habit_id, date] = key.split(':');
+      return { habit_id, date };
+    },
+    onConflict: 'habit_id,date',
+    versioned: false,
+  },
+  // No unique constraint on name, so new categories are plain inserts
+  categories: {
+    keyColumn: 'name',
+    key: row => String(row.name),
+    match: (key, userId) => ({ user_id: userId, name: key }),
+    versioned: false,
+  },
+};
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  // Unresolved conflicts waiting for review
+  conflicts: number;
+  // Running total of edits the server rejected; listeners compare against the previous value
+  failed: number;
+  lastSyncedAt: string | null;
+}
+
+type SyncStatusListener = (status: SyncStatus) => void;
+
+// Max rows per request; keeps payloads well under PostgREST limits
+const BATCH_SIZE = 500;
+// Max keys per version lookup; the keys go in the URL, which proxies cap at a few KB
+const LOOKUP_CHUNK_SIZE = 100;
+const MAX_RETRIES = 5;
 
-let db: IDBPDatabase | null = null;
+let dbPromise: Promise<IDBPDatabase> | null = null;
 let isOnline = true;
-let syncInProgress = false;
+// Signed-in user; edits and conflicts of other users stay parked on the device
+let syncUserId: string | null = null;
+let seqCounter = 0;
+let syncChain: Promise<unknown> = Promise.resolve();
+let replayRun: Promise<void> | null = null;
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  conflicts: 0,
+  failed: 0,
+  lastSyncedAt: null,
+};
+const listeners: Set<SyncStatusListener> = new Set();
 
-// Initialize the database
-export const initOfflineDB = async (): Promise<IDBPDatabase> => {
-  if (db) return db;
+const updateStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+};
 
-  db = await openDB('lifeos-offline', 1, {
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeToSyncStatus = (listener: SyncStatusListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const openOfflineDB = async (): Promise<IDBPDatabase> => {
+  const db = await openDB('lifeos-offline', 4, {
     upgrade(database) {
       // Tasks store
       if (!database.objectStoreNames.contains('tasks')) {
@@ -49,6 +185,18 @@ export const initOfflineDB = async (): Promise<IDBPDatabase> => {
         habitsStore.createIndex('by-synced', 'synced');
       }
 
+      // Habit completions store, keyed by habit_id:date
+      if (!database.objectStoreNames.contains('habit_completions')) {
+        const completionsStore = database.createObjectStore('habit_completions', { keyPath: 'id' });
+        completionsStore.createIndex('by-synced', 'synced');
+      }
+
+      // Routines store
+      if (!database.objectStoreNames.contains('routines')) {
+        const routinesStore = database.createObjectStore('routines', { keyPath: 'id' });
+        routinesStore.createIndex('by-synced', 'synced');
+      }
+
       // Transactions store
       if (!database.objectStoreNames.contains('transactions')) {
         const transactionsStore = database.createObjectStore('transactions', { keyPath: 'id' });
@@ -61,6 +209,24 @@ export const initOfflineDB = async (): Promise<IDBPDatabase> => {
         journalStore.createIndex('by-synced', 'synced');
       }
 
+      // Budgets store
+      if (!database.objectStoreNames.contains('budgets')) {
+        const budgetsStore = database.createObjectStore('budgets', { keyPath: 'id' });
+        budgetsStore.createIndex('by-synced', 'synced');
+      }
+
+      // Categories store, keyed by name
+      if (!database.objectStoreNames.contains('categories')) {
+        const categoriesStore = database.createObjectStore('categories', { keyPath: 'id' });
+        categoriesStore.createIndex('by-synced', 'synced');
+      }
+
+      // Subscriptions store
+      if (!database.objectStoreNames.contains('subscriptions')) {
+        const subscriptionsStore = database.createObjectStore('subscriptions', { keyPath: 'id' });
+        subscriptionsStore.createIndex('by-synced', 'synced');
+      }
+
       // Savings goals store
       if (!database.objectStoreNames.contains('savings_goals')) {
         const savingsStore = database.createObjectStore('savings_goals', { keyPath: 'id' });
@@ -71,16 +237,25 @@ export const initOfflineDB = async (): Promise<IDBPDatabase> => {
       if (!database.objectStoreNames.contains('sync_queue')) {
         database.createObjectStore('sync_queue', { keyPath: 'id' });
       }
+
+      // Conflicts awaiting review, keyed by table:key
+      if (!database.objectStoreNames.contains('sync_conflicts')) {
+        database.createObjectStore('sync_conflicts', { keyPath: 'id' });
+      }
     }
   });
 
   // Initialize network status
-  const status = await getNetworkStatus();
-  isOnline = status.connected;
+  const networkStatus = await getNetworkStatus();
+  isOnline = networkStatus.connected;
+  updateStatus({ online: isOnline });
+  refreshPendingCount();
+  refreshConflictCount();
 
   // Listen for network changes
   addNetworkListener((connected) => {
     isOnline = connected;
+    updateStatus({ online: connected });
     if (connected) {
       processSyncQueue();
     }
@@ -89,17 +264,91 @@ export const initOfflineDB = async (): Promise<IDBPDatabase> => {
   return db;
 };
 
-// Get database instance
-const getDB = async (): Promise<IDBPDatabase> => {
-  if (!db) {
-    return initOfflineDB();
+// Initialize the database; concurrent callers share one connection
+export const initOfflineDB = (): Promise<IDBPDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openOfflineDB().catch(error => {
+      dbPromise = null;
+      throw error;
+    });
   }
-  return db;
+  return dbPromise;
 };
 
+// Get database instance
+const getDB = initOfflineDB;
+
 // Check if online
 export const isNetworkOnline = () => isOnline;
 
+// Queue replay and server refreshes never interleave
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = syncChain.then(task);
+  syncChain = run.catch(() => undefined);
+  return run;
+};
+
+const nextSeq = () => Date.now() * 1000 + (seqCounter++ % 1000);
+
+const queueId = (table: string, key: string, operation: 'upsert' | 'delete') => `${table}:${key}:${operation}`;
+
+const getItemKey = (item: SyncQueueItem) => item.key ?? String(item.data.id);
+
+// Items queued before owners were recorded go with whoever is signed in
+const isOwnItem = (item: SyncQueueItem) => {
+  const owner = item.user_id ?? item.data?.user_id;
+  return !!syncUserId && (!owner || owner === syncUserId);
+};
+
+const isOwnConflict = (conflict: SyncConflict) =>
+  !!syncUserId && (!conflict.theirs.user_id || conflict.theirs.user_id === syncUserId);
+
+const bySeq = (a: SyncQueueItem, b: SyncQueueItem) =>
+  (a.seq ?? new Date(a.created_at).getTime() * 1000) - (b.seq ?? new Date(b.created_at).getTime() * 1000);
+
+const serverRecord = (key: string, row: SyncRow): SyncRecord => ({
+  id: key,
+  data: row,
+  updated_at: row.updated_at || new Date().toISOString(),
+  synced: true,
+});
+
+const getMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+
+// Lost connection mid-replay: keep everything queued and try again on reconnect
+const isConnectionError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(getMessage(error));
+};
+
+const refreshPendingCount = async () => {
+  updateStatus({ pending: await getPendingSyncCount() });
+};
+
+const refreshConflictCount = async () => {
+  updateStatus({ conflicts: (await getSyncConflicts()).length });
+};
+
+const conflictId = (table: string, key: string) => `${table}:${key}`;
+
+// Bookkeeping columns that never count as a user-visible difference
+const META_FIELDS = new Set(['id', 'user_id', 'created_at', 'updated_at']);
+
+// Fields whose values differ between two versions of a row
+export const getChangedFields = (mine: SyncRow | null, theirs: SyncRow): string[] => {
+  if (!mine) return [];
+  const fields = new Set([...Object.keys(mine), ...Object.keys(theirs)]);
+  return [...fields].filter(field =>
+    !META_FIELDS.has(field) &&
+    field in mine &&
+    JSON.stringify(mine[field] ?? null) !== JSON.stringify(theirs[field] ?? null)
+  );
+};
+
+const isNewer = (serverUpdatedAt: string | undefined, base: string | undefined) =>
+  !!serverUpdatedAt && (!base || new Date(serverUpdatedAt) > new Date(base));
+
 // Save item to local store
 export const saveToLocal = async <T extends { id: string }>(
   storeName: StoreName,
@@ -171,10 +420,13 @@ export const addToSyncQueue = async (
     table,
     operation,
     data,
+    seq: nextSeq(),
     created_at: new Date().toISOString(),
+    user_id: data.user_id,
     retries: 0
   };
   await database.put('sync_queue', queueItem);
+  await refreshPendingCount();
 
   // Try to process immediately if online
   if (isOnline) {
@@ -182,135 +434,498 @@ export const addToSyncQueue = async (
   }
 };
 
-// Process sync queue
-export const processSyncQueue = async (): Promise<void> => {
-  if (syncInProgress || !isOnline) return;
+const upsertItem = (
+  table: StoreName,
+  key: string,
+  row: SyncRow,
+  createdAt: string,
+  base: string | undefined,
+  seq = nextSeq()
+): SyncQueueItem => ({
+  id: queueId(table, key, 'upsert'),
+  table,
+  operation: TABLES[table].onConflict ? 'upsert' : 'insert',
+  data: row,
+  key,
+  onConflict: TABLES[table].onConflict,
+  seq,
+  created_at: createdAt,
+  base_updated_at: base,
+  user_id: row.user_id as string | undefined,
+  retries: 0,
+});
+
+const deleteItem = (
+  table: StoreName,
+  key: string,
+  userId: string,
+  createdAt: string,
+  base: string | undefined
+): SyncQueueItem => ({
+  id: queueId(table, key, 'delete'),
+  table,
+  operation: 'delete',
+  data: TABLES[table].match(key, userId),
+  key,
+  seq: nextSeq(),
+  created_at: createdAt,
+  base_updated_at: base,
+  user_id: userId,
+  retries: 0,
+});
+
+// The server version a new local edit builds on
+const baseVersion = (record: SyncRecord | undefined): string | undefined =>
+  record ? (record.synced ? record.updated_at : record.base_updated_at) : undefined;
+
+/**
+ * Writes rows to the local store and queues them for upload.
+ * A row edited again before it syncs keeps a single queue entry with the latest data.
+ */
+export const queueUpserts = async (table: StoreName, rows: SyncRow[]): Promise<void> => {
+  if (rows.length === 0) return;
+  const config = TABLES[table];
+  const database = await getDB();
+  const now = new Date().toISOString();
+
+  const tx = database.transaction([table, 'sync_queue'], 'readwrite');
+  const store = tx.objectStore(table);
+  const queue = tx.objectStore('sync_queue');
+
+  for (const row of rows) {
+    const key = config.key(row);
+    const record = await store.get(key) as SyncRecord | undefined;
+    const existing = await queue.get(queueId(table, key, 'upsert')) as SyncQueueItem | undefined;
+    const base = baseVersion(record);
+    await queue.delete(queueId(table, key, 'delete'));
+    await store.put({ id: key, data: row, updated_at: now, synced: false, base_updated_at: base } as SyncRecord);
+    await queue.put(upsertItem(table, key, row, now, base, existing?.seq));
+  }
+
+  await tx.done;
+  await refreshPendingCount();
+};
 
-  syncInProgress = true;
+// Hides rows locally and queues their deletion on the server
+export const queueDeletes = async (table: StoreName, keys: string[], userId: string): Promise<void> => {
+  if (keys.length === 0) return;
   const database = await getDB();
+  const now = new Date().toISOString();
 
-  try {
-    const queue = await database.getAll('sync_queue') as SyncQueueItem[];
-    
-    for (const item of queue) {
-      try {
-        // Dynamic import to avoid circular dependency
-        const { supabase } = await import('@/integrations/supabase/client');
-        
-        let result;
-        const tableName = item.table as 'tasks' | 'systems' | 'habits' | 'transactions' | 'journal_entries' | 'savings_goals';
-        
-        if (item.operation === 'insert') {
-          result = await supabase.from(tableName).insert(item.data);
-        } else if (item.operation === 'update') {
-          result = await supabase.from(tableName).update(item.data).eq('id', item.data.id);
-        } else if (item.operation === 'delete') {
-          result = await supabase.from(tableName).delete().eq('id', item.data.id);
-        }
+  const tx = database.transaction([table, 'sync_queue'], 'readwrite');
+  const store = tx.objectStore(table);
+  const queue = tx.objectStore('sync_queue');
 
-        if (result?.error) {
-          throw result.error;
-        }
+  for (const key of keys) {
+    const record = await store.get(key) as SyncRecord | undefined;
+    const base = baseVersion(record);
+    if (record) {
+      await store.put({ ...record, pending_delete: true, synced: false, updated_at: now, base_updated_at: base });
+    }
+    await queue.delete(queueId(table, key, 'upsert'));
+    await queue.put(deleteItem(table, key, userId, now, base));
+  }
+
+  await tx.done;
+  await refreshPendingCount();
+};
 
-        // Remove from queue on success
-        const tx1 = database.transaction('sync_queue', 'readwrite');
-        await tx1.store.delete(item.id);
-        await tx1.done;
-
-        // If delete operation, also remove from local store
-        if (item.operation === 'delete') {
-          await deleteFromLocal(item.table as StoreName, item.data.id);
-        } else {
-          // Mark as synced in local store
-          const storeName = item.table as StoreName;
-          const record = await database.get(storeName, item.data.id) as SyncRecord | undefined;
-          if (record) {
-            record.synced = true;
-            await database.put(storeName, record);
+// Marks a replayed item as done, unless the row was edited again while the request was in flight
+const completeItem = async (database: IDBPDatabase, item: SyncQueueItem, savedRow?: SyncRow) => {
+  const storeName = item.table as StoreName;
+  const key = getItemKey(item);
+  const tx = database.transaction([storeName, 'sync_queue'], 'readwrite');
+  const current = await tx.objectStore('sync_queue').get(item.id) as SyncQueueItem | undefined;
+
+  const record = await tx.objectStore(storeName).get(key) as SyncRecord | undefined;
+
+  if (current && current.created_at === item.created_at) {
+    await tx.objectStore('sync_queue').delete(item.id);
+    if (item.operation === 'delete') {
+      await tx.objectStore(storeName).delete(key);
+    } else if (savedRow) {
+      await tx.objectStore(storeName).put(serverRecord(key, savedRow));
+    } else if (record) {
+      await tx.objectStore(storeName).put({ ...record, synced: true });
+    }
+  } else if (current && savedRow?.updated_at) {
+    // The newer edit now builds on the version we just wrote, not the one before it
+    await tx.objectStore('sync_queue').put({ ...current, base_updated_at: savedRow.updated_at });
+    if (record) {
+      await tx.objectStore(storeName).put({ ...record, base_updated_at: savedRow.updated_at });
+    }
+  }
+  await tx.done;
+};
+
+const fetchServerRows = async (
+  client: SupabaseClient,
+  storeName: StoreName,
+  keys: string[]
+): Promise<Map<string, SyncRow>> => {
+  const config = TABLES[storeName];
+  const rows = new Map<string, SyncRow>();
+  for (let i = 0; i < keys.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await client
+      .from(storeName)
+      .select('*')
+      .in(config.keyColumn, keys.slice(i, i + LOOKUP_CHUNK_SIZE));
+    if (error) throw error;
+    (data || []).forEach((row: SyncRow) => rows.set(config.key(row), row));
+  }
+  return rows;
+};
+
+// Park an edit for review; the local copy keeps showing "mine" until the user decides
+const recordConflict = async (database: IDBPDatabase, item: SyncQueueItem, mine: SyncRow | null, theirs: SyncRow) => {
+  const storeName = item.table as StoreName;
+  const key = getItemKey(item);
+  const tx = database.transaction(['sync_queue', 'sync_conflicts'], 'readwrite');
+  const current = await tx.objectStore('sync_queue').get(item.id) as SyncQueueItem | undefined;
+
+  // A newer edit queued meanwhile will run into the same conflict and refresh it
+  if (current && current.created_at === item.created_at) {
+    await tx.objectStore('sync_queue').delete(item.id);
+  }
+  await tx.objectStore('sync_conflicts').put({
+    id: conflictId(storeName, key),
+    table: storeName,
+    key,
+    mine,
+    theirs,
+    detected_at: new Date().toISOString(),
+  } as SyncConflict);
+  await tx.done;
+};
+
+// Upload a run of upserts to one table; rows changed on the server since this edit was made become conflicts
+const replayUpserts = async (client: SupabaseClient, database: IDBPDatabase, batch: SyncQueueItem[]) => {
+  const storeName = batch[0].table as StoreName;
+  const config = TABLES[storeName];
+  let toPush = batch;
+
+  if (config.versioned) {
+    const serverByKey = await fetchServerRows(client, storeName, batch.map(getItemKey));
+    const conflicts = batch.filter(item => {
+      const serverRow = serverByKey.get(getItemKey(item));
+      return !!serverRow &&
+        isNewer(serverRow.updated_at, item.base_updated_at) &&
+        getChangedFields(item.data, serverRow).length > 0;
+    });
+
+    for (const item of conflicts) {
+      await recordConflict(database, item, item.data, serverByKey.get(getItemKey(item))!);
+    }
+    if (conflicts.length > 0) {
+      console.warn(`[offlineSync] ${conflicts.length} ${storeName} edit(s) conflict with newer server versions`);
+      await refreshConflictCount();
+    }
+    toPush = batch.filter(item => !conflicts.includes(item));
+  }
+
+  if (toPush.length === 0) return;
+
+  const { data: saved, error } = await client
+    .from(storeName)
+    .upsert(toPush.map(item => item.data), { onConflict: batch[0].onConflict })
+    .select();
+  if (error) throw error;
+
+  const savedByKey = new Map((saved || []).map(row => [config.key(row), row]));
+  for (const item of toPush) {
+    await completeItem(database, item, savedByKey.get(getItemKey(item)));
+  }
+};
+
+const replayItem = async (client: SupabaseClient, database: IDBPDatabase, item: SyncQueueItem) => {
+  let result;
+  if (item.operation === 'insert') {
+    result = await client.from(item.table).insert(item.data);
+  } else if (item.operation === 'update') {
+    result = await client.from(item.table).update(item.data).eq('id', item.data.id);
+  } else if (item.operation === 'delete') {
+    const storeName = item.table as StoreName;
+    if (item.key && TABLES[storeName]?.versioned) {
+      // Deleting a row someone else has edited since is a conflict, not a silent loss
+      const serverRow = (await fetchServerRows(client, storeName, [item.key])).get(item.key);
+      if (serverRow && isNewer(serverRow.updated_at, item.base_updated_at)) {
+        await recordConflict(database, item, null, serverRow);
+        await refreshConflictCount();
+        return;
+      }
+    }
+    result = await client.from(item.table).delete().match(item.key ? item.data : { id: item.data.id });
+  } else {
+    return replayUpserts(client, database, [item]);
+  }
+
+  if (result?.error) {
+    throw result.error;
+  }
+  await completeItem(database, item);
+};
+
+const recordFailure = async (database: IDBPDatabase, item: SyncQueueItem, error: unknown) => {
+  console.error(`Sync error for ${item.table}:`, error);
+
+  // Increment retry count
+  item.retries += 1;
+
+  // Give up after too many retries; the next refresh restores the server version
+  if (item.retries >= MAX_RETRIES) {
+    console.error(`Max retries reached for ${item.id}, removing from queue`);
+    await database.delete('sync_queue', item.id);
+    logError('server_error', getMessage(error), `Syncing ${item.table}`);
+    updateStatus({ failed: status.failed + 1 });
+  } else {
+    await database.put('sync_queue', item);
+  }
+};
+
+const replayQueue = async (): Promise<void> => {
+  const database = await getDB();
+  const { supabase } = await import('@/integrations/supabase/client');
+  // The table name is only known at runtime, so go through an untyped view of the client
+  const client = supabase as unknown as SupabaseClient;
+
+  updateStatus({ syncing: true });
+  try {
+    // Keep going while new edits arrive during the replay
+    for (;;) {
+      const queue = (await database.getAll('sync_queue') as SyncQueueItem[]).filter(isOwnItem).sort(bySeq);
+      if (queue.length === 0 || !isOnline) break;
+
+      let progressed = false;
+      let index = 0;
+      while (index < queue.length) {
+        const item = queue[index];
+        const batch = [item];
+        // Replay consecutive upserts to the same table as one request
+        if (item.operation === 'upsert') {
+          while (
+            batch.length < BATCH_SIZE &&
+            index + batch.length < queue.length &&
+            queue[index + batch.length].operation === 'upsert' &&
+            queue[index + batch.length].table === item.table &&
+            queue[index + batch.length].onConflict === item.onConflict
+          ) {
+            batch.push(queue[index + batch.length]);
           }
         }
-      } catch (error) {
-        console.error(`Sync error for ${item.table}:`, error);
-        
-        // Increment retry count
-        item.retries += 1;
-        
-        // Remove from queue if too many retries
-        if (item.retries >= 5) {
-          console.error(`Max retries reached for ${item.id}, removing from queue`);
-          await database.delete('sync_queue', item.id);
-        } else {
-          await database.put('sync_queue', item);
+        index += batch.length;
+
+        try {
+          if (item.operation === 'upsert') {
+            await replayUpserts(client, database, batch);
+          } else {
+            await replayItem(client, database, item);
+          }
+          progressed = true;
+        } catch (error) {
+          if (isConnectionError(error)) return;
+
+          // One bad row should not hold back the rest of the batch
+          for (const failed of batch) {
+            try {
+              if (batch.length > 1) {
+                await replayItem(client, database, failed);
+                progressed = true;
+              } else {
+                await recordFailure(database, failed, error);
+              }
+            } catch (itemError) {
+              if (isConnectionError(itemError)) return;
+              await recordFailure(database, failed, itemError);
+            }
+          }
         }
+        await refreshPendingCount();
       }
+
+      if (!progressed) break;
+      updateStatus({ lastSyncedAt: new Date().toISOString() });
     }
   } finally {
-    syncInProgress = false;
+    await refreshPendingCount();
+    updateStatus({ syncing: false });
   }
 };
 
+// Process sync queue; concurrent callers share the run in progress
+export const processSyncQueue = (): Promise<void> => {
+  if (!isOnline) return Promise.resolve();
+  if (!replayRun) {
+    replayRun = runExclusive(replayQueue).finally(() => {
+      replayRun = null;
+    });
+  }
+  return replayRun;
+};
+
 // Sync from server (background refresh)
 export const syncFromServer = async (
   storeName: StoreName,
-  serverData: Array<{ id: string; updated_at?: string; [key: string]: any }>
+  serverData: SyncRow[]
 ): Promise<void> => {
   const database = await getDB();
-  
+  const config = TABLES[storeName];
+  const tx = database.transaction([storeName, 'sync_queue', 'sync_conflicts'], 'readwrite');
+  const store = tx.objectStore(storeName);
+  const conflictStore = tx.objectStore('sync_conflicts');
+
+  // Rows with queued edits are settled by the replay, which checks versions itself
+  const pending = new Set<string>();
+  (await tx.objectStore('sync_queue').getAll() as SyncQueueItem[])
+    .filter(item => item.table === storeName)
+    .forEach(item => pending.add(getItemKey(item)));
+
+  const conflicted = new Map<string, SyncConflict>();
+  (await conflictStore.getAll() as SyncConflict[])
+    .filter(conflict => conflict.table === storeName)
+    .forEach(conflict => conflicted.set(conflict.key, conflict));
+
+  const serverKeys = new Set<string>();
+
   for (const serverItem of serverData) {
-    const localRecord = await database.get(storeName, serverItem.id) as SyncRecord | undefined;
-    
-    if (!localRecord) {
-      // New item from server
-      const record: SyncRecord = {
-        id: serverItem.id,
-        data: serverItem,
-        updated_at: serverItem.updated_at || new Date().toISOString(),
-        synced: true
-      };
-      await database.put(storeName, record);
-    } else if (!localRecord.synced) {
-      // Local changes pending - compare timestamps
-      const localTime = new Date(localRecord.updated_at).getTime();
-      const serverTime = new Date(serverItem.updated_at || 0).getTime();
-      
-      if (serverTime > localTime) {
-        // Server is newer, overwrite local
-        const record: SyncRecord = {
-          id: serverItem.id,
-          data: serverItem,
-          updated_at: serverItem.updated_at || new Date().toISOString(),
-          synced: true
-        };
-        await database.put(storeName, record);
-      }
-      // If local is newer, keep local and it will sync on next queue process
-    } else {
-      // No local changes, update with server data
-      const record: SyncRecord = {
-        id: serverItem.id,
-        data: serverItem,
-        updated_at: serverItem.updated_at || new Date().toISOString(),
-        synced: true
-      };
-      await database.put(storeName, record);
+    const key = config.key(serverItem);
+    serverKeys.add(key);
+
+    const conflict = conflicted.get(key);
+    if (conflict) {
+      // Keep comparing against the latest server version while the conflict is open
+      await conflictStore.put({ ...conflict, theirs: serverItem });
+      continue;
+    }
+    if (pending.has(key)) continue;
+
+    await store.put(serverRecord(key, serverItem));
+  }
+
+  // Drop rows that no longer exist on the server, keeping local edits that have not been settled yet
+  for (const record of await store.getAll() as SyncRecord[]) {
+    if (!serverKeys.has(record.id) && !pending.has(record.id) && !conflicted.has(record.id)) {
+      await store.delete(record.id);
     }
   }
+
+  await tx.done;
+};
+
+export const getSyncConflicts = async (): Promise<SyncConflict[]> => {
+  const database = await getDB();
+  const conflicts = (await database.getAll('sync_conflicts') as SyncConflict[]).filter(isOwnConflict);
+  return conflicts.sort((a, b) => a.detected_at.localeCompare(b.detected_at));
+};
+
+/**
+ * Settles a conflict. "mine" and merges are queued on top of the server version the user saw,
+ * so they will not trip the same conflict again; "theirs" simply adopts the server row.
+ */
+export const resolveSyncConflict = async (id: string, resolution: ConflictResolution): Promise<void> => {
+  const database = await getDB();
+  const conflict = await database.get('sync_conflicts', id) as SyncConflict | undefined;
+  if (!conflict) return;
+
+  const { table, key, mine, theirs } = conflict;
+  const base = theirs.updated_at;
+  const now = new Date().toISOString();
+
+  const tx = database.transaction([table, 'sync_queue', 'sync_conflicts'], 'readwrite');
+  const store = tx.objectStore(table);
+  const queue = tx.objectStore('sync_queue');
+
+  if (resolution === 'theirs') {
+    await queue.delete(queueId(table, key, 'upsert'));
+    await queue.delete(queueId(table, key, 'delete'));
+    await store.put(serverRecord(key, theirs));
+  } else if (resolution === 'mine' && !mine) {
+    await store.put({ ...serverRecord(key, theirs), pending_delete: true, synced: false, updated_at: now, base_updated_at: base });
+    await queue.put(deleteItem(table, key, String(theirs.user_id), now, base));
+  } else {
+    const row = resolution === 'mine' ? mine! : resolution.merged;
+    await queue.delete(queueId(table, key, 'delete'));
+    await store.put({ id: key, data: row, updated_at: now, synced: false, base_updated_at: base } as SyncRecord);
+    await queue.put(upsertItem(table, key, row, now, base));
+  }
+
+  await tx.objectStore('sync_conflicts').delete(id);
+  await tx.done;
+
+  await refreshPendingCount();
+  await refreshConflictCount();
+  processSyncQueue();
+};
+
+/**
+ * Pushes pending edits, then replaces the local copy of every table with the server's rows.
+ * Unsynced local edits that are newer than the server version survive the refresh.
+ */
+export const refreshFromServer = async (
+  fetchTable: (storeName: StoreName) => Promise<SyncRow[]>
+): Promise<void> => {
+  await processSyncQueue();
+  await runExclusive(async () => {
+    // Nothing is applied or pruned unless every table was read in full
+    const results = await Promise.all(STORE_NAMES.map(fetchTable));
+    for (let i = 0; i < STORE_NAMES.length; i++) {
+      await syncFromServer(STORE_NAMES[i], results[i]);
+    }
+  });
+  await refreshPendingCount();
 };
 
 // Get pending sync count
 export const getPendingSyncCount = async (): Promise<number> => {
   const database = await getDB();
-  const queue = await database.getAll('sync_queue') as SyncQueueItem[];
-  return queue.length;
+  return (await database.getAll('sync_queue') as SyncQueueItem[]).filter(isOwnItem).length;
+};
+
+// Called on every auth change so replay and the counts follow the signed-in user
+export const setSyncUser = (userId: string | null): void => {
+  if (userId === syncUserId) return;
+  syncUserId = userId;
+  refreshPendingCount();
+  refreshConflictCount();
+  if (userId) processSyncQueue();
+};
+
+/**
+ * Drops the device copy of the data after a sign-out. Edits the server has not received and
+ * conflicts still waiting for review are kept, with the rows they touch, so they replay once
+ * their owner signs in again. Returns how many were kept.
+ */
+export const clearLocalDataOnSignOut = async (): Promise<number> => {
+  const database = await getDB();
+  const tx = database.transaction([...STORE_NAMES, 'sync_queue', 'sync_conflicts'], 'readwrite');
+  const queue = await tx.objectStore('sync_queue').getAll() as SyncQueueItem[];
+  const conflicts = await tx.objectStore('sync_conflicts').getAll() as SyncConflict[];
+
+  const kept = new Set([
+    ...queue.map(item => conflictId(item.table, getItemKey(item))),
+    ...conflicts.map(conflict => conflictId(conflict.table, conflict.key)),
+  ]);
+  for (const storeName of STORE_NAMES) {
+    const store = tx.objectStore(storeName);
+    for (const key of await store.getAllKeys()) {
+      if (!kept.has(conflictId(storeName, String(key)))) await store.delete(key);
+    }
+  }
+  await tx.done;
+
+  await refreshPendingCount();
+  await refreshConflictCount();
+  return queue.length + conflicts.length;
 };
 
 // Clear all local data (for reset/logout)
 export const clearAllLocalData = async (): Promise<void> => {
   const database = await getDB();
-  const storeNames: StoreName[] = ['tasks', 'systems', 'habits', 'transactions', 'journal_entries', 'savings_goals'];
-  
-  for (const storeName of storeNames) {
+
+  for (const storeName of STORE_NAMES) {
     await database.clear(storeName);
   }
   await database.clear('sync_queue');
+  await database.clear('sync_conflicts');
+  await refreshPendingCount();
+  await refreshConflictCount();
 };
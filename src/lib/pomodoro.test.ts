@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_POMODORO_SETTINGS, getCycleInSet, getNextPhase, getPhaseMinutes, normalizePomodoroSettings } from './pomodoro';
+
+describe('normalizePomodoroSettings', () => {
+  it('fills in missing fields from the defaults', () => {
+    expect(normalizePomodoroSettings(null)).toEqual(DEFAULT_POMODORO_SETTINGS);
+    expect(normalizePomodoroSettings({ workMinutes: 50, autoStart: true })).toEqual({ ...DEFAULT_POMODORO_SETTINGS, workMinutes: 50, autoStart: true });
+  });
+
+  it('rounds and clamps lengths into range', () => {
+    expect(normalizePomodoroSettings({ workMinutes: 0, shortBreakMinutes: 4.6, longBreakMinutes: 500, longBreakEvery: Number.NaN }))
+      .toMatchObject({ workMinutes: 1, shortBreakMinutes: 5, longBreakMinutes: 120, longBreakEvery: 1 });
+  });
+});
+
+describe('cycles', () => {
+  const settings = { ...DEFAULT_POMODORO_SETTINGS, longBreakEvery: 3 };
+
+  it('takes a long break after every set of work intervals', () => {
+    expect(getNextPhase('work', 1, settings)).toBe('shortBreak');
+    expect(getNextPhase('work', 3, settings)).toBe('longBreak');
+    expect(getNextPhase('work', 6, settings)).toBe('longBreak');
+    expect(getNextPhase('shortBreak', 1, settings)).toBe('work');
+    expect(getNextPhase('longBreak', 3, settings)).toBe('work');
+  });
+
+  it('numbers work intervals within their set', () => {
+    expect([1, 2, 3, 4].map(cycle => getCycleInSet(cycle, settings))).toEqual([1, 2, 3, 1]);
+  });
+
+  it('gives each phase its length', () => {
+    expect(getPhaseMinutes('work', settings)).toBe(25);
+    expect(getPhaseMinutes('shortBreak', settings)).toBe(5);
+    expect(getPhaseMinutes('longBreak', settings)).toBe(15);
+  });
+});
@@ -0,0 +1,61 @@
+export type FocusPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  // A long break replaces the short one after every N work intervals
+  longBreakEvery: number;
+  // Start the next phase as soon as one ends instead of waiting for the user
+  autoStart: boolean;
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+  autoStart: false,
+};
+
+export const PHASE_LABELS: Record<FocusPhase, string> = {
+  work: 'Focus',
+  shortBreak: 'Short break',
+  longBreak: 'Long break',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value) || min));
+
+// Fills in missing fields and keeps lengths in a usable range
+export function normalizePomodoroSettings(settings?: Partial<PomodoroSettings> | null): PomodoroSettings {
+  const merged = { ...DEFAULT_POMODORO_SETTINGS, ...settings };
+  return {
+    workMinutes: clamp(merged.workMinutes, 1, 180),
+    shortBreakMinutes: clamp(merged.shortBreakMinutes, 1, 60),
+    longBreakMinutes: clamp(merged.longBreakMinutes, 1, 120),
+    longBreakEvery: clamp(merged.longBreakEvery, 1, 12),
+    autoStart: !!merged.autoStart,
+  };
+}
+
+export function getPhaseMinutes(phase: FocusPhase, settings: PomodoroSettings): number {
+  switch (phase) {
+    case 'shortBreak':
+      return settings.shortBreakMinutes;
+    case 'longBreak':
+      return settings.longBreakMinutes;
+    default:
+      return settings.workMinutes;
+  }
+}
+
+// What follows a phase; cycle is the 1-based number of the work interval just finished
+export function getNextPhase(phase: FocusPhase, cycle: number, settings: PomodoroSettings): FocusPhase {
+  if (phase !== 'work') return 'work';
+  return cycle % settings.longBreakEvery === 0 ? 'longBreak' : 'shortBreak';
+}
+
+// Position of a work interval within its set, e.g. 2 of 4 until the long break
+export function getCycleInSet(cycle: number, settings: PomodoroSettings): number {
+  return ((cycle - 1) % settings.longBreakEvery) + 1;
+}
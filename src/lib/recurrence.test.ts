@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { RecurrenceRule, Tasks } from './types';
+import {
+  describeRecurrence,
+  getNextOccurrence,
+  getTasksForDay,
+  occursOn,
+  parseRecurrenceText,
+  setOccurrenceState,
+} from './recurrence';
+
+const monthly = (byMonthDay?: number): RecurrenceRule => ({ freq: 'monthly', interval: 1, byMonthDay });
+
+describe('occursOn', () => {
+  it('repeats daily at the interval from the start', () => {
+    const rule: RecurrenceRule = { freq: 'daily', interval: 3 };
+    expect(occursOn(rule, '2024-01-01', '2024-01-04')).toBe(true);
+    expect(occursOn(rule, '2024-01-01', '2024-01-05')).toBe(false);
+    expect(occursOn(rule, '2024-01-01', '2023-12-29')).toBe(false);
+  });
+
+  it('repeats weekly on the chosen weekdays', () => {
+    // 2024-01-01 is a Monday
+    const rule: RecurrenceRule = { freq: 'weekly', interval: 2, byWeekday: [0, 4] };
+    expect(occursOn(rule, '2024-01-01', '2024-01-05')).toBe(true);
+    expect(occursOn(rule, '2024-01-01', '2024-01-08')).toBe(false);
+    expect(occursOn(rule, '2024-01-01', '2024-01-15')).toBe(true);
+  });
+
+  it('falls back to the last day of months shorter than the day', () => {
+    const rule = monthly(31);
+    expect(occursOn(rule, '2024-01-31', '2024-02-29')).toBe(true);
+    expect(occursOn(rule, '2024-01-31', '2024-02-28')).toBe(false);
+    expect(occursOn(rule, '2024-01-31', '2024-03-31')).toBe(true);
+    expect(occursOn(rule, '2024-01-31', '2024-04-30')).toBe(true);
+    expect(occursOn(rule, '2023-01-31', '2023-02-28')).toBe(true);
+  });
+
+  it('uses the start day when no month day is set', () => {
+    expect(occursOn(monthly(), '2024-01-30', '2024-02-29')).toBe(true);
+    expect(occursOn(monthly(), '2024-01-30', '2024-03-30')).toBe(true);
+    expect(occursOn(monthly(), '2024-01-30', '2024-03-31')).toBe(false);
+  });
+
+  it('stops at until and after count occurrences', () => {
+    expect(occursOn({ freq: 'daily', interval: 1, until: '2024-01-03' }, '2024-01-01', '2024-01-04')).toBe(false);
+    const counted: RecurrenceRule = { freq: 'daily', interval: 1, count: 3 };
+    expect(occursOn(counted, '2024-01-01', '2024-01-03')).toBe(true);
+    expect(occursOn(counted, '2024-01-01', '2024-01-04')).toBe(false);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('finds the next month-end occurrence', () => {
+    expect(getNextOccurrence(monthly(31), '2024-01-31', '2024-02-01')).toBe('2024-02-29');
+    expect(getNextOccurrence(monthly(31), '2024-01-31', '2024-03-01')).toBe('2024-03-31');
+  });
+
+  it('starts from the series start when asked about an earlier date', () => {
+    expect(getNextOccurrence({ freq: 'daily', interval: 1 }, '2024-05-10', '2024-05-01')).toBe('2024-05-10');
+  });
+
+  it('gives null once the series has ended', () => {
+    expect(getNextOccurrence({ freq: 'daily', interval: 1, until: '2024-01-05' }, '2024-01-01', '2024-01-06')).toBeNull();
+  });
+});
+
+describe('getTasksForDay', () => {
+  const tasks: Tasks = {
+    '2024-01-01': [
+      { id: 1, text: 'Standup', done: false, recurrence: { freq: 'daily', interval: 1 }, occurrenceStates: { '2024-01-02': 'done', '2024-01-03': 'skipped' } },
+      { id: 2, text: 'One-off', done: true },
+      { id: 3, text: 'Checklist item', done: false, parentId: 2 },
+    ],
+    '2024-01-02': [{ id: 4, text: 'Tuesday task', done: false }],
+  };
+
+  it('lists one-off tasks and generated occurrences but not subtasks', () => {
+    expect(getTasksForDay(tasks, '2024-01-01').map(t => t.id)).toEqual([2, 1]);
+  });
+
+  it('takes the done state of an occurrence from its series', () => {
+    const day = getTasksForDay(tasks, '2024-01-02');
+    expect(day.map(t => [t.id, t.done])).toEqual([[4, false], [1, true]]);
+    expect(day[1]).toMatchObject({ seriesDay: '2024-01-01', occurrenceDate: '2024-01-02' });
+  });
+
+  it('leaves out skipped occurrences', () => {
+    expect(getTasksForDay(tasks, '2024-01-03')).toEqual([]);
+  });
+
+  it('sets and clears the state of one occurrence', () => {
+    const done = setOccurrenceState(tasks, '2024-01-01', 1, '2024-01-04', 'done');
+    expect(done['2024-01-01'][0].occurrenceStates).toMatchObject({ '2024-01-04': 'done' });
+    const cleared = setOccurrenceState(done, '2024-01-01', 1, '2024-01-04', null);
+    expect(cleared['2024-01-01'][0].occurrenceStates).not.toHaveProperty('2024-01-04');
+  });
+});
+
+describe('recurrence text', () => {
+  it('describes a rule', () => {
+    expect(describeRecurrence({ freq: 'weekly', interval: 2, byWeekday: [4, 0] })).toBe('Every 2 weeks on Mon, Fri');
+    expect(describeRecurrence({ ...monthly(31), count: 6 })).toBe('Monthly on day 31, 6 times');
+  });
+
+  it('pulls a repeat phrase out of free text', () => {
+    expect(parseRecurrenceText('Water plants every 3 days')).toEqual({
+      text: 'Water plants',
+      recurrence: { freq: 'daily', interval: 3 },
+    });
+    expect(parseRecurrenceText('Gym every monday and thursday').recurrence)
+      .toEqual({ freq: 'weekly', interval: 1, byWeekday: [0, 3] });
+    expect(parseRecurrenceText('Call mum').recurrence).toBeNull();
+  });
+});
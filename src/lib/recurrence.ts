@@ -0,0 +1,186 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  format,
+  getDaysInMonth,
+} from 'date-fns';
+import { DAYS } from './constants';
+import { OccurrenceState, RecurrenceRule, TaskOccurrence, Tasks } from './types';
+import { isDateKey, parseDateKey, toDateKey } from './taskDates';
+
+const SHORT_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Monday = 0 to match DAYS
+const getWeekdayIndex = (date: Date) => (date.getDay() + 6) % 7;
+
+function matchesPattern(rule: RecurrenceRule, start: Date, date: Date): boolean {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.freq) {
+    case 'daily':
+      return differenceInCalendarDays(date, start) % interval === 0;
+    case 'weekly': {
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [getWeekdayIndex(start)];
+      if (!weekdays.includes(getWeekdayIndex(date))) return false;
+      return differenceInCalendarWeeks(date, start, { weekStartsOn: 1 }) % interval === 0;
+    }
+    case 'monthly': {
+      // Day 31 falls back to the last day of shorter months
+      const monthDay = Math.min(rule.byMonthDay || start.getDate(), getDaysInMonth(date));
+      if (date.getDate() !== monthDay) return false;
+      return differenceInCalendarMonths(date, start) % interval === 0;
+    }
+    default:
+      return false;
+  }
+}
+
+// Number of occurrences strictly before `date`, stopping once `limit` is reached
+function countOccurrencesBefore(rule: RecurrenceRule, start: Date, date: Date, limit: number): number {
+  let count = 0;
+  for (let d = start; d < date && count < limit; d = addDays(d, 1)) {
+    if (matchesPattern(rule, start, d)) count++;
+  }
+  return count;
+}
+
+export function occursOn(rule: RecurrenceRule, startKey: string, dateKey: string): boolean {
+  if (!isDateKey(startKey) || !isDateKey(dateKey)) return false;
+  if (dateKey < startKey) return false;
+  if (rule.until && dateKey > rule.until) return false;
+
+  const start = parseDateKey(startKey);
+  const date = parseDateKey(dateKey);
+  if (!matchesPattern(rule, start, date)) return false;
+
+  if (rule.count) {
+    return countOccurrencesBefore(rule, start, date, rule.count) < rule.count;
+  }
+  return true;
+}
+
+// First occurrence on or after `fromKey`, searching up to two years ahead
+export function getNextOccurrence(rule: RecurrenceRule, startKey: string, fromKey: string): string | null {
+  if (!isDateKey(startKey) || !isDateKey(fromKey)) return null;
+  let date = parseDateKey(fromKey < startKey ? startKey : fromKey);
+
+  for (let i = 0; i < 731; i++) {
+    const key = toDateKey(date);
+    if (rule.until && key > rule.until) return null;
+    if (occursOn(rule, startKey, key)) return key;
+    date = addDays(date, 1);
+  }
+  return null;
+}
+
+// Everything due on a date: one-off tasks in that bucket plus generated occurrences.
+// Subtasks are left out; they are listed under their parent.
+export function getTasksForDay(tasks: Tasks, dateKey: string): TaskOccurrence[] {
+  const oneOff = (tasks[dateKey] || [])
+    .filter(task => !task.recurrence && !task.parentId)
+    .map(task => ({ ...task, seriesDay: dateKey, occurrenceDate: dateKey }));
+
+  const occurrences: TaskOccurrence[] = [];
+  Object.entries(tasks).forEach(([seriesDay, dayTasks]) => {
+    if (!isDateKey(seriesDay) || seriesDay > dateKey) return;
+    dayTasks.forEach(task => {
+      if (!task.recurrence || task.parentId || !occursOn(task.recurrence, seriesDay, dateKey)) return;
+      const state = task.occurrenceStates?.[dateKey];
+      if (state === 'skipped') return;
+      occurrences.push({
+        ...task,
+        done: state === 'done',
+        alerted: false,
+        seriesDay,
+        occurrenceDate: dateKey,
+      });
+    });
+  });
+
+  return [...oneOff, ...occurrences];
+}
+
+// Set (or clear) the state of one occurrence without touching the rest of the series
+export function setOccurrenceState(
+  tasks: Tasks,
+  seriesDay: string,
+  taskId: string | number,
+  dateKey: string,
+  state: OccurrenceState | null
+): Tasks {
+  return {
+    ...tasks,
+    [seriesDay]: (tasks[seriesDay] || []).map(task => {
+      if (String(task.id) !== String(taskId)) return task;
+      const occurrenceStates = { ...(task.occurrenceStates || {}) };
+      if (state) {
+        occurrenceStates[dateKey] = state;
+      } else {
+        delete occurrenceStates[dateKey];
+      }
+      return { ...task, occurrenceStates };
+    }),
+  };
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  switch (rule.freq) {
+    case 'daily':
+      description = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      break;
+    case 'weekly': {
+      const days = (rule.byWeekday || []).slice().sort().map(d => SHORT_DAYS[d]).join(', ');
+      description = interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+      if (days) description += ` on ${days}`;
+      break;
+    }
+    case 'monthly':
+      description = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+      if (rule.byMonthDay) description += ` on day ${rule.byMonthDay}`;
+      break;
+    default:
+      description = 'Repeats';
+  }
+
+  if (rule.until) {
+    description += ` until ${format(parseDateKey(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+  return description;
+}
+
+// Pull a simple repeat phrase ("every day", "every 3 days", "every monday") out of free text
+export function parseRecurrenceText(input: string): { text: string; recurrence: RecurrenceRule | null } {
+  const dayNames = DAYS.map(d => d.toLowerCase());
+  const patterns: { regex: RegExp; build: (match: RegExpMatchArray) => RecurrenceRule }[] = [
+    { regex: /\b(?:every\s*day|daily)\b/i, build: () => ({ freq: 'daily', interval: 1 }) },
+    { regex: /\bevery\s+(\d+)\s+days?\b/i, build: m => ({ freq: 'daily', interval: Number(m[1]) }) },
+    {
+      regex: new RegExp(`\\bevery\\s+((?:(?:${dayNames.join('|')})s?(?:\\s*(?:,|and)\\s*)?)+)`, 'i'),
+      build: m => ({
+        freq: 'weekly',
+        interval: 1,
+        byWeekday: dayNames
+          .map((name, index) => (m[1].toLowerCase().includes(name) ? index : -1))
+          .filter(index => index !== -1),
+      }),
+    },
+    { regex: /\b(?:every\s*week|weekly)\b/i, build: () => ({ freq: 'weekly', interval: 1 }) },
+    { regex: /\b(?:every\s*month|monthly)\b/i, build: () => ({ freq: 'monthly', interval: 1 }) },
+  ];
+
+  for (const { regex, build } of patterns) {
+    const match = input.match(regex);
+    if (match) {
+      const text = input.replace(match[0], '').replace(/\s{2,}/g, ' ').trim();
+      return { text, recurrence: build(match) };
+    }
+  }
+  return { text: input, recurrence: null };
+}
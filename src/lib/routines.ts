@@ -0,0 +1,52 @@
+import { Habit, Routine, System } from './types';
+import { getTodayKey } from './taskDates';
+import { isHabitDoneOn, toggleHabitDone } from './habitSchedule';
+import { getActiveSystems } from './archive';
+
+export interface ResolvedRoutineStep {
+  habit: Habit;
+  systemId: string | number;
+  minutes: number;
+}
+
+export const DEFAULT_STEP_MINUTES = 5;
+
+export function findHabit(systems: System[], habitId: string | number): { habit: Habit; systemId: string | number } | null {
+  for (const system of systems) {
+    const habit = system.habits.find(h => String(h.id) === String(habitId));
+    if (habit) return { habit, systemId: system.id };
+  }
+  return null;
+}
+
+// Steps in order with their habits; steps whose habit was deleted or archived drop out
+export function getRoutineSteps(routine: Routine, systems: System[]): ResolvedRoutineStep[] {
+  const active = getActiveSystems(systems);
+  return routine.steps.flatMap(step => {
+    const found = findHabit(active, step.habitId);
+    return found ? [{ ...found, minutes: step.minutes }] : [];
+  });
+}
+
+export function getRoutineMinutes(steps: { minutes: number }[]): number {
+  return steps.reduce((sum, step) => sum + step.minutes, 0);
+}
+
+export function isRoutineDoneOn(routine: Routine, systems: System[], dateKey: string = getTodayKey()): boolean {
+  const steps = getRoutineSteps(routine, systems);
+  return steps.length > 0 && steps.every(step => isHabitDoneOn(step.habit, dateKey));
+}
+
+// Records the habit as done for the day; quantitative habits log their full target
+export function completeHabit(systems: System[], habitId: string | number, dateKey: string = getTodayKey()): System[] {
+  return systems.map(system => ({
+    ...system,
+    habits: system.habits.map(habit =>
+      String(habit.id) === String(habitId) && !isHabitDoneOn(habit, dateKey) ? toggleHabitDone(habit, dateKey) : habit
+    ),
+  }));
+}
+
+export function formatRoutineChain(steps: ResolvedRoutineStep[]): string {
+  return steps.map(step => step.habit.name).join(' → ');
+}
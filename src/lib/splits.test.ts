@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { buildSplits, getCategoryAmount, getCategoryAmounts, hasCategory, isSplit, isSplitBalanced } from './splits';
+import { Transaction } from './types';
+
+const transaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 't-1',
+  type: 'expense',
+  amount: 100,
+  category: 'Food',
+  description: 'Market',
+  date: '2024-03-01',
+  ...overrides,
+});
+
+describe('category amounts', () => {
+  it('uses the whole amount when the transaction isn\'t split', () => {
+    const t = transaction({ splits: [] });
+    expect(isSplit(t)).toBe(false);
+    expect(getCategoryAmounts(t)).toEqual([{ category: 'Food', amount: 100 }]);
+    expect(getCategoryAmount(t, 'Household')).toBe(0);
+  });
+
+  it('uses the lines of a split transaction', () => {
+    const t = transaction({
+      category: 'Split',
+      splits: [{ category: 'Food', amount: 60 }, { category: 'Household', amount: 30 }, { category: 'Food', amount: 10 }],
+    });
+    expect(isSplit(t)).toBe(true);
+    expect(getCategoryAmount(t, 'Food')).toBe(70);
+    expect(hasCategory(t, 'Household')).toBe(true);
+    expect(hasCategory(t, 'Split')).toBe(false);
+  });
+});
+
+describe('isSplitBalanced', () => {
+  it('allows for floating point drift but not a missing cent', () => {
+    expect(isSplitBalanced([{ category: 'A', amount: 0.1 }, { category: 'B', amount: 0.2 }], 0.3)).toBe(true);
+    expect(isSplitBalanced([{ category: 'A', amount: 10 }, { category: 'B', amount: 9.99 }], 20)).toBe(false);
+  });
+});
+
+describe('buildSplits', () => {
+  it('merges items by category in first-seen order', () => {
+    const items = [
+      { category: 'Food', amount: 20 },
+      { category: 'Household', amount: 30 },
+      { category: 'Food', amount: 50 },
+    ];
+    expect(buildSplits(items, 100)).toEqual([{ category: 'Food', amount: 70 }, { category: 'Household', amount: 30 }]);
+  });
+
+  it('scales lines to the total and gives rounding leftovers to the largest', () => {
+    const items = [
+      { category: 'A', amount: 1 },
+      { category: 'B', amount: 1 },
+      { category: 'C', amount: 2 },
+    ];
+    const splits = buildSplits(items, 10.01);
+    expect(splits).toEqual([{ category: 'A', amount: 2.5 }, { category: 'B', amount: 2.5 }, { category: 'C', amount: 5.01 }]);
+    expect(isSplitBalanced(splits, 10.01)).toBe(true);
+  });
+
+  it('returns no lines without positive items', () => {
+    expect(buildSplits([], 10)).toEqual([]);
+    expect(buildSplits([{ category: 'A', amount: 0 }], 10)).toEqual([]);
+  });
+});
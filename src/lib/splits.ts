@@ -0,0 +1,55 @@
+import { Transaction, TransactionSplit } from './types';
+
+// Category of a split expense itself; its lines carry the real categories
+export const SPLIT_CATEGORY = 'Split';
+
+// Largest difference between the lines and the total still treated as balanced
+const SPLIT_TOLERANCE = 0.005;
+
+export function isSplit(t: Transaction): boolean {
+  return !!t.splits && t.splits.length > 0;
+}
+
+export function getSplitsTotal(splits: TransactionSplit[]): number {
+  return splits.reduce((sum, s) => sum + s.amount, 0);
+}
+
+export function isSplitBalanced(splits: TransactionSplit[], total: number): boolean {
+  return Math.abs(getSplitsTotal(splits) - total) < SPLIT_TOLERANCE;
+}
+
+// What the transaction counts towards each category: its lines when split,
+// otherwise its whole amount under its own category
+export function getCategoryAmounts(t: Transaction): TransactionSplit[] {
+  return isSplit(t) ? t.splits! : [{ category: t.category, amount: t.amount }];
+}
+
+export function getCategoryAmount(t: Transaction, category: string): number {
+  return getCategoryAmounts(t)
+    .filter(s => s.category === category)
+    .reduce((sum, s) => sum + s.amount, 0);
+}
+
+export function hasCategory(t: Transaction, category: string): boolean {
+  return getCategoryAmounts(t).some(s => s.category === category);
+}
+
+// One line per category, in first-seen order, scaled so the lines add up to
+// total. Used for receipts, where tax and discounts rarely appear as items.
+export function buildSplits(items: TransactionSplit[], total: number): TransactionSplit[] {
+  const lines: TransactionSplit[] = [];
+  items.forEach(item => {
+    const line = lines.find(l => l.category === item.category);
+    if (line) line.amount += item.amount;
+    else lines.push({ category: item.category, amount: item.amount });
+  });
+
+  const itemsTotal = getSplitsTotal(lines);
+  if (lines.length === 0 || itemsTotal <= 0) return [];
+
+  const scaled = lines.map(l => ({ ...l, amount: Math.round((l.amount / itemsTotal) * total * 100) / 100 }));
+  // Rounding leftovers go to the largest line
+  const largest = scaled.reduce((max, l) => (l.amount > max.amount ? l : max), scaled[0]);
+  largest.amount = Math.round((largest.amount + total - getSplitsTotal(scaled)) * 100) / 100;
+  return scaled;
+}
@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest';
+import {
+  StatementMapping,
+  StatementTransaction,
+  detectStatementFormat,
+  guessQifMapping,
+  guessStatementMapping,
+  markDuplicates,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+  parseStatementAmount,
+  parseStatementDate,
+} from './statementImport';
+
+const cellsOf = (text: string) => parseCsv(text).map(row => row.cells);
+
+describe('parseStatementDate', () => {
+  it('reads numeric dates in the given order', () => {
+    expect(parseStatementDate('31/01/2024', 'dmy')).toBe('2024-01-31');
+    expect(parseStatementDate('01/31/2024', 'mdy')).toBe('2024-01-31');
+    expect(parseStatementDate('2024-01-31', 'dmy')).toBe('2024-01-31');
+    expect(parseStatementDate('20240131', 'mdy')).toBe('2024-01-31');
+    expect(parseStatementDate('31/01/24', 'dmy')).toBe('2024-01-31');
+  });
+
+  it('reads month names and drops times', () => {
+    expect(parseStatementDate('15 Jan 2024', 'mdy')).toBe('2024-01-15');
+    expect(parseStatementDate('Jan 15, 2024', 'dmy')).toBe('2024-01-15');
+    expect(parseStatementDate('2024-01-15T10:30:00Z', 'ymd')).toBe('2024-01-15');
+    expect(parseStatementDate('15/01/2024 10:30 PM', 'dmy')).toBe('2024-01-15');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseStatementDate('31/01/2024', 'mdy')).toBeNull();
+    expect(parseStatementDate('29/02/2023', 'dmy')).toBeNull();
+    expect(parseStatementDate('29/02/2024', 'dmy')).toBe('2024-02-29');
+    expect(parseStatementDate('Opening balance', 'dmy')).toBeNull();
+  });
+});
+
+describe('parseStatementAmount', () => {
+  it('reads both number formats', () => {
+    expect(parseStatementAmount('1,234.56', '.')).toBe(1234.56);
+    expect(parseStatementAmount('1.234,56', ',')).toBe(1234.56);
+    expect(parseStatementAmount('1.234,56', '.')).toBeNull();
+    expect(parseStatementAmount('₦12,000', '.')).toBe(12000);
+  });
+
+  it('reads negatives from signs, brackets and a trailing minus', () => {
+    expect(parseStatementAmount('-50.00', '.')).toBe(-50);
+    expect(parseStatementAmount('(50.00)', '.')).toBe(-50);
+    expect(parseStatementAmount('50.00-', '.')).toBe(-50);
+    expect(parseStatementAmount('$-50.00', '.')).toBe(-50);
+  });
+
+  it('reads DR and CR markers with or without a space', () => {
+    expect(parseStatementAmount('100 DR', '.')).toBe(-100);
+    expect(parseStatementAmount('100DR', '.')).toBe(-100);
+    expect(parseStatementAmount('1,250.00CR', '.')).toBe(1250);
+    expect(parseStatementAmount('1,250.00 Cr.', '.')).toBe(1250);
+  });
+
+  it('rejects empty and non-numeric cells', () => {
+    expect(parseStatementAmount('', '.')).toBeNull();
+    expect(parseStatementAmount('n/a', '.')).toBeNull();
+  });
+});
+
+describe('parseCsv', () => {
+  it('follows quoting rules and keeps each row\'s line', () => {
+    const rows = parseCsv('Date,Description,Amount\r\n2024-01-02,"Shop, ""Main"" St",-5\r\n\r\n2024-01-03,"Two\nlines",10\n');
+    expect(rows).toEqual([
+      { cells: ['Date', 'Description', 'Amount'], line: 1 },
+      { cells: ['2024-01-02', 'Shop, "Main" St', '-5'], line: 2 },
+      { cells: ['2024-01-03', 'Two\nlines', '10'], line: 4 },
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(cellsOf('Date;Amount\n02.01.2024;-5,00\n')).toEqual([['Date', 'Amount'], ['02.01.2024', '-5,00']]);
+    expect(cellsOf('Date\tAmount\n2024-01-02\t1,000.00\n')).toEqual([['Date', 'Amount'], ['2024-01-02', '1,000.00']]);
+  });
+
+  it('skips a bank preamble before the table', () => {
+    const text = [
+      '\uFEFFAccount statement',
+      'Account: 0123456789, Savings',
+      '',
+      'Date,Description,Debit,Credit',
+      '02/01/2024,Groceries,50.00,',
+      '03/01/2024,Salary,,2000.00',
+    ].join('\n');
+    const rows = parseCsv(text);
+    expect(rows[0]).toEqual({ cells: ['Date', 'Description', 'Debit', 'Credit'], line: 4 });
+    expect(rows).toHaveLength(3);
+  });
+});
+
+describe('CSV statements', () => {
+  const mapping: StatementMapping = {
+    hasHeader: true,
+    dateColumn: 0,
+    descriptionColumn: 1,
+    amountStyle: 'debitCredit',
+    amountColumn: -1,
+    debitColumn: 2,
+    creditColumn: 3,
+    dateOrder: 'dmy',
+    decimalSeparator: '.',
+  };
+
+  it('guesses columns from the header names', () => {
+    const guess = guessStatementMapping(cellsOf('Txn Date,Narration,Withdrawals,Deposits,Balance\n25/01/2024,ATM,5000.00,,10000.00\n'));
+    expect(guess).toMatchObject({
+      hasHeader: true,
+      dateColumn: 0,
+      descriptionColumn: 1,
+      amountStyle: 'debitCredit',
+      debitColumn: 2,
+      creditColumn: 3,
+      dateOrder: 'dmy',
+    });
+  });
+
+  it('reads a headerless file with a signed amount', () => {
+    const guess = guessStatementMapping(cellsOf('2024-01-25,Coffee,-3.50\n'));
+    expect(guess).toMatchObject({ hasHeader: false, dateColumn: 0, descriptionColumn: 1, amountStyle: 'signed', amountColumn: 2 });
+  });
+
+  it('turns debit and credit columns into expenses and income', () => {
+    const rows = parseCsv('Date,Description,Debit,Credit\n02/01/2024,Groceries,50.00,\n03/01/2024,Salary,,"2,000.00"\n');
+    expect(parseCsvStatement(rows, mapping)).toEqual({
+      transactions: [
+        { date: '2024-01-02', amount: 50, type: 'expense', description: 'Groceries' },
+        { date: '2024-01-03', amount: 2000, type: 'income', description: 'Salary' },
+      ],
+      errors: [],
+    });
+  });
+
+  it('reports rows it can\'t read with their line', () => {
+    const rows = parseCsv('Date,Description,Debit,Credit\nBalance b/f,,,\n04/01/2024,Fee,abc,\n05/01/2024,Nothing,,\n06/01/2024,,1.00,\n');
+    const result = parseCsvStatement(rows, mapping);
+    expect(result.errors).toEqual([
+      { line: 2, message: 'Unrecognised date "Balance b/f"' },
+      { line: 3, message: 'Unrecognised amount "abc"' },
+      { line: 4, message: 'No amount' },
+    ]);
+    expect(result.transactions).toEqual([{ date: '2024-01-06', amount: 1, type: 'expense', description: 'Bank transaction' }]);
+  });
+});
+
+describe('parseOfxStatement', () => {
+  it('reads SGML statements without closing tags', () => {
+    const text = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240105120000[0:GMT]<TRNAMT>-12.50<FITID>A1<NAME>CAFE &amp; CO<MEMO>Card 1234',
+      '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240106<TRNAMT>100,00<FITID>A2<NAME>REFUND<MEMO>REFUND',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\n');
+    expect(parseOfxStatement(text)).toEqual({
+      transactions: [
+        { date: '2024-01-05', amount: 12.5, type: 'expense', description: 'CAFE & CO - Card 1234', external_reference: 'A1' },
+        { date: '2024-01-06', amount: 100, type: 'income', description: 'REFUND', external_reference: 'A2' },
+      ],
+      errors: [],
+    });
+  });
+
+  it('reads XML statements and reports bad blocks', () => {
+    const text = [
+      '<?xml version="1.0"?><OFX><BANKTRANLIST>',
+      '<STMTTRN><DTPOSTED>20240107</DTPOSTED><TRNAMT>-5.00</TRNAMT><NAME>Bus</NAME></STMTTRN>',
+      '<STMTTRN><DTPOSTED>20241350</DTPOSTED><TRNAMT>-1.00</TRNAMT></STMTTRN>',
+      '</BANKTRANLIST></OFX>',
+    ].join('\n');
+    const result = parseOfxStatement(text);
+    expect(result.transactions).toEqual([
+      { date: '2024-01-07', amount: 5, type: 'expense', description: 'Bus', external_reference: null },
+    ]);
+    expect(result.errors).toEqual([{ line: 3, message: 'Unrecognised date "20241350"' }]);
+  });
+});
+
+describe('QIF statements', () => {
+  const text = '!Type:Bank\nD1/15\'24\nT-25.00\nPGrocer\n^\nD1/16\'24\nT1,000.00\nMTransfer in\n^\nD13/45/24\nT5.00\n^\nD1/17\'24\nT-3.00\nPBus';
+
+  it('guesses the date order from the file', () => {
+    expect(guessQifMapping(text)).toMatchObject({ dateOrder: 'mdy', decimalSeparator: '.' });
+  });
+
+  it('reads records, including a last one without "^"', () => {
+    const result = parseQifStatement(text, { dateOrder: 'mdy', decimalSeparator: '.' });
+    expect(result.transactions).toEqual([
+      { date: '2024-01-15', amount: 25, type: 'expense', description: 'Grocer' },
+      { date: '2024-01-16', amount: 1000, type: 'income', description: 'Transfer in' },
+      { date: '2024-01-17', amount: 3, type: 'expense', description: 'Bus' },
+    ]);
+    expect(result.errors).toEqual([{ line: 10, message: 'Unrecognised date "13/45/24"' }]);
+  });
+});
+
+describe('detectStatementFormat', () => {
+  it('goes by extension, then content', () => {
+    expect(detectStatementFormat('jan.QFX', '')).toBe('ofx');
+    expect(detectStatementFormat('export', '<OFX>')).toBe('ofx');
+    expect(detectStatementFormat('export', '!Type:Bank\n')).toBe('qif');
+    expect(detectStatementFormat('jan.txt', 'a,b')).toBe('csv');
+    expect(detectStatementFormat('jan.pdf', '')).toBeNull();
+  });
+});
+
+describe('markDuplicates', () => {
+  const row = (overrides: Partial<StatementTransaction> = {}): StatementTransaction => ({
+    date: '2024-01-05',
+    amount: 500,
+    type: 'expense',
+    description: 'Airtime',
+    ...overrides,
+  });
+  const existing = { date: '2024-01-05', amount: 500, description: 'Airtime', bank_account_id: 'acc-1' };
+
+  it('matches each existing transaction to one incoming row', () => {
+    const marked = markDuplicates([row(), row(), row()], [existing, existing], 'acc-1');
+    expect(marked.map(t => t.isDuplicate)).toEqual([true, true, false]);
+  });
+
+  it('only compares against the same account', () => {
+    const marked = markDuplicates([row()], [{ ...existing, bank_account_id: 'acc-2' }], 'acc-1');
+    expect(marked[0].isDuplicate).toBe(false);
+  });
+
+  it('matches on the bank\'s own id regardless of the details', () => {
+    const marked = markDuplicates(
+      [row({ amount: 499, external_reference: 'FIT-1' }), row({ amount: 499, external_reference: 'FIT-2' })],
+      [{ ...existing, external_reference: 'FIT-1' }],
+      'acc-1'
+    );
+    expect(marked.map(t => t.isDuplicate)).toEqual([true, false]);
+  });
+});
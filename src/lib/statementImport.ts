@@ -0,0 +1,505 @@
+import { loadFromStorage, saveToStorage } from './storage';
+
+// Reads CSV, OFX and QIF bank statements on the device, without the AI parser.
+// The same file and mapping always give the same transactions; rows that can't
+// be read are reported rather than guessed at.
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+// Order of day, month and year in numeric dates
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+export type DecimalSeparator = '.' | ',';
+
+export const DATE_ORDERS: { value: DateOrder; label: string }[] = [
+  { value: 'ymd', label: 'Year-Month-Day (2024-01-31)' },
+  { value: 'dmy', label: 'Day/Month/Year (31/01/2024)' },
+  { value: 'mdy', label: 'Month/Day/Year (01/31/2024)' },
+];
+
+export const DECIMAL_SEPARATORS: { value: DecimalSeparator; label: string }[] = [
+  { value: '.', label: '1,234.56' },
+  { value: ',', label: '1.234,56' },
+];
+
+export interface StatementTransaction {
+  date: string;
+  // Always positive; type says which way the money went
+  amount: number;
+  type: 'income' | 'expense';
+  description: string;
+  category?: string;
+  // The bank's own id for the transaction, when the file has one (OFX FITID)
+  external_reference?: string | null;
+  isDuplicate?: boolean;
+}
+
+export interface StatementRowError {
+  // Line in the file, when known
+  line: number | null;
+  message: string;
+}
+
+export interface StatementParseResult {
+  transactions: StatementTransaction[];
+  errors: StatementRowError[];
+}
+
+// How a CSV's columns (0-based, -1 when unused) and values are read. QIF files
+// only use dateOrder and decimalSeparator.
+export interface StatementMapping {
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  // One signed amount column, or separate debit and credit columns
+  amountStyle: 'signed' | 'debitCredit';
+  amountColumn: number;
+  debitColumn: number;
+  creditColumn: number;
+  dateOrder: DateOrder;
+  decimalSeparator: DecimalSeparator;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DEFAULT_DESCRIPTION = 'Bank transaction';
+
+export function detectStatementFormat(fileName: string, text: string): StatementFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === 'qif' || /^\s*!Type:/i.test(text)) return 'qif';
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  return null;
+}
+
+// =============== Values ===============
+
+function toDateKey(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(year, month, 0).getDate()) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function toFullYear(year: string): number {
+  const value = parseInt(year, 10);
+  if (year.length > 2) return value;
+  return value > 50 ? 1900 + value : 2000 + value;
+}
+
+// A yyyy-MM-dd key, or null when the value isn't a real date in the given order.
+// Month names ("15 Jan 2024", "Jan 15, 2024") and times after the date are accepted.
+export function parseStatementDate(raw: string, order: DateOrder): string | null {
+  const value = raw.replace(/["']/g, ' ').trim()
+    .replace(/T\d{2}:\d{2}.*$/, '')
+    .replace(/\s+\d{1,2}:\d{2}(:\d{2})?(\s*[AP]M)?$/i, '');
+
+  if (/^\d{8}$/.test(value)) {
+    return toDateKey(+value.slice(0, 4), +value.slice(4, 6), +value.slice(6, 8));
+  }
+
+  const tokens = value.split(/[^0-9A-Za-z]+/).filter(Boolean);
+  if (tokens.length !== 3) return null;
+
+  const named = tokens.findIndex(t => /^[A-Za-z]+$/.test(t));
+  if (named >= 0) {
+    const month = MONTHS.indexOf(tokens[named].slice(0, 3).toLowerCase()) + 1;
+    const numbers = tokens.filter((_, i) => i !== named);
+    if (month === 0 || !numbers.every(t => /^\d+$/.test(t))) return null;
+    const [day, year] = numbers[0].length === 4 ? [numbers[1], numbers[0]] : numbers;
+    return toDateKey(toFullYear(year), month, +day);
+  }
+
+  if (!tokens.every(t => /^\d+$/.test(t))) return null;
+  // A four-digit first part can only be a year
+  const [year, month, day] = tokens[0].length === 4 || order === 'ymd'
+    ? tokens
+    : order === 'dmy' ? [tokens[2], tokens[1], tokens[0]] : [tokens[2], tokens[0], tokens[1]];
+  return toDateKey(toFullYear(year), +month, +day);
+}
+
+// A signed number, or null when the value doesn't fit the number format.
+// Handles currency signs, (brackets) and trailing minus for negatives, and
+// DR/CR markers with or without a space ("100 DR", "1,250.00CR").
+export function parseStatementAmount(raw: string, decimalSeparator: DecimalSeparator): number | null {
+  let value = raw.trim();
+  if (!value) return null;
+
+  let negative = false;
+  const marker = value.match(/\s*(DR|CR)\.?$/i);
+  if (marker) {
+    negative = marker[1].toUpperCase() === 'DR';
+    value = value.slice(0, marker.index);
+  }
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (/^[^\d]*-/.test(value) || /-$/.test(value)) negative = !negative;
+
+  const digits = value.replace(/[^\d.,]/g, '');
+  const pattern = decimalSeparator === '.'
+    ? /^(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/
+    : /^(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+  if (!pattern.test(digits)) return null;
+
+  const thousands = decimalSeparator === '.' ? ',' : '.';
+  const amount = parseFloat(digits.split(thousands).join('').replace(decimalSeparator, '.'));
+  return negative ? -amount : amount;
+}
+
+function toTransaction(amount: number, date: string, description: string): StatementTransaction {
+  return {
+    date,
+    amount: Math.round(Math.abs(amount) * 100) / 100,
+    type: amount > 0 ? 'income' : 'expense',
+    description: description.trim().substring(0, 200) || DEFAULT_DESCRIPTION,
+  };
+}
+
+// =============== Format guesses ===============
+
+// The browser locale's choices, used when a file's values fit more than one
+function getLocaleDefaults(): { dateOrder: DateOrder; decimalSeparator: DecimalSeparator } {
+  const locale = typeof navigator !== 'undefined' ? navigator.language : 'en-GB';
+  return {
+    dateOrder: locale === 'en-US' ? 'mdy' : 'dmy',
+    decimalSeparator: (1.5).toLocaleString(locale).includes(',') ? ',' : '.',
+  };
+}
+
+// The choice that reads the most samples; ties go to the first, the locale's own
+function pickBest<T>(choices: T[], samples: string[], reads: (value: string, choice: T) => boolean): T {
+  const values = samples.filter(s => s.trim());
+  const scores = choices.map(choice => values.filter(v => reads(v, choice)).length);
+  return choices[scores.indexOf(Math.max(...scores))];
+}
+
+export function guessDateOrder(samples: string[]): DateOrder {
+  const preferred = getLocaleDefaults().dateOrder;
+  const orders: DateOrder[] = [preferred, ...DATE_ORDERS.map(o => o.value).filter(o => o !== preferred)];
+  return pickBest(orders, samples, (v, order) => parseStatementDate(v, order) !== null);
+}
+
+export function guessDecimalSeparator(samples: string[]): DecimalSeparator {
+  const preferred = getLocaleDefaults().decimalSeparator;
+  const separators: DecimalSeparator[] = [preferred, preferred === '.' ? ',' : '.'];
+  return pickBest(separators, samples, (v, separator) => parseStatementAmount(v, separator) !== null);
+}
+
+// =============== CSV ===============
+
+// Lines looked at when working out the delimiter
+const DELIMITER_SAMPLE_LINES = 20;
+
+// The value seen most often, the larger one on a tie
+function mostCommon(values: number[]): number | undefined {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0];
+}
+
+// The delimiter that splits the most lines into the same number of cells, so a
+// preamble about the account before the header doesn't decide it
+function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/)
+    .filter(line => line.trim())
+    .slice(0, DELIMITER_SAMPLE_LINES)
+    .map(line => line.replace(/"[^"]*"/g, ''));
+  return [',', ';', '\t', '|']
+    .map(d => {
+      const counts = lines.map(line => line.split(d).length - 1).filter(count => count > 0);
+      const width = mostCommon(counts) ?? 0;
+      return { d, lines: counts.filter(count => count === width).length, width };
+    })
+    .sort((a, b) => b.lines - a.lines || b.width - a.width)[0].d;
+}
+
+// Rows of cells, following RFC 4180 quoting; blank lines are left out, as are
+// leading lines with a different number of cells than the table (a bank's
+// preamble). Each row keeps the line it starts on for error messages.
+export function parseCsv(text: string): { cells: string[]; line: number }[] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim())) rows.push({ cells: cells.map(c => c.trim()), line: rowLine });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) endRow();
+
+  const width = mostCommon(rows.map(row => row.cells.length));
+  return rows.slice(Math.max(0, rows.findIndex(row => row.cells.length === width)));
+}
+
+const findColumn = (headers: string[], pattern: RegExp, exclude: number[] = []) =>
+  headers.findIndex((h, i) => !exclude.includes(i) && pattern.test(h));
+
+// A starting mapping from the header names and the values in the first rows
+export function guessStatementMapping(rows: string[][]): StatementMapping {
+  const first = rows[0] || [];
+  const defaults = getLocaleDefaults();
+  const hasHeader = !first.some(cell =>
+    DATE_ORDERS.some(o => parseStatementDate(cell, o.value)) ||
+    parseStatementAmount(cell, defaults.decimalSeparator) !== null
+  );
+  const headers = hasHeader ? first : [];
+
+  const dateColumn = Math.max(0, findColumn(headers, /date|posted/i));
+  const debitColumn = findColumn(headers, /debit|withdraw|money out|paid out|^dr$/i);
+  const creditColumn = findColumn(headers, /credit|deposit|money in|paid in|^cr$/i);
+  const amountColumn = findColumn(headers, /amount/i);
+  const descriptionColumn = findColumn(headers, /desc|narration|details|memo|payee|particular|remark/i);
+  const amountStyle = debitColumn >= 0 && creditColumn >= 0 ? 'debitCredit' : 'signed';
+
+  const body = rows.slice(hasHeader ? 1 : 0, 21);
+  const column = (index: number) => body.map(r => r[index] || '');
+  const amountSamples = amountStyle === 'signed'
+    ? column(amountColumn >= 0 ? amountColumn : 1)
+    : [...column(debitColumn), ...column(creditColumn)];
+
+  return {
+    hasHeader,
+    dateColumn,
+    descriptionColumn: descriptionColumn >= 0 ? descriptionColumn : Math.min(1, first.length - 1),
+    amountStyle,
+    amountColumn: amountColumn >= 0 ? amountColumn : Math.min(2, first.length - 1),
+    debitColumn,
+    creditColumn,
+    dateOrder: guessDateOrder(column(dateColumn)),
+    decimalSeparator: guessDecimalSeparator(amountSamples),
+  };
+}
+
+// Whether a saved mapping still fits a file with this many columns
+export function isMappingUsable(mapping: StatementMapping, columnCount: number): boolean {
+  const columns = [mapping.dateColumn, mapping.descriptionColumn,
+    ...(mapping.amountStyle === 'signed' ? [mapping.amountColumn] : [mapping.debitColumn, mapping.creditColumn])];
+  return columns.every(c => c >= 0 && c < columnCount);
+}
+
+export function parseCsvStatement(rows: { cells: string[]; line: number }[], mapping: StatementMapping): StatementParseResult {
+  const transactions: StatementTransaction[] = [];
+  const errors: StatementRowError[] = [];
+
+  rows.slice(mapping.hasHeader ? 1 : 0).forEach(({ cells, line }) => {
+    const cell = (index: number) => (index >= 0 ? cells[index] || '' : '');
+    const date = parseStatementDate(cell(mapping.dateColumn), mapping.dateOrder);
+    if (!date) {
+      errors.push({ line, message: `Unrecognised date "${cell(mapping.dateColumn)}"` });
+      return;
+    }
+
+    let amount: number | null;
+    if (mapping.amountStyle === 'signed') {
+      amount = parseStatementAmount(cell(mapping.amountColumn), mapping.decimalSeparator);
+      if (amount === null) {
+        errors.push({ line, message: `Unrecognised amount "${cell(mapping.amountColumn)}"` });
+        return;
+      }
+    } else {
+      const debitText = cell(mapping.debitColumn);
+      const creditText = cell(mapping.creditColumn);
+      const debit = debitText ? parseStatementAmount(debitText, mapping.decimalSeparator) : 0;
+      const credit = creditText ? parseStatementAmount(creditText, mapping.decimalSeparator) : 0;
+      if (debit === null || credit === null) {
+        errors.push({ line, message: `Unrecognised amount "${debit === null ? debitText : creditText}"` });
+        return;
+      }
+      amount = Math.abs(credit) - Math.abs(debit);
+    }
+    if (amount === 0) {
+      errors.push({ line, message: 'No amount' });
+      return;
+    }
+
+    transactions.push(toTransaction(amount, date, cell(mapping.descriptionColumn)));
+  });
+
+  return { transactions, errors };
+}
+
+// Mappings are remembered per bank and format, so every account at a bank
+// (and every statement it exports) reuses the last one
+const getMappingKey = (bankName: string, format: StatementFormat) => `${bankName.trim().toLowerCase()}:${format}`;
+
+export function loadStatementMapping(bankName: string, format: StatementFormat): StatementMapping | null {
+  const mappings = loadFromStorage<Record<string, StatementMapping>>('statementMappings', {});
+  return mappings[getMappingKey(bankName, format)] || null;
+}
+
+export function saveStatementMapping(bankName: string, format: StatementFormat, mapping: StatementMapping): void {
+  const mappings = loadFromStorage<Record<string, StatementMapping>>('statementMappings', {});
+  saveToStorage('statementMappings', { ...mappings, [getMappingKey(bankName, format)]: mapping });
+}
+
+// =============== OFX ===============
+
+const decodeEntities = (value: string) =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+// OFX 1.x (SGML, often without closing tags) and 2.x (XML) statements
+export function parseOfxStatement(text: string): StatementParseResult {
+  const transactions: StatementTransaction[] = [];
+  const errors: StatementRowError[] = [];
+  const blockPattern = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(text)) !== null) {
+    const block = match[1];
+    const line = text.slice(0, match.index).split('\n').length;
+    const field = (tag: string) => {
+      const value = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+      return value ? decodeEntities(value[1].trim()) : '';
+    };
+
+    const postedOn = field('DTPOSTED');
+    const date = parseStatementDate(postedOn.slice(0, 8), 'ymd');
+    if (!date) {
+      errors.push({ line, message: `Unrecognised date "${postedOn}"` });
+      continue;
+    }
+    const amountText = field('TRNAMT');
+    const amount = parseStatementAmount(amountText, /,\d+$/.test(amountText) ? ',' : '.');
+    if (!amount) {
+      errors.push({ line, message: `Unrecognised amount "${amountText}"` });
+      continue;
+    }
+
+    const name = field('NAME');
+    const memo = field('MEMO');
+    const description = name && memo && name !== memo ? `${name} - ${memo}` : name || memo;
+    transactions.push({ ...toTransaction(amount, date, description), external_reference: field('FITID') || null });
+  }
+
+  return { transactions, errors };
+}
+
+// =============== QIF ===============
+
+// Quicken writes years after 1999 as 1/15'24
+const toQifDate = (value: string) => value.replace(/'/g, '/').replace(/\s/g, '');
+
+// Date and number formats that fit the file's D and T lines
+export function guessQifMapping(text: string): StatementMapping {
+  const lines = text.split(/\r?\n/).map(l => l.trim());
+  const field = (code: string) => lines.filter(l => l.startsWith(code)).slice(0, 20).map(l => l.slice(1).trim());
+  return {
+    ...guessStatementMapping([]),
+    dateOrder: guessDateOrder(field('D').map(toQifDate)),
+    decimalSeparator: guessDecimalSeparator(field('T')),
+  };
+}
+
+// Records of D(ate), T/U (amount), P(ayee) and M(emo) lines, each ended by "^"
+export function parseQifStatement(text: string, mapping: Pick<StatementMapping, 'dateOrder' | 'decimalSeparator'>): StatementParseResult {
+  const transactions: StatementTransaction[] = [];
+  const errors: StatementRowError[] = [];
+  let record: Record<string, string> = {};
+  let recordLine = 0;
+
+  const endRecord = () => {
+    if (Object.keys(record).length === 0) return;
+    const dateText = record.D || '';
+    const date = parseStatementDate(toQifDate(dateText), mapping.dateOrder);
+    const amountText = record.T || record.U || '';
+    const amount = parseStatementAmount(amountText, mapping.decimalSeparator);
+
+    if (!date) {
+      errors.push({ line: recordLine, message: `Unrecognised date "${dateText}"` });
+    } else if (!amount) {
+      errors.push({ line: recordLine, message: `Unrecognised amount "${amountText}"` });
+    } else {
+      transactions.push(toTransaction(amount, date, record.P || record.M || ''));
+    }
+    record = {};
+  };
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const value = raw.trim();
+    if (!value || value.startsWith('!')) return;
+    if (value.startsWith('^')) {
+      endRecord();
+      return;
+    }
+    if (Object.keys(record).length === 0) recordLine = index + 1;
+    const code = value[0].toUpperCase();
+    if (!(code in record)) record[code] = value.slice(1).trim();
+  });
+  // The last record may be missing its "^"
+  endRecord();
+
+  return { transactions, errors };
+}
+
+// =============== Duplicates ===============
+
+interface ExistingTransaction {
+  date: string;
+  amount: number;
+  description: string;
+  bank_account_id?: string | null;
+  external_reference?: string | null;
+}
+
+const duplicateKey = (t: { date: string; amount: number; description?: string }) =>
+  `${t.date}-${t.amount}-${t.description?.substring(0, 50)}`;
+
+// Marks transactions the account already has: same bank id, or the same date,
+// amount and description (as parse-bank-statement compares them). Each existing
+// transaction matches one incoming row, so two identical charges on a day are
+// only skipped if the account already has both.
+export function markDuplicates(
+  transactions: StatementTransaction[],
+  existing: ExistingTransaction[],
+  accountId: string
+): StatementTransaction[] {
+  const accountTransactions = existing.filter(t => t.bank_account_id === accountId);
+  const references = new Set(accountTransactions.map(t => t.external_reference).filter(Boolean));
+  const unmatched = new Map<string, number>();
+  accountTransactions.forEach(t => unmatched.set(duplicateKey(t), (unmatched.get(duplicateKey(t)) || 0) + 1));
+
+  return transactions.map(t => {
+    const key = duplicateKey(t);
+    const left = unmatched.get(key) || 0;
+    if (left > 0) unmatched.set(key, left - 1);
+    return {
+      ...t,
+      isDuplicate: (!!t.external_reference && references.has(t.external_reference)) || left > 0,
+    };
+  });
+}
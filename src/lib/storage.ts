@@ -9,6 +9,8 @@ const STORAGE_KEYS = {
   budgets: 'lcc_budgets',
   categories: 'lcc_categories',
   subscriptions: 'lcc_subscriptions',
+  focusTimer: 'lcc_focus_timer',
+  statementMappings: 'lcc_statement_mappings',
 } as const;
 
 export function loadFromStorage<T>(key: keyof typeof STORAGE_KEYS, defaultValue: T): T {
@@ -52,8 +54,8 @@ export function loadJournalEntries(): JournalEntry[] {
   return loadFromStorage('journal', []);
 }
 
-export function loadBudgets(): Budget {
-  return loadFromStorage('budgets', {});
+export function loadBudgets(): Budget[] {
+  return loadFromStorage('budgets', []);
 }
 
 export function loadCategories(): string[] {
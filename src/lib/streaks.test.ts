@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { formatStreak, getHabitStreak } from './streaks';
+import { Habit } from './types';
+
+const habit = (done: string[], overrides: Partial<Habit> = {}): Habit => ({
+  id: 'h-1',
+  name: 'Read',
+  completed: Object.fromEntries(done.map(date => [date, true])),
+  ...overrides,
+});
+
+// 2024-01-01 is a Monday
+const jan = (...days: number[]) => days.map(day => `2024-01-${String(day).padStart(2, '0')}`);
+
+describe('daily streaks', () => {
+  it('tracks the current and longest runs and the last break', () => {
+    expect(getHabitStreak(habit(jan(1, 2, 3, 5, 6)), '2024-01-06')).toEqual({
+      current: 2,
+      longest: 3,
+      unit: 'day',
+      runs: [
+        { start: '2024-01-01', end: '2024-01-03', length: 3 },
+        { start: '2024-01-05', end: '2024-01-06', length: 2 },
+      ],
+      lastBreak: '2024-01-04',
+    });
+  });
+
+  it('doesn\'t break the streak before today is done', () => {
+    expect(getHabitStreak(habit(jan(1, 2, 3)), '2024-01-04')).toMatchObject({ current: 3, lastBreak: null });
+    expect(getHabitStreak(habit(jan(1, 2, 3)), '2024-01-05')).toMatchObject({ current: 0, longest: 3, lastBreak: '2024-01-04' });
+  });
+
+  it('skips over frozen and paused days without counting them', () => {
+    expect(getHabitStreak(habit(jan(1, 2, 4), { frozen: { '2024-01-03': true } }), '2024-01-04')).toMatchObject({ current: 3 });
+    expect(getHabitStreak(habit(jan(1, 2, 6), { pauses: [{ from: '2024-01-03', until: '2024-01-05' }] }), '2024-01-06'))
+      .toMatchObject({ current: 3 });
+  });
+
+  it('only counts days the schedule asks for', () => {
+    const weekdays = habit(jan(1, 3, 5, 8), { schedule: { type: 'weekdays', days: [0, 2, 4] } });
+    expect(getHabitStreak(weekdays, '2024-01-09')).toMatchObject({ current: 4, longest: 4 });
+    const everyOther = habit(jan(1, 3, 7), { schedule: { type: 'everyNDays', interval: 2, startDate: '2024-01-01' } });
+    expect(getHabitStreak(everyOther, '2024-01-07')).toMatchObject({ current: 1, longest: 2, lastBreak: '2024-01-05' });
+  });
+
+  it('starts from nothing without a check-in', () => {
+    expect(getHabitStreak(habit([]), '2024-01-06')).toEqual({ current: 0, longest: 0, unit: 'day', runs: [], lastBreak: null });
+    expect(getHabitStreak(habit(jan(10)), '2024-01-06')).toMatchObject({ current: 0, runs: [] });
+  });
+});
+
+describe('weekly streaks', () => {
+  const schedule = { type: 'timesPerWeek' as const, times: 3 };
+
+  it('counts Monday-Sunday weeks with enough check-ins', () => {
+    const streak = getHabitStreak(habit(jan(1, 3, 5, 8, 10, 15), { schedule }), '2024-01-17');
+    expect(streak).toMatchObject({ current: 0, longest: 1, unit: 'week', lastBreak: '2024-01-08' });
+    expect(streak.runs).toEqual([{ start: '2024-01-01', end: '2024-01-07', length: 1 }]);
+  });
+
+  it('lets frozen days make up a week and leaves the running week open', () => {
+    const streak = getHabitStreak(habit(jan(1, 3, 5, 8, 10, 15), { schedule, frozen: { '2024-01-12': true } }), '2024-01-17');
+    expect(streak).toMatchObject({ current: 1, longest: 1, lastBreak: null });
+  });
+});
+
+describe('formatStreak', () => {
+  it('pluralises the unit', () => {
+    expect(formatStreak(1, 'day')).toBe('1 day');
+    expect(formatStreak(3, 'week')).toBe('3 weeks');
+  });
+});
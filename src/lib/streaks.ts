@@ -0,0 +1,107 @@
+import { addDays, addWeeks, startOfWeek } from 'date-fns';
+import { Habit } from './types';
+import { getTodayKey, parseDateKey, toDateKey } from './taskDates';
+import { getHabitSchedule, isHabitDoneOn, isHabitExcusedOn, isHabitFrozenOn, isHabitScheduledOn } from './habitSchedule';
+
+// Streaks over a habit's whole history. Every due check-in that was done extends
+// the streak, a missed one breaks it, and frozen (vacation) and paused days are skipped over.
+// "N times per week" habits count in weeks instead of days.
+// get_habit_streaks in the database follows the same rules for the AI context.
+
+export type StreakUnit = 'day' | 'week';
+
+export interface StreakRun {
+  start: string;
+  end: string;
+  length: number;
+}
+
+export interface HabitStreak {
+  current: number;
+  longest: number;
+  unit: StreakUnit;
+  // Every streak so far, oldest first; the last one is still running when current > 0
+  runs: StreakRun[];
+  // The missed check-in (or week) that ended the most recent streak
+  lastBreak: string | null;
+}
+
+interface StreakStep {
+  start: string;
+  end: string;
+  state: 'done' | 'skipped' | 'missed';
+}
+
+function getFirstCheckIn(habit: Habit): string | null {
+  const dates = Object.keys(habit.completed).filter(date => habit.completed[date]).sort();
+  return dates[0] ?? null;
+}
+
+// Due days from the first check-in through today; today only counts once it is done
+function getDaySteps(habit: Habit, first: string, today: string): StreakStep[] {
+  const steps: StreakStep[] = [];
+  for (let date = parseDateKey(first); toDateKey(date) <= today; date = addDays(date, 1)) {
+    const key = toDateKey(date);
+    if (!isHabitScheduledOn(habit, key)) continue;
+    const state = isHabitDoneOn(habit, key) ? 'done' : key === today || isHabitFrozenOn(habit, key) ? 'skipped' : 'missed';
+    steps.push({ start: key, end: key, state });
+  }
+  return steps;
+}
+
+// Monday-Sunday weeks; a week passes once it has enough check-ins, frozen and paused
+// days make up for missing ones, and the running week can't fail yet
+function getWeekSteps(habit: Habit, times: number, first: string, today: string): StreakStep[] {
+  const steps: StreakStep[] = [];
+  for (let week = startOfWeek(parseDateKey(first), { weekStartsOn: 1 }); toDateKey(week) <= today; week = addWeeks(week, 1)) {
+    const dates = Array.from({ length: 7 }, (_, i) => toDateKey(addDays(week, i)));
+    const done = dates.filter(date => isHabitDoneOn(habit, date)).length;
+    const frozen = dates.filter(date => isHabitExcusedOn(habit, date)).length;
+    const state = done >= times ? 'done' : dates[6] >= today || done + frozen >= times ? 'skipped' : 'missed';
+    steps.push({ start: dates[0], end: dates[6], state });
+  }
+  return steps;
+}
+
+export function getHabitStreak(habit: Habit, today: string = getTodayKey()): HabitStreak {
+  const schedule = getHabitSchedule(habit);
+  const unit: StreakUnit = schedule.type === 'timesPerWeek' ? 'week' : 'day';
+  const first = getFirstCheckIn(habit);
+  if (!first || first > today) return { current: 0, longest: 0, unit, runs: [], lastBreak: null };
+
+  const steps = schedule.type === 'timesPerWeek'
+    ? getWeekSteps(habit, schedule.times, first, today)
+    : getDaySteps(habit, first, today);
+
+  const runs: StreakRun[] = [];
+  let running = false;
+  let lastBreak: string | null = null;
+
+  for (const step of steps) {
+    if (step.state === 'done') {
+      const run = runs[runs.length - 1];
+      if (running) {
+        run.end = step.end;
+        run.length++;
+      } else {
+        runs.push({ start: step.start, end: step.end, length: 1 });
+        running = true;
+      }
+    } else if (step.state === 'missed') {
+      running = false;
+      lastBreak = step.start;
+    }
+  }
+
+  return {
+    current: running ? runs[runs.length - 1].length : 0,
+    longest: runs.reduce((max, run) => Math.max(max, run.length), 0),
+    unit,
+    runs,
+    lastBreak,
+  };
+}
+
+export function formatStreak(length: number, unit: StreakUnit): string {
+  return `${length} ${unit}${length === 1 ? '' : 's'}`;
+}
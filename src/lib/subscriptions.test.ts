@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addBillingCycle,
+  getChargeDatesBetween,
+  getDaysUntilCharge,
+  getMonthlyAmount,
+  getRemainingFixedCosts,
+  getUpcomingChargeDate,
+  isRenewingSoon,
+} from './subscriptions';
+import { Subscription, Transaction } from './types';
+
+const subscription = (overrides: Partial<Subscription> = {}): Subscription => ({
+  id: 'sub-1',
+  name: 'Streaming',
+  amount: 3000,
+  billingCycle: 'monthly',
+  nextChargeDate: '2024-01-31',
+  billingAnchorDay: 31,
+  currency: 'NGN',
+  ...overrides,
+});
+
+const charge = (date: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id: `t-${date}`,
+  type: 'expense',
+  amount: 3000,
+  category: 'Rent/Bills',
+  description: 'Streaming',
+  date,
+  source: 'subscription',
+  subscription_id: 'sub-1',
+  ...overrides,
+});
+
+describe('addBillingCycle', () => {
+  it('clamps to the last day of shorter months and returns to the anchor day', () => {
+    expect(addBillingCycle('2024-01-31', 'monthly', 31)).toBe('2024-02-29');
+    expect(addBillingCycle('2024-02-29', 'monthly', 31)).toBe('2024-03-31');
+    expect(addBillingCycle('2023-01-31', 'monthly', 31)).toBe('2023-02-28');
+    expect(addBillingCycle('2024-04-30', 'monthly', 31)).toBe('2024-05-31');
+  });
+
+  it('uses the date\'s own day without an anchor', () => {
+    expect(addBillingCycle('2024-01-31', 'monthly')).toBe('2024-02-29');
+    expect(addBillingCycle('2024-02-29', 'monthly')).toBe('2024-03-29');
+  });
+
+  it('keeps a leap-day yearly charge on the last day of February', () => {
+    expect(addBillingCycle('2024-02-29', 'yearly', 29)).toBe('2025-02-28');
+    expect(addBillingCycle('2027-02-28', 'yearly', 29)).toBe('2028-02-29');
+  });
+
+  it('steps quarters from the anchor and weeks by seven days', () => {
+    expect(addBillingCycle('2024-11-30', 'quarterly', 31)).toBe('2025-02-28');
+    expect(addBillingCycle('2025-02-28', 'quarterly', 31)).toBe('2025-05-31');
+    expect(addBillingCycle('2024-12-28', 'weekly', 31)).toBe('2025-01-04');
+  });
+});
+
+describe('upcoming charges', () => {
+  it('rolls a past charge date forward to the first one on or after the day', () => {
+    const sub = subscription();
+    expect(getUpcomingChargeDate(sub, '2024-01-31')).toBe('2024-01-31');
+    expect(getUpcomingChargeDate(sub, '2024-03-01')).toBe('2024-03-31');
+    expect(getUpcomingChargeDate(subscription({ nextChargeDate: null }), '2024-03-01')).toBeNull();
+  });
+
+  it('lists the charge dates in a range', () => {
+    expect(getChargeDatesBetween(subscription(), '2024-02-01', '2024-04-30')).toEqual(['2024-02-29', '2024-03-31', '2024-04-30']);
+    expect(getChargeDatesBetween(subscription({ billingCycle: 'weekly', nextChargeDate: '2024-02-05' }), '2024-02-01', '2024-02-29'))
+      .toEqual(['2024-02-05', '2024-02-12', '2024-02-19', '2024-02-26']);
+    expect(getChargeDatesBetween(subscription({ billingCycle: 'yearly' }), '2024-02-01', '2024-12-31')).toEqual([]);
+  });
+
+  it('counts days until the next charge', () => {
+    const sub = subscription({ nextChargeDate: '2024-02-29', billingAnchorDay: 29 });
+    expect(getDaysUntilCharge(sub, '2024-02-25')).toBe(4);
+    expect(isRenewingSoon(sub, '2024-02-25')).toBe(true);
+    expect(isRenewingSoon(sub, '2024-02-01')).toBe(false);
+  });
+
+  it('spreads a charge over a month', () => {
+    expect(getMonthlyAmount(subscription({ amount: 1200, billingCycle: 'yearly' }))).toBe(100);
+    expect(getMonthlyAmount(subscription({ amount: 300, billingCycle: 'quarterly' }))).toBe(100);
+  });
+});
+
+describe('getRemainingFixedCosts', () => {
+  const toNgn = (amount: number, currency: string) => (currency === 'USD' ? amount * 1500 : amount);
+
+  it('counts charges due this month that have not been posted', () => {
+    expect(getRemainingFixedCosts([subscription()], [], '2024-02-10', toNgn)).toBe(3000);
+    expect(getRemainingFixedCosts([subscription()], [charge('2024-02-29')], '2024-02-10', toNgn)).toBe(0);
+  });
+
+  it('ignores income and charges posted for another subscription or date', () => {
+    const transactions = [
+      charge('2024-02-29', { type: 'income' }),
+      charge('2024-02-29', { subscription_id: 'sub-2' }),
+      charge('2024-02-28'),
+    ];
+    expect(getRemainingFixedCosts([subscription()], transactions, '2024-02-10', toNgn)).toBe(3000);
+  });
+
+  it('counts every weekly charge in the month less the posted ones', () => {
+    const weekly = subscription({ amount: 1000, billingCycle: 'weekly', nextChargeDate: '2024-02-05' });
+    expect(getRemainingFixedCosts([weekly], [charge('2024-02-05'), charge('2024-02-12')], '2024-02-14', toNgn)).toBe(2000);
+  });
+
+  it('leaves out subscriptions with no charge this month', () => {
+    const yearly = subscription({ billingCycle: 'yearly', nextChargeDate: '2024-06-15', billingAnchorDay: 15 });
+    expect(getRemainingFixedCosts([yearly], [], '2024-02-10', toNgn)).toBe(0);
+  });
+
+  it('converts each subscription and spreads undated ones over the month', () => {
+    const subscriptions = [
+      subscription({ id: 'usd', amount: 10, currency: 'USD' }),
+      subscription({ id: 'undated', amount: 1200, billingCycle: 'yearly', nextChargeDate: null }),
+    ];
+    expect(getRemainingFixedCosts(subscriptions, [], '2024-02-10', toNgn)).toBe(15100);
+  });
+});
@@ -0,0 +1,105 @@
+import { addMonths, addWeeks, differenceInCalendarDays, endOfMonth, getDaysInMonth, setDate, startOfMonth } from 'date-fns';
+import { BillingCycle, Subscription, Transaction } from './types';
+import { parseDateKey, toDateKey } from './taskDates';
+
+export const BILLING_CYCLES: { value: BillingCycle; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export const DEFAULT_SUBSCRIPTION_CATEGORY = 'Rent/Bills';
+
+// Days ahead that count as "renewing soon"
+export const RENEWAL_WINDOW_DAYS = 7;
+
+// Charges per month for each cycle, used to compare costs on a monthly basis
+const MONTHLY_FACTOR: Record<BillingCycle, number> = {
+  weekly: 52 / 12,
+  monthly: 1,
+  quarterly: 1 / 3,
+  yearly: 1 / 12,
+};
+
+export function getBillingCycle(subscription: Subscription): BillingCycle {
+  return subscription.billingCycle || 'monthly';
+}
+
+export function getBillingCycleLabel(cycle: BillingCycle): string {
+  return BILLING_CYCLES.find(c => c.value === cycle)?.label || 'Monthly';
+}
+
+// The charge date one cycle after dateKey. Monthly, quarterly and yearly charges
+// land on anchorDay (by default dateKey's own day), or the last day of shorter
+// months, so a charge on the 31st returns to the 31st after February.
+// post-subscription-charges follows the same rules.
+export function addBillingCycle(dateKey: string, cycle: BillingCycle, anchorDay?: number | null): string {
+  const date = parseDateKey(dateKey);
+  if (cycle === 'weekly') return toDateKey(addWeeks(date, 1));
+
+  const months = cycle === 'quarterly' ? 3 : cycle === 'yearly' ? 12 : 1;
+  const target = addMonths(startOfMonth(date), months);
+  return toDateKey(setDate(target, Math.min(anchorDay || date.getDate(), getDaysInMonth(target))));
+}
+
+// The first charge on or after fromKey, for dates the server hasn't rolled on yet
+export function getUpcomingChargeDate(subscription: Subscription, fromKey: string): string | null {
+  let date = subscription.nextChargeDate;
+  if (!date) return null;
+  while (date < fromKey) date = addBillingCycle(date, getBillingCycle(subscription), subscription.billingAnchorDay);
+  return date;
+}
+
+// Charge dates on or after fromKey and up to toKey
+export function getChargeDatesBetween(subscription: Subscription, fromKey: string, toKey: string): string[] {
+  const dates: string[] = [];
+  let date = getUpcomingChargeDate(subscription, fromKey);
+  while (date && date <= toKey) {
+    dates.push(date);
+    date = addBillingCycle(date, getBillingCycle(subscription), subscription.billingAnchorDay);
+  }
+  return dates;
+}
+
+// The amount in the subscription's own currency, spread over a month
+export function getMonthlyAmount(subscription: Subscription): number {
+  return subscription.amount * MONTHLY_FACTOR[getBillingCycle(subscription)];
+}
+
+export function getDaysUntilCharge(subscription: Subscription, todayKey: string): number | null {
+  const date = getUpcomingChargeDate(subscription, todayKey);
+  return date ? differenceInCalendarDays(parseDateKey(date), parseDateKey(todayKey)) : null;
+}
+
+export function isRenewingSoon(subscription: Subscription, todayKey: string, days = RENEWAL_WINDOW_DAYS): boolean {
+  const daysUntil = getDaysUntilCharge(subscription, todayKey);
+  return daysUntil !== null && daysUntil <= days;
+}
+
+// Fixed costs still to come in todayKey's month, in the display currency: each
+// subscription's charges falling in the month, less the ones already posted for
+// it, which show up as expenses. Without a charge date there is no schedule, so
+// the amount spread over a month is used.
+export function getRemainingFixedCosts(
+  subscriptions: Subscription[],
+  monthTransactions: Transaction[],
+  todayKey: string,
+  toDisplayCurrency: (amount: number, currency: string) => number
+): number {
+  const today = parseDateKey(todayKey);
+  const monthStart = toDateKey(startOfMonth(today));
+  const monthEnd = toDateKey(endOfMonth(today));
+
+  return subscriptions.reduce((sum, subscription) => {
+    const currency = subscription.currency || 'NGN';
+    if (!subscription.nextChargeDate) {
+      return sum + toDisplayCurrency(getMonthlyAmount(subscription), currency);
+    }
+    const posted = new Set(monthTransactions
+      .filter(t => t.type === 'expense' && t.subscription_id === String(subscription.id))
+      .map(t => t.date));
+    const due = getChargeDatesBetween(subscription, monthStart, monthEnd).filter(date => !posted.has(date));
+    return sum + toDisplayCurrency(subscription.amount * due.length, currency);
+  }, 0);
+}
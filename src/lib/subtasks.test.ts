@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { TaskOccurrence, Tasks } from './types';
+import { getTasksForDay } from './recurrence';
+import { addSubtasks, getSubtaskProgress, getSubtasks, removeTask, setSubtaskDone, setTaskDone } from './subtasks';
+
+const DAY = '2024-06-03';
+
+const plainTasks = (): Tasks => ({
+  [DAY]: [
+    { id: 'p', text: 'Pack', done: false },
+    { id: 'a', text: 'Passport', done: false, parentId: 'p' },
+    { id: 'b', text: 'Charger', done: false, parentId: 'p' },
+  ],
+});
+
+const occurrence = (tasks: Tasks, day: string, id: string): TaskOccurrence =>
+  getTasksForDay(tasks, day).find(task => task.id === id)!;
+
+describe('subtasks of a one-off task', () => {
+  it('finishes the parent once every item is checked', () => {
+    let tasks = plainTasks();
+    tasks = setSubtaskDone(tasks, occurrence(tasks, DAY, 'p'), 'a', true);
+    expect(occurrence(tasks, DAY, 'p').done).toBe(false);
+    tasks = setSubtaskDone(tasks, occurrence(tasks, DAY, 'p'), 'b', true);
+    expect(occurrence(tasks, DAY, 'p').done).toBe(true);
+    expect(getSubtaskProgress(getSubtasks(tasks, occurrence(tasks, DAY, 'p')))).toEqual({ done: 2, total: 2, percentage: 100 });
+  });
+
+  it('checks the whole checklist with the parent', () => {
+    const tasks = plainTasks();
+    const done = setTaskDone(tasks, occurrence(tasks, DAY, 'p'), true);
+    expect(done[DAY].every(task => task.done)).toBe(true);
+  });
+
+  it('reopens a finished parent when an item is added', () => {
+    const tasks = setTaskDone(plainTasks(), occurrence(plainTasks(), DAY, 'p'), true);
+    const added = addSubtasks(tasks, DAY, 'p', ['  Snacks  ', '']);
+    expect(added[DAY].find(task => task.id === 'p')!.done).toBe(false);
+    expect(added[DAY].filter(task => task.parentId === 'p').map(task => task.text)).toEqual(['Passport', 'Charger', 'Snacks']);
+  });
+
+  it('removes a task together with its checklist', () => {
+    expect(removeTask(plainTasks(), DAY, 'p')[DAY]).toEqual([]);
+  });
+});
+
+describe('subtasks of a recurring task', () => {
+  const tasks: Tasks = {
+    [DAY]: [
+      { id: 'r', text: 'Review', done: false, recurrence: { freq: 'daily', interval: 1 } },
+      { id: 'c', text: 'Inbox zero', done: false, parentId: 'r' },
+    ],
+  };
+
+  it('keeps each occurrence\'s checklist separate', () => {
+    const next = setSubtaskDone(tasks, occurrence(tasks, '2024-06-04', 'r'), 'c', true);
+    expect(occurrence(next, '2024-06-04', 'r').done).toBe(true);
+    expect(occurrence(next, '2024-06-05', 'r').done).toBe(false);
+    expect(getSubtasks(next, occurrence(next, '2024-06-05', 'r'))[0].done).toBe(false);
+  });
+});
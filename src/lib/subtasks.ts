@@ -0,0 +1,80 @@
+import { Task, TaskOccurrence, Tasks } from './types';
+import { setOccurrenceState } from './recurrence';
+
+const isSameId = (id1: string | number, id2: string | number) => String(id1) === String(id2);
+
+const isChildOf = (task: Task, parentId: string | number) =>
+  task.parentId != null && isSameId(task.parentId, parentId);
+
+// Checklist items under a task occurrence, in the order they were added
+export function getSubtasks(tasks: Tasks, parent: TaskOccurrence): TaskOccurrence[] {
+  return (tasks[parent.seriesDay] || [])
+    .filter(task => isChildOf(task, parent.id))
+    .map(task => ({
+      ...task,
+      // A recurring task's checklist starts fresh on every occurrence
+      done: parent.recurrence ? task.occurrenceStates?.[parent.occurrenceDate] === 'done' : task.done,
+      seriesDay: parent.seriesDay,
+      occurrenceDate: parent.occurrenceDate,
+    }));
+}
+
+export function getSubtaskProgress(subtasks: Task[]) {
+  const done = subtasks.filter(task => task.done).length;
+  const total = subtasks.length;
+  return { done, total, percentage: total > 0 ? Math.round((done / total) * 100) : 0 };
+}
+
+function markDone(tasks: Tasks, occurrence: TaskOccurrence, taskId: string | number, done: boolean): Tasks {
+  if (occurrence.recurrence) {
+    return setOccurrenceState(tasks, occurrence.seriesDay, taskId, occurrence.occurrenceDate, done ? 'done' : null);
+  }
+  return {
+    ...tasks,
+    [occurrence.seriesDay]: (tasks[occurrence.seriesDay] || []).map(task =>
+      isSameId(task.id, taskId) ? { ...task, done } : task
+    ),
+  };
+}
+
+// Check or uncheck a task; its checklist follows along
+export function setTaskDone(tasks: Tasks, task: TaskOccurrence, done: boolean): Tasks {
+  return getSubtasks(tasks, task).reduce(
+    (next, subtask) => markDone(next, task, subtask.id, done),
+    markDone(tasks, task, task.id, done)
+  );
+}
+
+// Check or uncheck one checklist item and roll the result up to its parent
+export function setSubtaskDone(tasks: Tasks, parent: TaskOccurrence, subtaskId: string | number, done: boolean): Tasks {
+  const next = markDone(tasks, parent, subtaskId, done);
+  const allDone = getSubtasks(next, parent).every(subtask => subtask.done);
+  return markDone(next, parent, parent.id, allDone);
+}
+
+export function addSubtasks(tasks: Tasks, day: string, parentId: string | number, texts: string[]): Tasks {
+  const now = Date.now();
+  const subtasks: Task[] = texts
+    .map(text => text.trim())
+    .filter(Boolean)
+    .map((text, i) => ({ id: now + i, text, done: false, parentId }));
+  const dayTasks = tasks[day] || [];
+  const parent = dayTasks.find(task => isSameId(task.id, parentId));
+
+  return {
+    ...tasks,
+    // A new item leaves an already finished parent open again
+    [day]: [
+      ...dayTasks.map(task => task === parent && subtasks.length > 0 && !task.recurrence ? { ...task, done: false } : task),
+      ...subtasks,
+    ],
+  };
+}
+
+// Remove a task together with its checklist
+export function removeTask(tasks: Tasks, day: string, taskId: string | number): Tasks {
+  return {
+    ...tasks,
+    [day]: (tasks[day] || []).filter(task => !isSameId(task.id, taskId) && !isChildOf(task, taskId)),
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Tasks } from './types';
+import { IDEA_DUMP_KEY } from './taskDates';
+import { getAllLinkedTasks, getLinkedTaskCompletion, getLinkedTasks } from './systemTasks';
+
+const tasks: Tasks = {
+  '2024-01-08': [
+    { id: 'old', text: 'Overdue', done: false, systemId: 'goal' },
+    { id: 'finished', text: 'Finished', done: true, systemId: 'goal' },
+    { id: 'other', text: 'Other goal', done: false, systemId: 'other' },
+  ],
+  '2024-03-01': [
+    {
+      id: 'run', text: 'Long run', done: false, systemId: 'goal',
+      recurrence: { freq: 'daily', interval: 1 }, occurrenceStates: { '2024-03-10': 'done', '2024-03-11': 'skipped' },
+    },
+    { id: 'item', text: 'Checklist item', done: false, systemId: 'goal', parentId: 'run' },
+  ],
+  '2024-04-02': [{ id: 'future', text: 'Race day', done: false, systemId: 'goal' }],
+  [IDEA_DUMP_KEY]: [{ id: 'idea', text: 'Try intervals', done: false, systemId: 'goal' }],
+};
+
+describe('getAllLinkedTasks', () => {
+  const linked = getAllLinkedTasks(tasks, 'goal', '2024-03-10');
+
+  it('lists open tasks whatever their date, undated ones last', () => {
+    expect(linked.map(task => task.id)).toEqual(['old', 'finished', 'run', 'future', 'idea']);
+  });
+
+  it('shows a recurring task once, at its next open occurrence', () => {
+    expect(linked.find(task => task.id === 'run')).toMatchObject({ occurrenceDate: '2024-03-12', done: false });
+  });
+
+  it('leaves out other goals and checklist items', () => {
+    expect(linked.some(task => task.id === 'other' || task.id === 'item')).toBe(false);
+  });
+});
+
+describe('linked tasks for the week', () => {
+  const week = ['2024-03-10', '2024-03-11', '2024-03-12'];
+
+  it('counts the occurrences due on the given dates', () => {
+    expect(getLinkedTasks(tasks, 'goal', week).map(task => task.occurrenceDate)).toEqual(['2024-03-10', '2024-03-12']);
+    expect(getLinkedTaskCompletion(tasks, 'goal', week)).toEqual({ completed: 1, total: 2 });
+  });
+});
@@ -0,0 +1,53 @@
+import { addDays } from 'date-fns';
+import { Task, TaskOccurrence, Tasks } from './types';
+import { getNextOccurrence, getTasksForDay } from './recurrence';
+import { isDateKey, parseDateKey, toDateKey } from './taskDates';
+
+// How many finished or skipped occurrences to step past when looking for a series' next open one
+const MAX_OCCURRENCES_PASSED = 60;
+
+const isLinkedTo = (task: Task, systemId: string | number) =>
+  task.systemId != null && String(task.systemId) === String(systemId);
+
+// Linked task occurrences due on the given dates, recurring ones expanded per date
+export function getLinkedTasks(tasks: Tasks, systemId: string | number, dateKeys: string[]): TaskOccurrence[] {
+  return dateKeys.flatMap(dateKey => getTasksForDay(tasks, dateKey).filter(task => isLinkedTo(task, systemId)));
+}
+
+// Every task linked to the goal whatever its date: one-off tasks from all days and the
+// Idea Dump, and each recurring series once, at its next open occurrence on or after fromKey.
+// Dated tasks come first, earliest first.
+export function getAllLinkedTasks(tasks: Tasks, systemId: string | number, fromKey: string): TaskOccurrence[] {
+  const linked: TaskOccurrence[] = [];
+  Object.entries(tasks).forEach(([day, dayTasks]) => {
+    dayTasks.forEach(task => {
+      if (task.parentId || !isLinkedTo(task, systemId)) return;
+      if (!task.recurrence) {
+        linked.push({ ...task, seriesDay: day, occurrenceDate: day });
+        return;
+      }
+      let next = getNextOccurrence(task.recurrence, day, fromKey);
+      for (let i = 0; next && i < MAX_OCCURRENCES_PASSED; i++) {
+        const occurrence = getTasksForDay(tasks, next)
+          .find(o => o.seriesDay === day && String(o.id) === String(task.id));
+        if (occurrence && !occurrence.done) {
+          linked.push(occurrence);
+          return;
+        }
+        next = getNextOccurrence(task.recurrence, day, toDateKey(addDays(parseDateKey(next), 1)));
+      }
+    });
+  });
+
+  return linked.sort((a, b) => {
+    const aDated = isDateKey(a.occurrenceDate);
+    const bDated = isDateKey(b.occurrenceDate);
+    if (aDated !== bDated) return aDated ? -1 : 1;
+    return a.occurrenceDate.localeCompare(b.occurrenceDate);
+  });
+}
+
+export function getLinkedTaskCompletion(tasks: Tasks, systemId: string | number, dateKeys: string[]) {
+  const linked = getLinkedTasks(tasks, systemId, dateKeys);
+  return { completed: linked.filter(task => task.done).length, total: linked.length };
+}
@@ -0,0 +1,36 @@
+import { Habit, HabitSchedule, System, SystemTemplate, TemplateHabit } from './types';
+import { DEFAULT_HABIT_SCHEDULE } from './habitSchedule';
+import { getTodayKey } from './taskDates';
+import { Tables } from '@/integrations/supabase/types';
+
+export const SYSTEM_TEMPLATE_CATEGORIES = ['general', 'health', 'learning', 'finance', 'mindset', 'career'];
+
+export function rowToSystemTemplate(row: Tables<'system_templates'>): SystemTemplate {
+  return {
+    id: row.id,
+    goal: row.goal,
+    why: row.why,
+    category: row.category,
+    habits: Array.isArray(row.habits) ? (row.habits as unknown as TemplateHabit[]) : [],
+  };
+}
+
+// "Every N days" habits count from the day the template is installed
+function startSchedule(schedule: HabitSchedule, today: string): HabitSchedule {
+  return schedule.type === 'everyNDays' ? { ...schedule, startDate: today } : schedule;
+}
+
+// A new goal built from the template; habits get temporary ids that are
+// replaced with UUIDs when the goal is saved
+export function templateToSystem(template: SystemTemplate, today: string = getTodayKey()): Omit<System, 'id'> {
+  const habits: Habit[] = template.habits
+    .filter(h => h.name.trim())
+    .map((h, i) => ({
+      id: Date.now() + i,
+      name: h.name.trim(),
+      completed: {},
+      schedule: startSchedule(h.schedule || DEFAULT_HABIT_SCHEDULE, today),
+      target: h.target && h.target.amount > 0 ? h.target : null,
+    }));
+  return { goal: template.goal, why: template.why, habits };
+}
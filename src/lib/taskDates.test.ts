@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  IDEA_DUMP_KEY,
+  getTaskDateTime,
+  isDateKey,
+  normalizeTaskDay,
+  normalizeTasks,
+  parseDateKey,
+  toDateKey,
+} from './taskDates';
+
+describe('date keys', () => {
+  it('parses a key as a local date', () => {
+    const date = parseDateKey('2024-03-31');
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2024, 2, 31, 0]);
+    expect(toDateKey(date)).toBe('2024-03-31');
+  });
+
+  it('only accepts yyyy-MM-dd keys', () => {
+    expect(isDateKey('2024-02-29')).toBe(true);
+    expect(isDateKey(IDEA_DUMP_KEY)).toBe(false);
+    expect(isDateKey('Monday')).toBe(false);
+    expect(isDateKey('2024-2-9')).toBe(false);
+  });
+
+  it('combines a day and time into a local date', () => {
+    expect(getTaskDateTime('2024-01-15', '09:30')).toEqual(new Date(2024, 0, 15, 9, 30));
+    expect(getTaskDateTime('2024-01-15')).toEqual(new Date(2024, 0, 15));
+    expect(getTaskDateTime(IDEA_DUMP_KEY, '09:30')).toBeNull();
+  });
+});
+
+describe('normalizeTaskDay', () => {
+  // A Wednesday
+  const reference = new Date(2024, 4, 15);
+
+  it('maps legacy weekday buckets onto the reference week', () => {
+    expect(normalizeTaskDay('Monday', reference)).toBe('2024-05-13');
+    expect(normalizeTaskDay('Sunday', reference)).toBe('2024-05-19');
+  });
+
+  it('leaves dated and undated buckets alone', () => {
+    expect(normalizeTaskDay('2024-01-01', reference)).toBe('2024-01-01');
+    expect(normalizeTaskDay(IDEA_DUMP_KEY, reference)).toBe(IDEA_DUMP_KEY);
+  });
+
+  it('merges a weekday bucket into the matching dated bucket', () => {
+    const tasks = {
+      Monday: [{ id: 1, text: 'Legacy', done: false }],
+      '2024-05-13': [{ id: 2, text: 'Dated', done: false }],
+    };
+    expect(normalizeTasks(tasks, reference)['2024-05-13'].map(t => t.id)).toEqual([1, 2]);
+  });
+});
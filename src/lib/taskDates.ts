@@ -0,0 +1,56 @@
+import { format, startOfWeek, addDays } from 'date-fns';
+import { DAYS } from './constants';
+import { Tasks } from './types';
+
+// Undated bucket used by the Idea Dump (older data used "BrainDump")
+export const IDEA_DUMP_KEY = 'IdeaDump';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function getTodayKey(): string {
+  return toDateKey(new Date());
+}
+
+export function isDateKey(key: string): boolean {
+  return DATE_KEY_PATTERN.test(key);
+}
+
+// Parse a yyyy-MM-dd key as a local date (new Date('yyyy-MM-dd') would be UTC)
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Combine a date key and an optional HH:mm time into a local Date
+export function getTaskDateTime(key: string, time?: string): Date | null {
+  if (!isDateKey(key)) return null;
+  const date = parseDateKey(key);
+  if (time) {
+    const [hours, minutes] = time.split(':').map(Number);
+    date.setHours(hours || 0, minutes || 0, 0, 0);
+  }
+  return date;
+}
+
+// Legacy rows stored a weekday name ("Monday") instead of a date.
+// Map those onto the matching day of the reference week.
+export function normalizeTaskDay(day: string, referenceDate: Date = new Date()): string {
+  const weekdayIndex = DAYS.indexOf(day as typeof DAYS[number]);
+  if (weekdayIndex === -1) return day;
+  const monday = startOfWeek(referenceDate, { weekStartsOn: 1 });
+  return toDateKey(addDays(monday, weekdayIndex));
+}
+
+// Re-key a Tasks map so every weekday bucket becomes a dated bucket
+export function normalizeTasks(tasks: Tasks, referenceDate: Date = new Date()): Tasks {
+  const normalized: Tasks = {};
+  Object.entries(tasks).forEach(([day, dayTasks]) => {
+    const key = normalizeTaskDay(day, referenceDate);
+    normalized[key] = [...(normalized[key] || []), ...dayTasks];
+  });
+  return normalized;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from './types';
+import { formatEstimate, orderByIds, sortTasks } from './taskSort';
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({ id, text: id, done: false, ...changes });
+
+describe('sortTasks', () => {
+  it('ranks by deadline, then priority, then estimate', () => {
+    const tasks = [
+      task('no-deadline', { priority: 1 }),
+      task('later', { deadline: '2024-06-10T12:00:00Z' }),
+      task('soon-p2', { deadline: '2024-06-05T12:00:00Z', priority: 2 }),
+      task('soon-p1-long', { deadline: '2024-06-05T12:00:00Z', priority: 1, estimateMinutes: 90 }),
+      task('soon-p1-short', { deadline: '2024-06-05T12:00:00Z', priority: 1, estimateMinutes: 15 }),
+    ];
+    expect(sortTasks(tasks).map(t => t.id)).toEqual(['soon-p1-short', 'soon-p1-long', 'soon-p2', 'later', 'no-deadline']);
+  });
+
+  it('does not depend on input order', () => {
+    const tasks = [task('b'), task('a'), task('c', { priority: 4 })];
+    expect(sortTasks(tasks).map(t => t.id)).toEqual(sortTasks([...tasks].reverse()).map(t => t.id));
+  });
+});
+
+describe('orderByIds', () => {
+  it('follows the list, drops unknown ids and keeps the rest at the end', () => {
+    const tasks = [task('a'), task('b'), task('c')];
+    expect(orderByIds(tasks, ['c', 'x', 'a', 'c']).map(t => t.id)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('formatEstimate', () => {
+  it('shows hours and minutes', () => {
+    expect(formatEstimate(45)).toBe('45m');
+    expect(formatEstimate(120)).toBe('2h');
+    expect(formatEstimate(95)).toBe('1h 35m');
+  });
+});
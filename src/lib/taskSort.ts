@@ -0,0 +1,59 @@
+import { Task, TaskPriority } from './types';
+
+// 'ai' asks the model; 'deadline' is the deterministic ranking available on every plan
+export type TaskSortMode = 'ai' | 'deadline';
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  1: 'P1',
+  2: 'P2',
+  3: 'P3',
+  4: 'P4',
+};
+
+export const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  1: 'bg-destructive/10 text-destructive',
+  2: 'bg-orange-500/10 text-orange-600 dark:text-orange-400',
+  3: 'bg-primary/10 text-primary',
+  4: 'bg-muted text-muted-foreground',
+};
+
+// Missing values rank after every set value
+const compareOptional = (a: number | null | undefined, b: number | null | undefined) => {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1;
+  if (b == null) return -1;
+  return a - b;
+};
+
+const deadlineTime = (task: Task) => (task.deadline ? new Date(task.deadline).getTime() : null);
+
+// Earliest deadline first, then highest priority, then quickest estimate.
+// Text and id break the remaining ties so the result never depends on input order.
+export function compareTasks(a: Task, b: Task): number {
+  return (
+    compareOptional(deadlineTime(a), deadlineTime(b)) ||
+    compareOptional(a.priority, b.priority) ||
+    compareOptional(a.estimateMinutes, b.estimateMinutes) ||
+    a.text.localeCompare(b.text) ||
+    String(a.id).localeCompare(String(b.id))
+  );
+}
+
+export function sortTasks<T extends Task>(tasks: T[]): T[] {
+  return [...tasks].sort(compareTasks);
+}
+
+// Put tasks in the order of an id list (e.g. from the AI), keeping any the list left out at the end
+export function orderByIds<T extends Task>(tasks: T[], ids: Array<string | number>): T[] {
+  const byId = new Map(tasks.map(task => [String(task.id), task]));
+  const ordered = ids.map(id => byId.get(String(id))).filter((task): task is T => !!task);
+  const seen = new Set(ordered.map(task => String(task.id)));
+  return [...new Set(ordered), ...tasks.filter(task => !seen.has(String(task.id)))];
+}
+
+export function formatEstimate(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
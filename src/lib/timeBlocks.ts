@@ -0,0 +1,165 @@
+import { Task, TaskOccurrence } from './types';
+
+// Visible planning window of the day view
+export const DAY_START_HOUR = 6;
+export const DAY_END_HOUR = 23;
+export const SLOT_MINUTES = 15;
+// Tasks with a time but no estimate still take up room on the grid
+export const DEFAULT_BLOCK_MINUTES = 30;
+
+export interface TimeBlock {
+  id: string;
+  kind: 'task' | 'focus';
+  label: string;
+  start: number; // minutes since midnight
+  end: number;
+  done?: boolean;
+  task?: TaskOccurrence;
+}
+
+// One item of a generated plan; time is only set for fixed appointments
+export interface ScheduleItem {
+  text: string;
+  estimateMinutes?: number;
+  time?: string;
+}
+
+export interface FocusSessionLike {
+  id: string;
+  task_label: string | null;
+  duration_minutes: number;
+  completed_at: string | null;
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function minutesToTime(minutes: number): string {
+  const clamped = Math.max(0, Math.min(24 * 60 - 1, Math.round(minutes)));
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+}
+
+export function snapToSlot(minutes: number): number {
+  return Math.round(minutes / SLOT_MINUTES) * SLOT_MINUTES;
+}
+
+export function getTaskBlocks(tasks: TaskOccurrence[]): TimeBlock[] {
+  return tasks
+    .filter(task => task.time)
+    .map(task => {
+      const start = timeToMinutes(task.time!);
+      return {
+        id: `task-${task.id}`,
+        kind: 'task' as const,
+        label: task.text,
+        start,
+        end: start + (task.estimateMinutes || DEFAULT_BLOCK_MINUTES),
+        done: task.done,
+        task,
+      };
+    });
+}
+
+// Focus sessions are logged when they finish, so each block ends at completed_at
+export function getFocusBlocks(sessions: FocusSessionLike[]): TimeBlock[] {
+  return sessions
+    .filter(session => session.completed_at)
+    .map(session => {
+      const completed = new Date(session.completed_at!);
+      const end = completed.getHours() * 60 + completed.getMinutes();
+      return {
+        id: `focus-${session.id}`,
+        kind: 'focus' as const,
+        label: session.task_label || 'Focus session',
+        start: Math.max(0, end - session.duration_minutes),
+        end,
+        done: true,
+      };
+    });
+}
+
+// Side-by-side columns for overlapping blocks
+export function layoutBlocks(blocks: TimeBlock[]): Array<TimeBlock & { column: number; columns: number }> {
+  const sorted = [...blocks].sort((a, b) => a.start - b.start || b.end - a.end);
+  const result: Array<TimeBlock & { column: number; columns: number }> = [];
+  let group: Array<TimeBlock & { column: number; columns: number }> = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    const columns = Math.max(1, ...group.map(block => block.column + 1));
+    group.forEach(block => result.push({ ...block, columns }));
+    group = [];
+  };
+
+  sorted.forEach(block => {
+    if (block.start >= groupEnd) {
+      closeGroup();
+      groupEnd = -1;
+    }
+    const taken = new Set(group.filter(other => other.end > block.start).map(other => other.column));
+    let column = 0;
+    while (taken.has(column)) column++;
+    group.push({ ...block, column, columns: 1 });
+    groupEnd = Math.max(groupEnd, block.end);
+  });
+  closeGroup();
+
+  return result;
+}
+
+// First-fit placement of new items into the gaps between existing blocks
+export function placeInFreeSlots(
+  durations: number[],
+  blocks: Array<Pick<TimeBlock, 'start' | 'end'>>,
+  from = DAY_START_HOUR * 60,
+  until = DAY_END_HOUR * 60
+): Array<number | null> {
+  const busy = blocks.map(block => ({ start: block.start, end: block.end }));
+
+  return durations.map(duration => {
+    let candidate = Math.ceil(from / SLOT_MINUTES) * SLOT_MINUTES;
+    const ordered = [...busy].sort((a, b) => a.start - b.start);
+    for (const block of ordered) {
+      if (candidate + duration <= block.start) break;
+      if (block.end > candidate) candidate = Math.ceil(block.end / SLOT_MINUTES) * SLOT_MINUTES;
+    }
+    if (candidate + duration > until) return null;
+    busy.push({ start: candidate, end: candidate + duration });
+    return candidate;
+  });
+}
+
+// Turn a generated plan into tasks: fixed appointments keep their time, the rest
+// fill the free gaps around what is already planned, starting no earlier than `from`
+export function scheduleIntoFreeSlots(items: ScheduleItem[], existing: TaskOccurrence[], from: number): Task[] {
+  const isValidTime = (time?: string): time is string => !!time && /^\d{1,2}:\d{2}$/.test(time);
+  const fixed = items.filter(item => isValidTime(item.time));
+  const flexible = items.filter(item => !isValidTime(item.time));
+  const durationOf = (item: ScheduleItem) =>
+    item.estimateMinutes && item.estimateMinutes > 0 ? Math.round(item.estimateMinutes) : DEFAULT_BLOCK_MINUTES;
+
+  const busy = [
+    ...getTaskBlocks(existing),
+    ...fixed.map(item => ({ start: timeToMinutes(item.time!), end: timeToMinutes(item.time!) + durationOf(item) })),
+  ];
+  const starts = placeInFreeSlots(flexible.map(durationOf), busy, Math.max(from, DAY_START_HOUR * 60));
+
+  const now = Date.now();
+  const toTask = (item: ScheduleItem, time: string | undefined, i: number): Task => ({
+    id: now + i,
+    text: item.text,
+    done: false,
+    time,
+    estimateMinutes: item.estimateMinutes && item.estimateMinutes > 0 ? Math.round(item.estimateMinutes) : null,
+  });
+
+  return [
+    ...fixed.map((item, i) => toTask(item, minutesToTime(timeToMinutes(item.time!)), i)),
+    ...flexible.map((item, i) => {
+      const start = starts[i];
+      return toTask(item, start === null ? undefined : minutesToTime(start), fixed.length + i);
+    }),
+  ].sort((a, b) => (a.time ?? '99:99').localeCompare(b.time ?? '99:99'));
+}
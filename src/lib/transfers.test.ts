@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { TRANSFER_CATEGORY, createTransferLegs, getSignedAmount, getTransferLegs } from './transfers';
+import { Transaction } from './types';
+
+const input = {
+  fromAccountId: 'ngn',
+  toAccountId: 'usd',
+  amount: 15000,
+  fxRate: 1 / 1500,
+  date: '2024-03-01',
+  description: 'Top up',
+};
+
+const expense: Transaction = { id: 1, type: 'expense', amount: 5, category: 'Food', description: '', date: '2024-03-01' };
+
+describe('createTransferLegs', () => {
+  it('debits the sender and credits the receiver under one transfer id', () => {
+    const [out, incoming] = createTransferLegs({ ...input, toAccountId: 'savings', fxRate: 1 });
+    expect(out).toMatchObject({ type: 'transfer', category: TRANSFER_CATEGORY, amount: 15000, bank_account_id: 'ngn', transfer_direction: 'out', fx_rate: null });
+    expect(incoming).toMatchObject({ type: 'transfer', amount: 15000, bank_account_id: 'savings', transfer_direction: 'in', fx_rate: null });
+    expect(out.transfer_id).toBe(incoming.transfer_id);
+    expect(out.id).not.toBe(incoming.id);
+  });
+
+  it('converts the received amount at the rate, to the cent', () => {
+    const [out, incoming] = createTransferLegs(input);
+    expect(out.amount).toBe(15000);
+    expect(incoming.amount).toBe(10);
+    expect(incoming.fx_rate).toBe(input.fxRate);
+    expect(createTransferLegs({ ...input, amount: 100, fxRate: 0.333 })[1].amount).toBe(33.3);
+  });
+});
+
+describe('getSignedAmount', () => {
+  it('adds income and incoming transfers and subtracts the rest', () => {
+    const [out, incoming] = createTransferLegs(input);
+    expect(getSignedAmount(out)).toBe(-15000);
+    expect(getSignedAmount(incoming)).toBe(10);
+    expect(getSignedAmount(expense)).toBe(-5);
+    expect(getSignedAmount({ ...expense, type: 'income' })).toBe(5);
+  });
+});
+
+describe('getTransferLegs', () => {
+  it('finds both legs from either one', () => {
+    const legs = createTransferLegs(input);
+    const other = createTransferLegs(input);
+    const all = [...other, ...legs];
+    expect(getTransferLegs(legs[1], all)).toEqual(legs);
+    expect(getTransferLegs(expense, all)).toEqual([expense]);
+  });
+});
@@ -0,0 +1,51 @@
+import { Transaction } from './types';
+
+export const TRANSFER_CATEGORY = 'Transfer';
+
+export interface TransferInput {
+  fromAccountId: string;
+  toAccountId: string;
+  // Sent, in the sending account's currency
+  amount: number;
+  // Receiving currency per unit sent; 1 between accounts in the same currency
+  fxRate: number;
+  date: string;
+  description: string;
+}
+
+// The debit and credit legs of a new transfer, linked by a shared transfer_id
+export function createTransferLegs(input: TransferInput): [Transaction, Transaction] {
+  const transferId = crypto.randomUUID();
+  const fxRate = input.fxRate === 1 ? null : input.fxRate;
+  const shared = {
+    type: 'transfer' as const,
+    category: TRANSFER_CATEGORY,
+    description: input.description,
+    date: input.date,
+    transfer_id: transferId,
+    fx_rate: fxRate,
+  };
+
+  return [
+    { ...shared, id: crypto.randomUUID(), amount: input.amount, bank_account_id: input.fromAccountId, transfer_direction: 'out' },
+    {
+      ...shared,
+      id: crypto.randomUUID(),
+      amount: Math.round(input.amount * input.fxRate * 100) / 100,
+      bank_account_id: input.toAccountId,
+      transfer_direction: 'in',
+    },
+  ];
+}
+
+// Effect on the account's balance: income and incoming transfers add, the rest subtracts
+export function getSignedAmount(t: Transaction): number {
+  const credit = t.type === 'income' || (t.type === 'transfer' && t.transfer_direction === 'in');
+  return credit ? t.amount : -t.amount;
+}
+
+// Both legs of the transfer t belongs to, or just t for other transactions
+export function getTransferLegs(t: Transaction, transactions: Transaction[]): Transaction[] {
+  if (!t.transfer_id) return [t];
+  return transactions.filter(other => other.transfer_id === t.transfer_id);
+}
@@ -1,3 +1,18 @@
+// Repeat rule for a task series; weekdays use the planner's Monday = 0 index
+export interface RecurrenceRule {
+  freq: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
+
+export type OccurrenceState = 'done' | 'skipped';
+
+// 1 = P1 (most urgent) ... 4 = P4
+export type TaskPriority = 1 | 2 | 3 | 4;
+
 export interface Task {
   id: string | number;
   text: string;
@@ -5,16 +20,95 @@ export interface Task {
   time?: string;
   reminderEnabled?: boolean;
   alerted?: boolean;
+  recurrence?: RecurrenceRule | null;
+  // Per-date state of a recurring series, keyed by yyyy-MM-dd
+  occurrenceStates?: { [date: string]: OccurrenceState };
+  // Set on checklist items; they share the parent's day bucket
+  parentId?: string | number | null;
+  priority?: TaskPriority | null;
+  estimateMinutes?: number | null;
+  // ISO timestamp; independent of the day the task is planned on
+  deadline?: string | null;
+  labels?: string[];
+  // Goal (System) this task moves forward
+  systemId?: string | number | null;
+  // UID of the calendar item this task was imported from
+  externalUid?: string | null;
+}
+
+export type TaskDetails = Pick<Task, 'priority' | 'estimateMinutes' | 'deadline' | 'labels' | 'systemId'>;
+
+// A single generated occurrence of a recurring task (or a plain dated task)
+export interface TaskOccurrence extends Task {
+  seriesDay: string;
+  occurrenceDate: string;
 }
 
+// Keyed by calendar date (yyyy-MM-dd), plus the undated IdeaDump bucket
 export interface Tasks {
   [day: string]: Task[];
 }
 
+// When a habit is due; weekdays are Monday = 0 like the planner
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] }
+  | { type: 'timesPerWeek'; times: number }
+  | { type: 'everyNDays'; interval: number; startDate: string };
+
+// A per-day quantity, e.g. 8 glasses or 5 km
+export interface HabitTarget {
+  amount: number;
+  unit: string;
+}
+
+// Dates the habit is on hold, inclusive; until is null while open-ended
+export interface PausePeriod {
+  from: string;
+  until: string | null;
+}
+
 export interface Habit {
   id: string | number;
   name: string;
   completed: { [key: string]: boolean };
+  // Daily when not set
+  schedule?: HabitSchedule;
+  target?: HabitTarget | null;
+  // Logged amount per date for quantitative habits; completed[date] follows value >= target
+  values?: { [key: string]: number };
+  // Streak freeze / vacation days that don't break a streak
+  frozen?: { [key: string]: boolean };
+  // Paused days are not due at all
+  pauses?: PausePeriod[];
+  // Set while archived; hidden everywhere but the Archived section
+  archivedAt?: string | null;
+}
+
+// A dated checkpoint on the way to a goal
+export interface Milestone {
+  id: string;
+  title: string;
+  targetDate: string | null;
+  // ISO date the milestone was ticked off
+  doneAt: string | null;
+}
+
+export interface KeyResultEntry {
+  date: string;
+  value: number;
+}
+
+// A measurable outcome, e.g. 10k time from 62 down to 55 min. Counts down when target < start.
+export interface KeyResult {
+  id: string;
+  title: string;
+  unit: string;
+  start: number;
+  target: number;
+  current: number;
+  // One logged value per date, oldest first
+  history: KeyResultEntry[];
 }
 
 export interface System {
@@ -22,24 +116,88 @@ export interface System {
   goal: string;
   why: string;
   habits: Habit[];
+  milestones?: Milestone[];
+  keyResults?: KeyResult[];
+  archivedAt?: string | null;
+}
+
+// A habit as described in a system template, before it's installed
+export interface TemplateHabit {
+  name: string;
+  schedule?: HabitSchedule;
+  target?: HabitTarget | null;
+}
+
+// A curated goal with habits, installed as a new System in one click
+export interface SystemTemplate {
+  id: string;
+  goal: string;
+  why: string;
+  category: string;
+  habits: TemplateHabit[];
+}
+
+export interface RoutineStep {
+  habitId: string;
+  // Planned time for the step; also the focus timer length when run
+  minutes: number;
+}
+
+// An ordered stack of habits done back to back, e.g. water -> stretch -> journal
+export interface Routine {
+  id: string | number;
+  name: string;
+  // HH:mm, or null for "whenever"
+  startTime: string | null;
+  steps: RoutineStep[];
+}
+
+export type TransferDirection = 'in' | 'out';
+
+// One category line of a split transaction
+export interface TransactionSplit {
+  category: string;
+  amount: number;
 }
 
 export interface Transaction {
   id: string | number;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
   amount: number;
   category: string;
   description: string;
   date: string;
   bank_account_id?: string | null;
-  source?: 'manual' | 'receipt' | 'bank_import';
+  source?: 'manual' | 'receipt' | 'bank_import' | 'subscription';
   external_reference?: string | null;
+  // Transfer legs share transfer_id; 'out' debits bank_account_id and 'in' credits it
+  transfer_id?: string | null;
+  transfer_direction?: TransferDirection | null;
+  // Receiving currency per unit sent, for transfers between currencies
+  fx_rate?: number | null;
+  // Subscription an auto-posted charge belongs to
+  subscription_id?: string | null;
+  // Category lines of a split expense, adding up to amount; empty when not split
+  splits?: TransactionSplit[];
 }
 
+export type BillingCycle = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
 export interface Subscription {
   id: string | number;
   name: string;
+  // Charged once per billing cycle, in currency (an ISO code such as NGN)
   amount: number;
+  billingCycle?: BillingCycle;
+  nextChargeDate?: string | null;
+  // Day of the month charges fall on, or the last day of shorter months
+  billingAnchorDay?: number | null;
+  currency?: string;
+  bankAccountId?: string | null;
+  // Expense category for auto-posted charges
+  category?: string;
+  // Record each charge as an expense transaction on its charge date
+  autoPost?: boolean;
 }
 
 export interface SavingsGoal {
@@ -60,8 +218,22 @@ export interface JournalEntry {
   tags?: string[];
 }
 
+export type BudgetPeriod = 'weekly' | 'monthly' | 'custom';
+
 export interface Budget {
-  [category: string]: number;
+  id: string | number;
+  category: string;
+  // Limit for each period
+  amount: number;
+  period: BudgetPeriod;
+  // First day of the first period; weekly and monthly periods repeat from here
+  startDate: string;
+  // Last day of a custom range
+  endDate?: string | null;
+  // Carry unspent money into the next period
+  rollover?: boolean;
+  // Only count spending from this account; unset covers every account
+  bankAccountId?: string | null;
 }
 
 export interface ChatMessage {
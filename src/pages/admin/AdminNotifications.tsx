@@ -38,8 +38,9 @@ const TRIGGER_TYPES = [
   { value: 'no_tasks_tomorrow', label: 'No Tasks Tomorrow', description: 'Trigger when user has no tasks planned for tomorrow', conditionLabel: null, conditionKey: null, defaultValue: null },
   { value: 'low_savings', label: 'Low Savings Progress', description: 'Trigger when savings goals are below threshold %', conditionLabel: 'Threshold %', conditionKey: 'threshold_percent', defaultValue: 50 },
   { value: 'habit_streak_at_risk', label: 'Habit Streak at Risk', description: 'Trigger when habits haven\'t been completed by a certain hour', conditionLabel: 'After Hour (24h)', conditionKey: 'threshold_hour', defaultValue: 18 },
-  { value: 'budget_exceeded', label: 'Budget Exceeded', description: 'Trigger when any budget category is exceeded', conditionLabel: null, conditionKey: null, defaultValue: null },
-  { value: 'goal_achieved', label: 'Goal Achieved', description: 'Trigger when a savings goal is reached (100%)', conditionLabel: null, conditionKey: null, defaultValue: null },
+  { value: 'budget_exceeded', label: 'Budget Exceeded', description: 'Trigger when a budget reaches 80% and again at 100% of its current period', conditionLabel: null, conditionKey: null, defaultValue: null },
+  { value: 'goal_achieved', label: 'Goal Achieved', description: 'Trigger when a savings goal is reached (100%) or every key result of a goal is met', conditionLabel: null, conditionKey: null, defaultValue: null },
+  { value: 'subscription_renewing', label: 'Subscription Renewing', description: 'Trigger when a subscription is due to be charged within X days', conditionLabel: 'Days Ahead', conditionKey: 'days_ahead', defaultValue: 7 },
   { value: 'broadcast', label: 'Broadcast Message', description: 'Send to all users at scheduled time', conditionLabel: null, conditionKey: null, defaultValue: null },
 ];
 
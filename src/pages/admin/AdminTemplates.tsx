@@ -0,0 +1,366 @@
+import { useState, useEffect } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { Save, Loader2, Plus, Edit, Trash2, X } from 'lucide-react';
+import { HabitScheduleFields } from '@/components/HabitScheduleFields';
+import { TemplateHabit } from '@/lib/types';
+import { DEFAULT_HABIT_SCHEDULE, describeHabitSchedule } from '@/lib/habitSchedule';
+import { SYSTEM_TEMPLATE_CATEGORIES } from '@/lib/systemTemplates';
+
+interface TemplateItem {
+  id: string;
+  goal: string;
+  why: string;
+  category: string;
+  habits: TemplateHabit[];
+  order_index: number;
+  is_published: boolean;
+}
+
+export default function AdminTemplates() {
+  const [templates, setTemplates] = useState<TemplateItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editItem, setEditItem] = useState<TemplateItem | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  async function fetchTemplates() {
+    try {
+      const { data, error } = await supabase
+        .from('system_templates')
+        .select('*')
+        .order('category')
+        .order('order_index');
+
+      if (error) throw error;
+      setTemplates((data || []).map(row => ({
+        ...row,
+        habits: Array.isArray(row.habits) ? (row.habits as unknown as TemplateHabit[]) : [],
+      })));
+    } catch (err) {
+      console.error('Error fetching templates:', err);
+      toast.error('Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const updateHabit = (index: number, changes: Partial<TemplateHabit>) => {
+    setEditItem(prev => prev ? {
+      ...prev,
+      habits: prev.habits.map((h, i) => i === index ? { ...h, ...changes } : h),
+    } : null);
+  };
+
+  async function saveItem() {
+    if (!editItem) return;
+    if (!editItem.goal.trim()) {
+      toast.error('Please enter a goal');
+      return;
+    }
+
+    const habits = editItem.habits
+      .filter(h => h.name.trim())
+      .map(h => ({
+        name: h.name.trim(),
+        schedule: h.schedule || DEFAULT_HABIT_SCHEDULE,
+        ...(h.target && h.target.amount > 0 ? { target: h.target } : {}),
+      }));
+    if (habits.length === 0) {
+      toast.error('Add at least one system to the template');
+      return;
+    }
+
+    const fields = {
+      goal: editItem.goal.trim(),
+      why: editItem.why.trim(),
+      category: editItem.category,
+      habits: habits as unknown as Json,
+      order_index: editItem.order_index,
+      is_published: editItem.is_published,
+    };
+
+    try {
+      setSaving(true);
+
+      if (editItem.id) {
+        const { error } = await supabase
+          .from('system_templates')
+          .update(fields)
+          .eq('id', editItem.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('system_templates')
+          .insert(fields);
+
+        if (error) throw error;
+      }
+
+      toast.success('Template saved');
+      setDialogOpen(false);
+      setEditItem(null);
+      fetchTemplates();
+    } catch (err) {
+      console.error('Error saving template:', err);
+      toast.error('Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteItem(id: string) {
+    if (!confirm('Are you sure you want to delete this template?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('system_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Template deleted');
+      fetchTemplates();
+    } catch (err) {
+      console.error('Error deleting template:', err);
+      toast.error('Failed to delete template');
+    }
+  }
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Goal Templates</h1>
+            <p className="text-muted-foreground">Manage the template library users can start new goals from</p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button
+                onClick={() => setEditItem({
+                  id: '',
+                  goal: '',
+                  why: '',
+                  category: 'general',
+                  habits: [{ name: '', schedule: DEFAULT_HABIT_SCHEDULE, target: null }],
+                  order_index: templates.length,
+                  is_published: true,
+                })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Template
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editItem?.id ? 'Edit Template' : 'New Template'}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-goal">Goal</Label>
+                    <Input
+                      id="template-goal"
+                      value={editItem?.goal || ''}
+                      onChange={(e) => setEditItem(prev => prev ? { ...prev, goal: e.target.value } : null)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-category">Category</Label>
+                    <Select
+                      value={editItem?.category || 'general'}
+                      onValueChange={(value) => setEditItem(prev => prev ? { ...prev, category: value } : null)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SYSTEM_TEMPLATE_CATEGORIES.map((cat) => (
+                          <SelectItem key={cat} value={cat} className="capitalize">
+                            {cat}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-why">Why</Label>
+                  <Input
+                    id="template-why"
+                    value={editItem?.why || ''}
+                    onChange={(e) => setEditItem(prev => prev ? { ...prev, why: e.target.value } : null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Systems</Label>
+                  {editItem?.habits.map((habit, index) => (
+                    <div key={index} className="p-3 border border-border rounded-lg space-y-2">
+                      <div className="flex gap-2">
+                        <Input
+                          value={habit.name}
+                          placeholder="e.g. Go for a run"
+                          onChange={(e) => updateHabit(index, { name: e.target.value })}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditItem(prev => prev ? { ...prev, habits: prev.habits.filter((_, i) => i !== index) } : null)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <HabitScheduleFields
+                        schedule={habit.schedule || DEFAULT_HABIT_SCHEDULE}
+                        onScheduleChange={(schedule) => updateHabit(index, { schedule })}
+                        target={habit.target || null}
+                        onTargetChange={(target) => updateHabit(index, { target })}
+                      />
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditItem(prev => prev ? {
+                      ...prev,
+                      habits: [...prev.habits, { name: '', schedule: DEFAULT_HABIT_SCHEDULE, target: null }],
+                    } : null)}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add System
+                  </Button>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="template-published"
+                      checked={editItem?.is_published ?? true}
+                      onCheckedChange={(checked) => setEditItem(prev => prev ? { ...prev, is_published: checked } : null)}
+                    />
+                    <Label htmlFor="template-published">Published</Label>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+                    <Button onClick={saveItem} disabled={saving}>
+                      {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            {templates.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No templates yet. Create your first template to get started.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Goal</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Systems</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">{item.goal}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="capitalize">
+                          {item.category}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {item.habits.map(h => `${h.name} (${describeHabitSchedule(h.schedule || DEFAULT_HABIT_SCHEDULE)})`).join(', ')}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={item.is_published ? 'default' : 'secondary'}>
+                          {item.is_published ? 'Published' : 'Draft'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setEditItem(item);
+                              setDialogOpen(true);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteItem(item.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
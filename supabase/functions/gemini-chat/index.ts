@@ -93,8 +93,17 @@ serve(async (req) => {
     // Build context string for injection
     const contextString = userContext ? `
 Current User Context:
+- Today: ${userContext.today || 'unknown'}
 - Tasks Today: ${userContext.tasks?.today_completed || 0}/${userContext.tasks?.today_total || 0} completed (${userContext.tasks?.completion_rate || 0}%)
+- Overdue Tasks: ${userContext.tasks?.overdue || 0}, Planned Next 7 Days: ${userContext.tasks?.upcoming_7_days || 0}
 - Habits Today: ${userContext.habits?.today_completed || 0}/${userContext.habits?.today_total || 0} completed
+- Habit Streaks: best current ${userContext.habits?.best_current_streak || 0}, best ever ${userContext.habits?.best_longest_streak || 0}${
+  (userContext.habits?.streaks || [])
+    .filter((s: { current: number }) => s.current > 0)
+    .slice(0, 5)
+    .map((s: { name: string; current: number; unit: string }) => `; ${s.name}: ${s.current} ${s.unit}s`)
+    .join('')
+}
 - Mood Trend: ${userContext.mood?.trend || 'unknown'} (avg: ${userContext.mood?.recent_average || 'N/A'}/5)
 - Monthly Finances: Income ${userContext.finances?.monthly_income || 0}, Expenses ${userContext.finances?.monthly_expenses || 0}, Balance ${userContext.finances?.monthly_balance || 0}
 - Total Savings: ${userContext.finances?.total_savings || 0}
@@ -113,7 +122,10 @@ Current Financial Snapshot:
 
     switch (type) {
       case 'smart-sort':
-        systemPrompt = 'You are a productivity expert. Analyze the given tasks and return them sorted by priority and urgency. Return only a JSON array with id and text fields.';
+        systemPrompt = `You are a productivity expert. Analyze the given tasks and return them sorted by priority and urgency.
+Each task may have: priority (1 = P1, most urgent, to 4 = P4), estimateMinutes (expected effort), deadline (ISO timestamp) and labels.
+Tasks with a close deadline or a high priority come first; use estimates to fit quick wins between them. Consider the current time: ${new Date().toISOString()}.
+Return only a JSON array with id and text fields, containing every task exactly once.`;
         userPrompt = `Sort these tasks by priority: ${JSON.stringify(context?.tasks)}`;
         modelToUse = 'google/gemini-2.5-flash-lite'; // Lighter model for simple tasks
         break;
@@ -205,7 +217,7 @@ ${contextString}`;
         break;
       case 'generate-schedule':
         systemPrompt = 'You are a productivity expert. Generate a daily schedule.';
-        userPrompt = `Generate 4-5 tasks for: "${context?.prompt}". Return as JSON array with text property.`;
+        userPrompt = `Generate 4-5 tasks for: "${context?.prompt}". Return as JSON array of objects with a text property and an estimateMinutes number. Only add a time property ("HH:mm", 24-hour) for fixed appointments the description mentions; the app fits the other tasks into free time slots.`;
         modelToUse = 'google/gemini-2.5-flash-lite';
         break;
       case 'generate-habits':
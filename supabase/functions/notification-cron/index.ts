@@ -6,6 +6,152 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+type HabitSchedule =
+  | { type: "daily" }
+  | { type: "weekdays"; days: number[] }
+  | { type: "timesPerWeek"; times: number }
+  | { type: "everyNDays"; interval: number; startDate: string };
+
+// Monday = 0, for a yyyy-MM-dd date
+const getWeekdayIndex = (date: string) => (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+interface PausePeriod {
+  from: string;
+  until: string | null;
+}
+
+const isPausedOn = (pauses: PausePeriod[] | null, date: string) =>
+  (pauses || []).some(p => date >= p.from && (!p.until || date <= p.until));
+
+// Same rules as the app's habit schedules (src/lib/habitSchedule.ts): a habit is at risk
+// when today's check-in is still missing and the schedule needs one today
+function isHabitAtRisk(schedule: HabitSchedule | null, doneDates: Set<string>, today: string): boolean {
+  if (doneDates.has(today)) return false;
+
+  switch (schedule?.type) {
+    case "weekdays":
+      return schedule.days.includes(getWeekdayIndex(today));
+    case "everyNDays":
+      return today >= schedule.startDate && daysBetween(schedule.startDate, today) % Math.max(1, schedule.interval) === 0;
+    case "timesPerWeek": {
+      // Only at risk once every remaining day of the week is needed to reach the target
+      const remaining = schedule.times - doneDates.size;
+      const daysLeft = 7 - getWeekdayIndex(today);
+      return remaining > 0 && remaining >= daysLeft;
+    }
+    default:
+      return true;
+  }
+}
+
+interface KeyResult {
+  start: number;
+  target: number;
+  current: number;
+}
+
+// Same rules as src/lib/keyResults.ts: a key result counts down when target < start,
+// and a goal is achieved once it has key results and all of them are met
+const isKeyResultMet = (kr: KeyResult) =>
+  kr.target < kr.start ? kr.current <= kr.target : kr.current >= kr.target;
+
+const areKeyResultsMet = (keyResults: KeyResult[] | null) =>
+  !!keyResults && keyResults.length > 0 && keyResults.every(isKeyResultMet);
+
+interface BudgetRow {
+  id: string;
+  category: string;
+  amount: number;
+  period: string;
+  start_date: string;
+  end_date: string | null;
+  rollover: boolean;
+  bank_account_id: string | null;
+}
+
+interface BudgetExpense {
+  category: string;
+  amount: number;
+  date: string;
+  bank_account_id: string | null;
+  // Category lines of a split expense, empty otherwise
+  splits: { category: string; amount: number }[] | null;
+}
+
+// What an expense counts towards a category: its matching split lines, or its
+// whole amount when it isn't split (see getCategoryAmount in src/lib/splits.ts)
+const getCategoryAmount = (t: BudgetExpense, category: string) =>
+  t.splits && t.splits.length > 0
+    ? t.splits.filter(s => s.category === category).reduce((sum, s) => sum + Number(s.amount), 0)
+    : t.category === category ? Number(t.amount) : 0;
+
+// Percent of a budget period's limit that triggers a notification, highest first
+const BUDGET_THRESHOLDS = [100, 80];
+
+const addDaysKey = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().split("T")[0];
+
+// Keeps the day of the month, falling back to the last day of shorter months
+const addMonthsKey = (date: string, months: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().split("T")[0];
+};
+
+const getBudgetPeriodStart = (budget: BudgetRow, index: number) =>
+  budget.period === "weekly" ? addDaysKey(budget.start_date, index * 7) : addMonthsKey(budget.start_date, index);
+
+// Same rules as the app's budgets (src/lib/budgets.ts): weekly and monthly periods repeat
+// from start_date, a custom budget covers start_date..end_date once. Returns every period
+// up to the one containing today, oldest first; empty when the budget isn't running today.
+function getBudgetPeriods(budget: BudgetRow, today: string): { start: string; end: string }[] {
+  if (today < budget.start_date) return [];
+  if (budget.period === "custom") {
+    const end = budget.end_date || budget.start_date;
+    return today <= end ? [{ start: budget.start_date, end }] : [];
+  }
+
+  let lastIndex: number;
+  if (budget.period === "weekly") {
+    lastIndex = Math.floor(daysBetween(budget.start_date, today) / 7);
+  } else {
+    const [startYear, startMonth] = budget.start_date.split("-").map(Number);
+    const [year, month] = today.split("-").map(Number);
+    lastIndex = (year - startYear) * 12 + (month - startMonth);
+    if (getBudgetPeriodStart(budget, lastIndex) > today) lastIndex--;
+  }
+
+  const periods: { start: string; end: string }[] = [];
+  for (let index = 0; index <= lastIndex; index++) {
+    periods.push({
+      start: getBudgetPeriodStart(budget, index),
+      end: addDaysKey(getBudgetPeriodStart(budget, index + 1), -1),
+    });
+  }
+  return periods;
+}
+
+// Spent and limit for the current period; with rollover, money left over in
+// earlier periods is added to the limit
+function getBudgetUsage(budget: BudgetRow, periods: { start: string; end: string }[], expenses: BudgetExpense[]) {
+  const covered = expenses.filter(t => !budget.bank_account_id || t.bank_account_id === budget.bank_account_id);
+  let carriedOver = 0;
+  let usage = { start: "", limit: 0, spent: 0 };
+
+  for (const period of budget.rollover ? periods : periods.slice(-1)) {
+    const spent = covered
+      .filter(t => t.date >= period.start && t.date <= period.end)
+      .reduce((sum, t) => sum + getCategoryAmount(t, budget.category), 0);
+    const limit = Number(budget.amount) + carriedOver;
+    usage = { start: period.start, limit, spent };
+    carriedOver = budget.rollover ? Math.max(0, limit - spent) : 0;
+  }
+  return usage;
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -85,6 +231,10 @@ serve(async (req) => {
         if (existingNotif) continue;
 
         let shouldNotify = false;
+        // Identifies what the notification is about so it isn't sent twice
+        let subject: Record<string, string> = {};
+        // Specifics appended to the trigger's message
+        let detail = "";
         const condition = trigger.condition || {};
 
         switch (trigger.trigger_type) {
@@ -178,25 +328,38 @@ serve(async (req) => {
           }
 
           case "habit_streak_at_risk": {
-            // Check if any habit hasn't been completed today by the threshold hour
+            // Check if any habit due today hasn't been completed by the threshold hour
             const thresholdHour = condition.threshold_hour || 18; // Default 6 PM
             
             if (currentHour >= thresholdHour) {
-              const { data: habits } = await supabase
+              // Archived habits (or habits of archived goals) and habits paused today are left alone
+              const { data: allHabits } = await supabase
                 .from("habits")
-                .select("id, name")
-                .eq("user_id", userId);
+                .select("id, name, schedule, pauses, systems!inner(archived_at)")
+                .eq("user_id", userId)
+                .is("archived_at", null)
+                .is("systems.archived_at", null);
+              const habits = allHabits?.filter(h => !isPausedOn(h.pauses as PausePeriod[] | null, today));
 
               if (habits && habits.length > 0) {
-                const { data: todayCompletions } = await supabase
+                // "N times per week" habits need the whole week's check-ins
+                const weekStart = new Date(now.getTime() - getWeekdayIndex(today) * 86400000).toISOString().split("T")[0];
+                const { data: weekCompletions } = await supabase
                   .from("habit_completions")
-                  .select("habit_id")
+                  .select("habit_id, date")
                   .eq("user_id", userId)
-                  .eq("date", today)
+                  .gte("date", weekStart)
+                  .lte("date", today)
                   .eq("completed", true);
 
-                const completedIds = new Set(todayCompletions?.map(c => c.habit_id) || []);
-                const incompleteHabits = habits.filter(h => !completedIds.has(h.id));
+                const doneDatesByHabit = new Map<string, Set<string>>();
+                weekCompletions?.forEach(c => {
+                  if (!doneDatesByHabit.has(c.habit_id)) doneDatesByHabit.set(c.habit_id, new Set());
+                  doneDatesByHabit.get(c.habit_id)!.add(c.date);
+                });
+                const incompleteHabits = habits.filter(h =>
+                  isHabitAtRisk(h.schedule as HabitSchedule | null, doneDatesByHabit.get(h.id) || new Set(), today)
+                );
 
                 if (incompleteHabits.length > 0) {
                   shouldNotify = true;
@@ -208,45 +371,67 @@ serve(async (req) => {
           }
 
           case "budget_exceeded": {
-            // Check if any budget category is exceeded
+            // Warn once per budget period at 80% of the limit and again at 100%
             const { data: budgets } = await supabase
               .from("budgets")
-              .select("*")
+              .select("id, category, amount, period, start_date, end_date, rollover, bank_account_id")
               .eq("user_id", userId);
 
-            if (budgets && budgets.length > 0) {
-              // Get this month's start date
-              const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split("T")[0];
-              
-              const { data: transactions } = await supabase
-                .from("transactions")
-                .select("category, amount")
+            const running = ((budgets || []) as BudgetRow[])
+              .map(budget => ({ budget, periods: getBudgetPeriods(budget, today) }))
+              .filter(({ periods }) => periods.length > 0);
+            if (running.length === 0) break;
+
+            // Rollover needs every period since the budget started, otherwise just the current one
+            const from = running
+              .map(({ budget, periods }) => budget.rollover ? periods[0].start : periods[periods.length - 1].start)
+              .sort()[0];
+            const { data: expenses } = await supabase
+              .from("transactions")
+              .select("category, amount, date, bank_account_id, splits")
+              .eq("user_id", userId)
+              .eq("type", "expense")
+              .gte("date", from)
+              .lte("date", today);
+
+            for (const { budget, periods } of running) {
+              const usage = getBudgetUsage(budget, periods, expenses || []);
+              const percent = usage.limit > 0 ? (usage.spent / usage.limit) * 100 : 0;
+              const threshold = BUDGET_THRESHOLDS.find(t => percent >= t);
+              if (!threshold) continue;
+
+              const { data: sent } = await supabase
+                .from("user_notifications")
+                .select("metadata")
                 .eq("user_id", userId)
-                .eq("type", "expense")
-                .gte("date", monthStart)
-                .lte("date", today);
-
-              if (transactions) {
-                const spendingByCategory: Record<string, number> = {};
-                transactions.forEach(t => {
-                  spendingByCategory[t.category] = (spendingByCategory[t.category] || 0) + t.amount;
-                });
+                .eq("type", "budget_exceeded")
+                .contains("metadata", { budget_id: budget.id, period_start: usage.start });
 
-                for (const budget of budgets) {
-                  const spent = spendingByCategory[budget.category] || 0;
-                  if (spent > budget.amount) {
-                    shouldNotify = true;
-                    console.log(`[notification-cron] User ${userId}: budget exceeded for "${budget.category}" (${spent} > ${budget.amount})`);
-                    break;
-                  }
-                }
-              }
+              const sentThresholds = (sent || []).map(n => Number((n.metadata as { threshold?: string })?.threshold));
+              if (sentThresholds.some(t => t >= threshold)) continue;
+
+              shouldNotify = true;
+              subject = { budget_id: budget.id, period_start: usage.start, threshold: String(threshold) };
+              detail = `${budget.category}: ${Math.round(percent)}% of the ${budget.period === "custom" ? "" : `${budget.period} `}budget used.`;
+              console.log(`[notification-cron] User ${userId}: budget for "${budget.category}" at ${Math.round(percent)}% (${usage.spent} of ${usage.limit})`);
+              break;
             }
             break;
           }
 
           case "goal_achieved": {
-            // Check if any savings goal was just achieved
+            // Notify once per savings goal reached and once per goal whose key results are all met
+            const alreadyNotified = async (metadata: Record<string, string>) => {
+              const { data } = await supabase
+                .from("user_notifications")
+                .select("id")
+                .eq("user_id", userId)
+                .eq("type", "goal_achieved")
+                .contains("metadata", metadata)
+                .limit(1);
+              return !!data && data.length > 0;
+            };
+
             const { data: goals } = await supabase
               .from("savings_goals")
               .select("*")
@@ -254,24 +439,63 @@ serve(async (req) => {
 
             if (goals) {
               for (const goal of goals) {
-                if (goal.current >= goal.target && goal.target > 0) {
-                  // Check if we already notified about this goal
-                  const { data: existingGoalNotif } = await supabase
-                    .from("user_notifications")
-                    .select("id")
-                    .eq("user_id", userId)
-                    .eq("type", "goal_achieved")
-                    .contains("metadata", { goal_id: goal.id })
-                    .maybeSingle();
-
-                  if (!existingGoalNotif) {
-                    shouldNotify = true;
-                    console.log(`[notification-cron] User ${userId}: achieved savings goal "${goal.name}"`);
-                    break;
-                  }
+                if (goal.current >= goal.target && goal.target > 0 && !(await alreadyNotified({ goal_id: goal.id }))) {
+                  shouldNotify = true;
+                  subject = { goal_id: goal.id };
+                  console.log(`[notification-cron] User ${userId}: achieved savings goal "${goal.name}"`);
+                  break;
                 }
               }
             }
+
+            if (!shouldNotify) {
+              const { data: systems } = await supabase
+                .from("systems")
+                .select("id, goal, key_results")
+                .eq("user_id", userId);
+
+              for (const system of systems || []) {
+                if (areKeyResultsMet(system.key_results as KeyResult[] | null) && !(await alreadyNotified({ system_id: system.id }))) {
+                  shouldNotify = true;
+                  subject = { system_id: system.id };
+                  console.log(`[notification-cron] User ${userId}: met every key result for "${system.goal}"`);
+                  break;
+                }
+              }
+            }
+            break;
+          }
+
+          case "subscription_renewing": {
+            // Notify once per upcoming charge of each subscription
+            const daysAhead = condition.days_ahead || 7;
+            const windowEnd = new Date(now.getTime() + daysAhead * 86400000).toISOString().split("T")[0];
+
+            const { data: renewing } = await supabase
+              .from("subscriptions")
+              .select("id, name, next_charge_date")
+              .eq("user_id", userId)
+              .gte("next_charge_date", today)
+              .lte("next_charge_date", windowEnd)
+              .order("next_charge_date");
+
+            for (const sub of renewing || []) {
+              const metadata = { subscription_id: sub.id, charge_date: sub.next_charge_date };
+              const { data: sent } = await supabase
+                .from("user_notifications")
+                .select("id")
+                .eq("user_id", userId)
+                .eq("type", "subscription_renewing")
+                .contains("metadata", metadata)
+                .limit(1);
+
+              if (!sent || sent.length === 0) {
+                shouldNotify = true;
+                subject = metadata;
+                console.log(`[notification-cron] User ${userId}: "${sub.name}" renews on ${sub.next_charge_date}`);
+                break;
+              }
+            }
             break;
           }
 
@@ -290,9 +514,9 @@ serve(async (req) => {
           notificationsToInsert.push({
             user_id: userId,
             title: trigger.message_title,
-            message: trigger.message_body,
+            message: detail ? `${trigger.message_body} ${detail}` : trigger.message_body,
             type: trigger.trigger_type,
-            metadata: { trigger_id: trigger.id, triggered_at: now.toISOString() },
+            metadata: { trigger_id: trigger.id, triggered_at: now.toISOString(), ...subject },
           });
         }
       }
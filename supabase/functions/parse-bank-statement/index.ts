@@ -15,6 +15,12 @@ interface ParsedTransaction {
   isDuplicate?: boolean;
 }
 
+// A transaction the AI returned that can't be imported as it stands
+interface RowError {
+  line: null;
+  message: string;
+}
+
 // Category mapping for AI results
 const VALID_CATEGORIES = [
   'Income', 'Food', 'Transport', 'Entertainment', 'Utilities', 
@@ -22,7 +28,10 @@ const VALID_CATEGORIES = [
   'Cash', 'Transfer', 'Other'
 ];
 
-async function parseWithAI(content: string, lovableApiKey: string): Promise<ParsedTransaction[]> {
+async function parseWithAI(
+  content: string,
+  lovableApiKey: string
+): Promise<{ transactions: ParsedTransaction[]; errors: RowError[] }> {
   console.log("Parsing bank statement with AI...");
   
   const systemPrompt = `You are a bank statement parser expert. Your job is to extract transactions from bank statement text.
@@ -98,16 +107,25 @@ ${content.substring(0, 15000)}`;
     
     const transactions: ParsedTransaction[] = JSON.parse(jsonStr);
     
-    // Validate and clean transactions
-    return transactions
-      .filter(t => t.date && t.amount && t.type && t.description)
-      .map(t => ({
-        date: normalizeDate(t.date),
+    // Validate and clean transactions; ones without a readable date are reported, not guessed
+    const valid: ParsedTransaction[] = [];
+    const errors: RowError[] = [];
+    for (const t of transactions.filter(t => t.date && t.amount && t.type && t.description)) {
+      const description = String(t.description).substring(0, 200);
+      const date = normalizeDate(t.date);
+      if (!date) {
+        errors.push({ line: null, message: `Unrecognised date "${t.date}" for "${description}"` });
+        continue;
+      }
+      valid.push({
+        date,
         amount: Math.abs(Number(t.amount)),
         type: t.type === 'income' ? 'income' : 'expense',
-        description: String(t.description).substring(0, 200),
+        description,
         category: VALID_CATEGORIES.includes(t.category || '') ? t.category : 'Other',
-      }));
+      });
+    }
+    return { transactions: valid, errors };
       
   } catch (error) {
     console.error('AI parsing failed:', error);
@@ -115,29 +133,34 @@ ${content.substring(0, 15000)}`;
   }
 }
 
-function normalizeDate(dateStr: string): string {
+// A yyyy-MM-dd key, or null when the date isn't a real one in a known format
+function normalizeDate(dateStr: string): string | null {
   // Handle various date formats
   const cleanDate = String(dateStr).replace(/['"]/g, "").trim();
-  
-  // YYYY-MM-DD already correct
-  if (/^\d{4}-\d{2}-\d{2}$/.test(cleanDate)) {
-    return cleanDate;
+
+  const toKey = (year: string, month: string, day: string) => {
+    const y = Number(year), m = Number(month), d = Number(day);
+    if (m < 1 || m > 12 || d < 1 || d > new Date(Date.UTC(y, m, 0)).getUTCDate()) return null;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  };
+
+  // YYYY-MM-DD or YYYY/MM/DD
+  let match = cleanDate.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (match) {
+    return toKey(match[1], match[2], match[3]);
   }
   
   // DD-MM-YYYY or DD/MM/YYYY
-  let match = cleanDate.match(/(\d{1,2})[-\/](\d{1,2})[-\/](\d{2,4})/);
+  match = cleanDate.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{2,4})\b/);
   if (match) {
-    const day = match[1].padStart(2, "0");
-    const month = match[2].padStart(2, "0");
     let year = match[3];
     if (year.length === 2) {
       year = parseInt(year) > 50 ? "19" + year : "20" + year;
     }
-    return `${year}-${month}-${day}`;
+    return toKey(year, match[2], match[1]);
   }
 
-  // Default to today
-  return new Date().toISOString().split("T")[0];
+  return null;
 }
 
 async function checkDuplicates(
@@ -153,14 +176,20 @@ async function checkDuplicates(
     .eq("user_id", userId)
     .eq("bank_account_id", bankAccountId);
 
-  const existingSet = new Set(
-    (existing || []).map((t: any) => `${t.date}-${t.amount}-${t.description?.substring(0, 50)}`)
-  );
-
-  return transactions.map(t => ({
-    ...t,
-    isDuplicate: existingSet.has(`${t.date}-${t.amount}-${t.description?.substring(0, 50)}`),
-  }));
+  // Each existing transaction matches one incoming row, so repeated identical
+  // charges on a day are only skipped as often as the account already has them
+  const unmatched = new Map<string, number>();
+  (existing || []).forEach((t: any) => {
+    const key = `${t.date}-${t.amount}-${t.description?.substring(0, 50)}`;
+    unmatched.set(key, (unmatched.get(key) || 0) + 1);
+  });
+
+  return transactions.map(t => {
+    const key = `${t.date}-${t.amount}-${t.description?.substring(0, 50)}`;
+    const left = unmatched.get(key) || 0;
+    if (left > 0) unmatched.set(key, left - 1);
+    return { ...t, isDuplicate: left > 0 };
+  });
 }
 
 serve(async (req) => {
@@ -242,8 +271,9 @@ serve(async (req) => {
 
     // Parse with AI
     let transactions: ParsedTransaction[] = [];
+    let errors: RowError[] = [];
     try {
-      transactions = await parseWithAI(decodedContent, lovableApiKey);
+      ({ transactions, errors } = await parseWithAI(decodedContent, lovableApiKey));
     } catch (aiError) {
       console.error("AI parsing failed:", aiError);
       return new Response(
@@ -255,13 +285,14 @@ serve(async (req) => {
       );
     }
 
-    console.log(`AI parsed ${transactions.length} transactions`);
+    console.log(`AI parsed ${transactions.length} transactions, ${errors.length} unreadable`);
 
     if (transactions.length === 0) {
       return new Response(
         JSON.stringify({ 
           error: "No transactions found. Please ensure the file contains bank statement data.",
           transactions: [],
+          errors,
           totalCount: 0,
           duplicateCount: 0
         }),
@@ -276,6 +307,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         transactions: withDuplicates,
+        errors,
         duplicateCount,
         totalCount: transactions.length,
       }),
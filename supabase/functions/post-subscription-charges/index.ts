@@ -0,0 +1,161 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Missed charges posted for one subscription in a single run, so a date far
+// in the past can't flood the account
+const MAX_CHARGES_PER_RUN = 53;
+
+// Same rules as addBillingCycle in src/lib/subscriptions.ts: monthly, quarterly
+// and yearly charges land on the anchor day, or the last day of shorter months
+function addBillingCycle(date: string, cycle: string, anchorDay: number | null): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  if (cycle === "weekly") {
+    d.setUTCDate(d.getUTCDate() + 7);
+    return d.toISOString().split("T")[0];
+  }
+
+  const months = cycle === "quarterly" ? 3 : cycle === "yearly" ? 12 : 1;
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(anchorDay || d.getUTCDate(), lastDay));
+  return target.toISOString().split("T")[0];
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const now = new Date();
+    const today = now.toISOString().split("T")[0];
+
+    console.log(`[post-subscription-charges] Running at ${now.toISOString()}`);
+
+    // Every subscription whose next charge has come due
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from("subscriptions")
+      .select("*")
+      .not("next_charge_date", "is", null)
+      .lte("next_charge_date", today);
+
+    if (subscriptionsError) {
+      console.error("[post-subscription-charges] Error fetching subscriptions:", subscriptionsError);
+      throw subscriptionsError;
+    }
+
+    console.log(`[post-subscription-charges] Found ${subscriptions?.length || 0} due subscriptions`);
+
+    // Charges are posted unconverted, so they need the account's currency
+    const accountIds = [...new Set((subscriptions || []).map((sub) => sub.bank_account_id).filter(Boolean))];
+    const accountCurrency = new Map<string, string>();
+    if (accountIds.length > 0) {
+      const { data: accounts, error: accountsError } = await supabase
+        .from("bank_accounts")
+        .select("id, currency")
+        .in("id", accountIds);
+
+      if (accountsError) {
+        console.error("[post-subscription-charges] Error fetching bank accounts:", accountsError);
+        throw accountsError;
+      }
+      (accounts || []).forEach((account) => accountCurrency.set(account.id, account.currency));
+    }
+
+    let posted = 0;
+    let advanced = 0;
+    let skipped = 0;
+
+    for (const sub of subscriptions || []) {
+      let chargeDate: string = sub.next_charge_date;
+      let failed = false;
+
+      // Leave the date alone so the charges post once the currencies are lined up again
+      const currency = sub.bank_account_id ? accountCurrency.get(sub.bank_account_id) : undefined;
+      if (sub.auto_post && currency && currency !== sub.currency) {
+        console.warn(`[post-subscription-charges] Skipping "${sub.name}": charged in ${sub.currency}, account is in ${currency}`);
+        skipped++;
+        continue;
+      }
+
+      for (let i = 0; i < MAX_CHARGES_PER_RUN && chargeDate <= today; i++) {
+        if (sub.auto_post) {
+          // transactions_subscription_charge_key allows one charge per subscription
+          // and date, so a repeated or overlapping run is turned away here
+          const { error } = await supabase.from("transactions").insert({
+            user_id: sub.user_id,
+            type: "expense",
+            amount: sub.amount,
+            category: sub.category,
+            description: sub.name,
+            date: chargeDate,
+            bank_account_id: sub.bank_account_id,
+            source: "subscription",
+            subscription_id: sub.id,
+          });
+
+          if (error && error.code !== "23505") {
+            console.error(`[post-subscription-charges] Error posting "${sub.name}" for ${chargeDate}:`, error);
+            failed = true;
+            break;
+          }
+          if (!error) posted++;
+        }
+
+        chargeDate = addBillingCycle(chargeDate, sub.billing_cycle, sub.billing_anchor_day);
+      }
+
+      // Leave the date alone after a failure so the next run retries the charge
+      if (failed || chargeDate === sub.next_charge_date) continue;
+
+      // Only move on from the date we read, in case the user changed it meanwhile
+      const { error: updateError } = await supabase
+        .from("subscriptions")
+        .update({ next_charge_date: chargeDate })
+        .eq("id", sub.id)
+        .eq("next_charge_date", sub.next_charge_date);
+
+      if (updateError) {
+        console.error(`[post-subscription-charges] Error advancing "${sub.name}":`, updateError);
+      } else {
+        advanced++;
+      }
+    }
+
+    console.log(`[post-subscription-charges] Posted ${posted} charges, advanced ${advanced} subscriptions, skipped ${skipped}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        timestamp: now.toISOString(),
+        due_subscriptions: subscriptions?.length || 0,
+        charges_posted: posted,
+        subscriptions_advanced: advanced,
+        subscriptions_skipped: skipped,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error("[post-subscription-charges] Error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
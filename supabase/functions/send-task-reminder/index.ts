@@ -6,13 +6,49 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+interface RecurrenceRule {
+  freq: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
+
 interface TaskReminderRequest {
   taskText: string;
   taskTime: string;
+  taskDate?: string;
+  recurrence?: RecurrenceRule | null;
   userEmail: string;
   userName?: string;
 }
 
+const SHORT_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Human-readable summary of a task's repeat rule (weekdays are Monday = 0)
+ */
+function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  if (rule.freq === 'daily') {
+    description = interval === 1 ? 'Daily' : `Every ${interval} days`;
+  } else if (rule.freq === 'weekly') {
+    const days = (rule.byWeekday || []).slice().sort().map(d => SHORT_DAYS[d]).join(', ');
+    description = interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+    if (days) description += ` on ${days}`;
+  } else {
+    description = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+    if (rule.byMonthDay) description += ` on day ${rule.byMonthDay}`;
+  }
+
+  if (rule.until) description += ` until ${rule.until}`;
+  else if (rule.count) description += `, ${rule.count} times`;
+  return description;
+}
+
 /**
  * Get time-appropriate greeting
  */
@@ -54,7 +90,7 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
-    const { taskText, taskTime, userEmail, userName }: TaskReminderRequest = await req.json();
+    const { taskText, taskTime, taskDate, recurrence, userEmail, userName }: TaskReminderRequest = await req.json();
 
     if (!userEmail) {
       return new Response(JSON.stringify({ error: "No email provided" }), {
@@ -95,6 +131,9 @@ const handler = async (req: Request): Promise<Response> => {
 
     const name = userName || userEmail.split('@')[0];
     const greeting = getGreeting();
+    const recurrenceText = recurrence ? describeRecurrence(recurrence) : '';
+    // Parse yyyy-MM-dd at noon UTC so the weekday doesn't shift across timezones
+    const reminderDate = taskDate ? new Date(`${taskDate}T12:00:00Z`) : new Date();
     const appUrl = supabaseUrl.replace('.supabase.co', '.lovable.app').replace('https://', 'https://');
 
     if (templateError || !template) {
@@ -110,6 +149,7 @@ const handler = async (req: Request): Promise<Response> => {
           </p>
           <div style="background: #f3f4f6; border-left: 4px solid #6366f1; padding: 16px; margin: 16px 0; border-radius: 4px;">
             <p style="margin: 0; font-size: 16px; color: #111827; font-weight: 500;">${taskText}</p>
+            ${recurrenceText ? `<p style="margin: 8px 0 0; font-size: 13px; color: #6366f1;">🔁 Repeats: ${recurrenceText}</p>` : ''}
           </div>
           <p style="color: #6b7280; font-size: 14px;">
             Stay focused and make it happen! 💪
@@ -136,9 +176,10 @@ const handler = async (req: Request): Promise<Response> => {
         task_text: taskText,
         task_name: taskText,
         task_time: taskTime,
+        task_recurrence: recurrenceText,
         email: userEmail,
-        date: new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
-        day_of_week: new Date().toLocaleDateString('en-US', { weekday: 'long' }),
+        date: reminderDate.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+        day_of_week: reminderDate.toLocaleDateString('en-US', { weekday: 'long' }),
         app_url: appUrl,
       };
 
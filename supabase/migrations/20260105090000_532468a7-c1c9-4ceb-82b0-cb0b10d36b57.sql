@@ -0,0 +1,163 @@
+-- =============================================
+-- Date-based task scheduling
+-- =============================================
+
+-- Existing tasks stored a weekday name in tasks.day ("Monday" .. "Sunday").
+-- Map them onto the matching date of the current ISO week (date_trunc('week') is Monday).
+UPDATE public.tasks
+SET day = to_char(
+  date_trunc('week', CURRENT_DATE)::date + CASE day
+    WHEN 'Monday' THEN 0
+    WHEN 'Tuesday' THEN 1
+    WHEN 'Wednesday' THEN 2
+    WHEN 'Thursday' THEN 3
+    WHEN 'Friday' THEN 4
+    WHEN 'Saturday' THEN 5
+    WHEN 'Sunday' THEN 6
+  END,
+  'YYYY-MM-DD'
+)
+WHERE day IN ('Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday');
+
+-- Every task is now either tied to a calendar date or lives in the undated Idea Dump
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_day_is_date_check
+  CHECK (day ~ '^\d{4}-\d{2}-\d{2}$' OR day IN ('IdeaDump', 'BrainDump'));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_day ON public.tasks(user_id, day);
+
+-- =============================================
+-- AI Context Function (date-aware task stats)
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.get_user_context(uid UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  result JSONB;
+  today_key TEXT := to_char(CURRENT_DATE, 'YYYY-MM-DD');
+  week_end_key TEXT := to_char(CURRENT_DATE + 7, 'YYYY-MM-DD');
+  tasks_today INT;
+  tasks_completed_today INT;
+  tasks_overdue INT;
+  tasks_upcoming INT;
+  habits_today INT;
+  habits_completed_today INT;
+  recent_mood NUMERIC;
+  monthly_income NUMERIC;
+  monthly_expenses NUMERIC;
+  savings_total NUMERIC;
+  active_goals JSONB;
+  recent_activity JSONB;
+BEGIN
+  -- Get today's tasks stats
+  SELECT 
+    COUNT(*),
+    COUNT(*) FILTER (WHERE done = true)
+  INTO tasks_today, tasks_completed_today
+  FROM public.tasks
+  WHERE user_id = uid AND day = today_key;
+
+  -- Open tasks from earlier dates, and tasks planned for the next 7 days
+  SELECT 
+    COUNT(*) FILTER (WHERE day < today_key AND done = false),
+    COUNT(*) FILTER (WHERE day > today_key AND day <= week_end_key)
+  INTO tasks_overdue, tasks_upcoming
+  FROM public.tasks
+  WHERE user_id = uid AND day ~ '^\d{4}-\d{2}-\d{2}$';
+
+  -- Get today's habits stats
+  SELECT 
+    COUNT(DISTINCT h.id),
+    COUNT(DISTINCT hc.habit_id) FILTER (WHERE hc.completed = true)
+  INTO habits_today, habits_completed_today
+  FROM public.habits h
+  LEFT JOIN public.habit_completions hc 
+    ON h.id = hc.habit_id 
+    AND hc.date = today_key
+  WHERE h.user_id = uid;
+
+  -- Get average mood from last 7 days
+  SELECT AVG(mood)::NUMERIC(3,1)
+  INTO recent_mood
+  FROM public.journal_entries
+  WHERE user_id = uid 
+    AND created_at > CURRENT_DATE - INTERVAL '7 days';
+
+  -- Get this month's income and expenses
+  SELECT 
+    COALESCE(SUM(amount) FILTER (WHERE type = 'income'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE type = 'expense'), 0)
+  INTO monthly_income, monthly_expenses
+  FROM public.transactions
+  WHERE user_id = uid 
+    AND date >= to_char(date_trunc('month', CURRENT_DATE), 'YYYY-MM-DD');
+
+  -- Get total savings
+  SELECT COALESCE(SUM(current), 0)
+  INTO savings_total
+  FROM public.savings_goals
+  WHERE user_id = uid;
+
+  -- Get active goals with progress
+  SELECT jsonb_agg(jsonb_build_object(
+    'goal', s.goal,
+    'habit_count', (SELECT COUNT(*) FROM habits WHERE system_id = s.id)
+  ))
+  INTO active_goals
+  FROM public.systems s
+  WHERE s.user_id = uid;
+
+  -- Get recent activity (last 5 events)
+  SELECT jsonb_agg(jsonb_build_object(
+    'type', event_type,
+    'data', event_data,
+    'time', created_at
+  ) ORDER BY created_at DESC)
+  INTO recent_activity
+  FROM (
+    SELECT event_type, event_data, created_at
+    FROM public.activity_feed
+    WHERE user_id = uid
+    ORDER BY created_at DESC
+    LIMIT 5
+  ) a;
+
+  -- Build result
+  result := jsonb_build_object(
+    'today', today_key,
+    'tasks', jsonb_build_object(
+      'today_total', tasks_today,
+      'today_completed', tasks_completed_today,
+      'completion_rate', CASE WHEN tasks_today > 0 THEN ROUND((tasks_completed_today::NUMERIC / tasks_today) * 100) ELSE 0 END,
+      'overdue', tasks_overdue,
+      'upcoming_7_days', tasks_upcoming
+    ),
+    'habits', jsonb_build_object(
+      'today_total', habits_today,
+      'today_completed', habits_completed_today
+    ),
+    'mood', jsonb_build_object(
+      'recent_average', COALESCE(recent_mood, 0),
+      'trend', CASE 
+        WHEN recent_mood >= 4 THEN 'positive'
+        WHEN recent_mood >= 3 THEN 'neutral'
+        ELSE 'needs_attention'
+      END
+    ),
+    'finances', jsonb_build_object(
+      'monthly_income', monthly_income,
+      'monthly_expenses', monthly_expenses,
+      'monthly_balance', monthly_income - monthly_expenses,
+      'total_savings', savings_total
+    ),
+    'goals', COALESCE(active_goals, '[]'::jsonb),
+    'recent_activity', COALESCE(recent_activity, '[]'::jsonb)
+  );
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,16 @@
+-- =============================================
+-- Recurring tasks
+-- =============================================
+
+-- A recurring task is a single row whose `day` is the first date of the series.
+-- recurrence: { freq: 'daily' | 'weekly' | 'monthly', interval, byWeekday?, byMonthDay?, until?, count? }
+-- occurrence_states: per-date state of generated occurrences, e.g. { "2026-01-12": "done", "2026-01-13": "skipped" }
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence JSONB DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_states JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_recurrence_freq_check
+  CHECK (recurrence IS NULL OR recurrence->>'freq' IN ('daily', 'weekly', 'monthly'));
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurring ON public.tasks(user_id) WHERE recurrence IS NOT NULL;
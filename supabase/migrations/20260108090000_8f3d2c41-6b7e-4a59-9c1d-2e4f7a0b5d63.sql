@@ -0,0 +1,13 @@
+-- =============================================
+-- Subtasks
+-- =============================================
+
+-- A subtask is a task row pointing at its parent. It lives in the parent's `day`
+-- bucket and is removed with it. Parent progress is rolled up from its children.
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS parent_id UUID DEFAULT NULL REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_parent_not_self_check CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON public.tasks(parent_id) WHERE parent_id IS NOT NULL;
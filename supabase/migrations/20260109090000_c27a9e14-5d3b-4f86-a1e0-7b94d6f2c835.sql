@@ -0,0 +1,18 @@
+-- =============================================
+-- Task priority, estimate, deadline and labels
+-- =============================================
+
+-- priority: 1 (P1, most urgent) to 4 (P4); NULL when not set
+-- estimate_minutes: expected effort in minutes
+-- deadline: when the task is due, independent of the day it is planned on
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS priority SMALLINT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS estimate_minutes INTEGER DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS deadline TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS labels TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_priority_check CHECK (priority IS NULL OR priority BETWEEN 1 AND 4),
+  ADD CONSTRAINT tasks_estimate_minutes_check CHECK (estimate_minutes IS NULL OR estimate_minutes > 0);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deadline ON public.tasks(user_id, deadline) WHERE deadline IS NOT NULL;
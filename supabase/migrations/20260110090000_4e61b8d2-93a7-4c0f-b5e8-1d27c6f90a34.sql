@@ -0,0 +1,12 @@
+-- =============================================
+-- Calendar (iCalendar) import
+-- =============================================
+
+-- UID of the calendar item a task was imported from, so re-importing the
+-- same .ics file updates those tasks instead of creating duplicates
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS external_uid TEXT DEFAULT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_user_external_uid
+  ON public.tasks(user_id, external_uid)
+  WHERE external_uid IS NOT NULL;
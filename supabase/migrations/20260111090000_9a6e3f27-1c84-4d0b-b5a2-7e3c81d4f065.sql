@@ -0,0 +1,24 @@
+-- =============================================
+-- Habit schedules and quantitative targets
+-- =============================================
+
+-- schedule: when the habit is due, one of
+--   {"type":"daily"}
+--   {"type":"weekdays","days":[0,2,4]}              (Monday = 0)
+--   {"type":"timesPerWeek","times":3}
+--   {"type":"everyNDays","interval":2,"startDate":"2026-01-11"}
+-- target_amount/target_unit: a per-day quantity such as 8 glasses; NULL for yes/no habits
+ALTER TABLE public.habits
+  ADD COLUMN IF NOT EXISTS schedule JSONB NOT NULL DEFAULT '{"type":"daily"}'::jsonb,
+  ADD COLUMN IF NOT EXISTS target_amount NUMERIC DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS target_unit TEXT DEFAULT NULL;
+
+ALTER TABLE public.habits
+  ADD CONSTRAINT habits_schedule_type_check
+    CHECK (schedule->>'type' IN ('daily', 'weekdays', 'timesPerWeek', 'everyNDays')),
+  ADD CONSTRAINT habits_target_amount_check CHECK (target_amount IS NULL OR target_amount > 0);
+
+-- value: the amount logged for the day on quantitative habits; `completed` is
+-- kept in step (value >= target) so existing yes/no queries keep working
+ALTER TABLE public.habit_completions
+  ADD COLUMN IF NOT EXISTS value NUMERIC DEFAULT NULL;
@@ -0,0 +1,255 @@
+-- =============================================
+-- Habit streaks and streak freeze days
+-- =============================================
+
+-- frozen: a streak freeze / vacation day. A frozen day the habit was due on is
+-- skipped instead of breaking the streak.
+ALTER TABLE public.habit_completions
+  ADD COLUMN IF NOT EXISTS frozen BOOLEAN NOT NULL DEFAULT false;
+
+-- Whether a habit asks for a check-in on a date (see src/lib/habitSchedule.ts).
+-- "N times per week" habits can be done on any day.
+CREATE OR REPLACE FUNCTION public.habit_is_due(schedule JSONB, d DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE schedule->>'type'
+    WHEN 'weekdays' THEN
+      (EXTRACT(ISODOW FROM d)::INT - 1) IN (SELECT jsonb_array_elements_text(schedule->'days')::INT)
+    WHEN 'everyNDays' THEN
+      d >= (schedule->>'startDate')::DATE
+      AND (d - (schedule->>'startDate')::DATE) % GREATEST(1, (schedule->>'interval')::INT) = 0
+    ELSE true
+  END;
+$$;
+
+-- Current and longest streak per habit, following src/lib/streaks.ts: done check-ins
+-- extend a streak, missed ones break it, frozen days and today (until done) are skipped.
+-- "N times per week" habits are counted in Monday-Sunday weeks.
+-- Runs with the caller's rights, so called directly it only sees the caller's own habits.
+CREATE OR REPLACE FUNCTION public.get_habit_streaks(uid UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  h RECORD;
+  d DATE;
+  first_date DATE;
+  times INT;
+  done_count INT;
+  frozen_count INT;
+  run INT;
+  longest INT;
+  last_break DATE;
+  result JSONB := '[]'::jsonb;
+BEGIN
+  FOR h IN
+    SELECT id, name, schedule FROM public.habits WHERE user_id = uid ORDER BY created_at
+  LOOP
+    run := 0;
+    longest := 0;
+    last_break := NULL;
+
+    SELECT MIN(date)::DATE INTO first_date
+    FROM public.habit_completions
+    WHERE habit_id = h.id AND completed = true;
+
+    IF first_date IS NOT NULL AND h.schedule->>'type' = 'timesPerWeek' THEN
+      times := GREATEST(1, (h.schedule->>'times')::INT);
+      FOR d IN
+        SELECT generate_series(date_trunc('week', first_date), date_trunc('week', CURRENT_DATE), INTERVAL '1 week')::DATE
+      LOOP
+        SELECT
+          COUNT(*) FILTER (WHERE completed = true),
+          COUNT(*) FILTER (WHERE frozen = true AND completed = false)
+        INTO done_count, frozen_count
+        FROM public.habit_completions
+        WHERE habit_id = h.id AND date::DATE BETWEEN d AND d + 6;
+
+        IF done_count >= times THEN
+          run := run + 1;
+          longest := GREATEST(longest, run);
+        ELSIF d + 6 < CURRENT_DATE AND done_count + frozen_count < times THEN
+          run := 0;
+          last_break := d;
+        END IF;
+      END LOOP;
+    ELSIF first_date IS NOT NULL THEN
+      FOR d IN
+        SELECT generate_series(first_date, CURRENT_DATE, INTERVAL '1 day')::DATE
+      LOOP
+        CONTINUE WHEN NOT public.habit_is_due(h.schedule, d);
+
+        SELECT COUNT(*) FILTER (WHERE completed = true), COUNT(*) FILTER (WHERE frozen = true AND completed = false)
+        INTO done_count, frozen_count
+        FROM public.habit_completions
+        WHERE habit_id = h.id AND date = to_char(d, 'YYYY-MM-DD');
+
+        IF done_count > 0 THEN
+          run := run + 1;
+          longest := GREATEST(longest, run);
+        ELSIF d < CURRENT_DATE AND frozen_count = 0 THEN
+          run := 0;
+          last_break := d;
+        END IF;
+      END LOOP;
+    END IF;
+
+    result := result || jsonb_build_object(
+      'habit_id', h.id,
+      'name', h.name,
+      'unit', CASE WHEN h.schedule->>'type' = 'timesPerWeek' THEN 'week' ELSE 'day' END,
+      'current', run,
+      'longest', longest,
+      'last_break', to_char(last_break, 'YYYY-MM-DD')
+    );
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+-- =============================================
+-- AI Context Function (schedule-aware habits with streaks)
+-- =============================================
+
+CREATE OR REPLACE FUNCTION public.get_user_context(uid UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  result JSONB;
+  today_key TEXT := to_char(CURRENT_DATE, 'YYYY-MM-DD');
+  week_end_key TEXT := to_char(CURRENT_DATE + 7, 'YYYY-MM-DD');
+  tasks_today INT;
+  tasks_completed_today INT;
+  tasks_overdue INT;
+  tasks_upcoming INT;
+  habits_today INT;
+  habits_completed_today INT;
+  habit_streaks JSONB;
+  recent_mood NUMERIC;
+  monthly_income NUMERIC;
+  monthly_expenses NUMERIC;
+  savings_total NUMERIC;
+  active_goals JSONB;
+  recent_activity JSONB;
+BEGIN
+  -- Get today's tasks stats
+  SELECT 
+    COUNT(*),
+    COUNT(*) FILTER (WHERE done = true)
+  INTO tasks_today, tasks_completed_today
+  FROM public.tasks
+  WHERE user_id = uid AND day = today_key;
+
+  -- Open tasks from earlier dates, and tasks planned for the next 7 days
+  SELECT 
+    COUNT(*) FILTER (WHERE day < today_key AND done = false),
+    COUNT(*) FILTER (WHERE day > today_key AND day <= week_end_key)
+  INTO tasks_overdue, tasks_upcoming
+  FROM public.tasks
+  WHERE user_id = uid AND day ~ '^\d{4}-\d{2}-\d{2}$';
+
+  -- Get today's habits stats, counting only habits due today
+  SELECT 
+    COUNT(DISTINCT h.id),
+    COUNT(DISTINCT hc.habit_id) FILTER (WHERE hc.completed = true)
+  INTO habits_today, habits_completed_today
+  FROM public.habits h
+  LEFT JOIN public.habit_completions hc 
+    ON h.id = hc.habit_id 
+    AND hc.date = today_key
+  WHERE h.user_id = uid AND public.habit_is_due(h.schedule, CURRENT_DATE);
+
+  habit_streaks := public.get_habit_streaks(uid);
+
+  -- Get average mood from last 7 days
+  SELECT AVG(mood)::NUMERIC(3,1)
+  INTO recent_mood
+  FROM public.journal_entries
+  WHERE user_id = uid 
+    AND created_at > CURRENT_DATE - INTERVAL '7 days';
+
+  -- Get this month's income and expenses
+  SELECT 
+    COALESCE(SUM(amount) FILTER (WHERE type = 'income'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE type = 'expense'), 0)
+  INTO monthly_income, monthly_expenses
+  FROM public.transactions
+  WHERE user_id = uid 
+    AND date >= to_char(date_trunc('month', CURRENT_DATE), 'YYYY-MM-DD');
+
+  -- Get total savings
+  SELECT COALESCE(SUM(current), 0)
+  INTO savings_total
+  FROM public.savings_goals
+  WHERE user_id = uid;
+
+  -- Get active goals with progress
+  SELECT jsonb_agg(jsonb_build_object(
+    'goal', s.goal,
+    'habit_count', (SELECT COUNT(*) FROM habits WHERE system_id = s.id)
+  ))
+  INTO active_goals
+  FROM public.systems s
+  WHERE s.user_id = uid;
+
+  -- Get recent activity (last 5 events)
+  SELECT jsonb_agg(jsonb_build_object(
+    'type', event_type,
+    'data', event_data,
+    'time', created_at
+  ) ORDER BY created_at DESC)
+  INTO recent_activity
+  FROM (
+    SELECT event_type, event_data, created_at
+    FROM public.activity_feed
+    WHERE user_id = uid
+    ORDER BY created_at DESC
+    LIMIT 5
+  ) a;
+
+  -- Build result
+  result := jsonb_build_object(
+    'today', today_key,
+    'tasks', jsonb_build_object(
+      'today_total', tasks_today,
+      'today_completed', tasks_completed_today,
+      'completion_rate', CASE WHEN tasks_today > 0 THEN ROUND((tasks_completed_today::NUMERIC / tasks_today) * 100) ELSE 0 END,
+      'overdue', tasks_overdue,
+      'upcoming_7_days', tasks_upcoming
+    ),
+    'habits', jsonb_build_object(
+      'today_total', habits_today,
+      'today_completed', habits_completed_today,
+      'streaks', habit_streaks,
+      'best_current_streak', COALESCE((SELECT MAX((s->>'current')::INT) FROM jsonb_array_elements(habit_streaks) s), 0),
+      'best_longest_streak', COALESCE((SELECT MAX((s->>'longest')::INT) FROM jsonb_array_elements(habit_streaks) s), 0)
+    ),
+    'mood', jsonb_build_object(
+      'recent_average', COALESCE(recent_mood, 0),
+      'trend', CASE 
+        WHEN recent_mood >= 4 THEN 'positive'
+        WHEN recent_mood >= 3 THEN 'neutral'
+        ELSE 'needs_attention'
+      END
+    ),
+    'finances', jsonb_build_object(
+      'monthly_income', monthly_income,
+      'monthly_expenses', monthly_expenses,
+      'monthly_balance', monthly_income - monthly_expenses,
+      'total_savings', savings_total
+    ),
+    'goals', COALESCE(active_goals, '[]'::jsonb),
+    'recent_activity', COALESCE(recent_activity, '[]'::jsonb)
+  );
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- =============================================
+-- Goal milestones and measurable key results
+-- =============================================
+
+-- milestones: dated checkpoints on the way to the goal
+--   [{"id":"...","title":"Sign up for a 10k","targetDate":"2026-03-01","doneAt":null}]
+-- key_results: numeric outcomes that define "done", with every logged value kept
+--   [{"id":"...","title":"10k time","unit":"min","start":62,"target":55,"current":58,
+--     "history":[{"date":"2026-01-13","value":58}]}]
+-- A key result is met once current reaches target, counting down when target < start.
+ALTER TABLE public.systems
+  ADD COLUMN IF NOT EXISTS milestones JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS key_results JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.systems
+  ADD CONSTRAINT systems_milestones_array_check CHECK (jsonb_typeof(milestones) = 'array'),
+  ADD CONSTRAINT systems_key_results_array_check CHECK (jsonb_typeof(key_results) = 'array');
+
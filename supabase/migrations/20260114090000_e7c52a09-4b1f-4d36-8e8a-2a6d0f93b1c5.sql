@@ -0,0 +1,28 @@
+-- =============================================
+-- Routines: ordered habit stacks such as a morning routine
+-- =============================================
+
+-- steps: habits in the order they are done, each with a planned duration
+--   [{"habitId":"...","minutes":2},{"habitId":"...","minutes":10}]
+-- Steps point at habits across any of the user's systems; a step whose habit
+-- was deleted is ignored by the app.
+CREATE TABLE public.routines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  start_time TIME DEFAULT NULL,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(steps) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_routines_user_id ON public.routines(user_id);
+
+ALTER TABLE public.routines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own routines" ON public.routines FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own routines" ON public.routines FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own routines" ON public.routines FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own routines" ON public.routines FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_routines_updated_at BEFORE UPDATE ON public.routines FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,295 @@
+-- =============================================
+-- Accountability partners on goals (systems)
+-- =============================================
+
+-- The owner of a goal invites partners by email. A partner joins with one of
+-- their own goals, or a copy of the owner's, so everyone checks in on their own
+-- habits while the group sees each other's check-ins read-only.
+-- The owner's goal (system_id) identifies the group.
+CREATE TABLE public.system_partners (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  system_id UUID NOT NULL REFERENCES public.systems(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL,
+  invited_email TEXT NOT NULL CHECK (invited_email = lower(btrim(invited_email)) AND invited_email LIKE '%_@_%'),
+  partner_id UUID DEFAULT NULL,
+  partner_system_id UUID DEFAULT NULL REFERENCES public.systems(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (system_id, invited_email)
+);
+
+CREATE INDEX idx_system_partners_owner_id ON public.system_partners(owner_id);
+CREATE INDEX idx_system_partners_partner_id ON public.system_partners(partner_id);
+CREATE INDEX idx_system_partners_invited_email ON public.system_partners(invited_email);
+
+ALTER TABLE public.system_partners ENABLE ROW LEVEL SECURITY;
+
+-- Owners invite and remove partners; invites are only accepted through
+-- accept_system_invite, so there is no UPDATE policy
+CREATE POLICY "Owners can view their goal's partners" ON public.system_partners
+FOR SELECT USING (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can invite partners to their goals" ON public.system_partners
+FOR INSERT WITH CHECK (
+  auth.uid() = owner_id
+  AND status = 'pending'
+  AND partner_id IS NULL
+  AND partner_system_id IS NULL
+  AND EXISTS (SELECT 1 FROM public.systems s WHERE s.id = system_id AND s.user_id = auth.uid())
+);
+
+CREATE POLICY "Owners can remove their goal's partners" ON public.system_partners
+FOR DELETE USING (auth.uid() = owner_id);
+
+-- Invitees see their invites and can decline them, or leave once joined
+CREATE POLICY "Invitees can view their invites" ON public.system_partners
+FOR SELECT USING (invited_email = lower(auth.jwt() ->> 'email') OR auth.uid() = partner_id);
+
+CREATE POLICY "Invitees can decline or leave" ON public.system_partners
+FOR DELETE USING (invited_email = lower(auth.jwt() ->> 'email') OR auth.uid() = partner_id);
+
+CREATE TRIGGER update_system_partners_updated_at BEFORE UPDATE ON public.system_partners FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the current user shares a group that includes this goal: the
+-- owner's goal plus every accepted partner's goal, visible to all members.
+-- Security definer so the systems policies below don't recurse.
+CREATE OR REPLACE FUNCTION public.can_view_shared_system(_system_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.system_partners sp
+    WHERE sp.status = 'accepted'
+      AND (sp.system_id = _system_id OR sp.partner_system_id = _system_id)
+      AND (
+        sp.owner_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.system_partners me
+          WHERE me.system_id = sp.system_id
+            AND me.partner_id = auth.uid()
+            AND me.status = 'accepted'
+        )
+      )
+  )
+$$;
+
+-- Read-only access to a group's goals, habits and check-ins, and nothing else
+CREATE POLICY "Partners can view shared systems" ON public.systems
+FOR SELECT USING (public.can_view_shared_system(id));
+
+CREATE POLICY "Partners can view shared habits" ON public.habits
+FOR SELECT USING (system_id IS NOT NULL AND public.can_view_shared_system(system_id));
+
+CREATE POLICY "Partners can view shared habit completions" ON public.habit_completions
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.habits h
+    WHERE h.id = habit_id
+      AND h.system_id IS NOT NULL
+      AND public.can_view_shared_system(h.system_id)
+  )
+);
+
+-- Tell the invitee, when they already have an account
+CREATE OR REPLACE FUNCTION public.handle_system_partner_invite()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitee UUID;
+  owner_name TEXT;
+  goal_name TEXT;
+BEGIN
+  SELECT id INTO invitee FROM auth.users WHERE lower(email) = NEW.invited_email;
+  IF invitee = NEW.owner_id THEN
+    RAISE EXCEPTION 'You cannot invite yourself';
+  END IF;
+
+  IF invitee IS NOT NULL THEN
+    SELECT display_name INTO owner_name FROM public.profiles WHERE user_id = NEW.owner_id;
+    SELECT goal INTO goal_name FROM public.systems WHERE id = NEW.system_id;
+    INSERT INTO public.user_notifications (user_id, title, message, type, metadata)
+    VALUES (
+      invitee,
+      'Accountability invite',
+      format('%s invited you to be accountability partners on "%s".', COALESCE(owner_name, 'Someone'), goal_name),
+      'partner_invite',
+      jsonb_build_object('invite_id', NEW.id, 'system_id', NEW.system_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_system_partner_invite
+BEFORE INSERT ON public.system_partners
+FOR EACH ROW EXECUTE FUNCTION public.handle_system_partner_invite();
+
+-- Pending invites for the current user, with the goal and who sent them
+CREATE OR REPLACE FUNCTION public.get_system_invites()
+RETURNS TABLE (id UUID, system_id UUID, goal TEXT, owner_name TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT sp.id, sp.system_id, s.goal, COALESCE(p.display_name, 'Someone'), sp.created_at
+  FROM public.system_partners sp
+  JOIN public.systems s ON s.id = sp.system_id
+  LEFT JOIN public.profiles p ON p.user_id = sp.owner_id
+  WHERE sp.status = 'pending'
+    AND sp.invited_email = lower(auth.jwt() ->> 'email')
+  ORDER BY sp.created_at DESC
+$$;
+
+-- Joins a group with one of the user's goals, or with a copy of the owner's
+-- goal and its active habits when _system_id is null. Returns the linked goal.
+CREATE OR REPLACE FUNCTION public.accept_system_invite(_invite_id UUID, _system_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inv public.system_partners%ROWTYPE;
+  linked UUID := _system_id;
+  partner_name TEXT;
+BEGIN
+  SELECT * INTO inv
+  FROM public.system_partners
+  WHERE id = _invite_id
+    AND status = 'pending'
+    AND invited_email = lower(auth.jwt() ->> 'email')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+  IF inv.owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot partner with yourself';
+  END IF;
+
+  IF linked IS NULL THEN
+    INSERT INTO public.systems (user_id, goal, why)
+    SELECT auth.uid(), s.goal, s.why FROM public.systems s WHERE s.id = inv.system_id
+    RETURNING id INTO linked;
+
+    INSERT INTO public.habits (user_id, system_id, name, schedule, target_amount, target_unit)
+    SELECT auth.uid(), linked, h.name, h.schedule, h.target_amount, h.target_unit
+    FROM public.habits h
+    WHERE h.system_id = inv.system_id AND h.archived_at IS NULL
+    ORDER BY h.created_at;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.systems WHERE id = linked AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Goal not found';
+  END IF;
+
+  UPDATE public.system_partners
+  SET partner_id = auth.uid(), partner_system_id = linked, status = 'accepted'
+  WHERE id = inv.id;
+
+  SELECT display_name INTO partner_name FROM public.profiles WHERE user_id = auth.uid();
+  INSERT INTO public.user_notifications (user_id, title, message, type, metadata)
+  SELECT inv.owner_id, 'Partner joined',
+    format('%s joined you on "%s".', COALESCE(partner_name, inv.invited_email), s.goal),
+    'partner_joined', jsonb_build_object('system_id', inv.system_id)
+  FROM public.systems s WHERE s.id = inv.system_id;
+
+  RETURN linked;
+END;
+$$;
+
+-- Every group the current user belongs to, one row per member
+CREATE OR REPLACE FUNCTION public.get_accountability_groups()
+RETURNS TABLE (group_id UUID, goal TEXT, user_id UUID, display_name TEXT, system_id UUID, is_owner BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH my_groups AS (
+    SELECT DISTINCT sp.system_id AS group_id
+    FROM public.system_partners sp
+    WHERE sp.status = 'accepted'
+      AND (sp.owner_id = auth.uid() OR sp.partner_id = auth.uid())
+  ),
+  members AS (
+    SELECT g.group_id, s.user_id, s.id AS system_id, true AS is_owner
+    FROM my_groups g
+    JOIN public.systems s ON s.id = g.group_id
+    UNION ALL
+    SELECT g.group_id, sp.partner_id, sp.partner_system_id, false
+    FROM my_groups g
+    JOIN public.system_partners sp ON sp.system_id = g.group_id AND sp.status = 'accepted'
+  )
+  SELECT m.group_id, s.goal, m.user_id, COALESCE(p.display_name, 'Partner'), m.system_id, m.is_owner
+  FROM members m
+  JOIN public.systems s ON s.id = m.group_id
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  ORDER BY s.goal, m.is_owner DESC, p.display_name
+$$;
+
+-- Sends a group member a nudge in their inbox, at most once per 12 hours per sender
+CREATE OR REPLACE FUNCTION public.send_partner_nudge(_group_id UUID, _to_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  goal_name TEXT;
+  sender_name TEXT;
+BEGIN
+  IF _to_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot nudge yourself';
+  END IF;
+
+  SELECT s.goal INTO goal_name
+  FROM public.systems s
+  WHERE s.id = _group_id
+    AND EXISTS (
+      SELECT 1 FROM public.system_partners sp
+      WHERE sp.system_id = s.id AND sp.status = 'accepted'
+        AND (s.user_id = auth.uid() OR sp.partner_id = auth.uid())
+    )
+    AND (
+      s.user_id = _to_user_id
+      OR EXISTS (
+        SELECT 1 FROM public.system_partners sp
+        WHERE sp.system_id = s.id AND sp.status = 'accepted' AND sp.partner_id = _to_user_id
+      )
+    );
+
+  IF goal_name IS NULL THEN
+    RAISE EXCEPTION 'Partner not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.user_notifications
+    WHERE user_id = _to_user_id
+      AND type = 'partner_nudge'
+      AND metadata ->> 'group_id' = _group_id::text
+      AND metadata ->> 'from_user_id' = auth.uid()::text
+      AND created_at > now() - interval '12 hours'
+  ) THEN
+    RAISE EXCEPTION 'Already nudged recently';
+  END IF;
+
+  SELECT display_name INTO sender_name FROM public.profiles WHERE user_id = auth.uid();
+  INSERT INTO public.user_notifications (user_id, title, message, type, metadata)
+  VALUES (
+    _to_user_id,
+    'Nudge from your partner',
+    format('%s is cheering you on for "%s". Time to check in!', COALESCE(sender_name, 'Your partner'), goal_name),
+    'partner_nudge',
+    jsonb_build_object('group_id', _group_id, 'from_user_id', auth.uid())
+  );
+END;
+$$;
@@ -0,0 +1,111 @@
+-- =============================================
+-- System templates: a curated library of goals to start from
+-- =============================================
+
+-- Managed by admins next to the help center content. Users install a template
+-- as a new goal with its habits.
+-- habits: [{"name":"Run","schedule":{"type":"timesPerWeek","times":3},"target":{"amount":5,"unit":"km"}}]
+-- schedule and target follow habits.schedule / habits.target_*; both are optional.
+CREATE TABLE public.system_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal TEXT NOT NULL,
+  why TEXT NOT NULL DEFAULT '',
+  category TEXT NOT NULL DEFAULT 'general',
+  habits JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(habits) = 'array'),
+  order_index INTEGER NOT NULL DEFAULT 0,
+  is_published BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.system_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read published system templates"
+ON public.system_templates
+FOR SELECT
+USING (is_published = true);
+
+CREATE POLICY "Admins can manage system templates"
+ON public.system_templates
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'moderator'));
+
+CREATE TRIGGER update_system_templates_updated_at BEFORE UPDATE ON public.system_templates FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starter library
+INSERT INTO public.system_templates (goal, why, category, habits, order_index) VALUES
+(
+  'Run a 5K',
+  'To build stamina and feel strong',
+  'health',
+  '[
+    {"name":"Go for a run","schedule":{"type":"timesPerWeek","times":3},"target":{"amount":3,"unit":"km"}},
+    {"name":"Stretch for 10 minutes","schedule":{"type":"daily"}},
+    {"name":"Drink water","schedule":{"type":"daily"},"target":{"amount":8,"unit":"glasses"}}
+  ]'::jsonb,
+  0
+),
+(
+  'Sleep better',
+  'To wake up rested and focused',
+  'health',
+  '[
+    {"name":"Screens off by 10pm","schedule":{"type":"daily"}},
+    {"name":"Read before bed","schedule":{"type":"daily"},"target":{"amount":10,"unit":"pages"}},
+    {"name":"No caffeine after 2pm","schedule":{"type":"daily"}}
+  ]'::jsonb,
+  1
+),
+(
+  'Learn a new language',
+  'To connect with people and travel with confidence',
+  'learning',
+  '[
+    {"name":"Practice vocabulary","schedule":{"type":"daily"},"target":{"amount":15,"unit":"min"}},
+    {"name":"Listen to a podcast in the language","schedule":{"type":"timesPerWeek","times":3}},
+    {"name":"Speak with a tutor or partner","schedule":{"type":"weekdays","days":[1,4]}}
+  ]'::jsonb,
+  2
+),
+(
+  'Read more books',
+  'To keep learning and make time for myself',
+  'learning',
+  '[
+    {"name":"Read","schedule":{"type":"daily"},"target":{"amount":20,"unit":"pages"}},
+    {"name":"Write a short book note","schedule":{"type":"timesPerWeek","times":1}}
+  ]'::jsonb,
+  3
+),
+(
+  'Build an emergency fund',
+  'To have peace of mind when the unexpected happens',
+  'finance',
+  '[
+    {"name":"Log every expense","schedule":{"type":"daily"}},
+    {"name":"Move savings to the fund","schedule":{"type":"weekdays","days":[4]}},
+    {"name":"Review the week''s spending","schedule":{"type":"weekdays","days":[6]}}
+  ]'::jsonb,
+  4
+),
+(
+  'Be more mindful',
+  'To handle stress calmly and enjoy the day',
+  'mindset',
+  '[
+    {"name":"Meditate","schedule":{"type":"daily"},"target":{"amount":10,"unit":"min"}},
+    {"name":"Write three things I''m grateful for","schedule":{"type":"daily"}},
+    {"name":"Walk outside without my phone","schedule":{"type":"timesPerWeek","times":3}}
+  ]'::jsonb,
+  5
+),
+(
+  'Ship a side project',
+  'To create something of my own',
+  'career',
+  '[
+    {"name":"Deep work on the project","schedule":{"type":"weekdays","days":[0,1,2,3,4]},"target":{"amount":45,"unit":"min"}},
+    {"name":"Share progress publicly","schedule":{"type":"timesPerWeek","times":1}}
+  ]'::jsonb,
+  6
+);
@@ -0,0 +1,12 @@
+-- =============================================
+-- Pomodoro cycles on focus sessions
+-- =============================================
+
+-- Each work interval of a Pomodoro run is its own focus session. Intervals of
+-- one run share pomodoro_run_id and are numbered by pomodoro_cycle from 1.
+-- Both stay null for single focus sessions.
+ALTER TABLE public.focus_sessions
+  ADD COLUMN IF NOT EXISTS pomodoro_run_id UUID DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS pomodoro_cycle INTEGER DEFAULT NULL CHECK (pomodoro_cycle IS NULL OR pomodoro_cycle > 0);
+
+CREATE INDEX IF NOT EXISTS idx_focus_sessions_pomodoro_run_id ON public.focus_sessions(pomodoro_run_id) WHERE pomodoro_run_id IS NOT NULL;
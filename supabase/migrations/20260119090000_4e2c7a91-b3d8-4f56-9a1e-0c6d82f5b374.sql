@@ -0,0 +1,45 @@
+-- =============================================
+-- Recurring subscriptions: billing cycles and auto-posted charges
+-- =============================================
+
+-- amount is charged in currency once per billing_cycle, next on next_charge_date.
+-- With auto_post the post-subscription-charges function records each charge as
+-- an expense transaction on bank_account_id under category.
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS billing_cycle TEXT NOT NULL DEFAULT 'monthly'
+    CHECK (billing_cycle IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  ADD COLUMN IF NOT EXISTS next_charge_date DATE,
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'NGN',
+  ADD COLUMN IF NOT EXISTS bank_account_id UUID REFERENCES public.bank_accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'Rent/Bills',
+  ADD COLUMN IF NOT EXISTS auto_post BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_next_charge_date
+  ON public.subscriptions(next_charge_date)
+  WHERE next_charge_date IS NOT NULL;
+
+-- Posted charges point back at their subscription; one per subscription and date,
+-- so a re-run of the job can't post the same charge twice
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES public.subscriptions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_subscription_charge_key
+  ON public.transactions(subscription_id, date)
+  WHERE subscription_id IS NOT NULL;
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_source_check;
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_source_check CHECK (source IN ('manual', 'receipt', 'bank_import', 'subscription'));
+
+-- Post due charges every hour; re-runs are safe thanks to the unique index above
+SELECT cron.schedule(
+  'post-subscription-charges',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://flwzkjdqzfaokhkpwavs.supabase.co/functions/v1/post-subscription-charges',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
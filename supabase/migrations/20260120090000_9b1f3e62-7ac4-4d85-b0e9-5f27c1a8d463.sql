@@ -0,0 +1,25 @@
+-- =============================================
+-- Budget periods, rollover and per-account budgets
+-- =============================================
+
+-- Weekly and monthly budgets repeat from start_date; a custom budget covers
+-- start_date..end_date once. With rollover, money left over at the end of a
+-- period is added to the next one. bank_account_id limits the budget to
+-- spending from one account.
+ALTER TABLE public.budgets
+  ADD COLUMN IF NOT EXISTS period TEXT NOT NULL DEFAULT 'monthly'
+    CHECK (period IN ('weekly', 'monthly', 'custom')),
+  ADD COLUMN IF NOT EXISTS start_date DATE NOT NULL DEFAULT date_trunc('month', CURRENT_DATE)::date,
+  ADD COLUMN IF NOT EXISTS end_date DATE,
+  ADD COLUMN IF NOT EXISTS rollover BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS bank_account_id UUID REFERENCES public.bank_accounts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.budgets DROP CONSTRAINT IF EXISTS budgets_custom_range_check;
+ALTER TABLE public.budgets ADD CONSTRAINT budgets_custom_range_check
+  CHECK (period <> 'custom' OR (end_date IS NOT NULL AND end_date >= start_date));
+
+-- A category can now have several budgets (per account, or a custom range
+-- alongside a monthly one), so rows are identified by id alone
+ALTER TABLE public.budgets DROP CONSTRAINT IF EXISTS budgets_user_id_category_key;
+
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON public.budgets(user_id);
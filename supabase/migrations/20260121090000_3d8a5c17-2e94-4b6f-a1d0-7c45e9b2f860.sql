@@ -0,0 +1,58 @@
+-- =============================================
+-- Transfers between bank accounts
+-- =============================================
+
+-- A transfer is two 'transfer' rows sharing transfer_id: the 'out' leg debits
+-- the sending account and the 'in' leg credits the receiving one. Between
+-- accounts in different currencies fx_rate is the receiving currency per unit
+-- sent, so the 'in' amount is the 'out' amount times fx_rate. Transfers count
+-- towards account balances but never as income or expenses.
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('income', 'expense', 'transfer'));
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS transfer_id UUID,
+  ADD COLUMN IF NOT EXISTS transfer_direction TEXT CHECK (transfer_direction IN ('in', 'out')),
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(18,8) CHECK (fx_rate > 0);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_transfer_leg_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_transfer_leg_check
+  CHECK ((type = 'transfer') = (transfer_id IS NOT NULL AND transfer_direction IS NOT NULL));
+
+-- One leg in each direction per transfer
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_transfer_leg_key
+  ON public.transactions(transfer_id, transfer_direction)
+  WHERE transfer_id IS NOT NULL;
+
+-- The activity feed shows a transfer once, from its sending leg
+CREATE OR REPLACE FUNCTION public.log_transaction_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.type = 'transfer' AND NEW.transfer_direction = 'in' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_feed (user_id, event_type, event_data, related_table, related_id)
+  VALUES (
+    NEW.user_id,
+    CASE NEW.type
+      WHEN 'income' THEN 'income_recorded'
+      WHEN 'transfer' THEN 'transfer_recorded'
+      ELSE 'expense_recorded'
+    END,
+    jsonb_build_object(
+      'amount', NEW.amount,
+      'category', NEW.category,
+      'type', NEW.type
+    ),
+    'transactions',
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,31 @@
+-- =============================================
+-- Split transactions across several categories
+-- =============================================
+
+-- splits: the category lines of an expense that covers more than one category,
+-- empty for ordinary transactions
+--   [{"category":"Food","amount":4200},{"category":"Health","amount":1800}]
+-- A split expense has category 'Split' and its lines add up to its amount.
+-- Budgets and category breakdowns count each line under its own category.
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS splits JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Sum of the amounts of a splits array (see getSplitsTotal in src/lib/splits.ts)
+CREATE OR REPLACE FUNCTION public.transaction_splits_total(splits JSONB)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(SUM((s->>'amount')::NUMERIC), 0)
+  FROM jsonb_array_elements(splits) s;
+$$;
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_splits_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_splits_check
+  CHECK (
+    jsonb_typeof(splits) = 'array'
+    AND (
+      jsonb_array_length(splits) = 0
+      OR (type = 'expense' AND ABS(public.transaction_splits_total(splits) - amount) < 0.005)
+    )
+  );
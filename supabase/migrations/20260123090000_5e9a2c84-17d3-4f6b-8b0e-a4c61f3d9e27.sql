@@ -0,0 +1,14 @@
+-- =============================================
+-- Subscriptions: keep monthly charges on their original day
+-- =============================================
+
+-- billing_anchor_day: day of the month monthly, quarterly and yearly charges fall on.
+-- Each charge date is worked out from it rather than from the previous charge, so a
+-- subscription billed on the 31st moves to the 28th in February and back to the 31st
+-- in March. NULL falls back to the day of next_charge_date.
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS billing_anchor_day SMALLINT CHECK (billing_anchor_day BETWEEN 1 AND 31);
+
+UPDATE public.subscriptions
+SET billing_anchor_day = EXTRACT(DAY FROM next_charge_date)::SMALLINT
+WHERE billing_anchor_day IS NULL AND next_charge_date IS NOT NULL;